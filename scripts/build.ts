@@ -79,6 +79,16 @@ async function fixImports(dir: string): Promise<void> {
         return p1.endsWith('.js') ? `./tools/${p1}` : `./tools/${p1}.js`;
       });
       
+      content = content.replace(/#resources\/([^'"\s;]+)\.js/g, './resources/$1.js');
+      content = content.replace(/#resources\/([^'"\s;]+)/g, (_match: string, p1: string) => {
+        return p1.endsWith('.js') ? `./resources/${p1}` : `./resources/${p1}.js`;
+      });
+      
+      content = content.replace(/#prompts\/([^'"\s;]+)\.js/g, './prompts/$1.js');
+      content = content.replace(/#prompts\/([^'"\s;]+)/g, (_match: string, p1: string) => {
+        return p1.endsWith('.js') ? `./prompts/${p1}` : `./prompts/${p1}.js`;
+      });
+      
       content = content.replace(/#utils\/([^'"\s;]+)\.js/g, './utils/$1.js');
       content = content.replace(/#utils\/([^'"\s;]+)/g, (_match: string, p1: string) => {
         return p1.endsWith('.js') ? `./utils/${p1}` : `./utils/${p1}.js`;
@@ -96,11 +106,14 @@ async function fixImports(dir: string): Promise<void> {
       
       // Fix nested imports
       if (fullPath.includes('/scanners/') || fullPath.includes('/tools/') || fullPath.includes('/utils/') || 
-          fullPath.includes('/adapters/') || fullPath.includes('/parsers/')) {
+          fullPath.includes('/adapters/') || fullPath.includes('/parsers/') ||
+          fullPath.includes('/resources/') || fullPath.includes('/prompts/')) {
         content = content.replace(/\.\/types\.js/g, '../types.js');
         content = content.replace(/\.\/types\//g, '../types/');
         content = content.replace(/\.\/scanners\//g, '../scanners/');
         content = content.replace(/\.\/tools\//g, '../tools/');
+        content = content.replace(/\.\/resources\//g, '../resources/');
+        content = content.replace(/\.\/prompts\//g, '../prompts/');
         content = content.replace(/\.\/utils\//g, '../utils/');
         content = content.replace(/\.\/adapters\//g, '../adapters/');
         content = content.replace(/\.\/parsers\//g, '../parsers/');
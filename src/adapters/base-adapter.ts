@@ -9,6 +9,9 @@ import type { BasicPackageInfo } from '#scanners/types.js';
 import { promises as fs } from 'node:fs';
 import { join } from 'node:path';
 
+const README_FILES = ['README.md', 'readme.md', 'Readme.md', 'README', 'README.rst', 'README.txt'];
+export const MAX_README_LENGTH = 20_000;
+
 export abstract class BaseAdapter implements IContentAdapter {
   /**
    * The language this adapter handles
@@ -47,6 +50,19 @@ export abstract class BaseAdapter implements IContentAdapter {
     }
   }
 
+  /**
+   * Read the package README, truncated to keep cached content small
+   */
+  protected async readReadme(packagePath: string): Promise<string | undefined> {
+    for (const file of README_FILES) {
+      const content = await this.readPackageFile(packagePath, file);
+      if (content) {
+        return content.slice(0, MAX_README_LENGTH);
+      }
+    }
+    return undefined;
+  }
+
   /**
    * Clean up any resources used by the adapter
    */
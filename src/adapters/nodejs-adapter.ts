@@ -5,13 +5,15 @@
 
 import { BaseAdapter } from './base-adapter.js';
 import { ASTParser } from '#parsers/ast-parser.js';
+import { resolveEntryPoints, getTypesPackageName } from '#parsers/entry-points.js';
 import type { UnifiedPackageContent } from '#types/unified-schema.js';
 import type { BasicPackageInfo } from '#scanners/types.js';
 import { stat } from 'node:fs/promises';
-import { join } from 'node:path';
+import { basename, dirname, join, relative } from 'node:path';
 
 export class NodeJSAdapter extends BaseAdapter {
   private parser: ASTParser | null = null;
+  private typesParser: ASTParser | null = null;
 
   readonly language = 'javascript' as const;
 
@@ -25,20 +27,39 @@ export class NodeJSAdapter extends BaseAdapter {
     // Use metadata from packageInfo if available, otherwise read it
     const packageMetadata = packageInfo.metadata ?? (await this.readPackageMetadata(packagePath));
 
+    let content: UnifiedPackageContent;
     try {
       // Use the AST parser to extract content
-      return await this.parser.parsePackage(packagePath, packageMetadata);
+      content = await this.parser.parsePackage(packagePath, packageMetadata);
+
+      // Plain JavaScript packages: take signatures from DefinitelyTyped when installed
+      if (!content.metadata.typeSystem?.typeDefinitionFile) {
+        await this.applyTypesPackage(content, packagePath);
+      }
     } catch (error) {
       console.error(`[NodeJSAdapter] Failed to parse package at ${packagePath}:`, error);
       // Return minimal content on error
-      return this.createMinimalContent(packageMetadata);
+      content = this.createMinimalContent(packageMetadata);
+    }
+
+    const readme = await this.readReadme(packagePath);
+    if (readme) {
+      content.documentation = { readme };
     }
+
+    return content;
   }
 
   async getEntryPoints(packagePath: string, packageInfo: BasicPackageInfo): Promise<string[]> {
     const entryPoints: string[] = [];
     const packageMetadata = packageInfo.metadata ?? (await this.readPackageMetadata(packagePath));
 
+    // Prefer the files the exports map / typesVersions resolve to
+    const resolved = await resolveEntryPoints(packagePath, packageMetadata);
+    if (resolved.length > 0) {
+      return resolved.map((entry) => entry.file);
+    }
+
     // Check main entry
     const main = packageMetadata.main ?? packageMetadata.module ?? 'index.js';
     if (main) {
@@ -77,6 +98,78 @@ export class NodeJSAdapter extends BaseAdapter {
     return entryPoints;
   }
 
+  /**
+   * Replace the untyped API of a JavaScript package with the declarations of its
+   * `@types/*` package, keeping the package's own metadata and dependencies
+   */
+  private async applyTypesPackage(
+    content: UnifiedPackageContent,
+    packagePath: string,
+  ): Promise<void> {
+    const typesPath = await this.findTypesPackage(packagePath, content.metadata.name);
+    if (!typesPath) return;
+
+    const typesMetadata = await this.readPackageMetadata(typesPath);
+    this.typesParser ??= new ASTParser();
+    const typesContent = await this.typesParser.parsePackage(typesPath, typesMetadata);
+    if (!hasDeclarations(typesContent)) return;
+
+    // Keep locations relative to the package being read, like "../@types/express/index.d.ts"
+    const fromPackage = (file: string): string => relative(packagePath, join(typesPath, file));
+    const relocate = <T extends { sourceFile?: string }>(items: T[] | undefined): T[] =>
+      (items ?? []).map((item) =>
+        item.sourceFile ? { ...item, sourceFile: fromPackage(item.sourceFile) } : item,
+      );
+
+    content.components = {
+      ...content.components,
+      classes: relocate(typesContent.components.classes),
+      functions: relocate(typesContent.components.functions),
+      interfaces: relocate(typesContent.components.interfaces),
+      enums: relocate(typesContent.components.enums),
+      types: relocate(typesContent.components.types),
+      constants: relocate(typesContent.components.constants),
+    };
+    content.exports = {
+      ...typesContent.exports,
+      entryPoints: undefined, // Subpaths of the types package are not the package's own
+    };
+
+    const typesFile = typesContent.metadata.typeSystem?.typeDefinitionFile;
+    content.metadata.typeSystem = {
+      isStronglyTyped: false,
+      hasTypeAnnotations: true,
+      typeDefinitionFile: typesFile ? fromPackage(typesFile) : undefined,
+      typesPackage: {
+        name: String(typesMetadata.name ?? getTypesPackageName(content.metadata.name)),
+        version: String(typesMetadata.version ?? 'unknown'),
+      },
+    };
+  }
+
+  /**
+   * Find the installed `@types/*` package in the node_modules directories enclosing
+   * the package, nearest first
+   */
+  private async findTypesPackage(packagePath: string, packageName: string): Promise<string | null> {
+    if (packageName.startsWith('@types/')) return null;
+    const typesName = getTypesPackageName(packageName);
+
+    for (
+      let current = dirname(packagePath);
+      current !== dirname(current);
+      current = dirname(current)
+    ) {
+      if (basename(current) !== 'node_modules') continue;
+
+      const candidate = join(current, typesName);
+      if ((await this.readPackageFile(candidate, 'package.json')) !== null) {
+        return candidate;
+      }
+    }
+    return null;
+  }
+
   private async readPackageMetadata(packagePath: string): Promise<Record<string, unknown>> {
     try {
       const content = await this.readPackageFile(packagePath, 'package.json');
@@ -94,6 +187,10 @@ export class NodeJSAdapter extends BaseAdapter {
       this.parser.clear();
       this.parser = null;
     }
+    if (this.typesParser) {
+      this.typesParser.clear();
+      this.typesParser = null;
+    }
   }
 
   private createMinimalContent(packageMetadata: Record<string, unknown>): UnifiedPackageContent {
@@ -140,3 +237,10 @@ export class NodeJSAdapter extends BaseAdapter {
     };
   }
 }
+
+function hasDeclarations(content: UnifiedPackageContent): boolean {
+  const { classes, functions, interfaces, types, constants } = content.components;
+  return [classes, functions, interfaces, types, constants].some(
+    (items) => (items?.length ?? 0) > 0,
+  );
+}
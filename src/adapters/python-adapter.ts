@@ -1,23 +1,42 @@
 /**
  * Python adapter for extracting package content
- * TODO: Implement Python AST parsing similar to Node.js
+ * Uses the tree-sitter Python parser for classes, signatures, decorators and docstrings
  */
 
-import { BaseAdapter } from './base-adapter.js';
+import { BaseAdapter, MAX_README_LENGTH } from './base-adapter.js';
+import { PythonParser } from '#parsers/python-parser.js';
+import type { PythonParseResult } from '#parsers/python-parser.js';
 import type { UnifiedPackageContent } from '#types/unified-schema.js';
 import type { BasicPackageInfo } from '#scanners/types.js';
 import { stat, readFile, readdir } from 'node:fs/promises';
-import { join } from 'node:path';
+import { join, dirname, basename, relative } from 'node:path';
+
+interface StubDistribution {
+  path: string;
+  distribution?: { name: string; version: string };
+}
 
 export class PythonAdapter extends BaseAdapter {
+  private parser: PythonParser | null = null;
+
   readonly language = 'python' as const;
 
   async extractContent(
     packagePath: string,
     packageInfo: BasicPackageInfo,
   ): Promise<UnifiedPackageContent> {
-    // TODO: Implement Python AST parsing
-    // For now, return structured content based on package metadata
+    // Initialize parser if not already done
+    this.parser ??= new PythonParser();
+
+    // PEP 561: separately installed stubs (types-<name> / <name>-stubs) take precedence
+    const stubs = await this.findStubDistribution(packagePath, packageInfo.name);
+
+    let parsed: PythonParseResult | null = null;
+    try {
+      parsed = await this.parser.parsePackage(packagePath, { stubsPath: stubs?.path });
+    } catch (error) {
+      console.error(`[PythonAdapter] Failed to parse package at ${packagePath}:`, error);
+    }
 
     const content: UnifiedPackageContent = {
       metadata: {
@@ -27,23 +46,19 @@ export class PythonAdapter extends BaseAdapter {
         license: 'UNLICENSED',
         packageManager: 'pip' as const,
         mainEntry: '__init__.py',
-        typeSystem: {
-          isStronglyTyped: false,
-          hasTypeAnnotations: await this.hasTypeHints(packagePath),
-        },
+        typeSystem: await this.detectTypeSystem(packagePath, parsed, stubs),
       },
-      components: {
+      components: parsed?.components ?? {
         classes: [],
         functions: [],
         constants: [],
-        // Python can have these but we need AST parsing to extract them
         types: [],
         interfaces: undefined,
         enums: undefined,
       },
       exports: {
         default: undefined,
-        named: await this.extractPythonExports(packagePath),
+        named: parsed?.exports ?? [],
       },
       dependencies: {
         runtime: {}, // TODO: Parse from requirements.txt or pyproject.toml
@@ -58,8 +73,22 @@ export class PythonAdapter extends BaseAdapter {
       },
     };
 
-    // Try to extract basic information from __init__.py
-    await this.extractBasicPythonInfo(packagePath, content);
+    // Summary and long description live in the distribution's METADATA file
+    const distMetadata = await this.readDistInfoMetadata(packagePath, packageInfo.name);
+    if (distMetadata) {
+      content.metadata.description = /^Summary:\s*(.+)$/m.exec(distMetadata)?.[1]?.trim() ?? '';
+    }
+    const longDescription =
+      distMetadata
+        ?.split(/\r?\n\r?\n/)
+        .slice(1)
+        .join('\n\n')
+        .trim() ?? '';
+    const readme =
+      longDescription.length > 0 ? longDescription : await this.readReadme(packagePath);
+    if (readme) {
+      content.documentation = { readme: readme.slice(0, MAX_README_LENGTH) };
+    }
 
     return content;
   }
@@ -104,104 +133,131 @@ export class PythonAdapter extends BaseAdapter {
   }
 
   cleanup(): void {
-    // Python adapter doesn't hold resources currently
+    if (this.parser) {
+      this.parser.clear();
+      this.parser = null;
+    }
   }
 
-  private async hasTypeHints(packagePath: string): Promise<boolean> {
-    try {
-      // Check if package has .pyi stub files or uses type hints
-      const files = await readdir(packagePath);
-      return files.some((f) => f.endsWith('.pyi'));
-    } catch {
-      return false;
+  /**
+   * Derive typing information from stubs, the PEP 561 py.typed marker and inline annotations
+   */
+  private async detectTypeSystem(
+    packagePath: string,
+    parsed: PythonParseResult | null,
+    stubs: StubDistribution | null,
+  ): Promise<NonNullable<UnifiedPackageContent['metadata']['typeSystem']>> {
+    const isPyTyped = await this.isFile(join(packagePath, 'py.typed'));
+
+    let typeDefinitionFile: string | undefined;
+    if (stubs && (await this.isFile(join(stubs.path, '__init__.pyi')))) {
+      typeDefinitionFile = relative(packagePath, join(stubs.path, '__init__.pyi'));
+    } else if (await this.isFile(join(packagePath, '__init__.pyi'))) {
+      typeDefinitionFile = '__init__.pyi';
+    } else if (isPyTyped) {
+      typeDefinitionFile = 'py.typed';
     }
+
+    return {
+      isStronglyTyped: false,
+      hasTypeAnnotations:
+        isPyTyped ||
+        stubs !== null ||
+        (parsed?.stubModules ?? 0) > 0 ||
+        (parsed?.hasTypeAnnotations ?? false),
+      typeDefinitionFile,
+      typesPackage: stubs?.distribution,
+    };
   }
 
-  private async extractPythonExports(packagePath: string): Promise<string[]> {
-    const exports: string[] = [];
+  /**
+   * Find a stub-only package (<name>-stubs) next to the package and the distribution that
+   * installed it, e.g. types-requests or pandas-stubs
+   */
+  private async findStubDistribution(
+    packagePath: string,
+    packageName: string,
+  ): Promise<StubDistribution | null> {
+    const sitePackages = dirname(packagePath);
+    const importName = basename(packagePath).replace(/\.py$/, '');
+    const stubsPath = join(sitePackages, `${importName}-stubs`);
 
     try {
-      const initPath = join(packagePath, '__init__.py');
-      const content = await readFile(initPath, 'utf-8');
-
-      // Basic regex to find __all__ exports
-      const allMatch = /__all__\s*=\s*\[(.*?)]/s.exec(content);
-      if (allMatch?.[1]) {
-        const exportsList = allMatch[1];
-        const names = exportsList.match(/['"](\w+)['"]/g);
-        if (names) {
-          exports.push(...names.map((n) => n.replace(/['"]/g, '')));
-        }
-      }
-
-      // Also look for direct exports (from .module import name)
-      const fromImports = content.match(/from\s+\.[\w.]+\s+import\s+(\w+(?:\s*,\s*\w+)*)/g);
-      if (fromImports) {
-        for (const imp of fromImports) {
-          const names = /import\s+(.+)$/.exec(imp)?.[1];
-          if (names) {
-            exports.push(...names.split(',').map((n) => n.trim()));
-          }
-        }
+      if (!(await stat(stubsPath)).isDirectory()) {
+        return null;
       }
     } catch {
-      // If we can't read __init__.py, no exports
+      return null;
     }
 
-    return [...new Set(exports)]; // Remove duplicates
+    const candidates = [importName, packageName].flatMap((name) => [
+      `types-${name}`,
+      `${name}-stubs`,
+    ]);
+    const distInfo = await this.findDistInfo(sitePackages, candidates);
+    if (!distInfo) {
+      return { path: stubsPath };
+    }
+
+    // Prefer the declared name (dist-info directory names are normalized)
+    const metadata = await readFile(join(sitePackages, distInfo, 'METADATA'), 'utf-8').catch(
+      () => '',
+    );
+    const [, dirName = '', dirVersion = ''] = /^(.+)-([^-]+)\.dist-info$/.exec(distInfo) ?? [];
+    return {
+      path: stubsPath,
+      distribution: {
+        name: /^Name:\s*(.+)$/m.exec(metadata)?.[1]?.trim() ?? dirName,
+        version: /^Version:\s*(.+)$/m.exec(metadata)?.[1]?.trim() ?? dirVersion,
+      },
+    };
   }
 
-  private async extractBasicPythonInfo(
-    packagePath: string,
-    content: UnifiedPackageContent,
-  ): Promise<void> {
+  /**
+   * Find the "<name>-<version>.dist-info" directory for any of the given distribution names
+   */
+  private async findDistInfo(sitePackages: string, names: string[]): Promise<string | null> {
+    const normalize = (name: string): string => name.toLowerCase().replace(/[-_.]+/g, '_');
+    const targets = new Set(names.map(normalize));
+
     try {
-      const initPath = join(packagePath, '__init__.py');
-      const initContent = await readFile(initPath, 'utf-8');
-
-      // Extract classes (basic regex approach until we have proper AST parsing)
-      const classMatches = initContent.match(/^class\s+(\w+)/gm);
-      if (classMatches) {
-        for (const match of classMatches) {
-          const className = match.replace(/^class\s+/, '');
-          content.components.classes.push({
-            name: className,
-            visibility: 'public',
-            methods: [],
-            properties: [],
-          });
-        }
-      }
+      const entries = await readdir(sitePackages);
+      // Versions never contain dashes, so everything before the last one is the name
+      return (
+        entries.find(
+          (entry) =>
+            entry.endsWith('.dist-info') &&
+            targets.has(normalize(entry.replace(/-[^-]+\.dist-info$/, ''))),
+        ) ?? null
+      );
+    } catch {
+      return null;
+    }
+  }
 
-      // Extract functions
-      const funcMatches = initContent.match(/^def\s+(\w+)/gm);
-      if (funcMatches) {
-        for (const match of funcMatches) {
-          const funcName = match.replace(/^def\s+/, '');
-          if (!funcName.startsWith('_') || funcName.startsWith('__')) {
-            content.components.functions.push({
-              name: funcName,
-              parameters: [],
-              returns: { name: 'Any' },
-              isExported: true,
-            });
-          }
-        }
-      }
+  private async isFile(path: string): Promise<boolean> {
+    try {
+      return (await stat(path)).isFile();
+    } catch {
+      return false;
+    }
+  }
 
-      // Extract constants
-      const constMatches = initContent.match(/^[A-Z_]+\s*=/gm);
-      if (constMatches) {
-        for (const match of constMatches) {
-          const constName = match.replace(/\s*=.*/, '');
-          content.components.constants.push({
-            name: constName,
-            isExported: true,
-          });
-        }
-      }
+  /**
+   * Read METADATA from the .dist-info directory next to a site-packages package
+   */
+  private async readDistInfoMetadata(
+    packagePath: string,
+    packageName: string,
+  ): Promise<string | null> {
+    const distInfo = await this.findDistInfo(dirname(packagePath), [packageName]);
+    if (!distInfo) {
+      return null;
+    }
+    try {
+      return await readFile(join(dirname(packagePath), distInfo, 'METADATA'), 'utf-8');
     } catch {
-      // If we can't read __init__.py, leave components empty
+      return null;
     }
   }
 }
@@ -50,7 +50,7 @@ interface PackageMetadata {
 /**
  * Parsed requirement entry from requirements.txt
  */
-interface RequirementEntry {
+export interface RequirementEntry {
   /** Package name */
   name: string;
   /** Version specification (e.g., '>=1.0.0', '==2.1.0') */
@@ -801,9 +801,9 @@ export class PipAdapter extends BasePackageManagerAdapter {
    * @returns Array of parsed requirement entries
    * @throws {PackageManagerError} If file cannot be read
    * @see https://pip.pypa.io/en/stable/reference/requirements-file-format/
-   * @internal
+   * @internal Exposed for the project dependencies of scan-packages
    */
-  private async parseRequirementsFile(filePath: string): Promise<RequirementEntry[]> {
+  public async parseRequirementsFile(filePath: string): Promise<RequirementEntry[]> {
     const content = await readFile(filePath, 'utf8');
     const lines = content.split('\n');
     const requirements: RequirementEntry[] = [];
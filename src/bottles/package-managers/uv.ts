@@ -57,10 +57,15 @@ interface UVProjectConfig {
   uvIndex?: Record<string, unknown>;
 }
 
+export interface UVLockDependency {
+  name: string;
+  marker?: string;
+}
+
 /**
  * UV lock file structure (simplified)
  */
-interface UVLockFile {
+export interface UVLockFile {
   version: number;
   requires_python?: string;
   resolution_markers?: string[];
@@ -72,11 +77,16 @@ interface UVLockFile {
     source?: {
       registry?: string;
       url?: string;
+      editable?: string;
+      virtual?: string; // Workspace members that are not packages themselves
+    };
+    dependencies?: UVLockDependency[];
+    optional_dependencies?: Record<string, UVLockDependency[]>; // Extras
+    dev_dependencies?: Record<string, UVLockDependency[]>; // Dependency groups
+    sdist?: {
+      url?: string;
+      hash?: string;
     };
-    dependencies?: Array<{
-      name: string;
-      marker?: string;
-    }>;
     requires_dist?: string[];
     requires_python?: string;
     summary?: string;
@@ -821,12 +831,7 @@ export class UVAdapter extends BasePackageManagerAdapter {
           if (typeof pkg === 'object' && pkg !== null && 'name' in pkg && 'version' in pkg) {
             const pkgObj = pkg as Record<string, unknown>;
             if (typeof pkgObj.name === 'string' && typeof pkgObj.version === 'string') {
-              const packageEntry: {
-                name: string;
-                version: string;
-                source?: { registry?: string; url?: string; editable?: string };
-                dependencies?: Array<{ name: string; marker?: string }>;
-              } = {
+              const packageEntry: NonNullable<UVLockFile['package']>[number] = {
                 name: pkgObj.name,
                 version: pkgObj.version,
               };
@@ -838,50 +843,55 @@ export class UVAdapter extends BasePackageManagerAdapter {
                 pkgObj.source !== null
               ) {
                 const src = pkgObj.source as Record<string, unknown>;
-                const source: { registry?: string; url?: string; editable?: string } = {};
+                const source: NonNullable<typeof packageEntry.source> = {};
                 if (typeof src.registry === 'string') source.registry = src.registry;
                 if (typeof src.url === 'string') source.url = src.url;
                 if (typeof src.editable === 'string') source.editable = src.editable;
-                if (source.registry || source.url || source.editable) {
+                if (typeof src.virtual === 'string') source.virtual = src.virtual;
+                if (source.registry || source.url || source.editable || source.virtual) {
                   packageEntry.source = source;
                 }
               }
 
               // Add dependencies if present and valid
-              if ('dependencies' in pkgObj && Array.isArray(pkgObj.dependencies)) {
-                const deps: Array<{ name: string; marker?: string }> = [];
-                // Handle mixed-type array (string | object dependencies)
-                type Dependency = string | { name: string; marker?: string };
-                const dependencies = pkgObj.dependencies as Dependency[];
-                for (const dep of dependencies) {
-                  // Use explicit type check to handle mixed types
-                  const depType = typeof dep;
-                  if (depType === 'string') {
-                    // Simple string dependency
-                    deps.push({ name: dep as string });
-                  } else if (
-                    depType === 'object' &&
-                    dep !== null &&
-                    dep !== undefined &&
-                    typeof dep === 'object' &&
-                    'name' in dep
-                  ) {
-                    // Object with name and optional marker
-                    const depObj = dep as Record<string, unknown>;
-                    if (typeof depObj.name === 'string') {
-                      const depEntry: { name: string; marker?: string } = { name: depObj.name };
-                      if (typeof depObj.marker === 'string') {
-                        depEntry.marker = depObj.marker;
-                      }
-                      deps.push(depEntry);
-                    }
-                  }
-                }
-                if (deps.length > 0) {
-                  packageEntry.dependencies = deps;
+              const dependencies = this.parseUVLockDependencies(pkgObj.dependencies);
+              if (dependencies.length > 0) {
+                packageEntry.dependencies = dependencies;
+              }
+
+              // Extras and dependency groups of the project itself
+              for (const [field, key] of [
+                ['optional-dependencies', 'optional_dependencies'],
+                ['dev-dependencies', 'dev_dependencies'],
+              ] as const) {
+                const table = pkgObj[field];
+                if (typeof table === 'object' && table !== null && !Array.isArray(table)) {
+                  packageEntry[key] = Object.fromEntries(
+                    Object.entries(table).map(([group, deps]) => [
+                      group,
+                      this.parseUVLockDependencies(deps),
+                    ]),
+                  );
                 }
               }
 
+              // Distribution hashes
+              if (typeof pkgObj.sdist === 'object' && pkgObj.sdist !== null) {
+                const sdist = pkgObj.sdist as Record<string, unknown>;
+                packageEntry.sdist = {
+                  ...(typeof sdist.url === 'string' && { url: sdist.url }),
+                  ...(typeof sdist.hash === 'string' && { hash: sdist.hash }),
+                };
+              }
+              if (Array.isArray(pkgObj.wheels)) {
+                packageEntry.wheel = (pkgObj.wheels as Array<Record<string, unknown>>).flatMap(
+                  (wheel) =>
+                    typeof wheel.url === 'string' && typeof wheel.hash === 'string'
+                      ? [{ url: wheel.url, hash: wheel.hash }]
+                      : [],
+                );
+              }
+
               lockFile.package?.push(packageEntry);
             }
           }
@@ -913,6 +923,31 @@ export class UVAdapter extends BasePackageManagerAdapter {
     }
   }
 
+  /**
+   * Dependency entries of a uv.lock package: names, or tables with a name and a marker
+   */
+  private parseUVLockDependencies(value: unknown): UVLockDependency[] {
+    if (!Array.isArray(value)) {
+      return [];
+    }
+
+    const deps: UVLockDependency[] = [];
+    for (const dep of value as unknown[]) {
+      if (typeof dep === 'string') {
+        deps.push({ name: dep });
+      } else if (typeof dep === 'object' && dep !== null && 'name' in dep) {
+        const depObj = dep as Record<string, unknown>;
+        if (typeof depObj.name === 'string') {
+          deps.push({
+            name: depObj.name,
+            ...(typeof depObj.marker === 'string' && { marker: depObj.marker }),
+          });
+        }
+      }
+    }
+    return deps;
+  }
+
   /**
    * Parse pyproject.toml content using smol-toml
    * @internal Exposed for testing
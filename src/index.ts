@@ -1,5 +1,5 @@
 #!/usr/bin/env node
-import { startServer } from '#server';
+import { startServer, startHttpServer } from '#server';
 import { readFileSync } from 'node:fs';
 import { join, dirname } from 'node:path';
 import { fileURLToPath } from 'node:url';
@@ -33,6 +33,10 @@ mcp-pkg-local - MCP server for reading local package source code
 
 Usage:
   mcp-pkg-local              Start the MCP server
+  mcp-pkg-local --no-watch   Start without watching installed packages for changes
+  mcp-pkg-local --http <port> [--host <host>] [--sse]
+                             Serve over Streamable HTTP at http://127.0.0.1:<port>/mcp
+                             (--sse also serves the older HTTP+SSE transport at /sse)
   mcp-pkg-local --version    Show version
   mcp-pkg-local --help       Show this help message
 
@@ -52,8 +56,29 @@ MCP Client Configuration:
   process.exit(0);
 }
 
+function getOption(name: string): string | undefined {
+  const index = args.indexOf(name);
+  return index === -1 ? undefined : args[index + 1];
+}
+
 // Start the server
-startServer().catch((error) => {
+const watch = !args.includes('--no-watch');
+const httpPort = getOption('--http');
+if (args.includes('--http') && !/^\d+$/.test(httpPort ?? '')) {
+  console.error(`Invalid port for --http: ${httpPort ?? '(missing)'}`);
+  process.exit(1);
+}
+
+const started = httpPort
+  ? startHttpServer({
+      port: Number(httpPort),
+      host: getOption('--host'),
+      sse: args.includes('--sse'),
+      watch,
+    })
+  : startServer({ watch });
+
+started.catch((error) => {
   console.error('Failed to start server:', error);
   process.exit(1);
 });
@@ -5,6 +5,7 @@
 
 import { Project, Node, SyntaxKind } from 'ts-morph';
 import type {
+  SourceFile,
   ClassDeclaration,
   FunctionDeclaration,
   InterfaceDeclaration,
@@ -26,10 +27,38 @@ import type {
   MethodInfo,
   PropertyInfo,
   ParameterInfo,
+  EntryPointExports,
+  ExportedSymbol,
 } from '#types/unified-schema.js';
-import { join } from 'node:path';
+import { resolveEntryPoints, resolveModuleFile } from '#parsers/entry-points.js';
+import type { PackageEntryPoint } from '#parsers/entry-points.js';
+import { join, relative, dirname } from 'node:path';
 import { stat } from 'node:fs/promises';
 
+const PARSE_TIMEOUT = 5000; // 5 second timeout
+const MAX_FILE_SIZE = 100_000; // 100KB
+const MAX_PATTERN_FILES = 20;
+const MAX_ENTRY_POINT_FILES = 50;
+const MAX_TYPE_LENGTH = 200; // Declaration files carry fully expanded inferred types
+
+/**
+ * Truncate long type text so a single signature cannot dominate the output
+ */
+function truncateType(type: string): string {
+  if (type.length <= MAX_TYPE_LENGTH) return type;
+  return `${type.replace(/\s+/g, ' ').substring(0, MAX_TYPE_LENGTH)}...`;
+}
+
+/**
+ * A place where project code imports a package
+ */
+export interface ImportSite {
+  file: string; // Relative to the project root
+  line: number;
+  specifier: string; // Module specifier, e.g. "pkg" or "pkg/server"
+  names: string[]; // Imported bindings; "default" and "*" for default and namespace imports
+}
+
 export class ASTParser {
   private project: Project;
 
@@ -60,8 +89,136 @@ export class ASTParser {
     packageJson: Record<string, unknown>,
   ): Promise<UnifiedPackageContent> {
     const startTime = Date.now();
-    const timeout = 5000; // 5 second timeout
 
+    // Start from the declared public surface; fall back to source globs for packages
+    // whose entry files cannot be resolved or are too large to parse
+    const entryPoints = await resolveEntryPoints(packagePath, packageJson);
+    const entryFilesAdded = await this.addEntryPointFiles(packagePath, entryPoints, startTime);
+    if (entryFilesAdded === 0) {
+      await this.addFilesByPattern(packagePath, startTime);
+    }
+
+    if (Date.now() - startTime > PARSE_TIMEOUT) {
+      console.warn(`[AST] Timeout reached after ${PARSE_TIMEOUT}ms, stopping parse`);
+    }
+
+    // Extract components from all source files
+    const components = this.extractComponents(packagePath);
+
+    // Extract exports information
+    const exports = this.extractExports(packagePath, entryPoints);
+
+    // Only what the entry points expose is public; everything else is an internal helper
+    this.markPublicApi(components, exports.entryPoints ?? []);
+
+    // Build unified content
+    return {
+      metadata: {
+        name: String(packageJson.name ?? 'unknown'),
+        version: String(packageJson.version ?? '0.0.0'),
+        description: String(packageJson.description ?? ''),
+        license: String(packageJson.license ?? 'UNLICENSED'),
+        packageManager: 'npm',
+        mainEntry: String(packageJson.main ?? packageJson.module ?? 'index.js'),
+        typeSystem: {
+          isStronglyTyped: false,
+          hasTypeAnnotations: this.hasTypeScript(),
+          typeDefinitionFile:
+            String(packageJson.types ?? packageJson.typings ?? '') ||
+            entryPoints.find((entry) => entry.subpath === '.' && /\.d\.[mc]?ts$/.test(entry.file))
+              ?.file,
+        },
+      },
+      components,
+      exports,
+      dependencies: {
+        runtime: (packageJson.dependencies ?? {}) as Record<string, string>,
+        development: (packageJson.devDependencies ?? {}) as Record<string, string>,
+        peer: (packageJson.peerDependencies ?? {}) as Record<string, string> | undefined,
+        optional: (packageJson.optionalDependencies ?? {}) as Record<string, string> | undefined,
+      },
+      configuration: {
+        environment: [],
+        commands: (packageJson.scripts ?? {}) as Record<string, string>,
+        buildSystem: 'npm',
+      },
+    };
+  }
+
+  /**
+   * Add entry point files and every package-local module they import or re-export,
+   * breadth-first so the entry files themselves always fit within the file limit
+   * Returns the number of files added
+   */
+  private async addEntryPointFiles(
+    packagePath: string,
+    entryPoints: PackageEntryPoint[],
+    startTime: number,
+  ): Promise<number> {
+    const queue = entryPoints.map((entry) => join(packagePath, entry.file));
+    const visited = new Set(queue);
+    let filesAdded = 0;
+
+    while (queue.length > 0) {
+      if (filesAdded >= MAX_ENTRY_POINT_FILES || Date.now() - startTime > PARSE_TIMEOUT) break;
+
+      const filePath = queue.shift();
+      if (!filePath) break;
+
+      try {
+        if ((await stat(filePath)).size > MAX_FILE_SIZE) continue;
+      } catch {
+        continue;
+      }
+
+      const sourceFile = this.project.addSourceFileAtPath(filePath);
+      filesAdded++;
+
+      for (const specifier of this.getRelativeModuleSpecifiers(sourceFile)) {
+        const resolved = await resolveModuleFile(packagePath, dirname(filePath), specifier);
+        if (resolved && !visited.has(resolved)) {
+          visited.add(resolved);
+          queue.push(resolved);
+        }
+      }
+    }
+
+    return filesAdded;
+  }
+
+  /**
+   * Relative specifiers of imports, re-exports, require() calls and triple-slash references
+   */
+  private getRelativeModuleSpecifiers(sourceFile: SourceFile): string[] {
+    const specifiers = [
+      ...sourceFile.getImportDeclarations().map((decl) => decl.getModuleSpecifierValue()),
+      ...sourceFile.getExportDeclarations().map((decl) => decl.getModuleSpecifierValue()),
+      // Path references are file-relative even without a leading "./"
+      ...sourceFile
+        .getPathReferenceDirectives()
+        .map((ref) => ref.getFileName().replace(/^(?![./])/, './')),
+    ];
+
+    for (const call of sourceFile.getDescendantsOfKind(SyntaxKind.CallExpression)) {
+      const callee = call.getExpression();
+      const isRequire = Node.isIdentifier(callee) && callee.getText() === 'require';
+      if (!isRequire && callee.getKind() !== SyntaxKind.ImportKeyword) continue;
+
+      const [argument] = call.getArguments();
+      if (argument && Node.isStringLiteral(argument)) {
+        specifiers.push(argument.getLiteralValue());
+      }
+    }
+
+    return specifiers.filter(
+      (specifier): specifier is string => specifier?.startsWith('.') ?? false,
+    );
+  }
+
+  /**
+   * Discover files with fixed source globs (packages without resolvable entry points)
+   */
+  private async addFilesByPattern(packagePath: string, startTime: number): Promise<void> {
     // Use ts-morph's efficient file discovery and parsing in one step
     try {
       // Define patterns for source file discovery
@@ -77,18 +234,17 @@ export class ASTParser {
       ];
 
       let filesAdded = 0;
-      const maxFiles = 20;
 
       // Use ts-morph's optimized file discovery and add directly to main project
       for (const pattern of patterns) {
-        if (filesAdded >= maxFiles || Date.now() - startTime > timeout) break;
+        if (filesAdded >= MAX_PATTERN_FILES || Date.now() - startTime > PARSE_TIMEOUT) break;
 
         try {
           const newFiles = this.project.addSourceFilesAtPaths(pattern);
 
           // Filter by file size and count
           for (const sourceFile of newFiles) {
-            if (filesAdded >= maxFiles || Date.now() - startTime > timeout) {
+            if (filesAdded >= MAX_PATTERN_FILES || Date.now() - startTime > PARSE_TIMEOUT) {
               sourceFile.delete(); // Remove from project if over limits
               break;
             }
@@ -97,8 +253,7 @@ export class ASTParser {
               const filePath = sourceFile.getFilePath();
               const stats = await stat(filePath);
 
-              if (stats.size > 100_000) {
-                // 100KB limit
+              if (stats.size > MAX_FILE_SIZE) {
                 sourceFile.delete(); // Remove large files
               } else {
                 filesAdded++;
@@ -111,56 +266,16 @@ export class ASTParser {
           // Pattern might not match anything, continue
         }
       }
-
-      if (Date.now() - startTime > timeout) {
-        console.warn(`[AST] Timeout reached after ${timeout}ms, stopping parse`);
-      }
     } catch (error) {
       // If pattern-based discovery fails, skip parsing
       console.warn(`[AST] File discovery failed:`, error);
     }
-
-    // Extract components from all source files
-    const components = this.extractComponents();
-
-    // Extract exports information
-    const exports = this.extractExports(packageJson);
-
-    // Build unified content
-    return {
-      metadata: {
-        name: String(packageJson.name ?? 'unknown'),
-        version: String(packageJson.version ?? '0.0.0'),
-        description: String(packageJson.description ?? ''),
-        license: String(packageJson.license ?? 'UNLICENSED'),
-        packageManager: 'npm',
-        mainEntry: String(packageJson.main ?? packageJson.module ?? 'index.js'),
-        typeSystem: {
-          isStronglyTyped: false,
-          hasTypeAnnotations: this.hasTypeScript(),
-          typeDefinitionFile: String(packageJson.types ?? packageJson.typings ?? '') || undefined,
-        },
-      },
-      components,
-      exports,
-      dependencies: {
-        runtime: (packageJson.dependencies ?? {}) as Record<string, string>,
-        development: (packageJson.devDependencies ?? {}) as Record<string, string>,
-        peer: (packageJson.peerDependencies ?? {}) as Record<string, string> | undefined,
-        optional: (packageJson.optionalDependencies ?? {}) as Record<string, string> | undefined,
-      },
-      configuration: {
-        environment: [],
-        commands: (packageJson.scripts ?? {}) as Record<string, string>,
-        buildSystem: 'npm',
-      },
-    };
   }
 
   /**
    * Extract all components from parsed source files
    */
-  private extractComponents(): UnifiedPackageContent['components'] {
+  private extractComponents(packagePath: string): UnifiedPackageContent['components'] {
     const classes: ComponentClass[] = [];
     const functions: ComponentFunction[] = [];
     const interfaces: ComponentInterface[] = [];
@@ -169,43 +284,46 @@ export class ASTParser {
     const constants: ComponentConstant[] = [];
 
     for (const sourceFile of this.project.getSourceFiles()) {
+      // Record where each component is declared so symbols can be located later
+      const filePath = relative(packagePath, sourceFile.getFilePath());
+
       // Extract classes
       for (const classDecl of sourceFile.getClasses()) {
         const extracted = this.extractClass(classDecl);
-        if (extracted) classes.push(extracted);
+        if (extracted) classes.push({ ...extracted, sourceFile: filePath });
       }
 
       // Extract functions (declarations and expressions)
       for (const funcDecl of sourceFile.getFunctions()) {
         const extracted = this.extractFunction(funcDecl);
-        if (extracted) functions.push(extracted);
+        if (extracted) functions.push({ ...extracted, sourceFile: filePath });
       }
 
       // Extract CommonJS exports using AST
-      this.extractCommonJSExports(sourceFile, functions, classes);
+      this.extractCommonJSExports(sourceFile, filePath, functions, classes);
 
       // Extract interfaces
       for (const interfaceDecl of sourceFile.getInterfaces()) {
         const extracted = this.extractInterface(interfaceDecl);
-        if (extracted) interfaces.push(extracted);
+        if (extracted) interfaces.push({ ...extracted, sourceFile: filePath });
       }
 
       // Extract enums
       for (const enumDecl of sourceFile.getEnums()) {
         const extracted = this.extractEnum(enumDecl);
-        if (extracted) enums.push(extracted);
+        if (extracted) enums.push({ ...extracted, sourceFile: filePath });
       }
 
       // Extract type aliases
       for (const typeAlias of sourceFile.getTypeAliases()) {
         const extracted = this.extractTypeAlias(typeAlias);
-        if (extracted) types.push(extracted);
+        if (extracted) types.push({ ...extracted, sourceFile: filePath });
       }
 
       // Extract constants/variables
       for (const varStatement of sourceFile.getVariableStatements()) {
         const extracted = this.extractConstants(varStatement);
-        constants.push(...extracted);
+        constants.push(...extracted.map((constant) => ({ ...constant, sourceFile: filePath })));
       }
     }
 
@@ -264,7 +382,9 @@ export class ASTParser {
 
     // Get return type
     const returnTypeNode = method.getReturnTypeNode();
-    const returnType = returnTypeNode ? returnTypeNode.getText() : method.getReturnType().getText();
+    const returnType = truncateType(
+      returnTypeNode ? returnTypeNode.getText() : method.getReturnType().getText(),
+    );
 
     return {
       name,
@@ -287,7 +407,7 @@ export class ASTParser {
   private extractProperty(prop: PropertyDeclaration): PropertyInfo {
     const name = prop.getName();
     const typeNode = prop.getTypeNode();
-    const type = typeNode ? typeNode.getText() : prop.getType().getText();
+    const type = truncateType(typeNode ? typeNode.getText() : prop.getType().getText());
 
     return {
       name,
@@ -312,9 +432,9 @@ export class ASTParser {
 
     const parameters = funcDecl.getParameters().map((p) => this.extractParameter(p));
     const returnTypeNode = funcDecl.getReturnTypeNode();
-    const returnType = returnTypeNode
-      ? returnTypeNode.getText()
-      : funcDecl.getReturnType().getText();
+    const returnType = truncateType(
+      returnTypeNode ? returnTypeNode.getText() : funcDecl.getReturnType().getText(),
+    );
 
     return {
       name,
@@ -346,7 +466,7 @@ export class ASTParser {
         const name = member.getName();
         const parameters = member.getParameters().map((p) => this.extractParameter(p));
         const returnTypeNode = member.getReturnTypeNode();
-        const returnType = returnTypeNode ? returnTypeNode.getText() : 'void';
+        const returnType = returnTypeNode ? truncateType(returnTypeNode.getText()) : 'void';
 
         methods.push({
           name,
@@ -357,7 +477,7 @@ export class ASTParser {
       } else if (Node.isPropertySignature(member)) {
         const name = member.getName();
         const typeNode = member.getTypeNode();
-        const type = typeNode ? typeNode.getText() : 'any';
+        const type = typeNode ? truncateType(typeNode.getText()) : 'any';
 
         properties.push({
           name,
@@ -373,6 +493,7 @@ export class ASTParser {
       extends: extendsInterfaces.length > 0 ? extendsInterfaces : undefined,
       methods,
       properties,
+      isExported: interfaceDecl.isExported() || interfaceDecl.isDefaultExport(),
     };
   }
 
@@ -400,7 +521,7 @@ export class ASTParser {
     if (!name) return null;
 
     const typeNode = typeAlias.getTypeNode();
-    const definition = typeNode ? typeNode.getText() : 'unknown';
+    const definition = typeNode ? truncateType(typeNode.getText()) : 'unknown';
 
     return {
       name,
@@ -418,7 +539,7 @@ export class ASTParser {
     for (const decl of varStatement.getDeclarations()) {
       const name = decl.getName();
       const typeNode = decl.getTypeNode();
-      const type = typeNode ? typeNode.getText() : undefined;
+      const type = typeNode ? truncateType(typeNode.getText()) : undefined;
       const value = decl.getInitializer()?.getText();
 
       constants.push({
@@ -438,7 +559,7 @@ export class ASTParser {
   private extractParameter(param: ParameterDeclaration): ParameterInfo {
     const name = param.getName();
     const typeNode = param.getTypeNode();
-    const type = typeNode ? typeNode.getText() : param.getType().getText();
+    const type = truncateType(typeNode ? typeNode.getText() : param.getType().getText());
     const defaultValue = param.getInitializer()?.getText();
 
     return {
@@ -482,7 +603,8 @@ export class ASTParser {
    * Extract CommonJS exports using proper AST parsing
    */
   private extractCommonJSExports(
-    sourceFile: ReturnType<Project['getSourceFiles']>[0],
+    sourceFile: SourceFile,
+    filePath: string,
     functions: ComponentFunction[],
     _classes: ComponentClass[],
   ): void {
@@ -516,81 +638,174 @@ export class ASTParser {
         parameters,
         returns: { name: 'any' },
         isExported: true,
+        sourceFile: filePath,
       });
     }
   }
 
   /**
-   * Extract exports information (ES6 and CommonJS)
+   * Extract exports information (ES6 and CommonJS), overall and per entry point
+   * With resolved entry points the public API is what they expose, following re-exports;
+   * otherwise every parsed file contributes its exports
    */
-  private extractExports(_packageJson: Record<string, unknown>): {
-    default?: string;
-    named: string[];
-  } {
+  private extractExports(
+    packagePath: string,
+    entryPoints: PackageEntryPoint[],
+  ): UnifiedPackageContent['exports'] {
+    const resolvedEntryPoints: EntryPointExports[] = [];
+    for (const entry of entryPoints) {
+      const sourceFile = this.project.getSourceFile(join(packagePath, entry.file));
+      if (!sourceFile) continue;
+
+      const fileExports = this.extractFileExports(sourceFile, packagePath);
+      resolvedEntryPoints.push({
+        name: entry.name,
+        file: entry.file,
+        named: fileExports.named,
+        default: fileExports.default,
+        symbols: fileExports.symbols.length > 0 ? fileExports.symbols : undefined,
+      });
+    }
+
+    const sources: Array<{ default?: string; named: string[] }> =
+      resolvedEntryPoints.length > 0
+        ? resolvedEntryPoints
+        : this.project
+            .getSourceFiles()
+            .map((sourceFile) => this.extractFileExports(sourceFile, packagePath));
+
     const named: string[] = [];
     let defaultExport: string | undefined = undefined;
+    for (const fileExports of sources) {
+      named.push(...fileExports.named);
+      if (fileExports.default) {
+        // ES default exports are named after their declaration; CommonJS only marks one
+        defaultExport =
+          fileExports.default === 'default' ? (defaultExport ?? 'default') : fileExports.default;
+      }
+    }
 
-    // Get named exports from all source files
-    for (const sourceFile of this.project.getSourceFiles()) {
-      // ES6 exports
-      const exportedDecls = sourceFile.getExportedDeclarations();
-
-      for (const [name, decls] of exportedDecls) {
-        if (name === 'default') {
-          // Handle default export
-          if (decls.length > 0) {
-            const decl = decls[0];
-            if (Node.isClassDeclaration(decl)) {
-              defaultExport = decl.getName() ?? 'default';
-            } else if (Node.isFunctionDeclaration(decl)) {
-              defaultExport = decl.getName() ?? 'default';
-            } else {
-              defaultExport = 'default';
-            }
+    return {
+      default: defaultExport,
+      named: [...new Set(named)], // Remove duplicates
+      entryPoints: resolvedEntryPoints.length > 0 ? resolvedEntryPoints : undefined,
+    };
+  }
+
+  /**
+   * Flag components by whether an entry point exposes them, directly or through re-exports
+   * Leaves everything untouched when no ES export could be traced (e.g. CommonJS packages)
+   */
+  private markPublicApi(
+    components: UnifiedPackageContent['components'],
+    entryPoints: EntryPointExports[],
+  ): void {
+    const publicSymbols = new Set(
+      entryPoints.flatMap((entry) =>
+        (entry.symbols ?? []).map((symbol) => `${symbol.sourceFile}#${symbol.originalName}`),
+      ),
+    );
+    if (publicSymbols.size === 0) return;
+
+    const isPublic = (component: { name: string; sourceFile?: string }): boolean =>
+      publicSymbols.has(`${component.sourceFile}#${component.name}`);
+
+    for (const cls of components.classes ?? []) {
+      cls.visibility = isPublic(cls) ? 'public' : 'private';
+    }
+    for (const component of [
+      ...components.functions,
+      ...(components.interfaces ?? []),
+      ...(components.enums ?? []),
+      ...(components.types ?? []),
+      ...(components.constants ?? []),
+    ]) {
+      component.isExported = isPublic(component);
+    }
+  }
+
+  /**
+   * Names a single module exports, with the declaration each one resolves to
+   * The type checker follows `export *`, `export { x as y } from` and barrel files
+   */
+  private extractFileExports(
+    sourceFile: SourceFile,
+    packagePath: string,
+  ): { default?: string; named: string[]; symbols: ExportedSymbol[] } {
+    const named: string[] = [];
+    const symbols: ExportedSymbol[] = [];
+    let defaultExport: string | undefined = undefined;
+
+    // ES6 exports
+    const exportedDecls = sourceFile.getExportedDeclarations();
+
+    for (const [name, decls] of exportedDecls) {
+      const origin = decls[0];
+      if (origin) {
+        symbols.push({
+          name,
+          originalName: this.getDeclarationName(origin) ?? name,
+          sourceFile: relative(packagePath, origin.getSourceFile().getFilePath()),
+        });
+      }
+
+      if (name === 'default') {
+        // Handle default export
+        if (decls.length > 0) {
+          const decl = decls[0];
+          if (Node.isClassDeclaration(decl)) {
+            defaultExport = decl.getName() ?? 'default';
+          } else if (Node.isFunctionDeclaration(decl)) {
+            defaultExport = decl.getName() ?? 'default';
+          } else {
+            defaultExport = 'default';
           }
-        } else {
-          named.push(name);
         }
+      } else {
+        named.push(name);
       }
+    }
 
-      // CommonJS exports using regex (simpler and working approach)
-      const sourceText = sourceFile.getText();
+    // CommonJS exports using regex (simpler and working approach)
+    const sourceText = sourceFile.getText();
 
-      // Check for module.exports = function/class/object
-      const moduleExportsMatches = sourceText.match(
-        /module\.exports\s*=\s*(\w+|function|class|\{)/g,
-      );
-      if (moduleExportsMatches) {
-        defaultExport ??= 'default'; // CommonJS main export
-      }
+    // Check for module.exports = function/class/object
+    const moduleExportsMatches = sourceText.match(/module\.exports\s*=\s*(\w+|function|class|\{)/g);
+    if (moduleExportsMatches) {
+      defaultExport ??= 'default'; // CommonJS main export
+    }
 
-      // Check for exports.name = ...
-      const exportsMatches = sourceText.match(/exports\.(\w+)\s*=/g);
-      if (exportsMatches) {
-        for (const match of exportsMatches) {
-          const nameMatch = /exports\.(\w+)/.exec(match);
-          if (nameMatch?.[1]) {
-            named.push(nameMatch[1]);
-          }
+    // Check for exports.name = ...
+    const exportsMatches = sourceText.match(/exports\.(\w+)\s*=/g);
+    if (exportsMatches) {
+      for (const match of exportsMatches) {
+        const nameMatch = /exports\.(\w+)/.exec(match);
+        if (nameMatch?.[1]) {
+          named.push(nameMatch[1]);
         }
       }
+    }
 
-      // Check for module.exports.name = ...
-      const moduleExportsPropertyMatches = sourceText.match(/module\.exports\.(\w+)\s*=/g);
-      if (moduleExportsPropertyMatches) {
-        for (const match of moduleExportsPropertyMatches) {
-          const nameMatch = /module\.exports\.(\w+)/.exec(match);
-          if (nameMatch?.[1]) {
-            named.push(nameMatch[1]);
-          }
+    // Check for module.exports.name = ...
+    const moduleExportsPropertyMatches = sourceText.match(/module\.exports\.(\w+)\s*=/g);
+    if (moduleExportsPropertyMatches) {
+      for (const match of moduleExportsPropertyMatches) {
+        const nameMatch = /module\.exports\.(\w+)/.exec(match);
+        if (nameMatch?.[1]) {
+          named.push(nameMatch[1]);
         }
       }
     }
 
-    return {
-      default: defaultExport,
-      named: [...new Set(named)], // Remove duplicates
-    };
+    return { default: defaultExport, named: [...new Set(named)], symbols };
+  }
+
+  /**
+   * Name of an exported declaration, or undefined for anonymous ones (`export default {}`)
+   */
+  private getDeclarationName(node: Node): string | undefined {
+    if (Node.isExportAssignment(node) || Node.isSourceFile(node)) return undefined;
+    return Node.hasName(node) ? node.getName() : undefined;
   }
 
   /**
@@ -605,6 +820,81 @@ export class ASTParser {
     return false;
   }
 
+  /**
+   * Find where source files import a package or one of its subpaths: ESM imports and
+   * re-exports, require() and dynamic import()
+   */
+  findImports(rootPath: string, filePaths: string[], packageName: string): ImportSite[] {
+    const importsPackage = (specifier: string): boolean =>
+      specifier === packageName || specifier.startsWith(`${packageName}/`);
+    const sites: ImportSite[] = [];
+
+    for (const filePath of filePaths) {
+      const sourceFile = this.project.addSourceFileAtPathIfExists(filePath);
+      if (!sourceFile) continue;
+      const file = relative(rootPath, filePath);
+
+      for (const declaration of sourceFile.getImportDeclarations()) {
+        const specifier = declaration.getModuleSpecifierValue();
+        if (!importsPackage(specifier)) continue;
+        const names = declaration.getNamedImports().map((named) => named.getName());
+        if (declaration.getNamespaceImport()) names.unshift('*');
+        if (declaration.getDefaultImport()) names.unshift('default');
+        sites.push({ file, line: declaration.getStartLineNumber(), specifier, names });
+      }
+
+      for (const declaration of sourceFile.getExportDeclarations()) {
+        const specifier = declaration.getModuleSpecifierValue();
+        if (!specifier || !importsPackage(specifier)) continue;
+        const names = declaration.isNamespaceExport()
+          ? ['*']
+          : declaration.getNamedExports().map((named) => named.getName());
+        sites.push({ file, line: declaration.getStartLineNumber(), specifier, names });
+      }
+
+      for (const call of sourceFile.getDescendantsOfKind(SyntaxKind.CallExpression)) {
+        const callee = call.getExpression();
+        const isRequire = Node.isIdentifier(callee) && callee.getText() === 'require';
+        if (!isRequire && callee.getKind() !== SyntaxKind.ImportKeyword) continue;
+        const [argument] = call.getArguments();
+        if (!Node.isStringLiteral(argument) || !importsPackage(argument.getLiteralValue())) {
+          continue;
+        }
+        sites.push({
+          file,
+          line: call.getStartLineNumber(),
+          specifier: argument.getLiteralValue(),
+          names: this.getRequiredNames(call),
+        });
+      }
+    }
+
+    return sites.sort((a, b) => a.file.localeCompare(b.file) || a.line - b.line);
+  }
+
+  /**
+   * Bindings taken from a require() or import() call: destructured names, a property
+   * read off the module, or the whole module
+   */
+  private getRequiredNames(call: Node): string[] {
+    let parent = call.getParent();
+    if (Node.isAwaitExpression(parent)) parent = parent.getParent();
+
+    if (Node.isPropertyAccessExpression(parent)) {
+      return [parent.getName()];
+    }
+    if (Node.isVariableDeclaration(parent)) {
+      const binding = parent.getNameNode();
+      if (Node.isObjectBindingPattern(binding)) {
+        return binding
+          .getElements()
+          .map((element) => element.getPropertyNameNode()?.getText() ?? element.getName());
+      }
+      return ['*'];
+    }
+    return []; // Side-effect import
+  }
+
   /**
    * Clear the project to free memory
    */
@@ -0,0 +1,299 @@
+/**
+ * Entry point resolution for Node.js packages
+ * Follows the package.json `exports` map (subpaths, conditions, patterns) and `typesVersions`,
+ * falling back to `types`/`main`, so extraction starts from the package's declared public surface
+ */
+
+import { readdir, stat } from 'node:fs/promises';
+import { join, dirname, relative, resolve, sep } from 'node:path';
+
+export interface PackageEntryPoint {
+  subpath: string; // "." or "./server"
+  name: string; // Import specifier, e.g. "pkg" or "pkg/server"
+  file: string; // Resolved file, relative to the package root
+}
+
+// Conditions in the order that gives the richest API: declarations first, then sources
+const CONDITION_PRIORITY = ['types', 'typings', 'import', 'module', 'node', 'require', 'default'];
+
+const CODE_FILE = /\.(d\.[mc]?ts|[mc]?ts|tsx|[mc]?js|jsx)$/;
+const SOURCE_EXTENSIONS = [
+  '.d.ts',
+  '.ts',
+  '.tsx',
+  '.d.mts',
+  '.mts',
+  '.d.cts',
+  '.cts',
+  '.js',
+  '.mjs',
+  '.cjs',
+  '.jsx',
+];
+const MAX_PATTERN_MATCHES = 20;
+
+/**
+ * Resolve every public entry point of a package to a file on disk
+ */
+export async function resolveEntryPoints(
+  packagePath: string,
+  packageJson: Record<string, unknown>,
+): Promise<PackageEntryPoint[]> {
+  const packageName = typeof packageJson.name === 'string' ? packageJson.name : 'unknown';
+  const subpaths = new Map<string, string>();
+
+  if (packageJson.exports !== undefined && packageJson.exports !== null) {
+    for (const [subpath, target] of Object.entries(normalizeExports(packageJson.exports))) {
+      if (subpath === './package.json') continue;
+
+      if (subpath.includes('*')) {
+        for (const [expanded, file] of await expandPattern(packagePath, subpath, target)) {
+          subpaths.set(expanded, file);
+        }
+        continue;
+      }
+
+      const file = await resolveTarget(packagePath, target);
+      if (file) subpaths.set(subpath, file);
+    }
+  } else {
+    // No exports map: types/main for the root, typesVersions for typed subpaths
+    const typesMap = firstTypesVersionsMap(packageJson.typesVersions);
+    const rootCandidates = [
+      packageJson.types,
+      packageJson.typings,
+      packageJson.module,
+      packageJson.main,
+    ]
+      .filter((value): value is string => typeof value === 'string')
+      .flatMap((value) => [...mapTypesVersions(typesMap, stripDotSlash(value)), value]);
+    rootCandidates.push('index');
+
+    for (const candidate of rootCandidates) {
+      const file = await resolveModuleFile(
+        packagePath,
+        packagePath,
+        `./${stripDotSlash(candidate)}`,
+      );
+      if (file) {
+        subpaths.set('.', file);
+        break;
+      }
+    }
+
+    for (const key of Object.keys(typesMap ?? {})) {
+      if (key.includes('*')) continue;
+      for (const candidate of mapTypesVersions(typesMap, key)) {
+        const file = await resolveModuleFile(packagePath, packagePath, `./${candidate}`);
+        if (file) {
+          subpaths.set(`./${key.replace(/(\/index)?(\.d)?\.[mc]?[jt]s$/, '')}`, file);
+          break;
+        }
+      }
+    }
+  }
+
+  return [...subpaths.entries()]
+    .sort(([a], [b]) => (a === '.' ? -1 : b === '.' ? 1 : a.localeCompare(b)))
+    .map(([subpath, file]) => ({
+      subpath,
+      name: subpath === '.' ? packageName : `${packageName}/${subpath.slice(2)}`,
+      file: relative(packagePath, file),
+    }));
+}
+
+/**
+ * DefinitelyTyped package name for a package: "express" => "@types/express",
+ * "@babel/core" => "@types/babel__core"
+ */
+export function getTypesPackageName(packageName: string): string {
+  const bare = packageName.startsWith('@') ? packageName.slice(1).replace('/', '__') : packageName;
+  return `@types/${bare}`;
+}
+
+/**
+ * Resolve a relative module specifier the way bundlers and TypeScript do,
+ * preferring declaration files next to compiled JavaScript
+ * Returns an absolute path inside the package, or null
+ */
+export async function resolveModuleFile(
+  packagePath: string,
+  fromDir: string,
+  specifier: string,
+): Promise<string | null> {
+  const base = resolve(fromDir, specifier);
+  const root = resolve(packagePath);
+  if (base !== root && !base.startsWith(root + sep)) {
+    return null; // Never leave the package
+  }
+
+  const candidates: string[] = [];
+  const jsMatch = /\.([mc]?)jsx?$/.exec(base);
+  if (jsMatch) {
+    // "./x.js" may be compiled output with x.d.ts beside it, or a .ts source in development
+    const stem = base.slice(0, -jsMatch[0].length);
+    const flavour = jsMatch[1] ?? '';
+    candidates.push(`${stem}.d.${flavour}ts`, `${stem}.${flavour}ts`, `${stem}.tsx`, base);
+  } else if (CODE_FILE.test(base)) {
+    candidates.push(base);
+  } else {
+    candidates.push(...SOURCE_EXTENSIONS.map((ext) => base + ext));
+    candidates.push(...SOURCE_EXTENSIONS.map((ext) => join(base, `index${ext}`)));
+  }
+
+  for (const candidate of candidates) {
+    if (await isFile(candidate)) {
+      return candidate;
+    }
+  }
+  return null;
+}
+
+/**
+ * Normalize the exports field to a subpath map ("." => target)
+ */
+function normalizeExports(exports: unknown): Record<string, unknown> {
+  if (typeof exports === 'string' || Array.isArray(exports)) {
+    return { '.': exports };
+  }
+  if (exports && typeof exports === 'object') {
+    const entries = Object.entries(exports as Record<string, unknown>);
+    // Either every key is a subpath or the object is a set of conditions for "."
+    if (entries.some(([key]) => key.startsWith('.'))) {
+      return Object.fromEntries(entries.filter(([key]) => key.startsWith('.')));
+    }
+    return { '.': exports };
+  }
+  return {};
+}
+
+/**
+ * Pick a file for an export target: a path, a fallback array or a conditions object
+ */
+async function resolveTarget(packagePath: string, target: unknown): Promise<string | null> {
+  const path = selectTargetPath(target);
+  if (!path || !path.startsWith('./') || !CODE_FILE.test(path)) {
+    return null;
+  }
+  return resolveModuleFile(packagePath, packagePath, path);
+}
+
+function selectTargetPath(target: unknown): string | null {
+  if (typeof target === 'string') {
+    return target;
+  }
+  if (Array.isArray(target)) {
+    for (const item of target) {
+      const path = selectTargetPath(item);
+      if (path) return path;
+    }
+    return null;
+  }
+  if (target && typeof target === 'object') {
+    const conditions = target as Record<string, unknown>;
+    for (const condition of CONDITION_PRIORITY) {
+      if (condition in conditions) {
+        const path = selectTargetPath(conditions[condition]);
+        if (path) return path;
+      }
+    }
+    // Versioned or custom conditions such as "types@>=5" or "browser"
+    for (const [condition, value] of Object.entries(conditions)) {
+      if (CONDITION_PRIORITY.includes(condition)) continue;
+      const path = selectTargetPath(value);
+      if (path) return path;
+    }
+  }
+  return null;
+}
+
+/**
+ * Expand a "./features/*" subpath against the files its target pattern matches
+ */
+async function expandPattern(
+  packagePath: string,
+  subpath: string,
+  target: unknown,
+): Promise<Array<[string, string]>> {
+  const pattern = selectTargetPath(target);
+  if (!pattern?.startsWith('./') || pattern.split('*').length !== 2) {
+    return [];
+  }
+
+  const [prefix = '', suffix = ''] = pattern.split('*');
+  const directory = resolve(packagePath, dirname(`${prefix}x`));
+  const filePrefix = prefix.slice(prefix.lastIndexOf('/') + 1);
+
+  let entries: string[];
+  try {
+    entries = await readdir(directory);
+  } catch {
+    return [];
+  }
+
+  const matches: Array<[string, string]> = [];
+  const seen = new Set<string>();
+  for (const entry of entries.sort()) {
+    if (matches.length >= MAX_PATTERN_MATCHES) break;
+    if (!entry.startsWith(filePrefix) || !entry.endsWith(suffix)) continue;
+    // "./*": "./dist/*" also matches the declarations and maps beside each module
+    if (!suffix && /\.(d\.[mc]?ts|map)$/.test(entry)) continue;
+
+    const stem = entry.slice(filePrefix.length, entry.length - suffix.length);
+    if (!stem || stem.startsWith('.')) continue;
+
+    const file = await resolveTarget(packagePath, `${prefix}${stem}${suffix}`);
+    if (file && !seen.has(file)) {
+      seen.add(file);
+      matches.push([subpath.replace('*', stem), file]);
+    }
+  }
+  return matches;
+}
+
+/**
+ * typesVersions maps TypeScript version ranges to path maps; compilers take the first
+ * range they satisfy, and current ones satisfy everything without an upper bound
+ */
+function firstTypesVersionsMap(typesVersions: unknown): Record<string, string[]> | null {
+  if (!typesVersions || typeof typesVersions !== 'object') return null;
+  const first = Object.entries(typesVersions as Record<string, unknown>).find(
+    ([range]) => !range.includes('<'),
+  )?.[1];
+  if (!first || typeof first !== 'object') return null;
+
+  const map: Record<string, string[]> = {};
+  for (const [key, value] of Object.entries(first as Record<string, unknown>)) {
+    if (Array.isArray(value)) {
+      map[key] = value.filter((item): item is string => typeof item === 'string');
+    }
+  }
+  return map;
+}
+
+function mapTypesVersions(map: Record<string, string[]> | null, path: string): string[] {
+  if (!map) return [];
+
+  const exact = map[path];
+  if (exact) return exact.map(stripDotSlash);
+
+  for (const [key, targets] of Object.entries(map)) {
+    const [prefix = '', suffix = ''] = key.split('*');
+    if (!key.includes('*') || !path.startsWith(prefix) || !path.endsWith(suffix)) continue;
+    const matched = path.slice(prefix.length, path.length - suffix.length);
+    return targets.map((target) => stripDotSlash(target.replace('*', matched)));
+  }
+  return [];
+}
+
+function stripDotSlash(path: string): string {
+  return path.replace(/^\.\//, '');
+}
+
+async function isFile(path: string): Promise<boolean> {
+  try {
+    return (await stat(path)).isFile();
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,782 @@
+/**
+ * AST-based parser for Python
+ * Uses the tree-sitter Python grammar (WASM, no native build or network needed) to extract
+ * classes, functions, signatures, decorators and docstrings from a package and its submodules
+ */
+
+import { Parser, Language } from 'web-tree-sitter';
+import type { Node } from 'web-tree-sitter';
+import type {
+  UnifiedPackageContent,
+  ComponentFunction,
+  MethodInfo,
+  PropertyInfo,
+  ParameterInfo,
+} from '#types/unified-schema.js';
+import { createRequire } from 'node:module';
+import { readdir, readFile, stat } from 'node:fs/promises';
+import { join, relative, sep, basename } from 'node:path';
+
+export interface PythonParseResult {
+  components: UnifiedPackageContent['components'];
+  exports: string[];
+  hasTypeAnnotations: boolean;
+  stubModules: number; // Modules read from .pyi stubs instead of .py sources
+}
+
+type ParsedComponents = Required<
+  Pick<
+    UnifiedPackageContent['components'],
+    'classes' | 'functions' | 'constants' | 'types' | 'interfaces' | 'enums'
+  >
+>;
+
+interface ModuleContext {
+  // Names listed in the module's __all__, when it defines one
+  all: Set<string> | null;
+  // Module path contains an underscore-prefixed segment (e.g. _internal/core.py)
+  isPrivate: boolean;
+  // Names the package re-exports from its __init__.py, including their original names
+  packageExports: Set<string>;
+}
+
+const MAX_FILES = 50;
+const MAX_FILE_SIZE = 100_000; // 100KB
+const MAX_DEPTH = 4;
+const PARSE_TIMEOUT = 5000;
+
+const SKIPPED_DIRECTORIES = new Set(['__pycache__', 'tests', 'test']);
+const ENUM_BASES = new Set(['Enum', 'IntEnum', 'StrEnum', 'Flag', 'IntFlag']);
+const TYPE_VARIABLE_FACTORIES = new Set(['TypeVar', 'ParamSpec', 'TypeVarTuple']);
+
+let languagePromise: Promise<Language> | null = null;
+
+/**
+ * Load the Python grammar once per process
+ */
+function loadPythonLanguage(): Promise<Language> {
+  languagePromise ??= (async () => {
+    await Parser.init();
+    const require = createRequire(import.meta.url);
+    return Language.load(require.resolve('tree-sitter-python/tree-sitter-python.wasm'));
+  })().catch((error: unknown) => {
+    languagePromise = null;
+    throw error;
+  });
+  return languagePromise;
+}
+
+export class PythonParser {
+  private parser: Parser | null = null;
+  private hasAnnotations = false;
+
+  /**
+   * Parse a package directory (or single-module file) and extract all components
+   * Stubs win over sources: a separately installed <pkg>-stubs directory first,
+   * then .pyi files shipped next to the .py modules
+   */
+  async parsePackage(
+    packagePath: string,
+    options: { stubsPath?: string } = {},
+  ): Promise<PythonParseResult> {
+    const startTime = Date.now();
+    const language = await loadPythonLanguage();
+    if (!this.parser) {
+      this.parser = new Parser();
+      this.parser.setLanguage(language);
+    }
+    this.hasAnnotations = false;
+
+    const components: ParsedComponents = {
+      classes: [],
+      functions: [],
+      constants: [],
+      types: [],
+      interfaces: [],
+      enums: [],
+    };
+    let packageExports = new Set<string>();
+    let reexportedNames = new Set<string>();
+
+    const files = await this.discoverModules(packagePath, options.stubsPath);
+    for (const file of files) {
+      if (Date.now() - startTime > PARSE_TIMEOUT) {
+        console.warn(`[PyAST] Timeout reached after ${PARSE_TIMEOUT}ms, stopping parse`);
+        break;
+      }
+
+      let source: string;
+      try {
+        source = await readFile(file.path, 'utf-8');
+      } catch {
+        continue;
+      }
+
+      const tree = this.parser.parse(source);
+      if (!tree) continue;
+
+      try {
+        const root = tree.rootNode;
+        const statements = this.topLevelStatements(root);
+
+        // The package __init__ is parsed first and defines what the package re-exports
+        if (file.isPackageInit) {
+          const { exports, origins } = this.extractModuleExports(statements);
+          packageExports = exports;
+          reexportedNames = new Set([...exports, ...origins]);
+        }
+
+        const context: ModuleContext = {
+          all: this.extractDunderAll(statements),
+          isPrivate: file.isPrivate,
+          packageExports: reexportedNames,
+        };
+        this.extractModule(statements, file.relativePath, context, components);
+      } finally {
+        tree.delete();
+      }
+    }
+
+    return {
+      components,
+      exports: [...packageExports],
+      hasTypeAnnotations: this.hasAnnotations,
+      stubModules: files.filter((file) => file.path.endsWith('.pyi')).length,
+    };
+  }
+
+  /**
+   * Find modules, package __init__ first, then shallow and public modules before
+   * deep and private ones so the public surface survives the file limit
+   */
+  private async discoverModules(
+    packagePath: string,
+    stubsPath?: string,
+  ): Promise<
+    Array<{ path: string; relativePath: string; isPackageInit: boolean; isPrivate: boolean }>
+  > {
+    const stats = await stat(packagePath);
+    if (stats.isFile()) {
+      // Single-module distribution (e.g. six.py), possibly with a six.pyi beside it
+      const stubPath = packagePath.replace(/\.py$/, '.pyi');
+      const path = (await isFile(stubPath)) ? stubPath : packagePath;
+      return /\.pyi?$/.test(path)
+        ? [{ path, relativePath: basename(path), isPackageInit: true, isPrivate: false }]
+        : [];
+    }
+
+    // Module key (path without extension) -> best candidate; lower rank wins
+    const candidates = new Map<string, { path: string; rank: number }>();
+    const collect = async (root: string, stubsOnly: boolean, rankOffset: number): Promise<void> => {
+      const walk = async (dir: string, depth: number): Promise<void> => {
+        let entries;
+        try {
+          entries = await readdir(dir, { withFileTypes: true });
+        } catch {
+          return;
+        }
+        for (const entry of entries) {
+          const fullPath = join(dir, entry.name);
+          if (entry.isDirectory()) {
+            if (
+              depth < MAX_DEPTH &&
+              !SKIPPED_DIRECTORIES.has(entry.name) &&
+              /^[A-Za-z_]\w*$/.test(entry.name)
+            ) {
+              await walk(fullPath, depth + 1);
+            }
+          } else if (entry.isFile() && this.isSourceModule(entry.name, stubsOnly)) {
+            const key = relative(root, fullPath).replace(/\.pyi?$/, '');
+            const rank = rankOffset + (entry.name.endsWith('.pyi') ? 0 : 1);
+            const existing = candidates.get(key);
+            if (!existing || rank < existing.rank) {
+              candidates.set(key, { path: fullPath, rank });
+            }
+          }
+        }
+      };
+      await walk(root, 0);
+    };
+
+    if (stubsPath) {
+      await collect(stubsPath, true, 0);
+    }
+    await collect(packagePath, false, 1);
+
+    const modules = [...candidates.entries()].map(([key, { path }]) => {
+      const segments = key.split(sep);
+      return {
+        path,
+        relativePath: relative(packagePath, path),
+        isPackageInit: key === '__init__',
+        isPrivate: segments.some((segment) => segment.startsWith('_') && !segment.startsWith('__')),
+        depth: segments.length,
+        key,
+      };
+    });
+
+    modules.sort(
+      (a, b) =>
+        Number(b.isPackageInit) - Number(a.isPackageInit) ||
+        a.depth - b.depth ||
+        Number(a.isPrivate) - Number(b.isPrivate) ||
+        a.key.localeCompare(b.key),
+    );
+
+    const selected = [];
+    for (const module of modules) {
+      if (selected.length >= MAX_FILES) break;
+      try {
+        if ((await stat(module.path)).size > MAX_FILE_SIZE) continue;
+      } catch {
+        continue;
+      }
+      selected.push(module);
+    }
+    return selected;
+  }
+
+  private isSourceModule(fileName: string, stubsOnly: boolean): boolean {
+    return (
+      (fileName.endsWith('.pyi') || (!stubsOnly && fileName.endsWith('.py'))) &&
+      !fileName.startsWith('test_') &&
+      !/_test\.pyi?$/.test(fileName) &&
+      fileName !== 'conftest.py' &&
+      fileName !== 'setup.py'
+    );
+  }
+
+  /**
+   * Module-level statements, including those guarded by if/try blocks
+   * (TYPE_CHECKING imports, version checks, optional dependency fallbacks)
+   */
+  private topLevelStatements(root: Node): Node[] {
+    const statements: Node[] = [];
+    const visit = (block: Node): void => {
+      for (const statement of namedChildren(block)) {
+        if (statement.type === 'if_statement' || statement.type === 'try_statement') {
+          for (const child of namedChildren(statement)) {
+            if (child.type === 'block') {
+              visit(child);
+            } else {
+              const body = namedChildren(child).find((n) => n.type === 'block');
+              if (body) visit(body);
+            }
+          }
+        } else {
+          statements.push(statement);
+        }
+      }
+    };
+    visit(root);
+    return statements;
+  }
+
+  /**
+   * Extract components declared at module level
+   */
+  private extractModule(
+    statements: Node[],
+    sourceFile: string,
+    context: ModuleContext,
+    components: ParsedComponents,
+  ): void {
+    const seen = new Set<string>();
+
+    for (const statement of statements) {
+      const { definition, decorators } = unwrapDecorated(statement);
+
+      if (definition.type === 'class_definition') {
+        const name = fieldText(definition, 'name');
+        if (!name || seen.has(name)) continue;
+        seen.add(name);
+        this.extractClassLike(
+          definition,
+          decorators,
+          this.isExported(name, context),
+          sourceFile,
+          components,
+        );
+      } else if (definition.type === 'function_definition') {
+        const name = fieldText(definition, 'name');
+        if (!name || seen.has(name)) continue;
+        seen.add(name);
+        components.functions.push({
+          ...this.extractFunction(definition, decorators),
+          isExported: this.isExported(name, context),
+          sourceFile,
+        });
+      } else if (definition.type === 'type_alias_statement') {
+        const name = definition.childForFieldName('left')?.text;
+        if (!name || seen.has(name)) continue;
+        seen.add(name);
+        components.types.push({
+          name,
+          definition: definition.childForFieldName('right')?.text ?? 'unknown',
+          isExported: this.isExported(name, context),
+          sourceFile,
+        });
+      } else if (definition.type === 'expression_statement') {
+        const assignment = namedChildren(definition)[0];
+        if (assignment?.type !== 'assignment') continue;
+        this.extractAssignment(assignment, context, sourceFile, components, seen);
+      }
+    }
+  }
+
+  /**
+   * Module-level assignments: UPPER_CASE constants and explicit type aliases
+   */
+  private extractAssignment(
+    assignment: Node,
+    context: ModuleContext,
+    sourceFile: string,
+    components: ParsedComponents,
+    seen: Set<string>,
+  ): void {
+    const left = assignment.childForFieldName('left');
+    if (left?.type !== 'identifier' || seen.has(left.text)) return;
+
+    const name = left.text;
+    const type = this.annotation(assignment.childForFieldName('type'));
+    const right = assignment.childForFieldName('right');
+
+    if (type === 'TypeAlias' || type === 'typing.TypeAlias') {
+      seen.add(name);
+      components.types.push({
+        name,
+        definition: right?.text ?? 'unknown',
+        isExported: this.isExported(name, context),
+        sourceFile,
+      });
+      return;
+    }
+
+    if (!/^[A-Z][A-Z0-9_]*$/.test(name)) return;
+    if (right?.type === 'call') {
+      const callee = right.childForFieldName('function')?.text.split('.').pop() ?? '';
+      if (TYPE_VARIABLE_FACTORIES.has(callee)) return;
+    }
+
+    seen.add(name);
+    components.constants.push({
+      name,
+      type,
+      value: right?.text.substring(0, 100), // Truncate long values
+      isExported: this.isExported(name, context),
+      sourceFile,
+    });
+  }
+
+  /**
+   * Classes become enums (Enum subclasses), interfaces (Protocols) or classes
+   */
+  private extractClassLike(
+    classNode: Node,
+    decorators: string[],
+    isExported: boolean,
+    sourceFile: string,
+    components: ParsedComponents,
+  ): void {
+    const name = fieldText(classNode, 'name') ?? '';
+    const bases = namedChildren(classNode.childForFieldName('superclasses'))
+      .filter((base) => base.type !== 'keyword_argument' && base.type !== 'comment')
+      .map((base) => base.text);
+    const baseNames = bases.map((base) => base.split('[')[0]?.split('.').pop() ?? base);
+    const body = classNode.childForFieldName('body');
+    const purpose = this.extractDocstring(body);
+
+    if (baseNames.some((base) => ENUM_BASES.has(base))) {
+      components.enums.push({
+        name,
+        values: this.extractClassAttributes(body)
+          .map((attribute) => attribute.name)
+          .filter((value) => !value.startsWith('_')),
+        isExported,
+        sourceFile,
+      });
+      return;
+    }
+
+    const { methods, properties } = this.extractClassMembers(body);
+
+    if (baseNames.includes('Protocol')) {
+      const parents = bases.filter((_, index) => baseNames[index] !== 'Protocol');
+      components.interfaces.push({
+        name,
+        purpose,
+        methods,
+        properties,
+        extends: parents.length > 0 ? parents : undefined,
+        sourceFile,
+      });
+      return;
+    }
+
+    const metaclass = namedChildren(classNode.childForFieldName('superclasses'))
+      .filter((arg) => arg.type === 'keyword_argument' && fieldText(arg, 'name') === 'metaclass')
+      .map((arg) => fieldText(arg, 'value'));
+
+    components.classes.push({
+      name,
+      purpose,
+      extends: bases.length > 0 ? bases.join(', ') : undefined,
+      methods,
+      properties,
+      visibility: isExported ? 'public' : 'private',
+      isAbstract:
+        baseNames.includes('ABC') ||
+        metaclass.some((meta) => meta?.endsWith('ABCMeta')) ||
+        methods.some((method) => method.isAbstract),
+      decorators: decorators.length > 0 ? decorators : undefined,
+      sourceFile,
+    });
+  }
+
+  /**
+   * Extract methods and properties (class attributes, @property accessors, self.x in __init__)
+   */
+  private extractClassMembers(body: Node | null): {
+    methods: MethodInfo[];
+    properties: PropertyInfo[];
+  } {
+    const methods: MethodInfo[] = [];
+    const properties = new Map<string, PropertyInfo>();
+    for (const attribute of this.extractClassAttributes(body)) {
+      properties.set(attribute.name, attribute);
+    }
+
+    for (const statement of namedChildren(body)) {
+      const { definition, decorators } = unwrapDecorated(statement);
+      if (definition.type !== 'function_definition') continue;
+
+      const name = fieldText(definition, 'name') ?? '';
+      const decoratorNames = decorators.map((decorator) => decorator.split('(')[0] ?? decorator);
+
+      if (decoratorNames.some((decorator) => /^\w+\.(setter|deleter)$/.test(decorator))) {
+        const property = properties.get(name);
+        if (property) property.isReadonly = false;
+        continue;
+      }
+
+      if (decoratorNames.some((decorator) => /(^|\.)(cached_)?property$/.test(decorator))) {
+        properties.set(name, {
+          name,
+          type: this.annotation(definition.childForFieldName('return_type')),
+          visibility: visibilityOf(name),
+          isReadonly: true,
+        });
+        continue;
+      }
+
+      const isStatic = decoratorNames.includes('staticmethod');
+      const isClassMethod = decoratorNames.includes('classmethod');
+      const func = this.extractFunction(definition, decorators, !isStatic);
+
+      methods.push({
+        name,
+        purpose: func.purpose,
+        parameters: func.parameters,
+        returns: func.returns,
+        visibility: visibilityOf(name),
+        isAsync: func.isAsync,
+        isStatic: isStatic || isClassMethod,
+        isAbstract: decoratorNames.some((decorator) => decorator.endsWith('abstractmethod')),
+        decorators: func.decorators,
+      });
+
+      if (name === '__init__') {
+        for (const attribute of this.extractInstanceAttributes(definition)) {
+          if (!properties.has(attribute.name)) properties.set(attribute.name, attribute);
+        }
+      }
+    }
+
+    return { methods, properties: [...properties.values()] };
+  }
+
+  /**
+   * Class-level assignments and annotations (dataclass fields, enum members, class constants)
+   */
+  private extractClassAttributes(body: Node | null): PropertyInfo[] {
+    const attributes: PropertyInfo[] = [];
+    for (const statement of namedChildren(body)) {
+      if (statement.type !== 'expression_statement') continue;
+      const assignment = namedChildren(statement)[0];
+      if (assignment?.type !== 'assignment') continue;
+
+      const left = assignment.childForFieldName('left');
+      if (left?.type !== 'identifier') continue;
+
+      attributes.push({
+        name: left.text,
+        type: this.annotation(assignment.childForFieldName('type')),
+        visibility: visibilityOf(left.text),
+        default: assignment.childForFieldName('right')?.text.substring(0, 100),
+      });
+    }
+    return attributes;
+  }
+
+  /**
+   * Attributes assigned as self.<name> directly in __init__
+   */
+  private extractInstanceAttributes(init: Node): PropertyInfo[] {
+    const attributes: PropertyInfo[] = [];
+    for (const statement of namedChildren(init.childForFieldName('body'))) {
+      if (statement.type !== 'expression_statement') continue;
+      const assignment = namedChildren(statement)[0];
+      if (assignment?.type !== 'assignment') continue;
+
+      const left = assignment.childForFieldName('left');
+      if (left?.type !== 'attribute' || fieldText(left, 'object') !== 'self') continue;
+
+      const name = fieldText(left, 'attribute');
+      if (!name) continue;
+      attributes.push({
+        name,
+        type: this.annotation(assignment.childForFieldName('type')),
+        visibility: visibilityOf(name),
+      });
+    }
+    return attributes;
+  }
+
+  /**
+   * Extract function information with full signature
+   */
+  private extractFunction(
+    funcNode: Node,
+    decorators: string[],
+    isBoundMethod = false,
+  ): Omit<ComponentFunction, 'isExported'> {
+    const returnType = this.annotation(funcNode.childForFieldName('return_type'));
+    let parameters = this.extractParameters(funcNode.childForFieldName('parameters'));
+
+    // Drop the implicit self/cls receiver of instance and class methods
+    if (isBoundMethod && parameters[0] && !parameters[0].isVariadic) {
+      parameters = parameters.slice(1);
+    }
+
+    return {
+      name: fieldText(funcNode, 'name') ?? '',
+      purpose: this.extractDocstring(funcNode.childForFieldName('body')),
+      parameters,
+      returns: returnType ? { name: returnType } : undefined,
+      isAsync: funcNode.children.some((child) => child?.type === 'async'),
+      isGenerator: containsYield(funcNode.childForFieldName('body')),
+      decorators: decorators.length > 0 ? decorators : undefined,
+    };
+  }
+
+  /**
+   * Extract parameter information, including annotations, defaults and *args/**kwargs
+   */
+  private extractParameters(parametersNode: Node | null): ParameterInfo[] {
+    const parameters: ParameterInfo[] = [];
+
+    for (const param of namedChildren(parametersNode)) {
+      switch (param.type) {
+        case 'identifier':
+          parameters.push({ name: param.text, required: true });
+          break;
+        case 'typed_parameter': {
+          const target = namedChildren(param)[0];
+          const type = this.annotation(param.childForFieldName('type'));
+          if (
+            target?.type === 'list_splat_pattern' ||
+            target?.type === 'dictionary_splat_pattern'
+          ) {
+            parameters.push({ name: target.text, type, required: false, isVariadic: true });
+          } else {
+            parameters.push({ name: target?.text ?? '', type, required: true });
+          }
+          break;
+        }
+        case 'default_parameter':
+        case 'typed_default_parameter':
+          parameters.push({
+            name: fieldText(param, 'name') ?? '',
+            type: this.annotation(param.childForFieldName('type')),
+            required: false,
+            default: fieldText(param, 'value'),
+          });
+          break;
+        case 'list_splat_pattern':
+        case 'dictionary_splat_pattern':
+          parameters.push({ name: param.text, required: false, isVariadic: true });
+          break;
+        default:
+          // Positional-only (/) and keyword-only (*) separators carry no name
+          break;
+      }
+    }
+
+    return parameters;
+  }
+
+  /**
+   * First paragraph of a docstring, with indentation and line breaks collapsed
+   */
+  private extractDocstring(body: Node | null): string | undefined {
+    const first = namedChildren(body)[0];
+    if (first?.type !== 'expression_statement') return undefined;
+
+    const literal = namedChildren(first)[0];
+    if (literal?.type !== 'string') return undefined;
+
+    const match = /^[rRuU]?("""|'''|"|')([\s\S]*)\1$/.exec(literal.text);
+    const text = match?.[2]?.trim();
+    if (!text) return undefined;
+
+    const summary = text.split(/\n\s*\n/)[0] ?? text;
+    return summary.replace(/\s+/g, ' ').trim();
+  }
+
+  private annotation(typeNode: Node | null): string | undefined {
+    if (!typeNode) return undefined;
+    this.hasAnnotations = true;
+    return typeNode.text;
+  }
+
+  /**
+   * Names the package exposes from __init__.py: __all__ when present,
+   * otherwise relative imports and public top-level definitions.
+   * Re-exported names are also returned under their original module-level name
+   */
+  private extractModuleExports(statements: Node[]): { exports: Set<string>; origins: Set<string> } {
+    const names = new Set<string>();
+    const imports: Array<{ original: string; exported: string }> = [];
+
+    for (const statement of statements) {
+      const { definition } = unwrapDecorated(statement);
+      if (definition.type === 'import_from_statement') {
+        const module = definition.childForFieldName('module_name');
+        if (module?.type !== 'relative_import') continue;
+        for (const imported of definition.childrenForFieldName('name')) {
+          const original =
+            imported?.type === 'aliased_import'
+              ? imported.childForFieldName('name')?.text.split('.').pop()
+              : imported?.text.split('.').pop();
+          const exported =
+            imported?.type === 'aliased_import' ? fieldText(imported, 'alias') : original;
+          if (!original || !exported) continue;
+          imports.push({ original, exported });
+          if (!exported.startsWith('_')) names.add(exported);
+        }
+      } else if (
+        definition.type === 'class_definition' ||
+        definition.type === 'function_definition'
+      ) {
+        const name = fieldText(definition, 'name');
+        if (name && !name.startsWith('_')) names.add(name);
+      }
+    }
+
+    const exports = this.extractDunderAll(statements) ?? names;
+    const origins = new Set(
+      imports.filter(({ exported }) => exports.has(exported)).map(({ original }) => original),
+    );
+    return { exports, origins };
+  }
+
+  /**
+   * Collect string entries of __all__ (assigned, or extended with +=)
+   */
+  private extractDunderAll(statements: Node[]): Set<string> | null {
+    let names: Set<string> | null = null;
+
+    for (const statement of statements) {
+      if (statement.type !== 'expression_statement') continue;
+      const assignment = namedChildren(statement)[0];
+      if (assignment?.type !== 'assignment' && assignment?.type !== 'augmented_assignment') {
+        continue;
+      }
+      if (assignment.childForFieldName('left')?.text !== '__all__') continue;
+
+      const value = assignment.childForFieldName('right');
+      if (value?.type !== 'list' && value?.type !== 'tuple') continue;
+
+      names ??= new Set<string>();
+      for (const item of namedChildren(value)) {
+        const match = item.type === 'string' ? /^["'](\w+)["']$/.exec(item.text) : null;
+        if (match?.[1]) names.add(match[1]);
+      }
+    }
+
+    return names;
+  }
+
+  /**
+   * Python has no export keyword: underscore names are internal, __all__ is authoritative,
+   * and definitions in private modules are public only when the package re-exports them
+   */
+  private isExported(name: string, context: ModuleContext): boolean {
+    if (name.startsWith('_')) return false;
+    if (context.all) return context.all.has(name);
+    if (context.isPrivate) return context.packageExports.has(name);
+    return true;
+  }
+
+  /**
+   * Release the WASM parser
+   */
+  clear(): void {
+    this.parser?.delete();
+    this.parser = null;
+  }
+}
+
+async function isFile(path: string): Promise<boolean> {
+  try {
+    return (await stat(path)).isFile();
+  } catch {
+    return false;
+  }
+}
+
+function namedChildren(node: Node | null | undefined): Node[] {
+  return node ? node.namedChildren.filter((child): child is Node => child !== null) : [];
+}
+
+function fieldText(node: Node, field: string): string | undefined {
+  return node.childForFieldName(field)?.text;
+}
+
+/**
+ * Split a decorated_definition into its definition and decorator expressions
+ */
+function unwrapDecorated(statement: Node): { definition: Node; decorators: string[] } {
+  if (statement.type !== 'decorated_definition') {
+    return { definition: statement, decorators: [] };
+  }
+  const definition = statement.childForFieldName('definition') ?? statement;
+  const decorators = namedChildren(statement)
+    .filter((child) => child.type === 'decorator')
+    .map((decorator) => decorator.text.replace(/^@\s*/, ''));
+  return { definition, decorators };
+}
+
+function visibilityOf(name: string): 'public' | 'private' | 'protected' {
+  if (name.startsWith('__') && !name.endsWith('__')) return 'private';
+  if (name.startsWith('_') && !name.startsWith('__')) return 'protected';
+  return 'public';
+}
+
+/**
+ * Detect yield in a function body, ignoring nested functions, lambdas and classes
+ */
+function containsYield(node: Node | null): boolean {
+  for (const child of namedChildren(node)) {
+    if (child.type === 'yield') return true;
+    if (
+      child.type === 'function_definition' ||
+      child.type === 'lambda' ||
+      child.type === 'class_definition'
+    ) {
+      continue;
+    }
+    if (containsYield(child)) return true;
+  }
+  return false;
+}
@@ -0,0 +1,344 @@
+/**
+ * Guided dependency workflows as MCP prompts
+ * Each prompt embeds the package overview (the pkg:// resource), the API surface the
+ * AST parser finds behind its entry points and the places the project imports it, so
+ * the model answers against what is installed rather than what it remembers
+ */
+
+import type {
+  GetPromptResult,
+  ListPromptsResult,
+  Prompt,
+  PromptMessage,
+} from '@modelcontextprotocol/sdk/types.js';
+import { promises as fs } from 'node:fs';
+import { join, relative, resolve } from 'node:path';
+import { ASTParser, type ImportSite } from '#parsers/ast-parser.js';
+import { locatePackage, type LocatedPackage } from '#tools/read-package.js';
+import { formatPackageUri, readPackageResource } from '#resources/packages.js';
+import { findProjectImports } from '#utils/project-imports.js';
+import { getProjectRoot } from '#utils/project-context.js';
+import { InstallationNotFoundError, McpError } from '#types.js';
+import type { EntryPointExports } from '#types/unified-schema.js';
+
+const MAX_LISTED_IMPORTS = 50;
+
+const PROMPTS: Prompt[] = [
+  {
+    name: 'use-package',
+    description: 'Explain how to use an installed package for a task',
+    arguments: [
+      { name: 'package', description: 'Name of the installed package', required: true },
+      { name: 'task', description: 'What you want to do with it', required: true },
+    ],
+  },
+  {
+    name: 'migrate-package',
+    description:
+      "Plan the migration of the project's usage from one version of a package to another",
+    arguments: [
+      { name: 'package', description: 'Name of the installed package', required: true },
+      { name: 'from', description: 'Version the project uses today', required: true },
+      { name: 'to', description: 'Version to migrate to', required: true },
+    ],
+  },
+  {
+    name: 'audit-package-usage',
+    description: 'Review how the project uses a package against its public API',
+    arguments: [{ name: 'package', description: 'Name of the installed package', required: true }],
+  },
+];
+
+interface PackageContext {
+  version: string;
+  location: string; // Relative to the project
+  language: 'javascript' | 'python';
+  overview: PromptMessage;
+  api: EntryPointExports[] | null; // Null when the AST parser does not handle the language
+}
+
+export function listPackagePrompts(): ListPromptsResult {
+  return { prompts: PROMPTS };
+}
+
+/**
+ * Assemble a prompt from the installed package and the project's imports of it
+ */
+export async function getPackagePrompt(
+  name: string,
+  args: Record<string, string> = {},
+): Promise<GetPromptResult> {
+  const prompt = PROMPTS.find((candidate) => candidate.name === name);
+  if (!prompt) {
+    throw new McpError(
+      `Unknown prompt: ${name}`,
+      'PROMPT_NOT_FOUND',
+      `Available prompts: ${PROMPTS.map((candidate) => candidate.name).join(', ')}`,
+    );
+  }
+
+  for (const argument of prompt.arguments ?? []) {
+    if (argument.required && !args[argument.name]?.trim()) {
+      throw new McpError(
+        `Prompt "${name}" requires the "${argument.name}" argument`,
+        'INVALID_ARGUMENTS',
+      );
+    }
+  }
+
+  const packageName = args.package ?? '';
+  switch (name) {
+    case 'use-package':
+      return buildUsePrompt(packageName, args.task ?? '');
+    case 'migrate-package':
+      return buildMigratePrompt(packageName, args.from ?? '', args.to ?? '');
+    default:
+      return buildAuditPrompt(packageName);
+  }
+}
+
+async function buildUsePrompt(packageName: string, task: string): Promise<GetPromptResult> {
+  const context = await loadPackageContext(await locatePackage(packageName), packageName);
+  const imports = await findImports(packageName, context);
+
+  const text = [
+    `I want to use ${packageName} ${context.version} to ${task}.`,
+    '',
+    ...formatApiSurface(context.api),
+    ...formatImports(packageName, imports),
+    `Using the API of the installed version above, explain how to ${task} with ${packageName}.`,
+    'Show code that follows the way this project already imports the package, and point out',
+    'any setup or configuration it needs. Say so if the installed version cannot do it.',
+  ].join('\n');
+
+  return {
+    description: `Use ${packageName} ${context.version} to ${task}`,
+    messages: [context.overview, userText(text)],
+  };
+}
+
+async function buildMigratePrompt(
+  packageName: string,
+  from: string,
+  to: string,
+): Promise<GetPromptResult> {
+  // Usually only one side is installed: before or after the upgrade
+  const contexts = new Map<string, PackageContext>();
+  let notInstalled: unknown;
+  for (const version of [from, to]) {
+    try {
+      const located = await locatePackage(packageName, { version });
+      contexts.set(version, await loadPackageContext(located, packageName));
+    } catch (error) {
+      if (!(error instanceof InstallationNotFoundError)) throw error;
+      notInstalled = error;
+    }
+  }
+  const [installed] = contexts.values();
+  if (!installed) throw notInstalled;
+
+  const imports = await findImports(packageName, installed);
+  const before = contexts.get(from);
+  const after = contexts.get(to);
+
+  const lines = [`I want to migrate this project from ${packageName} ${from} to ${to}.`, ''];
+  lines.push('## Installed versions');
+  for (const version of [from, to]) {
+    const context = contexts.get(version);
+    lines.push(
+      `- ${version}: ${context ? `installed at ${context.location}` : 'not installed locally'}`,
+    );
+  }
+  lines.push('');
+
+  if (before?.api && after?.api) {
+    lines.push(...formatApiChanges(before.api, after.api, from, to));
+  } else {
+    const version = before ? from : to;
+    lines.push(...formatApiSurface(installed.api, `API surface of ${version}`));
+  }
+  lines.push(
+    ...formatImports(packageName, imports),
+    `Go through each place the project uses ${packageName} and explain what has to change for ${to}.`,
+    'Call out removed or renamed exports first, then behaviour changes, then new APIs worth',
+    'adopting. Where only one version is installed, rely on its changelog for the other side',
+    'and say which statements you could not check against installed code.',
+  );
+
+  return {
+    description: `Migrate ${packageName} from ${from} to ${to}`,
+    messages: [
+      ...[...contexts.values()].map((context) => context.overview),
+      userText(lines.join('\n')),
+    ],
+  };
+}
+
+async function buildAuditPrompt(packageName: string): Promise<GetPromptResult> {
+  const context = await loadPackageContext(await locatePackage(packageName), packageName);
+  const imports = await findImports(packageName, context);
+
+  const lines = [
+    `Audit how this project uses ${packageName} ${context.version}.`,
+    '',
+    ...formatApiSurface(context.api),
+    ...formatImports(packageName, imports),
+  ];
+
+  const outsideApi = context.api ? findImportsOutsideApi(imports, context.api) : [];
+  if (outsideApi.length > 0) {
+    lines.push('## Imports outside the public API');
+    for (const { site, names } of outsideApi) {
+      const what = names.length > 0 ? names.map((n) => `\`${n}\``).join(', ') : 'the module';
+      lines.push(`- ${site.file}:${site.line} imports ${what} from \`${site.specifier}\``);
+    }
+    lines.push('');
+  }
+
+  lines.push(
+    'Review each usage against the API above. Flag imports of internals or names the package',
+    'does not export, deprecated or discouraged calls, duplicated setup that could be shared,',
+    'and places where a better-suited export exists. Rank the findings by risk.',
+  );
+
+  return {
+    description: `Audit the project's usage of ${packageName} ${context.version}`,
+    messages: [context.overview, userText(lines.join('\n'))],
+  };
+}
+
+async function loadPackageContext(
+  located: LocatedPackage,
+  packageName: string,
+): Promise<PackageContext> {
+  const root = getProjectRoot();
+  const version = located.version ?? 'unknown';
+  const { contents } = await readPackageResource(formatPackageUri(packageName, version));
+  const [overview] = contents;
+  if (!overview) {
+    throw new McpError(`No overview available for ${packageName} ${version}`, 'RESOURCE_NOT_FOUND');
+  }
+
+  return {
+    version,
+    location: relative(root, resolve(root, located.selectedCopy?.location ?? located.location)),
+    language: located.scanner.language,
+    overview: { role: 'user', content: { type: 'resource', resource: overview } },
+    api: located.scanner.language === 'javascript' ? await parseApiSurface(located.location) : null,
+  };
+}
+
+/**
+ * Exports per entry point (`pkg`, `pkg/server`, ...), as the AST parser resolves them
+ */
+async function parseApiSurface(location: string): Promise<EntryPointExports[] | null> {
+  const parser = new ASTParser();
+  try {
+    const packageJson = JSON.parse(
+      await fs.readFile(join(location, 'package.json'), 'utf-8'),
+    ) as Record<string, unknown>;
+    const { exports } = await parser.parsePackage(location, packageJson);
+    if (exports.entryPoints && exports.entryPoints.length > 0) {
+      return exports.entryPoints;
+    }
+    return [
+      {
+        name: String(packageJson.name ?? ''),
+        file: String(packageJson.main ?? 'index.js'),
+        named: exports.named,
+        ...(exports.default !== undefined && { default: exports.default }),
+      },
+    ];
+  } catch (error) {
+    console.error(`[PROMPTS] Could not parse the API of ${location}:`, error);
+    return null;
+  } finally {
+    parser.clear();
+  }
+}
+
+async function findImports(packageName: string, context: PackageContext): Promise<ImportSite[]> {
+  return findProjectImports(getProjectRoot(), packageName, context.language);
+}
+
+/**
+ * Imports of subpaths the package does not expose, or of names its entry point does not export
+ */
+function findImportsOutsideApi(
+  imports: ImportSite[],
+  api: EntryPointExports[],
+): Array<{ site: ImportSite; names: string[] }> {
+  const outside: Array<{ site: ImportSite; names: string[] }> = [];
+  for (const site of imports) {
+    const entry = api.find((candidate) => candidate.name === site.specifier);
+    if (!entry) {
+      outside.push({ site, names: [] });
+      continue;
+    }
+    const exported = new Set([...entry.named, ...(entry.default !== undefined ? ['default'] : [])]);
+    const missing = site.names.filter((name) => name !== '*' && !exported.has(name));
+    if (missing.length > 0) {
+      outside.push({ site, names: missing });
+    }
+  }
+  return outside;
+}
+
+function formatApiSurface(api: EntryPointExports[] | null, heading = 'API surface'): string[] {
+  if (!api) return [];
+  const lines = [`## ${heading}`];
+  for (const entry of api) {
+    const names = [...(entry.default !== undefined ? ['default'] : []), ...entry.named];
+    lines.push(
+      `- \`${entry.name}\`: ${names.length > 0 ? names.join(', ') : '(no named exports)'}`,
+    );
+  }
+  lines.push('');
+  return lines;
+}
+
+function formatApiChanges(
+  before: EntryPointExports[],
+  after: EntryPointExports[],
+  from: string,
+  to: string,
+): string[] {
+  const exportsOf = (api: EntryPointExports[]): Map<string, Set<string>> =>
+    new Map(api.map((entry) => [entry.name, new Set(entry.named)]));
+  const old = exportsOf(before);
+  const current = exportsOf(after);
+
+  const lines = [`## API changes from ${from} to ${to}`];
+  for (const name of new Set([...old.keys(), ...current.keys()])) {
+    const removed = [...(old.get(name) ?? [])].filter((n) => !current.get(name)?.has(n));
+    const added = [...(current.get(name) ?? [])].filter((n) => !old.get(name)?.has(n));
+    if (!current.has(name)) lines.push(`- \`${name}\`: entry point removed`);
+    else if (!old.has(name)) lines.push(`- \`${name}\`: new entry point`);
+    if (removed.length > 0) lines.push(`- \`${name}\` removed: ${removed.join(', ')}`);
+    if (added.length > 0) lines.push(`- \`${name}\` added: ${added.join(', ')}`);
+  }
+  if (lines.length === 1) lines.push('No exported names were added or removed.');
+  lines.push('', ...formatApiSurface(after, `API surface of ${to}`));
+  return lines;
+}
+
+function formatImports(packageName: string, imports: ImportSite[]): string[] {
+  if (imports.length === 0) {
+    return [`This project does not import ${packageName} yet.`, ''];
+  }
+
+  const lines = [`## Where this project imports ${packageName}`];
+  for (const site of imports.slice(0, MAX_LISTED_IMPORTS)) {
+    const names = site.names.length > 0 ? `: ${site.names.join(', ')}` : ' (side effects only)';
+    lines.push(`- ${site.file}:${site.line} \`${site.specifier}\`${names}`);
+  }
+  if (imports.length > MAX_LISTED_IMPORTS) {
+    lines.push(`- ...and ${imports.length - MAX_LISTED_IMPORTS} more`);
+  }
+  lines.push('');
+  return lines;
+}
+
+function userText(text: string): PromptMessage {
+  return { role: 'user', content: { type: 'text', text } };
+}
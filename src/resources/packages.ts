@@ -0,0 +1,209 @@
+/**
+ * Installed packages as MCP resources
+ * pkg://<name>/<version> is a package's API overview (the read-package markdown) and
+ * pkg://<name>/<version>/<path> a file inside it; scoped names keep their slash,
+ * e.g. pkg://@scope/name/1.0.0/lib/index.js
+ */
+
+import type { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import type {
+  ListResourcesResult,
+  ListResourceTemplatesResult,
+  ReadResourceResult,
+  Resource,
+} from '@modelcontextprotocol/sdk/types.js';
+import { promises as fs } from 'node:fs';
+import { extname, isAbsolute, relative, resolve } from 'node:path';
+import { UnifiedCache } from '#utils/cache.js';
+import { getProjectScanner } from '#utils/scanner-factory.js';
+import { scanPackagesTool, type PackageIndexChanges } from '#tools/scan-packages.js';
+import { getUnreadableFileReason, locatePackage, readPackageTool } from '#tools/read-package.js';
+import { FileNotFoundError, McpError } from '#types.js';
+
+export const PACKAGE_URI_SCHEME = 'pkg://';
+
+const PAGE_SIZE = 100;
+
+const MIME_TYPES: Record<string, string> = {
+  '.md': 'text/markdown',
+  '.json': 'application/json',
+  '.js': 'text/javascript',
+  '.mjs': 'text/javascript',
+  '.cjs': 'text/javascript',
+  '.ts': 'text/typescript',
+  '.mts': 'text/typescript',
+  '.cts': 'text/typescript',
+  '.py': 'text/x-python',
+  '.pyi': 'text/x-python',
+  '.html': 'text/html',
+  '.css': 'text/css',
+};
+
+export interface PackageUri {
+  name: string;
+  version: string;
+  path?: string; // File inside the package; absent for the overview
+}
+
+/**
+ * Split a pkg:// URI into package name, version and file path, or null when malformed
+ */
+export function parsePackageUri(uri: string): PackageUri | null {
+  if (!uri.startsWith(PACKAGE_URI_SCHEME)) {
+    return null;
+  }
+
+  let segments: string[];
+  try {
+    segments = uri.slice(PACKAGE_URI_SCHEME.length).split('/').map(decodeURIComponent);
+  } catch {
+    return null; // Malformed percent-encoding
+  }
+
+  const nameLength = segments[0]?.startsWith('@') ? 2 : 1;
+  const nameSegments = segments.slice(0, nameLength);
+  const version = segments[nameLength];
+  if (nameSegments.length < nameLength || nameSegments.some((s) => s.length === 0) || !version) {
+    return null;
+  }
+
+  const path = segments.slice(nameLength + 1).join('/');
+  return { name: nameSegments.join('/'), version, ...(path.length > 0 && { path }) };
+}
+
+export function formatPackageUri(name: string, version: string, path?: string): string {
+  return `${PACKAGE_URI_SCHEME}${name}/${version}${path ? `/${path}` : ''}`;
+}
+
+/**
+ * One resource per installed package version, from the scan cache (scanning first when
+ * there is none yet); paginated with an offset cursor
+ */
+export async function listPackageResources(cursor?: string): Promise<ListResourcesResult> {
+  const offset = cursor ? Number.parseInt(cursor, 10) : 0;
+  if (!Number.isInteger(offset) || offset < 0) {
+    throw new McpError(`Invalid cursor: ${cursor}`, 'INVALID_CURSOR');
+  }
+
+  const scanner = await getProjectScanner();
+  const environment = await scanner.getEnvironmentInfo();
+  const cache = UnifiedCache.forProject();
+  let cached = cache.load(environment);
+  if (!cached) {
+    await scanPackagesTool({});
+    cached = cache.load(environment);
+  }
+
+  const resources: Resource[] = [];
+  const packages = Object.entries(cached?.packages ?? {}).sort(([a], [b]) => a.localeCompare(b));
+  for (const [name, info] of packages) {
+    // Nested and store copies are listed under their own versions
+    const versions = new Set([info.version, ...(info.installations ?? []).map((i) => i.version)]);
+    for (const version of versions) {
+      resources.push({
+        uri: formatPackageUri(name, version),
+        name: `${name}@${version}`,
+        description: `API overview of ${name} ${version}`,
+        mimeType: 'text/markdown',
+      });
+    }
+  }
+
+  const next = offset + PAGE_SIZE;
+  return {
+    resources: resources.slice(offset, next),
+    ...(next < resources.length && { nextCursor: String(next) }),
+  };
+}
+
+export function listPackageResourceTemplates(): ListResourceTemplatesResult {
+  return {
+    resourceTemplates: [
+      {
+        uriTemplate: `${PACKAGE_URI_SCHEME}{name}/{version}`,
+        name: 'package',
+        description: 'API overview of an installed package',
+        mimeType: 'text/markdown',
+      },
+      {
+        uriTemplate: `${PACKAGE_URI_SCHEME}{name}/{version}/{+path}`,
+        name: 'package-file',
+        description: 'A file inside an installed package',
+      },
+    ],
+  };
+}
+
+/**
+ * Read a package overview or file; files go through the same size and binary guards
+ * as read-package
+ */
+export async function readPackageResource(uri: string): Promise<ReadResourceResult> {
+  const parsed = parsePackageUri(uri);
+  if (!parsed) {
+    throw new McpError(
+      `Invalid package resource URI: ${uri}`,
+      'INVALID_URI',
+      `Use ${PACKAGE_URI_SCHEME}<name>/<version> or ${PACKAGE_URI_SCHEME}<name>/<version>/<path>`,
+    );
+  }
+
+  if (!parsed.path) {
+    const result = await readPackageTool({ packageName: parsed.name, version: parsed.version });
+    if (result.type === 'error') {
+      throw new McpError(result.error, 'RESOURCE_NOT_FOUND', result.suggestion);
+    }
+    const text = result.type === 'tree' ? (result.initContent ?? '') : result.content;
+    return { contents: [{ uri, mimeType: 'text/markdown', text }] };
+  }
+
+  const { location } = await locatePackage(parsed.name, { version: parsed.version });
+  const filePath = resolve(location, parsed.path);
+  const relativePath = relative(location, filePath);
+  if (relativePath.startsWith('..') || isAbsolute(relativePath)) {
+    throw new FileNotFoundError(parsed.path); // Never read outside the package
+  }
+
+  const stats = await fs.stat(filePath).catch(() => null);
+  if (!stats?.isFile()) {
+    throw new FileNotFoundError(parsed.path);
+  }
+
+  const unreadable = getUnreadableFileReason(filePath, stats.size, parsed.path);
+  if (unreadable) {
+    throw new McpError(unreadable, 'UNREADABLE_FILE');
+  }
+
+  return {
+    contents: [
+      {
+        uri,
+        mimeType: MIME_TYPES[extname(filePath).toLowerCase()] ?? 'text/plain',
+        text: await fs.readFile(filePath, 'utf-8'),
+      },
+    ],
+  };
+}
+
+/**
+ * Tell clients what a re-index changed: the resource list whenever packages or versions
+ * changed (versions are part of the URIs), and each subscribed resource of an affected package
+ */
+export async function notifyPackageChanges(
+  server: Server,
+  changes: PackageIndexChanges,
+  subscriptions: Iterable<string>,
+): Promise<void> {
+  const affected = new Set([...changes.added, ...changes.updated, ...changes.removed]);
+  if (affected.size === 0) {
+    return;
+  }
+
+  await server.sendResourceListChanged();
+  for (const uri of subscriptions) {
+    const parsed = parsePackageUri(uri);
+    if (parsed && affected.has(parsed.name)) {
+      await server.sendResourceUpdated({ uri });
+    }
+  }
+}
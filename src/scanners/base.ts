@@ -7,6 +7,7 @@ import type {
 } from '#scanners/types.js';
 import { promises as fs } from 'node:fs';
 import { join } from 'node:path';
+import { getProjectRoot } from '#utils/project-context.js';
 
 export abstract class BaseScanner implements IPackageScanner {
   protected readonly basePath: string;
@@ -18,7 +19,7 @@ export abstract class BaseScanner implements IPackageScanner {
   abstract readonly language: 'python' | 'javascript';
   abstract readonly supportedPackageManagers: readonly string[];
 
-  constructor(basePath: string = process.cwd()) {
+  constructor(basePath: string = getProjectRoot()) {
     this.basePath = basePath;
     this.debug = process.env.DEBUG?.includes('mcp-pkg-local') ?? false;
   }
@@ -29,6 +30,7 @@ export abstract class BaseScanner implements IPackageScanner {
   abstract getPackageVersion(packageName: string): Promise<string | null>;
   abstract getEnvironmentInfo(): Promise<EnvironmentInfo>;
   abstract getPackageInfo(packageName: string): Promise<BasicPackageInfo | null>;
+  abstract getWatchPaths(): Promise<string[]>;
 
   // Scanner capability methods
   abstract canHandle(basePath: string): Promise<boolean>;
@@ -0,0 +1,225 @@
+import type {
+  IPackageScanner,
+  ScanResult,
+  EnvironmentInfo,
+  ScanOptions,
+  BasicPackageInfo,
+} from '#scanners/types.js';
+import { EnvironmentNotFoundError } from '#types.js';
+
+type PackageLanguage = BasicPackageInfo['language'];
+
+/**
+ * Index key of a package that shares its name with a package of another language
+ * (e.g. `python:requests` next to the npm `requests`)
+ */
+export function qualifyPackageName(language: PackageLanguage, name: string): string {
+  return `${language}:${name}`;
+}
+
+/**
+ * Key of a package in a scan index, optionally restricted to one language; without a
+ * language a name found in several ecosystems resolves to the project's primary one
+ */
+export function findPackageKey(
+  packages: Record<string, BasicPackageInfo>,
+  name: string,
+  language?: PackageLanguage,
+): string | null {
+  const keys = language ? [name, qualifyPackageName(language, name)] : [name];
+  return (
+    keys.find((key) => packages[key] && (!language || packages[key].language === language)) ?? null
+  );
+}
+
+/**
+ * The scanner that handles one language: the scanner itself, or the matching part of a
+ * polyglot project's composite scanner
+ */
+export async function scannerForLanguage(
+  scanner: IPackageScanner,
+  language: PackageLanguage,
+): Promise<IPackageScanner | null> {
+  if (scanner instanceof CompositeScanner) {
+    return scanner.forLanguage(language);
+  }
+  return scanner.language === language ? scanner : null;
+}
+
+/**
+ * Scanner for polyglot projects (a Python service with a TypeScript frontend in the same
+ * tree): runs every scanner that detected its ecosystem and merges what they find
+ */
+export class CompositeScanner implements IPackageScanner {
+  // The first scanner's language is the project's primary one
+  readonly language: PackageLanguage;
+
+  private active: Promise<IPackageScanner[]> | null = null;
+
+  constructor(private readonly scanners: IPackageScanner[]) {
+    if (!scanners[0]) {
+      throw new Error('CompositeScanner needs at least one scanner');
+    }
+    this.language = scanners[0].language;
+  }
+
+  /**
+   * The scanner of one language, when that language has an environment
+   */
+  async forLanguage(language: PackageLanguage): Promise<IPackageScanner | null> {
+    const active = await this.getActiveScanners();
+    return active.find((scanner) => scanner.language === language) ?? null;
+  }
+
+  async scan(options?: ScanOptions): Promise<ScanResult> {
+    if (options?.lockfileOnly) {
+      return this.scanLockfiles();
+    }
+
+    const packages: Record<string, BasicPackageInfo> = {};
+
+    for (const scanner of await this.getActiveScanners()) {
+      const result = await scanner.scan(options);
+      this.mergePackages(packages, result);
+    }
+
+    return {
+      success: true,
+      packages,
+      environment: await this.getEnvironmentInfo(),
+      scanTime: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * Every language's lockfile, including languages whose environment was not created yet
+   */
+  private async scanLockfiles(): Promise<ScanResult> {
+    const packages: Record<string, BasicPackageInfo> = {};
+    const environments: Partial<Record<PackageLanguage, EnvironmentInfo>> = {};
+    let firstError: unknown = null;
+
+    for (const scanner of this.scanners) {
+      try {
+        const result = await scanner.scan({ lockfileOnly: true });
+        this.mergePackages(packages, result);
+        environments[scanner.language] = result.environment;
+      } catch (error) {
+        console.error(`[SCAN] Skipping ${scanner.language}: no lockfile found`);
+        firstError ??= error;
+      }
+    }
+
+    const found = Object.values(environments);
+    const primary = found[0];
+    if (!primary) {
+      throw firstError;
+    }
+    return {
+      success: true,
+      packages,
+      environment: found.length > 1 ? { ...primary, environments } : primary,
+      scanTime: new Date().toISOString(),
+    };
+  }
+
+  private mergePackages(packages: Record<string, BasicPackageInfo>, result: ScanResult): void {
+    for (const [name, info] of Object.entries(result.packages ?? {})) {
+      if (packages[name]) {
+        console.error(
+          `[SCAN] ${name} is installed for several languages, indexed as ${qualifyPackageName(info.language, name)}`,
+        );
+        packages[qualifyPackageName(info.language, name)] = info;
+      } else {
+        packages[name] = info;
+      }
+    }
+  }
+
+  async getPackageLocation(packageName: string): Promise<string | null> {
+    return this.findFirst((scanner) => scanner.getPackageLocation(packageName));
+  }
+
+  async getPackageVersion(packageName: string): Promise<string | null> {
+    return this.findFirst((scanner) => scanner.getPackageVersion(packageName));
+  }
+
+  async getPackageInfo(packageName: string): Promise<BasicPackageInfo | null> {
+    return this.findFirst((scanner) => scanner.getPackageInfo(packageName));
+  }
+
+  /**
+   * The primary language's environment, with every language's environment attached when
+   * more than one was found
+   */
+  async getEnvironmentInfo(): Promise<EnvironmentInfo> {
+    const active = await this.getActiveScanners();
+    const environments: Partial<Record<PackageLanguage, EnvironmentInfo>> = {};
+    for (const scanner of active) {
+      environments[scanner.language] = await scanner.getEnvironmentInfo();
+    }
+
+    const primary = environments[active[0]?.language ?? this.language];
+    if (!primary) {
+      throw new EnvironmentNotFoundError(this.language);
+    }
+    return active.length > 1 ? { ...primary, environments } : primary;
+  }
+
+  async getWatchPaths(): Promise<string[]> {
+    const paths: string[] = [];
+    for (const scanner of await this.getActiveScanners()) {
+      paths.push(...(await scanner.getWatchPaths()));
+    }
+    return [...new Set(paths)];
+  }
+
+  /**
+   * The active scanners, detected once and shared by concurrent callers. A failed
+   * detection is not kept, so the next call detects again, e.g. once the environment
+   * was created
+   */
+  private getActiveScanners(): Promise<IPackageScanner[]> {
+    if (!this.active) {
+      this.active = this.detectActiveScanners();
+      this.active.catch(() => (this.active = null));
+    }
+    return this.active;
+  }
+
+  /**
+   * Scanners whose environment exists: a pyproject.toml next to package.json is detected
+   * as Python even before a virtual environment was created
+   */
+  private async detectActiveScanners(): Promise<IPackageScanner[]> {
+    const active: IPackageScanner[] = [];
+    let firstError: unknown = null;
+
+    for (const scanner of this.scanners) {
+      try {
+        await scanner.getEnvironmentInfo();
+        active.push(scanner);
+      } catch (error) {
+        console.error(`[SCAN] Skipping ${scanner.language}: no environment found`);
+        firstError ??= error;
+      }
+    }
+
+    if (active.length === 0) {
+      throw firstError;
+    }
+    return active;
+  }
+
+  private async findFirst<T>(
+    lookup: (scanner: IPackageScanner) => Promise<T | null>,
+  ): Promise<T | null> {
+    for (const scanner of await this.getActiveScanners()) {
+      const found = await lookup(scanner);
+      if (found !== null) {
+        return found;
+      }
+    }
+    return null;
+  }
+}
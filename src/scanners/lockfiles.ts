@@ -0,0 +1,457 @@
+/**
+ * Lockfile reading
+ * package-lock.json, pnpm-lock.yaml, yarn.lock and uv.lock record the exact resolved
+ * dependency set, so a fresh clone (or CI before install) can be enumerated without
+ * node_modules or a virtual environment
+ */
+
+import { readFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import type { BasicPackageInfo, PackageInstallation } from '#scanners/types.js';
+import { parseYaml, type YamlValue } from '#utils/yaml.js';
+import type { UVLockDependency } from '#bottles/package-managers/uv';
+import { createManifestParsers } from '#utils/project-dependencies.js';
+
+export interface LockedPackage {
+  name: string;
+  version: string;
+  integrity?: string; // Registry hash: sha512-... for npm, sha256:... for uv
+  dev: boolean; // Only needed by development dependencies
+  optional: boolean; // Only reached through optional dependencies
+}
+
+export interface LockfileContents {
+  lockfile: string; // File name, relative to the project root
+  packageManager: 'npm' | 'pnpm' | 'yarn' | 'uv';
+  packages: LockedPackage[];
+}
+
+// Lockfiles that do not record dev and optional flags are classified from the project's
+// own dependencies down
+interface LockNode {
+  name: string;
+  version: string;
+  integrity?: string;
+  dependencies: string[];
+  optionalDependencies: string[];
+}
+
+interface LockRoots {
+  production: string[];
+  development: string[];
+  optional: string[];
+}
+
+type YamlMapping = Record<string, YamlValue>;
+
+async function readText(path: string): Promise<string | null> {
+  try {
+    return await readFile(path, 'utf-8');
+  } catch {
+    return null;
+  }
+}
+
+function asMapping(value: YamlValue | undefined): YamlMapping {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) ? value : {};
+}
+
+function asString(value: YamlValue | undefined): string | undefined {
+  return typeof value === 'string' ? value : undefined;
+}
+
+function classify(nodes: Map<string, LockNode>, roots: LockRoots): LockedPackage[] {
+  const reach = (from: string[], includeOptional: boolean): Set<string> => {
+    const reached = new Set<string>();
+    const queue = [...from];
+    for (let id = queue.shift(); id !== undefined; id = queue.shift()) {
+      const node = nodes.get(id);
+      if (!node || reached.has(id)) continue;
+      reached.add(id);
+      queue.push(...node.dependencies, ...(includeOptional ? node.optionalDependencies : []));
+    }
+    return reached;
+  };
+
+  const production = reach([...roots.production, ...roots.optional], true);
+  const required = reach([...roots.production, ...roots.development], false);
+  return [...nodes].map(([id, node]) => ({
+    name: node.name,
+    version: node.version,
+    ...(node.integrity && { integrity: node.integrity }),
+    dev: !production.has(id),
+    optional: !required.has(id),
+  }));
+}
+
+interface NpmLockEntry {
+  name?: string;
+  version?: string;
+  integrity?: string;
+  dev?: boolean;
+  optional?: boolean;
+  devOptional?: boolean; // Optional in production, required for development
+  link?: boolean;
+  dependencies?: Record<string, NpmLockEntry>; // lockfileVersion 1
+}
+
+/**
+ * package-lock.json and npm-shrinkwrap.json: v2 and v3 list every install path under
+ * `packages` with its flags; v1 nests `dependencies`
+ */
+function readNpmLockfile(content: string): LockedPackage[] {
+  const lock = JSON.parse(content) as {
+    packages?: Record<string, NpmLockEntry>;
+    dependencies?: Record<string, NpmLockEntry>;
+  };
+  const toLocked = (name: string, entry: NpmLockEntry): LockedPackage => ({
+    name,
+    version: entry.version ?? 'unknown',
+    ...(entry.integrity && { integrity: entry.integrity }),
+    dev: Boolean(entry.dev ?? entry.devOptional),
+    optional: Boolean(entry.optional ?? entry.devOptional),
+  });
+
+  if (lock.packages) {
+    const packages: LockedPackage[] = [];
+    for (const [path, entry] of Object.entries(lock.packages)) {
+      // The project itself, workspace sources and the links to them
+      const marker = path.lastIndexOf('node_modules/');
+      if (marker === -1 || entry.link) continue;
+      packages.push(toLocked(entry.name ?? path.slice(marker + 'node_modules/'.length), entry));
+    }
+    return packages;
+  }
+
+  const packages: LockedPackage[] = [];
+  const visit = (dependencies: Record<string, NpmLockEntry>): void => {
+    for (const [name, entry] of Object.entries(dependencies)) {
+      packages.push(toLocked(name, entry));
+      visit(entry.dependencies ?? {});
+    }
+  };
+  visit(lock.dependencies ?? {});
+  return packages;
+}
+
+/**
+ * pnpm-lock.yaml: lockfileVersion 5 keys packages as /name/1.0.0, 6 as /name@1.0.0 and 9
+ * as name@1.0.0 with the dependency edges moved to `snapshots`; peer suffixes such as
+ * (react@18.2.0) or _react@18.2.0 select a variant of the same version
+ */
+function readPnpmLockfile(content: string): LockedPackage[] {
+  const lock = asMapping(parseYaml(content));
+  const legacyKeys = Number.parseFloat(asString(lock.lockfileVersion) ?? '0') < 6;
+  const packages = asMapping(lock.packages);
+  const snapshots = lock.snapshots === undefined ? packages : asMapping(lock.snapshots);
+
+  const split = (id: string): { name: string; version: string } => {
+    const key = id.replace(/^\//, '').replace(/\(.*$/, '');
+    const separator = legacyKeys ? key.lastIndexOf('/') : key.lastIndexOf('@');
+    return separator > 0
+      ? { name: key.slice(0, separator), version: key.slice(separator + 1).split('_')[0] ?? '' }
+      : { name: key, version: 'unknown' };
+  };
+  const toId = (name: string, version: string): string | null => {
+    if (/^(link|file|workspace):/.test(version)) return null;
+    // Aliased dependencies point at another package's id
+    if (version.startsWith('/') || (!/^\d/.test(version) && version.includes('@'))) {
+      return snapshots[version] === undefined && snapshots[`/${version}`] !== undefined
+        ? `/${version}`
+        : version;
+    }
+    if (lock.snapshots !== undefined) return `${name}@${version}`;
+    return legacyKeys ? `/${name}/${version}` : `/${name}@${version}`;
+  };
+  const edges = (dependencies: YamlValue | undefined): string[] =>
+    Object.entries(asMapping(dependencies)).flatMap(([name, version]) => {
+      // Importers write { specifier, version }, packages the version alone
+      const resolved = asString(version) ?? asString(asMapping(version).version);
+      const id = resolved ? toId(name, resolved) : null;
+      return id ? [id] : [];
+    });
+
+  const nodes = new Map<string, LockNode>();
+  for (const [id, entry] of Object.entries(snapshots)) {
+    const { name, version } = split(id);
+    const details = asMapping(entry);
+    const resolution = asMapping(
+      lock.snapshots === undefined
+        ? details.resolution
+        : asMapping(packages[`${name}@${version}`]).resolution,
+    );
+    const integrity = asString(resolution.integrity);
+    nodes.set(id, {
+      name: asString(details.name) ?? name,
+      version: asString(details.version) ?? version,
+      ...(integrity && { integrity }),
+      dependencies: edges(details.dependencies),
+      optionalDependencies: edges(details.optionalDependencies),
+    });
+  }
+
+  // Single-project lockfiles before v6 keep the importer's dependencies at the top level
+  const importers = lock.importers === undefined ? { '.': lock } : asMapping(lock.importers);
+  const roots: LockRoots = { production: [], development: [], optional: [] };
+  for (const importer of Object.values(importers)) {
+    const project = asMapping(importer);
+    roots.production.push(...edges(project.dependencies));
+    roots.development.push(...edges(project.devDependencies));
+    roots.optional.push(...edges(project.optionalDependencies));
+  }
+  return classify(nodes, roots);
+}
+
+interface YarnEntry {
+  descriptors: string[];
+  fields: Record<string, string>;
+  sections: Record<string, Record<string, string>>;
+}
+
+function unquoteYarn(text: string): string {
+  return text.trim().replace(/^"(.*)"$/, '$1');
+}
+
+/**
+ * Yarn 1 writes its own format: unindented descriptor lists, two-space fields written
+ * as `key value`, and dependency sections below them
+ */
+function parseYarnClassic(content: string): YarnEntry[] {
+  const entries: YarnEntry[] = [];
+  let entry: YarnEntry | null = null;
+  let section: Record<string, string> | null = null;
+
+  for (const line of content.split(/\r?\n/)) {
+    if (!line.trim() || line.trimStart().startsWith('#')) continue;
+    const indent = line.length - line.trimStart().length;
+    const text = line.trim();
+
+    if (indent === 0) {
+      entry = {
+        descriptors: text.replace(/:$/, '').split(/,\s*/).map(unquoteYarn),
+        fields: {},
+        sections: {},
+      };
+      entries.push(entry);
+      section = null;
+    } else if (entry && text.endsWith(':')) {
+      section = {};
+      entry.sections[unquoteYarn(text.slice(0, -1))] = section;
+    } else if (entry) {
+      const match = /^("[^"]*"|\S+)\s+(.*)$/.exec(text);
+      if (!match?.[1] || match[2] === undefined) continue;
+      const target = indent > 2 && section ? section : entry.fields;
+      target[unquoteYarn(match[1])] = unquoteYarn(match[2]);
+    }
+  }
+  return entries;
+}
+
+/**
+ * Yarn 2+ lockfiles are YAML; optional dependencies are regular dependencies marked in
+ * dependenciesMeta
+ */
+function parseYarnBerry(content: string): YarnEntry[] {
+  const entries: YarnEntry[] = [];
+  for (const [key, value] of Object.entries(asMapping(parseYaml(content)))) {
+    if (key === '__metadata') continue;
+    const details = asMapping(value);
+    const fields: Record<string, string> = {};
+    const sections: Record<string, Record<string, string>> = {};
+    for (const [field, fieldValue] of Object.entries(details)) {
+      if (typeof fieldValue === 'string') fields[field] = fieldValue;
+    }
+
+    const dependencies = Object.entries(asMapping(details.dependencies));
+    const meta = asMapping(details.dependenciesMeta);
+    const isOptional = (name: string): boolean => asMapping(meta[name]).optional === true;
+    sections.dependencies = Object.fromEntries(
+      dependencies
+        .filter(([name]) => !isOptional(name))
+        .map(([name, range]) => [name, String(range)]),
+    );
+    sections.optionalDependencies = Object.fromEntries(
+      dependencies
+        .filter(([name]) => isOptional(name))
+        .map(([name, range]) => [name, String(range)]),
+    );
+    entries.push({ descriptors: key.split(/,\s*/), fields, sections });
+  }
+  return entries;
+}
+
+function readYarnLockfile(content: string, manifest: Record<string, unknown>): LockedPackage[] {
+  const berry = /^__metadata:/m.test(content);
+  const entries = berry ? parseYarnBerry(content) : parseYarnClassic(content);
+
+  // Entries are found by any of the descriptors (name@range) that resolved to them
+  const byDescriptor = new Map<string, string>();
+  const nodes = new Map<string, LockNode>();
+  for (const entry of entries) {
+    const id = entry.descriptors[0];
+    // Workspaces are the project itself
+    if (!id || /@workspace:/.test(entry.fields.resolution ?? '')) continue;
+    for (const descriptor of entry.descriptors) byDescriptor.set(descriptor, id);
+  }
+
+  const resolve = (dependencies: Record<string, string> | undefined): string[] =>
+    Object.entries(dependencies ?? {}).flatMap(([name, range]) => {
+      // Yarn 2+ writes the npm: protocol that package.json ranges leave out
+      const id = byDescriptor.get(`${name}@${range}`) ?? byDescriptor.get(`${name}@npm:${range}`);
+      return id ? [id] : [];
+    });
+
+  for (const entry of entries) {
+    const id = entry.descriptors[0];
+    if (!id || byDescriptor.get(id) !== id) continue;
+    const descriptor = id.replace(/^(@?[^@]+)@.*$/, '$1');
+    const integrity = entry.fields.integrity ?? entry.fields.checksum;
+    nodes.set(id, {
+      name: descriptor,
+      version: entry.fields.version ?? 'unknown',
+      ...(integrity && { integrity }),
+      dependencies: resolve(entry.sections.dependencies),
+      optionalDependencies: resolve(entry.sections.optionalDependencies),
+    });
+  }
+
+  const field = (name: string): Record<string, string> | undefined =>
+    manifest[name] as Record<string, string> | undefined;
+  return classify(nodes, {
+    production: resolve(field('dependencies')),
+    development: resolve(field('devDependencies')),
+    optional: resolve(field('optionalDependencies')),
+  });
+}
+
+/**
+ * The lockfile of a Node.js project, looked up in the order package managers are
+ * detected; null when the project has none
+ */
+export async function readNodeLockfile(projectRoot: string): Promise<LockfileContents | null> {
+  const pnpm = await readText(join(projectRoot, 'pnpm-lock.yaml'));
+  if (pnpm !== null) {
+    return { lockfile: 'pnpm-lock.yaml', packageManager: 'pnpm', packages: readPnpmLockfile(pnpm) };
+  }
+
+  const yarn = await readText(join(projectRoot, 'yarn.lock'));
+  if (yarn !== null) {
+    const manifest = JSON.parse(
+      (await readText(join(projectRoot, 'package.json'))) ?? '{}',
+    ) as Record<string, unknown>;
+    return {
+      lockfile: 'yarn.lock',
+      packageManager: 'yarn',
+      packages: readYarnLockfile(yarn, manifest),
+    };
+  }
+
+  for (const lockfile of ['npm-shrinkwrap.json', 'package-lock.json']) {
+    const npm = await readText(join(projectRoot, lockfile));
+    if (npm !== null) {
+      return { lockfile, packageManager: 'npm', packages: readNpmLockfile(npm) };
+    }
+  }
+  return null;
+}
+
+/**
+ * uv.lock, parsed by the uv adapter; the project and its workspace members are the
+ * editable or virtual packages, and their extras and dependency groups the optional and
+ * development roots. Dependencies gated by an environment marker (`sys_platform ==
+ * 'win32'`) are locked for every platform but only installed on some, so they count as
+ * optional
+ */
+export async function readUvLockfile(projectRoot: string): Promise<LockfileContents | null> {
+  const content = await readText(join(projectRoot, 'uv.lock'));
+  const lock =
+    content === null ? null : createManifestParsers(projectRoot).uv.parseUVLockFile(content);
+  if (!lock) {
+    return null;
+  }
+
+  const locked = lock.package ?? [];
+  const idsByName = new Map<string, string[]>();
+  for (const pkg of locked) {
+    idsByName.set(pkg.name, [...(idsByName.get(pkg.name) ?? []), `${pkg.name}@${pkg.version}`]);
+  }
+  const resolve = (dependencies: UVLockDependency[] | undefined): string[] =>
+    (dependencies ?? []).flatMap((dep) => idsByName.get(dep.name) ?? []);
+  const unconditional = (dependencies: UVLockDependency[] | undefined): UVLockDependency[] =>
+    (dependencies ?? []).filter((dep) => dep.marker === undefined);
+  const gated = (dependencies: UVLockDependency[] | undefined): UVLockDependency[] =>
+    (dependencies ?? []).filter((dep) => dep.marker !== undefined);
+
+  const nodes = new Map<string, LockNode>();
+  const roots: LockRoots = { production: [], development: [], optional: [] };
+  for (const pkg of locked) {
+    const optional = [
+      ...resolve(Object.values(pkg.optional_dependencies ?? {}).flat()),
+      ...resolve(gated(pkg.dependencies)),
+    ];
+    if (pkg.source?.editable !== undefined || pkg.source?.virtual !== undefined) {
+      roots.production.push(...resolve(unconditional(pkg.dependencies)));
+      roots.optional.push(...optional);
+      // Gated development dependencies stay unreached: dev-only and optional
+      roots.development.push(
+        ...resolve(unconditional(Object.values(pkg.dev_dependencies ?? {}).flat())),
+      );
+      continue;
+    }
+
+    // A wheel-only package has one hash per platform; only a universal wheel has one hash
+    const integrity = pkg.sdist?.hash ?? (pkg.wheel?.length === 1 ? pkg.wheel[0]?.hash : undefined);
+    nodes.set(`${pkg.name}@${pkg.version}`, {
+      name: pkg.name,
+      version: pkg.version,
+      ...(integrity && { integrity }),
+      dependencies: resolve(unconditional(pkg.dependencies)),
+      optionalDependencies: optional,
+    });
+  }
+
+  return { lockfile: 'uv.lock', packageManager: 'uv', packages: classify(nodes, roots) };
+}
+
+/**
+ * Scan index of a lockfile: one entry per name, the first locked version first, and every
+ * locked version in `installations` when there are several
+ */
+export function indexLockedPackages(
+  contents: LockfileContents,
+  language: BasicPackageInfo['language'],
+): Record<string, BasicPackageInfo> {
+  const packages: Record<string, BasicPackageInfo> = {};
+  for (const locked of contents.packages) {
+    const existing = packages[locked.name];
+    const installation: PackageInstallation = {
+      version: locked.version,
+      location: contents.lockfile,
+    };
+    if (existing) {
+      // pnpm locks peer-dependency variants of one version separately
+      const copies = existing.installations ?? [
+        { version: existing.version, location: contents.lockfile },
+      ];
+      if (!copies.some((copy) => copy.version === locked.version)) {
+        existing.installations = [...copies, installation];
+      }
+      // A package needed in production is not a dev-only one, whichever copy says so
+      existing.dev = Boolean(existing.dev && locked.dev);
+      existing.optional = Boolean(existing.optional && locked.optional);
+      continue;
+    }
+
+    packages[locked.name] = {
+      name: locked.name,
+      version: locked.version,
+      location: contents.lockfile,
+      language,
+      packageManager: contents.packageManager,
+      ...(locked.integrity && { integrity: locked.integrity }),
+      dev: locked.dev,
+      optional: locked.optional,
+    };
+  }
+  return packages;
+}
@@ -1,9 +1,34 @@
 import { BaseScanner } from '#scanners/base.js';
-import type { BasicPackageInfo, ScanResult, EnvironmentInfo } from '#scanners/types.js';
+import type {
+  BasicPackageInfo,
+  ScanResult,
+  ScanOptions,
+  EnvironmentInfo,
+  PackageInstallation,
+} from '#scanners/types.js';
 import { EnvironmentNotFoundError } from '#types.js';
-import { join, dirname } from 'node:path';
-import { readdir, readFile } from 'node:fs/promises';
-import { StreamManager, createConsoleStream } from '#utils/streaming.js';
+import { join, dirname, relative } from 'node:path';
+import { readdir, readFile, lstat, realpath } from 'node:fs/promises';
+import type { Dirent } from 'node:fs';
+import { createScanStream, type StreamManager } from '#utils/streaming.js';
+import { getTypesPackageName } from '#parsers/entry-points.js';
+import { readPnpPackages, type PnpPackage } from '#scanners/pnp.js';
+import { readNodeLockfile, indexLockedPackages } from '#scanners/lockfiles.js';
+import { ZipArchive, splitArchivePath, unpackArchivedPath } from '#utils/zip-archive.js';
+import { getUnpackedArchivesDir } from '#utils/cache-paths.js';
+
+// Rewritten by every install, whichever package manager ran it
+const LOCK_FILES = [
+  'package-lock.json',
+  'npm-shrinkwrap.json',
+  'pnpm-lock.yaml',
+  'yarn.lock',
+  'bun.lockb',
+  '.pnp.cjs',
+];
+
+// npm rarely nests deeper than a few levels; the cap guards against pathological trees
+const MAX_NESTING_DEPTH = 8;
 
 export class NodeJSScanner extends BaseScanner {
   // Scanner identification properties
@@ -14,17 +39,21 @@ export class NodeJSScanner extends BaseScanner {
   private nodeModulesPath: string | null = null;
   private packageJsonCache = new Map<string, Record<string, unknown>>();
   private cachedPackageManager: string | null = null;
+  private realBasePath: string | null = null;
+  private pnpPackages: PnpPackage[] | null | undefined; // undefined until looked up
 
-  async scan(): Promise<ScanResult> {
+  async scan(options: ScanOptions = {}): Promise<ScanResult> {
     const startTime = Date.now();
 
-    // Setup streaming - use console stream if VERBOSE or DEBUG is enabled
-    const shouldStream =
-      process.env.VERBOSE === '1' || (process.env.DEBUG?.includes('mcp-pkg-local') ?? false);
-    const stream = shouldStream ? new StreamManager(createConsoleStream()) : new StreamManager();
+    // Progress goes to the console (VERBOSE/DEBUG) and to the requesting client
+    const stream = createScanStream();
 
     this.log('Starting Node.js environment scan');
 
+    // Scanners live per project; start from what is installed now
+    this.locationCache.clear();
+    this.pnpPackages = undefined;
+
     // Find package.json (project root)
     const projectPath = await this.findPackageJson();
     if (!projectPath) {
@@ -34,13 +63,24 @@ export class NodeJSScanner extends BaseScanner {
     this.projectRoot = projectPath;
     this.log(`Found package.json at: ${projectPath}`);
 
-    // Find node_modules
+    if (options.lockfileOnly) {
+      return this.scanLockfile(projectPath);
+    }
+
+    // Find node_modules; Yarn Plug'n'Play installs have none and resolve through .pnp.cjs
     this.nodeModulesPath = join(projectPath, 'node_modules');
-    if (!(await this.pathExists(this.nodeModulesPath))) {
-      throw new Error('Could not find node_modules directory. Run "npm install" first.');
+    const pnpPackages = await this.loadPnpPackages();
+    if (!pnpPackages && !(await this.pathExists(this.nodeModulesPath))) {
+      throw new Error(
+        'Could not find node_modules directory. Run "npm install" first, or scan the lockfile with lockfileOnly.',
+      );
     }
 
-    this.log(`Found node_modules at: ${this.nodeModulesPath}`);
+    this.log(
+      pnpPackages
+        ? `Found Plug'n'Play manifest with ${pnpPackages.length} packages`
+        : `Found node_modules at: ${this.nodeModulesPath}`,
+    );
 
     // Get environment info
     const environment = await this.getEnvironmentInfo();
@@ -52,7 +92,25 @@ export class NodeJSScanner extends BaseScanner {
     });
 
     // Scan packages with streaming
-    const packages = await this.scanPackagesWithStreaming(stream);
+    const packages = pnpPackages
+      ? await this.scanPnpPackages(pnpPackages, stream)
+      : await this.scanPackagesWithStreaming(stream);
+
+    if (!pnpPackages) {
+      // npm nests conflicting versions below the packages that need them
+      stream.throwIfCancelled();
+      await this.indexNestedInstalls(packages);
+      // pnpm keeps the real packages, every version of them, in a virtual store
+      stream.throwIfCancelled();
+      await this.indexVirtualStore(packages, options.includeVirtualStore ?? false);
+    }
+
+    // JavaScript-only packages are typed when their DefinitelyTyped package is installed
+    for (const [name, info] of Object.entries(packages)) {
+      if (!info.hasTypes && packages[getTypesPackageName(name)]) {
+        info.hasTypes = true;
+      }
+    }
 
     // Emit completion event
     const duration = Date.now() - startTime;
@@ -66,15 +124,52 @@ export class NodeJSScanner extends BaseScanner {
     };
   }
 
+  /**
+   * The resolved packages of the project's lockfile, whether or not they are installed
+   */
+  private async scanLockfile(projectPath: string): Promise<ScanResult> {
+    const contents = await readNodeLockfile(projectPath);
+    if (!contents) {
+      throw new Error(
+        'No package-lock.json, pnpm-lock.yaml or yarn.lock found. Run "npm install" to create one.',
+      );
+    }
+    this.log(`Read ${contents.packages.length} locked packages from ${contents.lockfile}`);
+
+    const packages = indexLockedPackages(contents, 'javascript');
+    for (const [name, info] of Object.entries(packages)) {
+      info.hasTypes = name.startsWith('@types/') || Boolean(packages[getTypesPackageName(name)]);
+    }
+
+    return {
+      success: true,
+      packages,
+      environment: await this.getEnvironmentInfo(),
+      scanTime: new Date().toISOString(),
+    };
+  }
+
   async getPackageLocation(packageName: string): Promise<string | null> {
     // Check cache first using base class method
     const cachedLocation = this.getCachedPackageLocation(packageName);
     if (cachedLocation) {
-      return cachedLocation;
+      return this.unpackArchived(cachedLocation);
     }
 
+    // Resolve node_modules lazily so lookups work without a prior scan
     if (!this.nodeModulesPath) {
-      return null;
+      const projectPath = this.projectRoot ?? (await this.findPackageJson());
+      if (!projectPath) {
+        return null;
+      }
+      this.projectRoot = projectPath;
+      this.nodeModulesPath = join(projectPath, 'node_modules');
+    }
+
+    const pnpPackages = await this.loadPnpPackages();
+    if (pnpPackages && this.projectRoot) {
+      const pnpPackage = preferredPnpPackage(pnpPackages.filter((p) => p.name === packageName));
+      return pnpPackage ? this.unpackArchived(join(this.projectRoot, pnpPackage.location)) : null;
     }
 
     // Handle scoped packages (@scope/package)
@@ -86,7 +181,8 @@ export class NodeJSScanner extends BaseScanner {
       return packagePath;
     }
 
-    return null;
+    // Transitive pnpm dependencies are only linked from inside the virtual store
+    return this.findInVirtualStore(packageName);
   }
 
   /**
@@ -101,8 +197,13 @@ export class NodeJSScanner extends BaseScanner {
     }
 
     try {
-      const packageJsonPath = join(packagePath, 'package.json');
-      const packageJson = await readFile(packageJsonPath, 'utf-8');
+      const archived = this.pnpPackages ? splitArchivePath(packagePath) : null;
+      const packageJson = archived
+        ? await readArchivedText(archived.archive, join(archived.inner, 'package.json'))
+        : await readFile(join(packagePath, 'package.json'), 'utf-8');
+      if (packageJson === null) {
+        return null;
+      }
       const parsed = JSON.parse(packageJson) as Record<string, unknown>;
 
       // Cache the result
@@ -152,6 +253,17 @@ export class NodeJSScanner extends BaseScanner {
     };
   }
 
+  async getWatchPaths(): Promise<string[]> {
+    const projectPath = this.projectRoot ?? (await this.findPackageJson());
+    if (!projectPath) {
+      return [];
+    }
+    return [
+      join(projectPath, 'node_modules'),
+      ...LOCK_FILES.map((file) => join(projectPath, file)),
+    ];
+  }
+
   private async hasTypeDefinitions(packagePath: string): Promise<boolean> {
     const packageJson = await this.readPackageJson(packagePath);
     if (!packageJson) {
@@ -252,7 +364,10 @@ export class NodeJSScanner extends BaseScanner {
 
     try {
       const entries = await readdir(this.nodeModulesPath, { withFileTypes: true });
-      const directories = entries.filter((entry) => entry.isDirectory());
+      // pnpm links top-level packages as symlinks; dot entries are .bin, .pnpm and metadata
+      const directories = entries.filter(
+        (entry) => (entry.isDirectory() || entry.isSymbolicLink()) && !entry.name.startsWith('.'),
+      );
 
       // Estimate total packages (including scoped packages)
       let estimatedTotal = directories.length;
@@ -279,7 +394,7 @@ export class NodeJSScanner extends BaseScanner {
           const scopedEntries = await readdir(entryPath, { withFileTypes: true });
 
           for (const scopedEntry of scopedEntries) {
-            if (!scopedEntry.isDirectory()) {
+            if (!scopedEntry.isDirectory() && !scopedEntry.isSymbolicLink()) {
               continue;
             }
 
@@ -316,6 +431,7 @@ export class NodeJSScanner extends BaseScanner {
         }
       }
     } catch (error) {
+      stream.throwIfCancelled();
       this.log('Error scanning node_modules:', error);
       await stream.error('Failed to scan packages', undefined, String(error));
       // Continue with partial results
@@ -336,6 +452,7 @@ export class NodeJSScanner extends BaseScanner {
 
       // Store relative path from project root
       const relativePath = this.toRelativePath(packagePath);
+      const realPath = await this.resolveSymlink(packagePath);
 
       // Check for TypeScript definitions
       const hasTypes = Boolean(
@@ -353,10 +470,304 @@ export class NodeJSScanner extends BaseScanner {
         packageManager: 'npm', // Default, will be updated by environment detection
         hasTypes,
         metadata: packageJson,
+        ...(realPath && { realPath }),
       };
     } catch (error) {
       this.log(`Failed to extract info from ${packagePath}:`, error);
       return null;
     }
   }
+
+  /**
+   * Load the Plug'n'Play registry once; null when the project is not a PnP install
+   */
+  private async loadPnpPackages(): Promise<PnpPackage[] | null> {
+    if (this.pnpPackages === undefined) {
+      const projectPath = this.projectRoot ?? (await this.findPackageJson());
+      this.pnpPackages = projectPath ? await readPnpPackages(projectPath) : null;
+    }
+    return this.pnpPackages;
+  }
+
+  /**
+   * Enumerate a Plug'n'Play install; package.json files are read straight out of the
+   * zip archives in .yarn/cache, so nothing is unpacked until a package is read
+   */
+  private async scanPnpPackages(
+    pnpPackages: PnpPackage[],
+    stream: StreamManager,
+  ): Promise<Record<string, BasicPackageInfo>> {
+    const root = this.projectRoot ?? this.basePath;
+    const byName = new Map<string, PnpPackage[]>();
+    for (const pnpPackage of pnpPackages) {
+      byName.set(pnpPackage.name, [...(byName.get(pnpPackage.name) ?? []), pnpPackage]);
+    }
+
+    const packages: Record<string, BasicPackageInfo> = {};
+    let processed = 0;
+
+    for (const [packageName, candidates] of byName) {
+      await stream.scanProgress(processed++, byName.size, packageName);
+
+      const infos = new Map<PnpPackage, BasicPackageInfo>();
+      for (const candidate of candidates) {
+        const packagePath = join(root, candidate.location);
+        await stream.packageDiscovered(packageName, packagePath);
+        const info = await this.extractPackageInfo(packageName, packagePath);
+        if (info) infos.set(candidate, info);
+      }
+
+      const preferred = preferredPnpPackage([...infos.keys()]);
+      const packageInfo = preferred && infos.get(preferred);
+      if (!packageInfo) continue;
+
+      if (infos.size > 1) {
+        packageInfo.installations = [...infos.values()]
+          .map((info) => ({ version: info.version, location: info.location }))
+          .sort((a, b) => a.version.localeCompare(b.version, undefined, { numeric: true }));
+      }
+
+      packages[packageName] = packageInfo;
+      this.locationCache.set(packageName, packageInfo.location);
+      await stream.packageProcessed(packageName, packageInfo.version, packageInfo.location);
+    }
+
+    return packages;
+  }
+
+  /**
+   * Packages inside Yarn's zip archives are unpacked into the cache directory on first
+   * read, so parsers and file reads can work on ordinary files
+   */
+  private async unpackArchived(packagePath: string): Promise<string | null> {
+    if (!this.pnpPackages || !splitArchivePath(packagePath)) {
+      return packagePath;
+    }
+
+    try {
+      return await unpackArchivedPath(
+        packagePath,
+        getUnpackedArchivesDir(this.projectRoot ?? this.basePath),
+      );
+    } catch (error) {
+      this.log(`Failed to unpack ${packagePath}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Relative target of a symlinked package directory, or undefined for real directories
+   */
+  private async resolveSymlink(packagePath: string): Promise<string | undefined> {
+    try {
+      if (!(await lstat(packagePath)).isSymbolicLink()) {
+        return undefined;
+      }
+      // Compare real paths on both sides so symlinked temp or home directories cancel out
+      this.realBasePath ??= await realpath(this.basePath);
+      return relative(this.realBasePath, await realpath(packagePath));
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Index pnpm's virtual store: node_modules/.pnpm/<name>@<version>/node_modules/<name>
+   * Records every installed version on the packages found at the top level and, when
+   * requested, adds the packages that are only reachable as transitive dependencies
+   */
+  private async indexVirtualStore(
+    packages: Record<string, BasicPackageInfo>,
+    includeTransitive: boolean,
+  ): Promise<void> {
+    if (!this.nodeModulesPath) {
+      return;
+    }
+
+    const storePath = join(this.nodeModulesPath, '.pnpm');
+    let storeEntries: Dirent[];
+    try {
+      storeEntries = await readdir(storePath, { withFileTypes: true });
+    } catch {
+      return; // Not a pnpm project
+    }
+
+    const copies = new Map<string, BasicPackageInfo[]>();
+    for (const storeEntry of storeEntries) {
+      // .pnpm/node_modules holds hoisted symlinks, not packages
+      if (!storeEntry.isDirectory() || storeEntry.name === 'node_modules') {
+        continue;
+      }
+
+      const nodeModules = join(storePath, storeEntry.name, 'node_modules');
+      for (const [packageName, packagePath] of await this.listPackageDirectories(nodeModules)) {
+        const info = await this.extractPackageInfo(packageName, packagePath);
+        if (info) {
+          copies.set(packageName, [...(copies.get(packageName) ?? []), info]);
+        }
+      }
+    }
+
+    for (const [packageName, infos] of copies) {
+      infos.sort((a, b) => a.version.localeCompare(b.version, undefined, { numeric: true }));
+      const installations =
+        infos.length > 1
+          ? infos.map((info) => ({ version: info.version, location: info.location }))
+          : undefined;
+
+      const existing = packages[packageName];
+      if (existing) {
+        if (installations) existing.installations = installations;
+        continue;
+      }
+
+      const latest = infos[infos.length - 1];
+      if (includeTransitive && latest) {
+        packages[packageName] = { ...latest, ...(installations && { installations }) };
+        this.locationCache.set(packageName, latest.location);
+      }
+    }
+
+    this.log(`Indexed ${copies.size} packages in the pnpm virtual store`);
+  }
+
+  /**
+   * Find copies npm nested as node_modules/<dependent>/node_modules/<name> because the
+   * hoisted version did not satisfy <dependent>. Each copy is recorded with the chain of
+   * dependents that holds it; names that only exist nested are added as packages
+   */
+  private async indexNestedInstalls(packages: Record<string, BasicPackageInfo>): Promise<void> {
+    const root = this.projectRoot ?? this.basePath;
+    const nested = new Map<string, BasicPackageInfo[]>();
+    const dependentPaths = new Map<BasicPackageInfo, string[]>();
+
+    const visit = async (packagePath: string, dependentPath: string[]): Promise<void> => {
+      if (dependentPath.length > MAX_NESTING_DEPTH) return;
+
+      const nodeModules = join(packagePath, 'node_modules');
+      for (const [packageName, nestedPath] of await this.listPackageDirectories(nodeModules)) {
+        const info = await this.extractPackageInfo(packageName, nestedPath);
+        if (!info) continue;
+
+        nested.set(packageName, [...(nested.get(packageName) ?? []), info]);
+        dependentPaths.set(info, dependentPath);
+        await visit(nestedPath, [...dependentPath, packageName]);
+      }
+    };
+
+    // Symlinked packages (pnpm, workspaces) keep their dependencies elsewhere
+    for (const [packageName, info] of Object.entries(packages)) {
+      if (!info.realPath) {
+        await visit(join(root, info.location), [packageName]);
+      }
+    }
+
+    for (const [packageName, copies] of nested) {
+      const hoisted = packages[packageName];
+      const installations: PackageInstallation[] = [
+        ...(hoisted ? [{ version: hoisted.version, location: hoisted.location }] : []),
+        ...copies.map((copy) => ({
+          version: copy.version,
+          location: copy.location,
+          dependentPath: dependentPaths.get(copy),
+        })),
+      ];
+
+      const primary = hoisted ?? copies[0];
+      if (!primary) continue;
+      if (installations.length > 1) primary.installations = installations;
+      if (!hoisted) {
+        packages[packageName] = primary;
+        this.locationCache.set(packageName, primary.location);
+      }
+    }
+
+    if (nested.size > 0) {
+      this.log(`Found nested installs of ${nested.size} packages`);
+    }
+  }
+
+  /**
+   * Real package directories in a node_modules folder. Symlinks are skipped: inside a
+   * pnpm store entry the package is the one real directory and everything beside it
+   * links to a dependency
+   */
+  private async listPackageDirectories(nodeModules: string): Promise<Array<[string, string]>> {
+    const found: Array<[string, string]> = [];
+    let entries: Dirent[];
+    try {
+      entries = await readdir(nodeModules, { withFileTypes: true });
+    } catch {
+      return found;
+    }
+
+    for (const entry of entries) {
+      if (!entry.isDirectory() || entry.name.startsWith('.')) {
+        continue;
+      }
+
+      if (!entry.name.startsWith('@')) {
+        found.push([entry.name, join(nodeModules, entry.name)]);
+        continue;
+      }
+
+      const scopePath = join(nodeModules, entry.name);
+      for (const scoped of await readdir(scopePath, { withFileTypes: true })) {
+        if (scoped.isDirectory()) {
+          found.push([`${entry.name}/${scoped.name}`, join(scopePath, scoped.name)]);
+        }
+      }
+    }
+    return found;
+  }
+
+  /**
+   * Locate the newest copy of a package in pnpm's virtual store ("@scope/name" is stored
+   * as "@scope+name@<version>")
+   */
+  private async findInVirtualStore(packageName: string): Promise<string | null> {
+    if (!this.nodeModulesPath) {
+      return null;
+    }
+
+    const storePath = join(this.nodeModulesPath, '.pnpm');
+    const prefix = `${packageName.replace('/', '+')}@`;
+    let candidates: string[];
+    try {
+      candidates = (await readdir(storePath)).filter((entry) => entry.startsWith(prefix));
+    } catch {
+      return null;
+    }
+
+    candidates.sort((a, b) => b.localeCompare(a, undefined, { numeric: true }));
+    for (const candidate of candidates) {
+      const packagePath = join(storePath, candidate, 'node_modules', ...packageName.split('/'));
+      if (await this.pathExists(packagePath)) {
+        return packagePath;
+      }
+    }
+    return null;
+  }
+}
+
+/**
+ * The copy of a package the project resolves: the one the root workspace depends on,
+ * otherwise the newest
+ */
+function preferredPnpPackage(candidates: PnpPackage[]): PnpPackage | undefined {
+  return (
+    candidates.find((candidate) => candidate.isDirectDependency) ??
+    [...candidates].sort((a, b) =>
+      b.reference.localeCompare(a.reference, undefined, { numeric: true }),
+    )[0]
+  );
+}
+
+async function readArchivedText(archivePath: string, name: string): Promise<string | null> {
+  const archive = await ZipArchive.open(archivePath);
+  try {
+    return await archive.readText(name.replace(/\\/g, '/'));
+  } finally {
+    await archive.close();
+  }
 }
@@ -0,0 +1,117 @@
+/**
+ * Yarn Plug'n'Play support
+ * Reads the package registry Yarn writes to `.pnp.data.json` or inlines into `.pnp.cjs`,
+ * so projects without node_modules can still be enumerated
+ */
+
+import { readFile } from 'node:fs/promises';
+import { join } from 'node:path';
+
+export interface PnpPackage {
+  name: string;
+  reference: string; // e.g. "npm:4.17.21"
+  location: string; // Relative to the project root, e.g. ".yarn/cache/lodash-npm-....zip/node_modules/lodash"
+  isDirectDependency: boolean; // Listed by the root workspace
+}
+
+interface PnpPackageInformation {
+  packageLocation?: string;
+  packageDependencies?: Array<[string, unknown]>;
+  linkType?: 'HARD' | 'SOFT';
+}
+
+type PnpRegistry = Array<[string | null, Array<[string | null, PnpPackageInformation]>]>;
+
+interface PnpRuntimeState {
+  dependencyTreeRoots?: Array<{ name: string; reference: string }>;
+  packageRegistryData?: PnpRegistry;
+}
+
+/**
+ * Every installed (non-workspace) package the PnP registry knows about
+ */
+export async function readPnpPackages(projectRoot: string): Promise<PnpPackage[] | null> {
+  const state = await readPnpState(projectRoot);
+  if (!state) {
+    return null;
+  }
+
+  const registry = state.packageRegistryData ?? [];
+  const rootReferences = new Set(
+    (state.dependencyTreeRoots ?? []).map((root) => `${root.name}@${root.reference}`),
+  );
+
+  // Direct dependencies are what the top-level workspace(s) list
+  const direct = new Set<string>();
+  for (const [name, references] of registry) {
+    for (const [reference, info] of references) {
+      const isRoot = name === null || rootReferences.has(`${name}@${reference}`);
+      if (!isRoot) continue;
+      for (const [dependency, target] of info.packageDependencies ?? []) {
+        if (typeof target === 'string') direct.add(`${dependency}@${target}`);
+      }
+    }
+  }
+
+  const packages: PnpPackage[] = [];
+  for (const [name, references] of registry) {
+    if (name === null) continue;
+
+    for (const [reference, info] of references) {
+      // Virtual references duplicate a real one with peer dependencies applied;
+      // soft links are workspaces and portals rather than installed packages
+      if (!reference || reference.startsWith('virtual:') || info.linkType === 'SOFT') continue;
+      if (!info.packageLocation) continue;
+
+      packages.push({
+        name,
+        reference,
+        location: info.packageLocation.replace(/^\.\//, '').replace(/\/$/, ''),
+        isDirectDependency: direct.has(`${name}@${reference}`),
+      });
+    }
+  }
+
+  return packages;
+}
+
+async function readPnpState(projectRoot: string): Promise<PnpRuntimeState | null> {
+  // pnpEnableInlining: false writes the state beside the loader
+  try {
+    const data = await readFile(join(projectRoot, '.pnp.data.json'), 'utf-8');
+    return JSON.parse(data) as PnpRuntimeState;
+  } catch {
+    // Fall through to the inlined state
+  }
+
+  try {
+    const loader = await readFile(join(projectRoot, '.pnp.cjs'), 'utf-8');
+    return parseInlinedState(loader);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * The loader embeds the state as a single-quoted JSON string, either as
+ * `const RAW_RUNTIME_STATE = '...'` (Yarn 4) or `JSON.parse('...')` (Yarn 2/3)
+ */
+function parseInlinedState(loader: string): PnpRuntimeState | null {
+  const match = /(?:RAW_RUNTIME_STATE\s*=|JSON\.parse\()\s*'((?:[^'\\]|\\[\s\S])*)'/.exec(loader);
+  if (!match?.[1]) {
+    return null;
+  }
+
+  const json = match[1].replace(/\\(\r?\n|[\s\S])/g, (_, char: string) => {
+    if (char === '\n' || char === '\r\n') return ''; // Line continuation
+    if (char === 'n') return '\n';
+    if (char === 't') return '\t';
+    return char;
+  });
+
+  try {
+    return JSON.parse(json) as PnpRuntimeState;
+  } catch {
+    return null;
+  }
+}
@@ -9,9 +9,14 @@ import { EnvironmentNotFoundError } from '#types.js';
 import { join, basename } from 'node:path';
 import { exec } from 'node:child_process';
 import { promisify } from 'node:util';
+import { createScanStream, type StreamManager } from '#utils/streaming.js';
+import { readUvLockfile, indexLockedPackages } from '#scanners/lockfiles.js';
 
 const execAsync = promisify(exec);
 
+// Rewritten when dependencies are installed or upgraded
+const LOCK_FILES = ['uv.lock', 'poetry.lock', 'Pipfile.lock', 'requirements.txt'];
+
 export class PythonScanner extends BaseScanner {
   // Scanner identification properties
   readonly language = 'python' as const;
@@ -21,8 +26,15 @@ export class PythonScanner extends BaseScanner {
   private sitePackagesPath: string | null = null;
   private cachedPackageManager: string | null = null;
 
-  async scan(_options?: ScanOptions): Promise<ScanResult> {
+  async scan(options?: ScanOptions): Promise<ScanResult> {
+    if (options?.lockfileOnly) {
+      return this.scanLockfile();
+    }
+
+    const startTime = Date.now();
+    const stream = createScanStream();
     this.log('Starting Python environment scan');
+    this.locationCache.clear(); // The scanner is reused; forget packages removed since the last scan
 
     // Find virtual environment
     const envPath = await this.findVirtualEnvironment();
@@ -55,8 +67,14 @@ export class PythonScanner extends BaseScanner {
     // Get environment info
     const environment = await this.getEnvironmentInfo();
 
+    await stream.scanStarted({
+      environment: environment.type,
+      packageManager: (await this.detectPackageManager()) ?? 'pip',
+    });
+
     // Scan packages
-    const packages = await this.scanPackages();
+    const packages = await this.scanPackages(stream);
+    await stream.scanCompleted(Object.keys(packages).length, Date.now() - startTime);
 
     return {
       success: true,
@@ -66,6 +84,37 @@ export class PythonScanner extends BaseScanner {
     };
   }
 
+  /**
+   * The resolved packages of uv.lock; a project without one has none
+   */
+  private async scanLockfile(): Promise<ScanResult> {
+    const contents = await readUvLockfile(this.basePath);
+    this.log(`Read ${contents?.packages.length ?? 0} locked packages from uv.lock`);
+
+    // The virtual environment may not exist yet
+    const envPath = await this.findVirtualEnvironment();
+    const environment: EnvironmentInfo = envPath
+      ? await this.getEnvironmentInfo()
+      : { type: 'system', path: this.basePath, packageManager: 'uv' };
+
+    return {
+      success: true,
+      packages: contents ? indexLockedPackages(contents, 'python') : {},
+      environment,
+      scanTime: new Date().toISOString(),
+    };
+  }
+
+  async getWatchPaths(): Promise<string[]> {
+    if (!this.sitePackagesPath) {
+      const envPath = await this.findVirtualEnvironment();
+      this.sitePackagesPath = envPath ? await this.findSitePackages(envPath) : null;
+    }
+
+    const lockFiles = LOCK_FILES.map((file) => join(this.basePath, file));
+    return this.sitePackagesPath ? [this.sitePackagesPath, ...lockFiles] : lockFiles;
+  }
+
   async getPackageLocation(packageName: string): Promise<string | null> {
     // Check cache first using base class method
     const cachedLocation = this.getCachedPackageLocation(packageName);
@@ -136,8 +185,9 @@ export class PythonScanner extends BaseScanner {
 
     for (const entry of entries) {
       if (entry.endsWith('.dist-info')) {
-        const prefix = entry.replace(/[-.]dist-info$/, '').toLowerCase();
-        if (prefix === normalizedName || prefix === packageName.toLowerCase()) {
+        // <name>-<version>.dist-info, with the name's dashes written as underscores
+        const distName = entry.replace(/[-.]dist-info$/, '').replace(/-[^-]*$/, '');
+        if (this.normalizePackageName(distName) === normalizedName) {
           const packageInfo = await this.extractPackageInfoFromDistInfo(
             join(this.sitePackagesPath, entry),
           );
@@ -160,11 +210,11 @@ export class PythonScanner extends BaseScanner {
       return null;
     }
 
-    // Check for .pyi type stub files
+    // Check for .pyi type stub files or the PEP 561 py.typed marker
     let hasTypes = false;
     try {
       const entries = await this.readDir(packagePath);
-      hasTypes = entries.some((entry) => entry.endsWith('.pyi'));
+      hasTypes = entries.some((entry) => entry.endsWith('.pyi') || entry === 'py.typed');
     } catch {
       // Ignore errors checking for type stubs
     }
@@ -379,7 +429,7 @@ export class PythonScanner extends BaseScanner {
     return 'unknown';
   }
 
-  private async scanPackages(): Promise<Record<string, BasicPackageInfo>> {
+  private async scanPackages(stream: StreamManager): Promise<Record<string, BasicPackageInfo>> {
     const sitePackagesPath = this.sitePackagesPath;
     if (!sitePackagesPath) {
       throw new Error('Site-packages path not set');
@@ -401,7 +451,8 @@ export class PythonScanner extends BaseScanner {
     const distInfoDirs = entries.filter((entry) => entry.endsWith('.dist-info'));
     this.log(`Found ${distInfoDirs.length} .dist-info directories: ${distInfoDirs.join(', ')}`);
 
-    for (const distInfo of distInfoDirs) {
+    for (const [index, distInfo] of distInfoDirs.entries()) {
+      await stream.scanProgress(index, distInfoDirs.length, distInfo);
       this.log(`Processing dist-info directory: ${distInfo}`);
       const packageInfo = await this.extractPackageInfoFromDistInfo(
         join(sitePackagesPath, distInfo),
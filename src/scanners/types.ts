@@ -12,6 +12,8 @@ export interface ScanOptions {
   includeTypes?: boolean;
   group?: 'testing' | 'building' | 'linting' | 'typescript' | 'framework' | 'utility';
   summary?: boolean;
+  includeVirtualStore?: boolean; // pnpm: also index packages only present in node_modules/.pnpm
+  lockfileOnly?: boolean; // Read the resolved packages from the lockfile instead of the installed ones
 }
 
 export interface EnvironmentInfo {
@@ -20,6 +22,7 @@ export interface EnvironmentInfo {
   nodeVersion?: string;
   pythonVersion?: string;
   packageManager?: string;
+  environments?: Partial<Record<'javascript' | 'python', EnvironmentInfo>>; // Polyglot projects: each language's environment
 }
 
 export interface BasicPackageInfo {
@@ -32,13 +35,31 @@ export interface BasicPackageInfo {
   metadata?: Record<string, unknown>; // Cached package.json or metadata
   unifiedContent?: UnifiedPackageContent; // Optional unified content from adapters
   entryPoints?: string[]; // Optional entry points from adapters
+  realPath?: string; // Symlink target of `location` (pnpm store, workspaces), relative to the project
+  installations?: PackageInstallation[]; // Every installed copy, when more than one exists
+  integrity?: string; // Lockfile scans: the registry hash of the resolved package
+  dev?: boolean; // Lockfile scans: only needed by development dependencies
+  optional?: boolean; // Lockfile scans: only reached through optional dependencies
 }
 
+export interface PackageInstallation {
+  version: string;
+  location: string; // Relative path from project root
+  dependentPath?: string[]; // Nested installs: the dependents holding this copy, outermost first
+}
+
+export type PackageListField = 'name' | 'version' | 'hasTypes' | 'location';
+
+// One row of a paginated package listing, with the requested fields only
+export type PackageListItem = Partial<Pick<BasicPackageInfo, PackageListField>>;
+
 export interface ScanResult {
   type?: 'list' | 'summary' | 'packages'; // Type field for MCP compatibility
   success: boolean;
   environment: EnvironmentInfo;
   packages?: Record<string, BasicPackageInfo>; // Made optional for summary mode
+  items?: PackageListItem[]; // List mode: one page of packages, sorted
+  nextCursor?: string; // List mode: cursor of the next page
   scanTime: string;
   totalPackages?: number;
   error?: string;
@@ -86,4 +107,9 @@ export interface IPackageScanner {
    * Get basic info for a specific package
    */
   getPackageInfo(packageName: string): Promise<BasicPackageInfo | null>;
+
+  /**
+   * Directories and lock files whose changes mean the installed packages changed
+   */
+  getWatchPaths(): Promise<string[]>;
 }
@@ -1,7 +1,12 @@
 -- SQLite Cache Schema for mcp-pkg-local
--- Version: 0.2.0
+-- Version: 0.3.0
 -- Date: 2025-08-16
 -- Changes: Removed category, scoring, and unused metrics fields
+--          Added package_symbols table for cross-package symbol lookup
+--          Added package_search FTS5 table for full-text search
+--          Added package_installations table for symlinked and duplicate installs
+--          Added dependency_nodes and dependency_edges tables for the resolved dependency graph
+--          Added package_versions table keeping extracted content per version
 
 -- Enable foreign key constraints and performance optimizations
 PRAGMA foreign_keys = ON;
@@ -17,7 +22,7 @@ CREATE TABLE IF NOT EXISTS schema_version (
 );
 
 -- Insert initial schema version
-INSERT OR IGNORE INTO schema_version (version) VALUES (2);
+INSERT OR IGNORE INTO schema_version (version) VALUES (3);
 
 -- Environment tracking table
 -- Stores metadata for each scanned environment (project)
@@ -96,6 +101,92 @@ CREATE TABLE IF NOT EXISTS package_files (
   UNIQUE(package_id, file_path)
 );
 
+-- Symbol index (populated from unified content when a package is saved)
+-- Enables cross-package lookups without unpacking every unified_content blob
+CREATE TABLE IF NOT EXISTS package_symbols (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  package_id INTEGER NOT NULL,
+  name TEXT NOT NULL,                         -- symbol name (e.g., "createServer")
+  kind TEXT NOT NULL CHECK (kind IN (
+    'class', 'function', 'interface', 'type', 'constant', 'enum'
+  )),
+  signature TEXT,                             -- rendered signature for display
+  source_file TEXT,                           -- relative path within package
+  is_exported BOOLEAN DEFAULT 1,
+
+  FOREIGN KEY (package_id) REFERENCES packages(id) ON DELETE CASCADE
+);
+
+-- Installed copies of a package beyond its primary location
+-- pnpm keeps every version in node_modules/.pnpm; the top level only symlinks one of them
+-- npm nests conflicting versions under node_modules/<dependent>/node_modules
+CREATE TABLE IF NOT EXISTS package_installations (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  package_id INTEGER NOT NULL,
+  version TEXT NOT NULL,
+  location TEXT NOT NULL,                     -- relative path from project root
+  is_real_path BOOLEAN DEFAULT 0,             -- symlink target of the package's location
+  dependent_path TEXT,                        -- JSON array of the dependents holding a nested copy
+
+  FOREIGN KEY (package_id) REFERENCES packages(id) ON DELETE CASCADE
+);
+
+-- Resolved dependency graph, built on demand and cleared whenever the package index is saved
+-- One node per installed copy, so nested and store copies of a package are separate nodes
+CREATE TABLE IF NOT EXISTS dependency_nodes (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  environment_id INTEGER NOT NULL,
+  name TEXT NOT NULL,
+  version TEXT NOT NULL,
+  location TEXT NOT NULL,                     -- relative path from project root
+  language TEXT NOT NULL CHECK (language IN ('python', 'javascript')),
+  is_direct BOOLEAN DEFAULT 0,                -- declared by the project itself
+
+  FOREIGN KEY (environment_id) REFERENCES environments(id) ON DELETE CASCADE,
+  UNIQUE(environment_id, location)
+);
+
+-- Declared dependencies of each node and the installed copy they resolve to
+CREATE TABLE IF NOT EXISTS dependency_edges (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  node_id INTEGER NOT NULL,
+  name TEXT NOT NULL,                         -- declared dependency name
+  range TEXT NOT NULL,                        -- declared version range or specifier
+  kind TEXT NOT NULL CHECK (kind IN ('runtime', 'optional', 'peer')),
+  resolved_node_id INTEGER,                   -- NULL when the dependency is not installed
+  satisfies BOOLEAN DEFAULT 1,                -- resolved version is within the range
+
+  FOREIGN KEY (node_id) REFERENCES dependency_nodes(id) ON DELETE CASCADE,
+  FOREIGN KEY (resolved_node_id) REFERENCES dependency_nodes(id) ON DELETE CASCADE
+);
+
+-- Extracted content of every version of a package read in an environment
+-- packages holds one row per name and is replaced on every scan; this history survives
+-- upgrades so that two versions of a package can be compared
+CREATE TABLE IF NOT EXISTS package_versions (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  environment_id INTEGER NOT NULL,
+  name TEXT NOT NULL,
+  version TEXT NOT NULL,
+  language TEXT NOT NULL CHECK (language IN ('python', 'javascript')),
+  unified_content BLOB NOT NULL,              -- MessagePack encoded UnifiedPackageContent
+  extracted_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+
+  FOREIGN KEY (environment_id) REFERENCES environments(id) ON DELETE CASCADE,
+  UNIQUE(environment_id, name, version)
+);
+
+-- Full-text index over extracted package content
+-- rowid mirrors packages.id; rows are removed by the packages delete trigger
+CREATE VIRTUAL TABLE IF NOT EXISTS package_search USING fts5(
+  name,                                       -- package name plus its split words
+  description,                                -- package description / summary
+  symbols,                                    -- component names plus their split words
+  purposes,                                   -- JSDoc / docstring text
+  readme,                                     -- README or long description
+  tokenize = 'porter unicode61'
+);
+
 -- Indexes for performance optimization
 
 -- Environment lookups by partition key
@@ -122,6 +213,29 @@ ON packages(name);
 CREATE INDEX IF NOT EXISTS idx_packages_env_language 
 ON packages(environment_id, language);
 
+-- Symbol lookups by name (case-insensitive prefix and substring search)
+CREATE INDEX IF NOT EXISTS idx_package_symbols_name
+ON package_symbols(name COLLATE NOCASE);
+
+-- Symbol cleanup by package
+CREATE INDEX IF NOT EXISTS idx_package_symbols_package
+ON package_symbols(package_id);
+
+-- Installation lookups by package
+CREATE INDEX IF NOT EXISTS idx_package_installations_package
+ON package_installations(package_id);
+
+-- Graph lookups by environment and by node
+CREATE INDEX IF NOT EXISTS idx_dependency_nodes_env
+ON dependency_nodes(environment_id);
+
+CREATE INDEX IF NOT EXISTS idx_dependency_edges_node
+ON dependency_edges(node_id);
+
+-- Version history lookups by package
+CREATE INDEX IF NOT EXISTS idx_package_versions_env_name
+ON package_versions(environment_id, name);
+
 -- File cache lookups
 CREATE INDEX IF NOT EXISTS idx_package_files_package_path 
 ON package_files(package_id, file_path);
@@ -154,6 +268,13 @@ BEGIN
   WHERE id = NEW.id;
 END;
 
+-- Keep the full-text index in sync when packages are removed
+CREATE TRIGGER IF NOT EXISTS delete_package_search
+AFTER DELETE ON packages
+BEGIN
+  DELETE FROM package_search WHERE rowid = OLD.id;
+END;
+
 -- Update package_files.last_accessed on content access
 CREATE TRIGGER IF NOT EXISTS update_files_access_timestamp 
 AFTER UPDATE OF content ON package_files
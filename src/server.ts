@@ -1,10 +1,88 @@
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
-import { CallToolRequestSchema, ListToolsRequestSchema } from '@modelcontextprotocol/sdk/types.js';
-import type { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import {
+  CallToolRequestSchema,
+  ListToolsRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ReadResourceRequestSchema,
+  ListPromptsRequestSchema,
+  GetPromptRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+  ErrorCode,
+  McpError as ProtocolError,
+  isInitializeRequest,
+} from '@modelcontextprotocol/sdk/types.js';
+import type {
+  CallToolRequest,
+  CallToolResult,
+  ProgressToken,
+  ServerNotification,
+  ServerRequest,
+  Tool,
+} from '@modelcontextprotocol/sdk/types.js';
+import type { RequestHandlerExtra } from '@modelcontextprotocol/sdk/shared/protocol.js';
 import { scanPackagesTool } from '#tools/scan-packages.js';
 import { readPackageTool } from '#tools/read-package.js';
-import type { ReadPackageParams, ScanPackagesParams } from '#types.js';
+import { searchSymbolsTool } from '#tools/search-symbols.js';
+import { searchContentTool } from '#tools/search-content.js';
+import { dependencyTreeTool } from '#tools/dependency-tree.js';
+import { checkEnvironmentTool } from '#tools/check-environment.js';
+import { diffPackageApiTool } from '#tools/diff-package-api.js';
+import { refreshPackageIndex, type PackageIndexChanges } from '#tools/scan-packages.js';
+import {
+  listPackageResources,
+  listPackageResourceTemplates,
+  readPackageResource,
+  notifyPackageChanges,
+} from '#resources/packages.js';
+import { listPackagePrompts, getPackagePrompt } from '#prompts/packages.js';
+import { getProjectScanner } from '#utils/scanner-factory.js';
+import { EnvironmentWatcher } from '#utils/environment-watcher.js';
+import { getProjectRoot, runInProject } from '#utils/project-context.js';
+import { UnifiedCache } from '#utils/cache.js';
+import { runWithScanReporter } from '#utils/streaming.js';
+import {
+  formatScanResult,
+  formatReadPackageResult,
+  formatSearchSymbolsResult,
+  formatSearchContentResult,
+  formatDependencyTreeResult,
+  formatCheckEnvironmentResult,
+  formatDiffPackageApiResult,
+} from '#utils/tool-output.js';
+import {
+  McpError,
+  ScanResultSchema,
+  ReadPackageResultSchema,
+  SearchSymbolsResultSchema,
+  SearchContentResultSchema,
+  DependencyTreeResultSchema,
+  CheckEnvironmentResultSchema,
+  DiffPackageApiResultSchema,
+} from '#types.js';
+import type {
+  ReadPackageParams,
+  ScanPackagesParams,
+  SearchSymbolsParams,
+  SearchContentParams,
+  DependencyTreeParams,
+  CheckEnvironmentParams,
+  DiffPackageApiParams,
+} from '#types.js';
+import type { ScanReporter, StreamEvent } from '#types/streaming.js';
+import { createServer as createHttpServer } from 'node:http';
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { randomUUID } from 'node:crypto';
+import { setInterval, clearInterval } from 'node:timers';
+import { stat } from 'node:fs/promises';
+import { resolve } from 'node:path';
+import { URL } from 'node:url';
+import { z } from 'zod';
 
 const PKG_LOCAL_VERSION = '0.1.0';
 const DEBUG = process.env.DEBUG?.includes('mcp-pkg-local');
@@ -21,9 +99,172 @@ function log(level: 'info' | 'error' | 'debug', message: string, ...args: unknow
   }
 }
 
-export function createServer(): Server {
+/**
+ * Resource and prompt handlers answer with JSON-RPC errors; our errors are the client's to fix
+ */
+function toProtocolError(error: unknown): never {
+  log('error', 'Request failed', error);
+  if (error instanceof McpError) {
+    throw new ProtocolError(
+      ErrorCode.InvalidParams,
+      error.message,
+      error.suggestion !== undefined ? { suggestion: error.suggestion } : undefined,
+    );
+  }
+  throw error;
+}
+
+/**
+ * A tool's outputSchema, generated from the zod schema of its result; draft-07 is what
+ * clients validate structured content against
+ */
+function toOutputSchema(schema: z.ZodType): Tool['outputSchema'] {
+  const jsonSchema = z.toJSONSchema(schema, {
+    target: 'draft-7',
+    io: 'output',
+    unrepresentable: 'any', // Extracted package content is left open
+  });
+  return { ...jsonSchema, type: 'object' };
+}
+
+/**
+ * The result as structured content, with a compact text rendering for clients that only
+ * read text
+ */
+function toToolResult(result: object, text: string): CallToolResult {
+  return {
+    content: [{ type: 'text', text }],
+    structuredContent: { ...result },
+  };
+}
+
+type RequestExtra = RequestHandlerExtra<ServerRequest, ServerNotification>;
+
+/**
+ * Forward a request's scan events as notifications/progress when the client sent a
+ * progress token; notifications/cancelled aborts the request's signal, and with it the scan
+ */
+function createProgressReporter(extra: RequestExtra): ScanReporter {
+  const progressToken: ProgressToken | undefined = extra._meta?.progressToken;
+  if (progressToken === undefined) {
+    return { signal: extra.signal };
+  }
+
+  // Polyglot projects run one scan per language; progress keeps counting across them
+  let completed = 0;
+  let last = -1;
+  const notify = async (progress: number, total: number, message: string): Promise<void> => {
+    if (progress <= last) return; // Progress must increase with every notification
+    last = progress;
+    await extra.sendNotification({
+      method: 'notifications/progress',
+      params: { progressToken, progress, total, message },
+    });
+  };
+
+  const onEvent = async (event: StreamEvent): Promise<void> => {
+    switch (event.type) {
+      case 'scan_started': {
+        const data = event.data as { environment: string; packageManager: string };
+        await notify(
+          completed,
+          completed,
+          `Scanning ${data.environment} packages (${data.packageManager})`,
+        );
+        break;
+      }
+      case 'scan_progress': {
+        const data = event.data as { processed: number; total: number; currentPackage?: string };
+        await notify(
+          completed + data.processed,
+          completed + data.total,
+          `Scanning ${data.currentPackage ?? 'packages'} (${data.processed}/${data.total})`,
+        );
+        break;
+      }
+      case 'scan_completed': {
+        const data = event.data as { totalPackages: number };
+        completed += data.totalPackages;
+        await notify(completed, completed, `Indexed ${data.totalPackages} packages`);
+        break;
+      }
+    }
+  };
+
+  return { signal: extra.signal, onEvent };
+}
+
+type PackageChangeListener = (changes: PackageIndexChanges) => Promise<void>;
+
+interface SharedWatcher {
+  listeners: Set<PackageChangeListener>;
+  watcher: Promise<EnvironmentWatcher | null>;
+}
+
+// Sessions on the same project share one watcher, so an install is re-indexed once
+const environmentWatchers = new Map<string, SharedWatcher>();
+
+/**
+ * Call the listener with the re-indexed changes whenever an install changes the current
+ * project's environment. Returns the function that stops listening; the project's watcher
+ * closes with its last listener
+ */
+function watchEnvironment(listener: PackageChangeListener): () => void {
+  const projectRoot = getProjectRoot();
+  let shared = environmentWatchers.get(projectRoot);
+  if (!shared) {
+    const listeners = new Set<PackageChangeListener>();
+    shared = { listeners, watcher: startWatcher(projectRoot, listeners) };
+    environmentWatchers.set(projectRoot, shared);
+  }
+  const current = shared;
+  current.listeners.add(listener);
+
+  return () => {
+    current.listeners.delete(listener);
+    if (current.listeners.size === 0 && environmentWatchers.get(projectRoot) === current) {
+      environmentWatchers.delete(projectRoot);
+      void current.watcher.then((watcher) => watcher?.close());
+    }
+  };
+}
+
+async function startWatcher(
+  projectRoot: string,
+  listeners: Set<PackageChangeListener>,
+): Promise<EnvironmentWatcher | null> {
+  try {
+    const scanner = await getProjectScanner();
+    const watcher = new EnvironmentWatcher(await scanner.getWatchPaths(), () =>
+      runInProject(projectRoot, async () => {
+        log('info', 'Installed packages changed, re-indexing');
+        const changes = await refreshPackageIndex();
+        await Promise.allSettled([...listeners].map((listener) => listener(changes)));
+      }),
+    );
+    await watcher.start();
+    return watcher;
+  } catch (error) {
+    log('error', 'Could not watch the environment for changes', error);
+    return null;
+  }
+}
+
+export interface ServerOptions {
+  watch?: boolean; // Watch installed packages and lock files (default: false)
+  projectRoot?: string; // Project the requests work on (default: the working directory)
+}
+
+export function createServer(options: ServerOptions = {}): Server {
   log('info', `Starting mcp-pkg-local server v${PKG_LOCAL_VERSION}`);
 
+  // Handlers run against the session's project, or the working directory at call time
+  const { projectRoot } = options;
+  const inProject = <T>(fn: () => T): T => (projectRoot ? runInProject(projectRoot, fn) : fn());
+  // Requests that may scan also report progress and can be cancelled
+  const inRequest = <T>(extra: RequestExtra, fn: () => T): T =>
+    inProject(() => runWithScanReporter(createProgressReporter(extra), fn));
+
   const server = new Server(
     {
       name: 'mcp-pkg-local',
@@ -32,10 +273,19 @@ export function createServer(): Server {
     {
       capabilities: {
         tools: {},
+        resources: { subscribe: true, listChanged: true },
+        prompts: {},
       },
     },
   );
 
+  // Every tool can target another project, e.g. a sibling checkout or a monorepo package
+  const projectPath = {
+    type: 'string',
+    description:
+      'Project directory to work on, absolute or relative to the server project (default: the server project)',
+  };
+
   // Tool definitions
   const tools: Tool[] = [
     {
@@ -55,8 +305,42 @@ export function createServer(): Server {
             description: 'Force rescan even if cached (default: false)',
             default: false,
           },
+          includeVirtualStore: {
+            type: 'boolean',
+            description:
+              'pnpm: also list transitive packages that only exist in node_modules/.pnpm (default: false)',
+            default: false,
+          },
+          lockfileOnly: {
+            type: 'boolean',
+            description:
+              'Read the resolved packages from package-lock.json, pnpm-lock.yaml, yarn.lock or uv.lock, without installing (default: false)',
+            default: false,
+          },
+          limit: {
+            type: 'number',
+            minimum: 1,
+            maximum: 500,
+            description: 'List the packages in pages of this size (default: 100)',
+          },
+          cursor: {
+            type: 'string',
+            description: 'Continue a listing from the nextCursor of the previous page',
+          },
+          fields: {
+            type: 'array',
+            items: { type: 'string', enum: ['name', 'version', 'hasTypes', 'location'] },
+            description: 'Fields of each listed package (default: all four)',
+          },
+          sort: {
+            type: 'string',
+            enum: ['name', 'version', 'location'],
+            description: 'Sort order of the listed packages (default: name)',
+          },
+          projectPath,
         },
       },
+      outputSchema: toOutputSchema(ScanResultSchema),
     },
     {
       name: 'read-package',
@@ -68,9 +352,179 @@ export function createServer(): Server {
             type: 'string',
             description: 'Name of the package to read',
           },
+          version: {
+            type: 'string',
+            description: 'Read a specific installed version when several copies exist',
+          },
+          location: {
+            type: 'string',
+            description:
+              'Read the copy at this location, relative to the project (see installations in scan-packages)',
+          },
+          language: {
+            type: 'string',
+            enum: ['javascript', 'python'],
+            description:
+              'Read the package of this language when the name exists in both ecosystems (polyglot projects)',
+          },
+          maxTokens: {
+            type: 'number',
+            description:
+              'Approximate token budget for the response (min 200). Package information and exports come first; what does not fit is listed in "omitted" with a nextCursor',
+          },
+          cursor: {
+            type: 'string',
+            description: 'Continue a budgeted response from its nextCursor',
+          },
+          projectPath,
         },
         required: ['packageName'],
       },
+      outputSchema: toOutputSchema(ReadPackageResultSchema),
+    },
+    {
+      name: 'search-symbols',
+      description:
+        'Find where a class, function, interface, type or constant is defined across all cached packages',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          query: {
+            type: 'string',
+            description: 'Symbol name or name fragment to search for',
+          },
+          kind: {
+            type: 'string',
+            enum: ['class', 'function', 'interface', 'type', 'constant', 'enum'],
+            description: 'Restrict matches to one kind of symbol',
+          },
+          includeInternal: {
+            type: 'boolean',
+            description: 'Include symbols that are not exported (default: false)',
+            default: false,
+          },
+          limit: {
+            type: 'number',
+            description: 'Maximum number of matches to return (default: 25)',
+            default: 25,
+          },
+          projectPath,
+        },
+        required: ['query'],
+      },
+      outputSchema: toOutputSchema(SearchSymbolsResultSchema),
+    },
+    {
+      name: 'search-content',
+      description:
+        'Full-text search over cached package names, descriptions, APIs, doc comments and READMEs',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          query: {
+            type: 'string',
+            description: 'Free-text query, e.g. "retry with exponential backoff"',
+          },
+          limit: {
+            type: 'number',
+            description: 'Maximum number of packages to return (default: 10)',
+            default: 10,
+          },
+          projectPath,
+        },
+        required: ['query'],
+      },
+      outputSchema: toOutputSchema(SearchContentResultSchema),
+    },
+    {
+      name: 'dependency-tree',
+      description:
+        'Show what a package pulls in or why it is installed, with version conflicts and dependency cycles',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          packageName: {
+            type: 'string',
+            description: 'Package to inspect; omit for the tree of all project dependencies',
+          },
+          direction: {
+            type: 'string',
+            enum: ['dependencies', 'dependents'],
+            description:
+              '"dependencies": what the package pulls in; "dependents": the chains from the project dependencies that install it (default: dependencies)',
+            default: 'dependencies',
+          },
+          depth: {
+            type: 'number',
+            description: 'Tree depth, 1-10 (default: 3 for a package, 1 for the whole project)',
+          },
+          language: {
+            type: 'string',
+            enum: ['javascript', 'python'],
+            description: 'Restrict to one ecosystem',
+          },
+          forceRefresh: {
+            type: 'boolean',
+            description: 'Rebuild the graph from the installed packages (default: false)',
+            default: false,
+          },
+          projectPath,
+        },
+      },
+      outputSchema: toOutputSchema(DependencyTreeResultSchema),
+    },
+    {
+      name: 'check-environment',
+      description:
+        'Report installed packages that drifted from package.json/pyproject.toml and the lockfile: missing, extraneous and out-of-range packages, with the command that fixes each',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          language: {
+            type: 'string',
+            enum: ['javascript', 'python'],
+            description: 'Check one ecosystem only',
+          },
+          validateTooling: {
+            type: 'boolean',
+            description:
+              'Python: also run the uv or pip installation checks, which execute the tools (default: false)',
+            default: false,
+          },
+          projectPath,
+        },
+      },
+      outputSchema: toOutputSchema(CheckEnvironmentResultSchema),
+    },
+    {
+      name: 'diff-package-api',
+      description:
+        'Compare the API of two versions of a package (two installed copies, or a version read before an upgrade): added, removed and changed exports, classes, methods and parameters, with breaking changes flagged',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          packageName: {
+            type: 'string',
+            description: 'Package to compare',
+          },
+          from: {
+            type: 'string',
+            description: 'Older version (default: the most recently read other version)',
+          },
+          to: {
+            type: 'string',
+            description: 'Newer version (default: the installed version)',
+          },
+          language: {
+            type: 'string',
+            enum: ['javascript', 'python'],
+            description: 'Disambiguate a name installed for both languages',
+          },
+          projectPath,
+        },
+        required: ['packageName'],
+      },
+      outputSchema: toOutputSchema(DiffPackageApiResultSchema),
     },
   ];
 
@@ -81,36 +535,49 @@ export function createServer(): Server {
   });
 
   // Handle tool calls
-  server.setRequestHandler(CallToolRequestSchema, async (request) => {
+  server.setRequestHandler(CallToolRequestSchema, (request, extra) =>
+    inRequest(extra, () => callTool(request)),
+  );
+
+  async function callTool(request: CallToolRequest): Promise<CallToolResult> {
     const { name, arguments: args } = request.params;
     log('info', `Tool called: ${name}`, args);
 
     try {
       switch (name) {
         case 'scan-packages': {
-          const params = args as ScanPackagesParams;
-          const result = await scanPackagesTool(params);
-          return {
-            content: [
-              {
-                type: 'text',
-                text: JSON.stringify(result, null, 2),
-              },
-            ],
-          };
+          const result = await scanPackagesTool(args as ScanPackagesParams);
+          return toToolResult(result, formatScanResult(result));
         }
 
         case 'read-package': {
-          const params = args as ReadPackageParams;
-          const result = await readPackageTool(params);
-          return {
-            content: [
-              {
-                type: 'text',
-                text: JSON.stringify(result, null, 2),
-              },
-            ],
-          };
+          const result = await readPackageTool(args as ReadPackageParams);
+          return toToolResult(result, formatReadPackageResult(result));
+        }
+
+        case 'search-symbols': {
+          const result = await searchSymbolsTool(args as SearchSymbolsParams);
+          return toToolResult(result, formatSearchSymbolsResult(result));
+        }
+
+        case 'search-content': {
+          const result = await searchContentTool(args as SearchContentParams);
+          return toToolResult(result, formatSearchContentResult(result));
+        }
+
+        case 'dependency-tree': {
+          const result = await dependencyTreeTool(args as DependencyTreeParams);
+          return toToolResult(result, formatDependencyTreeResult(result));
+        }
+
+        case 'check-environment': {
+          const result = await checkEnvironmentTool(args as CheckEnvironmentParams);
+          return toToolResult(result, formatCheckEnvironmentResult(result));
+        }
+
+        case 'diff-package-api': {
+          const result = await diffPackageApiTool(args as DiffPackageApiParams);
+          return toToolResult(result, formatDiffPackageApiResult(result));
         }
 
         default:
@@ -158,8 +625,60 @@ export function createServer(): Server {
         isError: true,
       };
     }
+  }
+
+  // Packages as pkg:// resources
+  server.setRequestHandler(ListResourcesRequestSchema, async (request, extra) => {
+    log('debug', 'Listing package resources');
+    return inRequest(extra, () => listPackageResources(request.params?.cursor)).catch(
+      toProtocolError,
+    );
+  });
+
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, () => {
+    log('debug', 'Listing resource templates');
+    return listPackageResourceTemplates();
+  });
+
+  server.setRequestHandler(ReadResourceRequestSchema, async (request, extra) => {
+    log('info', `Resource read: ${request.params.uri}`);
+    return inRequest(extra, () => readPackageResource(request.params.uri)).catch(toProtocolError);
+  });
+
+  // Guided workflows, assembled from the installed package and the project's imports
+  server.setRequestHandler(ListPromptsRequestSchema, () => {
+    log('debug', 'Listing prompts');
+    return listPackagePrompts();
+  });
+
+  server.setRequestHandler(GetPromptRequestSchema, async (request, extra) => {
+    log('info', `Prompt requested: ${request.params.name}`, request.params.arguments);
+    const { name, arguments: args } = request.params;
+    return inRequest(extra, () => getPackagePrompt(name, args)).catch(toProtocolError);
+  });
+
+  // Subscribed resources get notifications/resources/updated when their package changes
+  const subscriptions = new Set<string>();
+  server.setRequestHandler(SubscribeRequestSchema, (request) => {
+    subscriptions.add(request.params.uri);
+    return {};
   });
 
+  server.setRequestHandler(UnsubscribeRequestSchema, (request) => {
+    subscriptions.delete(request.params.uri);
+    return {};
+  });
+
+  if (options.watch) {
+    let unwatch: (() => void) | undefined;
+    server.oninitialized = () => {
+      unwatch = inProject(() =>
+        watchEnvironment((changes) => notifyPackageChanges(server, changes, subscriptions)),
+      );
+    };
+    server.onclose = () => unwatch?.();
+  }
+
   // Error handling
   server.onerror = (error) => {
     log('error', 'Server error:', error);
@@ -168,23 +687,282 @@ export function createServer(): Server {
   return server;
 }
 
-export async function startServer(): Promise<void> {
+export async function startServer(options: ServerOptions = { watch: true }): Promise<void> {
   const transport = new StdioServerTransport();
-  const server = createServer();
+  const server = createServer(options);
 
   // Handle graceful shutdown
   process.on('SIGINT', () => {
     log('info', 'Received SIGINT, shutting down gracefully...');
     void server.close();
+    UnifiedCache.closeAll();
     process.exit(0);
   });
 
   process.on('SIGTERM', () => {
     log('info', 'Received SIGTERM, shutting down gracefully...');
     void server.close();
+    UnifiedCache.closeAll();
     process.exit(0);
   });
 
   await server.connect(transport);
   log('info', 'MCP server connected and ready');
 }
+
+const DEFAULT_HTTP_HOST = '127.0.0.1';
+const MCP_ENDPOINT = '/mcp';
+const SSE_ENDPOINT = '/sse';
+const SSE_MESSAGES_ENDPOINT = '/messages';
+const LOOPBACK_HOSTS = new Set(['127.0.0.1', 'localhost', '[::1]']);
+const MAX_BODY_SIZE = 4 * 1024 * 1024;
+const DEFAULT_SESSION_IDLE_TIMEOUT_MS = 30 * 60 * 1000;
+
+export interface HttpServerOptions extends Omit<ServerOptions, 'projectRoot'> {
+  port: number;
+  host?: string; // Interface to bind (default: 127.0.0.1)
+  sse?: boolean; // Also serve the older HTTP+SSE transport at /sse (default: false)
+  sessionIdleTimeoutMs?: number; // Close sessions without requests for this long (default: 30 min)
+}
+
+export interface HttpServerHandle {
+  url: string; // Streamable HTTP endpoint
+  close(): Promise<void>;
+}
+
+interface HttpSession {
+  server: Server;
+  transport: StreamableHTTPServerTransport | SSEServerTransport;
+  openRequests: number; // Including a client's standalone GET stream
+  lastActive: number;
+}
+
+class HttpRequestError extends Error {
+  constructor(
+    readonly status: number,
+    message: string,
+    readonly code = -32600, // JSON-RPC invalid request
+  ) {
+    super(message);
+  }
+}
+
+/**
+ * Serve MCP over Streamable HTTP (and optionally HTTP+SSE). Every session gets its own
+ * server, so several editor windows and agents share one process and its warm caches;
+ * a session targets the project in its X-Project-Root header or ?project= parameter
+ */
+export async function listenHttp(options: HttpServerOptions): Promise<HttpServerHandle> {
+  const host = options.host ?? DEFAULT_HTTP_HOST;
+  const sessions = new Map<string, HttpSession>();
+
+  const httpServer = createHttpServer((req, res) => {
+    handleHttpRequest(req, res, sessions, { ...options, host }).catch((error: unknown) => {
+      sendHttpError(res, error);
+    });
+  });
+
+  await new Promise<void>((done, fail) => {
+    httpServer.once('error', fail);
+    httpServer.listen(options.port, host, () => {
+      httpServer.off('error', fail);
+      done();
+    });
+  });
+
+  const { port } = httpServer.address() as AddressInfo;
+  const url = `http://${host.includes(':') ? `[${host}]` : host}:${port}${MCP_ENDPOINT}`;
+  log('info', `MCP server listening on ${url}${options.sse ? ` (SSE at ${SSE_ENDPOINT})` : ''}`);
+
+  // A client that goes away without a DELETE leaves its session behind. SSE sessions end
+  // with their stream and are not swept
+  const idleTimeout = options.sessionIdleTimeoutMs ?? DEFAULT_SESSION_IDLE_TIMEOUT_MS;
+  const sweep = setInterval(
+    () => {
+      const idleSince = Date.now() - idleTimeout;
+      for (const [id, session] of sessions) {
+        if (
+          session.transport instanceof StreamableHTTPServerTransport &&
+          session.openRequests === 0 &&
+          session.lastActive < idleSince
+        ) {
+          log('info', `Closing idle session ${id}`);
+          sessions.delete(id);
+          void session.server.close();
+        }
+      }
+    },
+    Math.min(idleTimeout, 60_000),
+  );
+  sweep.unref();
+
+  return {
+    url,
+    close: async () => {
+      clearInterval(sweep);
+      for (const session of [...sessions.values()]) {
+        await session.server.close();
+      }
+      sessions.clear();
+      httpServer.closeAllConnections();
+      await new Promise<void>((done) => httpServer.close(() => done()));
+      UnifiedCache.closeAll();
+    },
+  };
+}
+
+export async function startHttpServer(options: HttpServerOptions): Promise<void> {
+  const handle = await listenHttp({ watch: true, ...options });
+
+  const shutdown = (signal: string): void => {
+    log('info', `Received ${signal}, shutting down gracefully...`);
+    void handle.close().finally(() => process.exit(0));
+  };
+  process.on('SIGINT', () => shutdown('SIGINT'));
+  process.on('SIGTERM', () => shutdown('SIGTERM'));
+}
+
+async function handleHttpRequest(
+  req: IncomingMessage,
+  res: ServerResponse,
+  sessions: Map<string, HttpSession>,
+  options: HttpServerOptions & { host: string },
+): Promise<void> {
+  const url = new URL(req.url ?? '/', 'http://localhost');
+
+  // A page in the browser must not reach a localhost server through DNS rebinding
+  if (LOOPBACK_HOSTS.has(options.host) && !isLoopbackHostHeader(req.headers.host)) {
+    throw new HttpRequestError(403, `Host not allowed: ${req.headers.host ?? '(none)'}`);
+  }
+
+  if (url.pathname === MCP_ENDPOINT) {
+    const sessionId = req.headers['mcp-session-id'];
+    const body = req.method === 'POST' ? await readJsonBody(req) : undefined;
+
+    if (typeof sessionId === 'string') {
+      const session = sessions.get(sessionId);
+      if (!(session?.transport instanceof StreamableHTTPServerTransport)) {
+        throw new HttpRequestError(404, `Session not found: ${sessionId}`, -32001);
+      }
+      session.openRequests++;
+      res.once('close', () => {
+        session.openRequests--;
+        session.lastActive = Date.now();
+      });
+      await session.transport.handleRequest(req, res, body);
+      return;
+    }
+
+    if (!isInitializeRequest(body)) {
+      throw new HttpRequestError(400, 'No session: start one with an initialize request');
+    }
+
+    const server = createServer({
+      watch: options.watch,
+      projectRoot: await getSessionProjectRoot(req, url),
+    });
+    const transport: StreamableHTTPServerTransport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: (id) => {
+        sessions.set(id, { server, transport, openRequests: 0, lastActive: Date.now() });
+      },
+    });
+    transport.onclose = () => {
+      if (transport.sessionId) sessions.delete(transport.sessionId);
+    };
+    await server.connect(transport);
+    await transport.handleRequest(req, res, body);
+    return;
+  }
+
+  if (options.sse && url.pathname === SSE_ENDPOINT && req.method === 'GET') {
+    const server = createServer({
+      watch: options.watch,
+      projectRoot: await getSessionProjectRoot(req, url),
+    });
+    const transport = new SSEServerTransport(SSE_MESSAGES_ENDPOINT, res);
+    sessions.set(transport.sessionId, {
+      server,
+      transport,
+      openRequests: 0,
+      lastActive: Date.now(),
+    });
+    transport.onclose = () => sessions.delete(transport.sessionId);
+    await server.connect(transport);
+    return;
+  }
+
+  if (options.sse && url.pathname === SSE_MESSAGES_ENDPOINT && req.method === 'POST') {
+    const sessionId = url.searchParams.get('sessionId') ?? '';
+    const session = sessions.get(sessionId);
+    if (!(session?.transport instanceof SSEServerTransport)) {
+      throw new HttpRequestError(404, `Session not found: ${sessionId}`, -32001);
+    }
+    await session.transport.handlePostMessage(req, res, await readJsonBody(req));
+    return;
+  }
+
+  throw new HttpRequestError(404, `Not found: ${url.pathname}`);
+}
+
+function isLoopbackHostHeader(hostHeader: string | undefined): boolean {
+  try {
+    return !!hostHeader && LOOPBACK_HOSTS.has(new URL(`http://${hostHeader}`).hostname);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * The project a new session works on: an existing directory, or the server's working directory
+ */
+async function getSessionProjectRoot(req: IncomingMessage, url: URL): Promise<string> {
+  const header = req.headers['x-project-root'];
+  const requested =
+    (typeof header === 'string' ? header : undefined) ?? url.searchParams.get('project');
+  if (!requested) {
+    return process.cwd();
+  }
+
+  const projectRoot = resolve(requested);
+  const stats = await stat(projectRoot).catch(() => null);
+  if (!stats?.isDirectory()) {
+    throw new HttpRequestError(400, `Project root is not a directory: ${requested}`);
+  }
+  return projectRoot;
+}
+
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    const buffer = chunk as Buffer;
+    size += buffer.length;
+    if (size > MAX_BODY_SIZE) {
+      throw new HttpRequestError(413, `Request body exceeds ${MAX_BODY_SIZE} bytes`);
+    }
+    chunks.push(buffer);
+  }
+
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString('utf-8')) as unknown;
+  } catch {
+    throw new HttpRequestError(400, 'Request body is not valid JSON', -32700);
+  }
+}
+
+function sendHttpError(res: ServerResponse, error: unknown): void {
+  if (!(error instanceof HttpRequestError)) {
+    log('error', 'HTTP request failed', error);
+  }
+  if (res.headersSent) {
+    res.end();
+    return;
+  }
+
+  const status = error instanceof HttpRequestError ? error.status : 500;
+  const code = error instanceof HttpRequestError ? error.code : -32603;
+  const message = error instanceof Error ? error.message : 'Internal server error';
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify({ jsonrpc: '2.0', error: { code, message }, id: null }));
+}
@@ -0,0 +1,244 @@
+import { promises as fs } from 'node:fs';
+import { join } from 'node:path';
+import { UVAdapter } from '#bottles/package-managers/uv';
+import { PipAdapter } from '#bottles/package-managers/pip';
+import type { Manifest, ValidationResult } from '#bottles/package-managers/base';
+import { ShellRPC } from '#bottles/shell-rpc';
+import { VolumeController } from '#bottles/volume-controller';
+import type { EnvironmentInfo as BottleEnvironment } from '#bottles/environment-detector';
+import { NodeJSScanner } from '#scanners/nodejs.js';
+import { PythonScanner } from '#scanners/python.js';
+import { readNodeLockfile, readUvLockfile } from '#scanners/lockfiles.js';
+import type { BasicPackageInfo } from '#scanners/types.js';
+import { getProjectRoot, withProjectPath } from '#utils/project-context.js';
+import { createManifestParsers } from '#utils/project-dependencies.js';
+import {
+  findDrift,
+  listDeclaredDependencies,
+  readNodeManifest,
+  type DriftInput,
+} from '#utils/environment-drift.js';
+import type {
+  CheckEnvironmentParams,
+  CheckEnvironmentResult,
+  DriftIssue,
+  EnvironmentCheck,
+} from '#types.js';
+import { CheckEnvironmentParamsSchema, McpError } from '#types.js';
+
+interface LanguageCheck {
+  environment: EnvironmentCheck;
+  issues: DriftIssue[];
+}
+
+/**
+ * Compare the installed packages with the manifest ranges and lockfile pins of the
+ * project: missing, extraneous and out-of-range packages, each with the command that
+ * fixes it.
+ *
+ * Everything is read from disk (manifests, lockfiles and a fresh scan); only
+ * validateTooling runs the Python package manager.
+ */
+export async function checkEnvironmentTool(
+  params: CheckEnvironmentParams,
+): Promise<CheckEnvironmentResult> {
+  const validated = CheckEnvironmentParamsSchema.parse(params);
+
+  try {
+    return await withProjectPath(validated.projectPath, async () => {
+      const projectRoot = getProjectRoot();
+      const checks: LanguageCheck[] = [];
+      if (validated.language !== 'python') {
+        const check = await checkJavaScript(projectRoot);
+        if (check) checks.push(check);
+      }
+      if (validated.language !== 'javascript') {
+        const check = await checkPython(projectRoot, validated.validateTooling);
+        if (check) checks.push(check);
+      }
+
+      if (checks.length === 0) {
+        throw new McpError(
+          'No package.json, pyproject.toml or requirements file found',
+          'MANIFEST_NOT_FOUND',
+          'Pass the projectPath of the project to check',
+        );
+      }
+
+      const issues = checks.flatMap((check) => check.issues);
+      console.error(`[CHECK] ${issues.length} drift issues in ${checks.length} environments`);
+      return {
+        type: 'check-environment',
+        success: true,
+        inSync: issues.length === 0,
+        environments: checks.map((check) => check.environment),
+        issues,
+        fixes: [...new Set(issues.map((issue) => issue.fix))],
+      };
+    });
+  } catch (error) {
+    console.error('[CHECK] Error:', error);
+    return {
+      type: 'error',
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      ...(error instanceof McpError &&
+        error.suggestion !== undefined && { suggestion: error.suggestion }),
+    };
+  }
+}
+
+function compare(input: DriftInput, warnings: string[]): LanguageCheck {
+  return {
+    environment: {
+      language: input.language,
+      packageManager: input.packageManager,
+      ...(input.lockfile && {
+        lockfile: input.lockfile.lockfile,
+        locked: input.lockfile.packages.length,
+      }),
+      declared: input.declared.length,
+      installed: Object.keys(input.installed).length,
+      ...(warnings.length > 0 && { warnings }),
+    },
+    issues: findDrift(input),
+  };
+}
+
+async function checkJavaScript(projectRoot: string): Promise<LanguageCheck | null> {
+  const manifest = await readNodeManifest(projectRoot);
+  if (!manifest) {
+    return null;
+  }
+
+  const lockfile = await readNodeLockfile(projectRoot);
+  const warnings: string[] = [];
+  let installed: Record<string, BasicPackageInfo> = {};
+  let packageManager: string | undefined = lockfile?.packageManager;
+  try {
+    // pnpm links only the direct dependencies into node_modules
+    const result = await new NodeJSScanner(projectRoot).scan({ includeVirtualStore: true });
+    installed = result.packages ?? {};
+    packageManager ??= result.environment.packageManager;
+  } catch (error) {
+    warnings.push(error instanceof Error ? error.message : String(error));
+  }
+
+  return compare(
+    {
+      language: 'javascript',
+      packageManager: packageManager ?? 'npm',
+      declared: listDeclaredDependencies(manifest, 'javascript'),
+      projectPackages: manifest.name ? [manifest.name] : [],
+      lockfile,
+      installed,
+    },
+    warnings,
+  );
+}
+
+/**
+ * Development requirements of pyproject.toml, which the pip adapter does not read:
+ * [tool.uv] dev-dependencies and the PEP 735 dependency groups
+ */
+async function readDevRequirements(projectRoot: string, uv: UVAdapter): Promise<string[]> {
+  let content: string;
+  try {
+    content = await fs.readFile(join(projectRoot, 'pyproject.toml'), 'utf-8');
+  } catch {
+    return [];
+  }
+  const config = uv.parsePyprojectToml(content);
+  return [
+    ...(config?.devDependencies ?? []),
+    ...Object.values(config?.dependencyGroups ?? {}).flat(),
+  ].filter((requirement): requirement is string => typeof requirement === 'string');
+}
+
+async function checkPython(
+  projectRoot: string,
+  validateTooling: boolean,
+): Promise<LanguageCheck | null> {
+  const { uv, pip } = createManifestParsers(projectRoot);
+  const lockfile = await readUvLockfile(projectRoot);
+  const parsed = await pip.parseManifest(projectRoot);
+  if (!parsed && !lockfile) {
+    return null;
+  }
+
+  const manifest: Manifest = parsed ?? {
+    dependencies: {},
+    devDependencies: {},
+    optionalDependencies: {},
+  };
+  for (const requirement of await readDevRequirements(projectRoot, uv)) {
+    const match = /^\s*([A-Za-z0-9][A-Za-z0-9._-]*)(?:\[[^\]]*\])?\s*(.*)$/.exec(requirement);
+    if (match?.[1] && !(match[1] in manifest.devDependencies)) {
+      manifest.devDependencies[match[1]] = match[2] ?? '';
+    }
+  }
+
+  const warnings: string[] = [];
+  let installed: Record<string, BasicPackageInfo> = {};
+  try {
+    const result = await new PythonScanner(projectRoot).scan();
+    installed = result.packages ?? {};
+    if (result.environment.type === 'system') {
+      warnings.push('No virtual environment found');
+    }
+  } catch (error) {
+    warnings.push(error instanceof Error ? error.message : String(error));
+  }
+
+  const packageManager = lockfile ? 'uv' : 'pip';
+  const check = compare(
+    {
+      language: 'python',
+      packageManager,
+      declared: listDeclaredDependencies(manifest, 'python'),
+      projectPackages: manifest.name ? [manifest.name] : [],
+      lockfile,
+      installed,
+    },
+    warnings,
+  );
+  if (validateTooling) {
+    const {
+      valid,
+      issues,
+      warnings: toolWarnings,
+    } = await validateInstallation(projectRoot, packageManager);
+    check.environment.tooling = { valid, issues, warnings: toolWarnings };
+  }
+  return check;
+}
+
+/**
+ * The adapter's installation checks run the package manager in a shell of their own,
+ * closed once they are done
+ */
+async function validateInstallation(
+  projectRoot: string,
+  packageManager: 'uv' | 'pip',
+): Promise<ValidationResult> {
+  const shellRPC = new ShellRPC({ cwd: projectRoot });
+  const volumeController = new VolumeController('check-environment', {
+    projectDir: projectRoot,
+    detectedManagers: [packageManager],
+  });
+  const environment: BottleEnvironment = {
+    pip: { available: false },
+    uv: { available: false },
+    detected: false,
+    timestamp: Date.now(),
+  };
+
+  try {
+    await volumeController.initialize();
+    const Adapter = packageManager === 'uv' ? UVAdapter : PipAdapter;
+    const adapter = new Adapter(shellRPC, volumeController, environment, projectRoot);
+    return await adapter.validateInstallation(projectRoot);
+  } finally {
+    await shellRPC.cleanup();
+  }
+}
@@ -0,0 +1,170 @@
+import { UnifiedCache } from '#utils/cache.js';
+import { getProjectScanner } from '#utils/scanner-factory.js';
+import { getProjectRoot, withProjectPath } from '#utils/project-context.js';
+import { getProjectDependencies, normalizePythonName } from '#utils/project-dependencies.js';
+import {
+  buildDependencyGraph,
+  collectDependencies,
+  findConflicts,
+  findCycles,
+  findDependentPaths,
+  findRoots,
+  formatNode,
+  listDependencyTree,
+  type DependencyGraph,
+  type DependencyNode,
+} from '#utils/dependency-graph.js';
+import { scanPackagesTool } from '#tools/scan-packages.js';
+import type { DependencyTreeParams, DependencyTreeResult } from '#types.js';
+import { DependencyTreeParamsSchema, McpError, PackageNotFoundError } from '#types.js';
+
+const MAX_PATHS = 10;
+
+/**
+ * Walk the resolved dependency graph of the environment: what a package pulls in, or why
+ * it is installed, with the version conflicts and cycles along the way.
+ *
+ * The graph is built from installed manifests after a scan and cached next to the package
+ * index, so it is rebuilt only when the environment is rescanned.
+ */
+export async function dependencyTreeTool(
+  params: DependencyTreeParams,
+): Promise<DependencyTreeResult> {
+  const validated = DependencyTreeParamsSchema.parse(params);
+
+  try {
+    return await withProjectPath(validated.projectPath, async () => {
+      const graph = await loadGraph(validated.forceRefresh);
+      return describeGraph(graph, validated);
+    });
+  } catch (error) {
+    console.error('[DEPS] Error:', error);
+    return {
+      type: 'error',
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      ...(error instanceof McpError &&
+        error.suggestion !== undefined && { suggestion: error.suggestion }),
+    };
+  }
+}
+
+async function loadGraph(forceRefresh: boolean): Promise<DependencyGraph> {
+  const cache = UnifiedCache.forProject();
+  if (!forceRefresh) {
+    const environment = await (await getProjectScanner()).getEnvironmentInfo();
+    const cached = cache.loadDependencyGraph(environment);
+    if (cached) {
+      console.error('[CACHE] Using cached dependency graph');
+      return cached;
+    }
+  }
+
+  // Scanning (or reusing a fresh scan) stores the package index the graph is built from
+  await scanPackagesTool({ forceRefresh });
+  const environment = await (await getProjectScanner()).getEnvironmentInfo();
+  const packages = cache.load(environment)?.packages ?? {};
+
+  const graph = await buildDependencyGraph(
+    packages,
+    getProjectRoot(),
+    await getProjectDependencies(),
+  );
+  cache.saveDependencyGraph(environment, graph);
+  console.error(
+    `[DEPS] Resolved ${graph.nodes.length} packages and ${graph.edges.length} dependencies`,
+  );
+  return graph;
+}
+
+function describeGraph(
+  graph: DependencyGraph,
+  validated: ReturnType<typeof DependencyTreeParamsSchema.parse>,
+): DependencyTreeResult {
+  const { packageName, direction, language } = validated;
+  const inLanguage = (node: DependencyNode | undefined): boolean =>
+    language === undefined || node?.language === language;
+  const label = (indexes: number[]): string[] =>
+    indexes.map((index) => {
+      const node = graph.nodes[index];
+      return node ? formatNode(node) : '';
+    });
+
+  if (!packageName) {
+    if (direction === 'dependents') {
+      return {
+        type: 'error',
+        success: false,
+        error: 'direction "dependents" needs a packageName',
+        suggestion:
+          'Pass the package to explain, e.g. { packageName: "ms", direction: "dependents" }',
+      };
+    }
+
+    const roots = findRoots(graph).filter((index) => inLanguage(graph.nodes[index]));
+    return {
+      type: 'dependency-tree',
+      success: true,
+      direction,
+      totalPackages: graph.nodes.filter(inLanguage).length,
+      // Depth counts from the project, whose dependencies are the roots
+      tree: listDependencyTree(graph, roots, (validated.depth ?? 1) - 1),
+      cycles: findCycles(graph)
+        .filter((cycle) => inLanguage(graph.nodes[cycle[0] ?? -1]))
+        .map(label),
+      conflicts: findConflicts(
+        graph,
+        graph.edges.filter((edge) => inLanguage(graph.nodes[edge.from])),
+      ),
+    };
+  }
+
+  // Python names match however they are spelled
+  const matches = (node: DependencyNode): boolean =>
+    node.language === 'python'
+      ? normalizePythonName(node.name) === normalizePythonName(packageName)
+      : node.name === packageName;
+  const targets = graph.nodes.flatMap((node, index) =>
+    matches(node) && inLanguage(node) ? [index] : [],
+  );
+  if (targets.length === 0) {
+    throw new PackageNotFoundError(packageName);
+  }
+
+  const common = {
+    type: 'dependency-tree' as const,
+    success: true as const,
+    direction,
+    package: packageName,
+    totalPackages: graph.nodes.filter(inLanguage).length,
+  };
+
+  if (direction === 'dependents') {
+    const targetSet = new Set(targets);
+    return {
+      ...common,
+      paths: findDependentPaths(graph, targets, MAX_PATHS).map(label),
+      cycles: findCycles(graph)
+        .filter((cycle) => cycle.some((index) => targetSet.has(index)))
+        .map(label),
+      conflicts: findConflicts(
+        graph,
+        graph.edges.filter((edge) => edge.to !== null && targetSet.has(edge.to)),
+      ),
+    };
+  }
+
+  const closure = collectDependencies(graph, targets);
+  return {
+    ...common,
+    tree: listDependencyTree(graph, targets, validated.depth ?? 3),
+    transitiveCount: [...closure].filter((index) => !targets.includes(index)).length,
+    cycles: findCycles(graph)
+      .filter((cycle) => cycle.some((index) => closure.has(index)))
+      .map(label),
+    conflicts: findConflicts(
+      graph,
+      graph.edges.filter((edge) => closure.has(edge.from)),
+    ),
+  };
+}
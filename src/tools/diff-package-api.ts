@@ -0,0 +1,113 @@
+import { loadPackageContent, locatePackage, type LocatedPackage } from '#tools/read-package.js';
+import { withProjectPath } from '#utils/project-context.js';
+import { diffPackageApi } from '#utils/api-diff.js';
+import type { UnifiedPackageContent } from '#types/unified-schema.js';
+import type { DiffPackageApiParams, DiffPackageApiResult } from '#types.js';
+import { DiffPackageApiParamsSchema, McpError } from '#types.js';
+
+interface Snapshot {
+  version: string;
+  source: 'installed' | 'history';
+  content: UnifiedPackageContent;
+}
+
+/**
+ * Compare the API of two versions of a package. Each side is an installed copy (nested
+ * npm installs, pnpm store versions) or content recorded in the cache when that version
+ * was read before an upgrade
+ */
+export async function diffPackageApiTool(
+  params: DiffPackageApiParams,
+): Promise<DiffPackageApiResult> {
+  const validated = DiffPackageApiParamsSchema.parse(params);
+
+  try {
+    return await withProjectPath(validated.projectPath, async () => {
+      const { packageName } = validated;
+      const located = await locatePackage(packageName, {
+        ...(validated.language && { language: validated.language }),
+      });
+      const language = located.scanner.language;
+
+      const installed = [...new Set(located.installations.map((copy) => copy.version))];
+      const recorded = located.cache.listPackageVersions(located.environment, packageName);
+      const to = validated.to ?? located.version ?? 'unknown';
+      // The version read most recently before this one, else another installed copy
+      const from = validated.from ?? [...recorded, ...installed].find((version) => version !== to);
+      if (from === undefined) {
+        throw new McpError(
+          `Only version ${to} of ${packageName} is known`,
+          'VERSION_NOT_FOUND',
+          'Read the package with read-package before upgrading it, or pass "from" with an installed version',
+        );
+      }
+
+      const known = [...new Set([...installed, ...recorded])];
+      const before = await loadSnapshot(located, packageName, from, known);
+      const after = await loadSnapshot(located, packageName, to, known);
+      const changes = diffPackageApi(before.content, after.content, language);
+      const breaking = changes.filter((change) => change.breaking).length;
+
+      console.error(
+        `[DIFF] ${packageName} ${from} -> ${to}: ${changes.length} changes, ${breaking} breaking`,
+      );
+      return {
+        type: 'diff-package-api',
+        success: true,
+        package: packageName,
+        language,
+        from: { version: before.version, source: before.source },
+        to: { version: after.version, source: after.source },
+        breaking: breaking > 0,
+        summary: {
+          added: changes.filter((change) => change.change === 'added').length,
+          removed: changes.filter((change) => change.change === 'removed').length,
+          changed: changes.filter((change) => change.change === 'changed').length,
+          breaking,
+        },
+        changes,
+      };
+    });
+  } catch (error) {
+    console.error('[DIFF] Error:', error);
+    return {
+      type: 'error',
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      ...(error instanceof McpError &&
+        error.suggestion !== undefined && { suggestion: error.suggestion }),
+    };
+  }
+}
+
+/**
+ * An installed copy is extracted (or read from the cache); a version that is no longer
+ * installed comes from the version history
+ */
+async function loadSnapshot(
+  located: LocatedPackage,
+  packageName: string,
+  version: string,
+  known: string[],
+): Promise<Snapshot> {
+  if (located.installations.some((copy) => copy.version === version)) {
+    const copy = await locatePackage(packageName, {
+      version,
+      language: located.scanner.language,
+    });
+    const content = await loadPackageContent(copy, packageName);
+    if (content) {
+      return { version, source: 'installed', content };
+    }
+  }
+
+  const content = located.cache.loadPackageVersion(located.environment, packageName, version);
+  if (content) {
+    return { version, source: 'history', content };
+  }
+  throw new McpError(
+    `No API content of ${packageName} ${version} is installed or recorded`,
+    'VERSION_NOT_FOUND',
+    `Known versions: ${known.join(', ')}`,
+  );
+}
@@ -1,15 +1,60 @@
 import { UnifiedCache } from '#utils/cache.js';
-import { detectAndCreateScanner } from '#utils/scanner-factory.js';
+import { getProjectScanner } from '#utils/scanner-factory.js';
+import { findPackageKey, scannerForLanguage } from '#scanners/composite.js';
 import { generateFileTree } from '#utils/fs.js';
+import { splitArchivePath, unpackArchivedPath } from '#utils/zip-archive.js';
+import { getUnpackedArchivesDir } from '#utils/cache-paths.js';
+import { getProjectRoot, withProjectPath } from '#utils/project-context.js';
 import type { ReadPackageParams, LegacyReadPackageParams, ReadPackageResult } from '#types.js';
-import type { ParameterInfo } from '#types/unified-schema.js';
-import { ReadPackageParamsSchema, PackageNotFoundError, FileNotFoundError } from '#types.js';
-import { join, basename, extname, dirname } from 'node:path';
+import type { ParameterInfo, UnifiedPackageContent } from '#types/unified-schema.js';
+import type {
+  BasicPackageInfo,
+  EnvironmentInfo,
+  IPackageScanner,
+  PackageInstallation,
+  ScanResult,
+} from '#scanners/types.js';
+import {
+  ReadPackageParamsSchema,
+  McpError,
+  PackageNotFoundError,
+  FileNotFoundError,
+  InstallationNotFoundError,
+  ProjectNotFoundError,
+} from '#types.js';
+import { join, basename, extname, dirname, resolve } from 'node:path';
 import { promises as fs } from 'node:fs';
 import { MarkdownGenerator } from '#utils/markdown-generator.js';
+import { budgetOverview, estimateTokens } from '#utils/token-budget.js';
 import { NodeJSAdapter } from '#adapters/nodejs-adapter.js';
 import { PythonAdapter } from '#adapters/python-adapter.js';
 
+const MAX_FILE_SIZE = 10 * 1024 * 1024; // 10MB
+const DEFAULT_MAX_TOKENS = 4000; // Budget of a page requested by cursor alone
+
+const BINARY_EXTENSIONS = [
+  '.pyc',
+  '.woff',
+  '.woff2',
+  '.ttf',
+  '.eot',
+  '.png',
+  '.jpg',
+  '.jpeg',
+  '.gif',
+  '.ico',
+  '.pdf',
+  '.zip',
+  '.tar',
+  '.gz',
+  '.exe',
+  '.dll',
+  '.so',
+  '.dylib',
+];
+
+type PackageTree = Extract<ReadPackageResult, { type: 'tree' }>;
+
 // Type for legacy parameters that might be passed by old clients
 interface LegacyReadParams {
   packageName: string;
@@ -54,12 +99,275 @@ function migrateLegacyReadParams(
   // Print deprecation warnings
   warnings.forEach((warning) => console.error(warning));
 
+  const { version, location, language, maxTokens, cursor, projectPath } =
+    params as ReadPackageParams;
   return {
     packageName: legacyParams.packageName,
+    ...(version !== undefined && { version }),
+    ...(location !== undefined && { location }),
+    ...(language !== undefined && { language }),
+    ...(maxTokens !== undefined && { maxTokens }),
+    ...(cursor !== undefined && { cursor }),
+    ...(projectPath !== undefined && { projectPath }),
     ...(legacyFilePath && { legacyFilePath }),
   };
 }
 
+/**
+ * Package info for an installed copy other than the one the scanner resolves by name
+ */
+async function getInstallationInfo(
+  scanner: IPackageScanner,
+  packageName: string,
+  installation: PackageInstallation,
+  location: string,
+): Promise<BasicPackageInfo | null> {
+  const primary = await scanner.getPackageInfo(packageName);
+  if (!primary) {
+    return null;
+  }
+
+  let metadata = primary.metadata;
+  try {
+    const packageJson = await fs.readFile(join(location, 'package.json'), 'utf-8');
+    metadata = JSON.parse(packageJson) as Record<string, unknown>;
+  } catch {
+    // Keep the primary copy's metadata
+  }
+
+  return { ...primary, version: installation.version, location, metadata };
+}
+
+export interface LocatedPackage {
+  scanner: IPackageScanner; // The scanner of the package's language
+  cache: UnifiedCache;
+  cached: ScanResult | null;
+  environment: EnvironmentInfo; // Environment the cache partition belongs to
+  indexKey: string; // Key of the package in the scan index (qualified when the name is polyglot)
+  location: string;
+  version: string | null;
+  installations: PackageInstallation[]; // Every installed copy, the primary one included
+  selectedCopy?: PackageInstallation; // Set when a copy other than the primary one was chosen
+}
+
+/**
+ * Find where a package, or one specific installed copy of it, lives: from the cache when
+ * it has been scanned, otherwise by scanning
+ */
+export async function locatePackage(
+  packageName: string,
+  selection: { version?: string; location?: string; language?: 'javascript' | 'python' } = {},
+): Promise<LocatedPackage> {
+  const cache = UnifiedCache.forProject();
+  let packageLocation: string | null = null;
+  let packageVersion: string | null = null;
+  let primaryLocation: string | null = null;
+  let installations: PackageInstallation[] | undefined;
+  let indexKey = packageName;
+
+  // Try cache first - get environment info from scanner
+  const projectScanner = await getProjectScanner();
+  let scanner = projectScanner;
+  const environment = await projectScanner.getEnvironmentInfo();
+  const cached = cache.load(environment);
+
+  const cachedKey =
+    cached?.packages && findPackageKey(cached.packages, packageName, selection.language);
+  const cachedInfo = cachedKey ? cached?.packages?.[cachedKey] : undefined;
+  if (cachedKey && cachedInfo) {
+    indexKey = cachedKey;
+    scanner = (await scannerForLanguage(projectScanner, cachedInfo.language)) ?? projectScanner;
+
+    // Cached locations are relative to the project root
+    packageLocation = resolve(getProjectRoot(), cachedInfo.location);
+    packageVersion = cachedInfo.version;
+    primaryLocation = packageLocation;
+    installations = cachedInfo.installations;
+
+    // Yarn Plug'n'Play packages are cached at their zip path; read an unpacked copy
+    if (splitArchivePath(packageLocation)) {
+      packageLocation = await scanner.getPackageLocation(packageName);
+    }
+  }
+
+  // If not in cache, scan for it
+  if (!packageLocation) {
+    // First ensure scanner has scanned packages
+    const scanned = await projectScanner.scan();
+    const scannedKey = findPackageKey(scanned.packages ?? {}, packageName, selection.language);
+    const scannedInfo = scannedKey ? scanned.packages?.[scannedKey] : undefined;
+    const language = scannedInfo?.language ?? selection.language;
+    if (language) {
+      const languageScanner = await scannerForLanguage(projectScanner, language);
+      if (!languageScanner) {
+        throw new PackageNotFoundError(packageName);
+      }
+      scanner = languageScanner;
+    }
+    indexKey = scannedKey ?? packageName;
+
+    packageLocation = await scanner.getPackageLocation(packageName);
+    packageVersion = await scanner.getPackageVersion(packageName);
+    primaryLocation = packageLocation;
+    installations = scannedInfo?.installations;
+
+    if (!packageLocation) {
+      throw new PackageNotFoundError(packageName);
+    }
+  }
+
+  const copies = installations ?? [
+    { version: packageVersion ?? 'unknown', location: primaryLocation ?? packageLocation },
+  ];
+  const located: LocatedPackage = {
+    scanner,
+    cache,
+    cached,
+    environment,
+    indexKey,
+    location: packageLocation,
+    version: packageVersion,
+    installations: copies,
+  };
+  if (selection.version === undefined && selection.location === undefined) {
+    return located;
+  }
+
+  // A specific installed copy was asked for: nested npm installs, pnpm store versions
+  const root = environment.path;
+  const wantedLocation = selection.location && resolve(root, selection.location);
+  const copy = copies.find(
+    (candidate) =>
+      (selection.version === undefined || candidate.version === selection.version) &&
+      (!wantedLocation || resolve(root, candidate.location) === wantedLocation),
+  );
+
+  if (!copy) {
+    throw new InstallationNotFoundError(
+      packageName,
+      [selection.version, selection.location].filter(Boolean).join(' at '),
+      copies.map((candidate) => `${candidate.version} (${candidate.location})`),
+    );
+  }
+
+  if (resolve(root, copy.location) !== resolve(root, primaryLocation ?? packageLocation)) {
+    console.error(`[READ] Reading ${packageName}@${copy.version} from ${copy.location}`);
+    return {
+      ...located,
+      location: await unpackArchivedPath(
+        resolve(root, copy.location),
+        getUnpackedArchivesDir(root),
+      ),
+      version: copy.version,
+      selectedCopy: copy,
+    };
+  }
+  return located;
+}
+
+/**
+ * The API content of a located package: the cached content of the primary copy, the
+ * version history for other copies, else an AST extraction stored in whichever of the two
+ * the copy belongs to. Null when no adapter can process the package
+ */
+export async function loadPackageContent(
+  located: LocatedPackage,
+  packageName: string,
+): Promise<UnifiedPackageContent | null> {
+  const { scanner, cache, cached, environment, indexKey, selectedCopy } = located;
+  const version = located.version ?? 'unknown';
+
+  // The cached index describes the primary copy only
+  const indexed = selectedCopy ? undefined : cached?.packages?.[indexKey];
+  if (indexed?.unifiedContent) {
+    console.error(`[READ] Using cached unified content for ${packageName}`);
+    return indexed.unifiedContent;
+  }
+  // The index is refilled by extracting, which also updates its search tables
+  const recorded = indexed ? null : cache.loadPackageVersion(environment, packageName, version);
+  if (recorded) {
+    console.error(`[READ] Using recorded content of ${packageName}@${version}`);
+    return recorded;
+  }
+
+  console.error(`[READ] Parsing ${packageName} on-demand...`);
+  const packageInfo = selectedCopy
+    ? await getInstallationInfo(scanner, packageName, selectedCopy, located.location)
+    : await scanner.getPackageInfo(packageName);
+  if (!packageInfo) {
+    return null;
+  }
+
+  const adapter = scanner.language === 'javascript' ? new NodeJSAdapter() : new PythonAdapter();
+  if (!adapter.canProcess(packageInfo)) {
+    console.error(`[READ] No adapter available for ${packageName}`);
+    return null;
+  }
+  const unifiedContent = await adapter.extractContent(packageInfo.location, packageInfo);
+  console.error(`[READ] AST extraction complete for ${packageName}`);
+  adapter.cleanup();
+
+  // Saving the index also records the version
+  if (indexed && cached) {
+    indexed.unifiedContent = unifiedContent;
+    cache.save(cached);
+  } else {
+    cache.savePackageVersion(environment, packageName, version, scanner.language, unifiedContent);
+  }
+  return unifiedContent;
+}
+
+/**
+ * Why a package file cannot be returned as text (too large or binary), or null when it can
+ */
+export function getUnreadableFileReason(
+  filePath: string,
+  size: number,
+  displayPath: string,
+): string | null {
+  if (size > MAX_FILE_SIZE) {
+    return `File too large: ${displayPath} exceeds maximum size of ${MAX_FILE_SIZE} bytes`;
+  }
+  if (BINARY_EXTENSIONS.some((ext) => filePath.endsWith(ext))) {
+    return `Cannot read binary file: ${displayPath}`;
+  }
+  return null;
+}
+
+/**
+ * Fit a package overview into a token budget: on the first page the file tree gets up to
+ * a quarter of it and the overview the rest; later pages continue the overview
+ */
+function applyTokenBudget(result: PackageTree, maxTokens: number, cursor?: string): PackageTree {
+  let fileTree: string[] = [];
+  if (cursor === undefined) {
+    let treeTokens = 0;
+    for (const file of result.fileTree) {
+      treeTokens += estimateTokens(`${file}\n`);
+      if (treeTokens > maxTokens / 4) break;
+      fileTree.push(file);
+    }
+  }
+
+  const overview = budgetOverview(
+    result.initContent ?? '',
+    maxTokens - estimateTokens(fileTree.join('\n')),
+    cursor,
+  );
+  const omitted = [...overview.omitted];
+  if (cursor === undefined && fileTree.length < result.fileTree.length) {
+    omitted.push(`File tree: ${result.fileTree.length - fileTree.length} more files`);
+  }
+
+  return {
+    ...result,
+    initContent: overview.content,
+    fileTree,
+    ...(omitted.length > 0 && { truncated: true, omitted }),
+    ...(overview.nextCursor !== undefined && { nextCursor: overview.nextCursor }),
+  };
+}
+
 export async function readPackageTool(
   params: ReadPackageParams | LegacyReadPackageParams,
 ): Promise<ReadPackageResult> {
@@ -71,42 +379,34 @@ export async function readPackageTool(
 
   // Validate parameters
   const validated = ReadPackageParamsSchema.parse(cleanParams);
-  const { packageName } = validated;
 
   try {
-    // Get package location from cache or scan
-    const cache = new UnifiedCache();
-    let packageLocation: string | null = null;
-    let packageVersion: string | null = null;
-
-    // Try cache first - get environment info from scanner
-    const scanner = await detectAndCreateScanner();
-    const environment = await scanner.getEnvironmentInfo();
-    const cached = cache.load(environment);
-
-    if (cached?.packages?.[packageName]) {
-      packageLocation = cached.packages[packageName].location;
-      packageVersion = cached.packages[packageName].version;
+    return await withProjectPath(validated.projectPath, () =>
+      readPackage(validated, legacyFilePath),
+    );
+  } catch (error) {
+    if (error instanceof ProjectNotFoundError) {
+      return {
+        type: 'error',
+        success: false,
+        error: error.message,
+        ...(error.suggestion !== undefined && { suggestion: error.suggestion }),
+      };
     }
+    throw error;
+  }
+}
 
-    // If not in cache, scan for it
-    if (!packageLocation) {
-      // First ensure scanner has scanned packages
-      await scanner.scan();
-
-      packageLocation = await scanner.getPackageLocation(packageName);
-      packageVersion = await scanner.getPackageVersion(packageName);
+async function readPackage(
+  validated: ReadPackageParams,
+  legacyFilePath: string | undefined,
+): Promise<ReadPackageResult> {
+  const { packageName } = validated;
 
-      if (!packageLocation) {
-        const error = new PackageNotFoundError(packageName);
-        return {
-          type: 'error',
-          success: false,
-          error: error.message,
-          ...(error.suggestion !== undefined && { suggestion: error.suggestion }),
-        };
-      }
-    }
+  try {
+    const located = await locatePackage(packageName, validated);
+    const packageLocation = located.location;
+    const packageVersion = located.version;
 
     // Handle legacy filePath parameter - apply smart content processing for large files
     if (legacyFilePath) {
@@ -115,41 +415,13 @@ export async function readPackageTool(
       try {
         const stats = await fs.stat(filePath);
 
-        // Check file size (10MB limit)
-        if (stats.size > 10 * 1024 * 1024) {
-          return {
-            type: 'error',
-            success: false,
-            error: `File too large: ${legacyFilePath} exceeds maximum size of 10485760 bytes`,
-          };
-        }
-
-        // Check if it's a binary file
-        const binaryExtensions = [
-          '.pyc',
-          '.woff',
-          '.woff2',
-          '.ttf',
-          '.eot',
-          '.png',
-          '.jpg',
-          '.jpeg',
-          '.gif',
-          '.ico',
-          '.pdf',
-          '.zip',
-          '.tar',
-          '.gz',
-          '.exe',
-          '.dll',
-          '.so',
-          '.dylib',
-        ];
-        if (binaryExtensions.some((ext) => filePath.endsWith(ext))) {
+        // Size and binary guards (shared with resource reads)
+        const unreadable = getUnreadableFileReason(filePath, stats.size, legacyFilePath);
+        if (unreadable) {
           return {
             type: 'error',
             success: false,
-            error: `Cannot read binary file: ${legacyFilePath}`,
+            error: unreadable,
           };
         }
 
@@ -386,129 +658,48 @@ export async function readPackageTool(
     // Get unified content from cache or parse on-demand
     let initContent: string | undefined;
 
-    // Check if we have unified content in the cache
-    if (cached?.packages?.[packageName]?.unifiedContent) {
-      // Use cached unified content
-      const unifiedContent = cached.packages[packageName].unifiedContent;
-      initContent = MarkdownGenerator.generate(unifiedContent);
-      console.error(`[READ] Using cached unified content for ${packageName}`);
-    } else {
-      // Parse the package on-demand
-      console.error(`[READ] Parsing ${packageName} on-demand...`);
-
-      // Parse the package using appropriate adapter
-      try {
-        // Get package info from scanner
-        const packageInfo = await scanner.getPackageInfo(packageName);
-
-        if (packageInfo) {
-          // Create appropriate adapter based on language
-          const adapter =
-            scanner.language === 'javascript' ? new NodeJSAdapter() : new PythonAdapter();
-
-          if (adapter.canProcess(packageInfo)) {
-            const unifiedContent = await adapter.extractContent(packageInfo.location, packageInfo);
-            // Generate markdown from unified content
-            initContent = MarkdownGenerator.generate(unifiedContent);
-
-            // Update cache with the parsed content
-            if (cached?.packages?.[packageName]) {
-              cached.packages[packageName].unifiedContent = unifiedContent;
-              cache.save(cached);
-            }
-
-            // Clean up adapter
-            adapter.cleanup();
-          } else {
-            // No adapter can process this package, fall through to basic info creation
-            console.error(`[READ] No adapter available for ${packageName}, creating basic info`);
-          }
-        }
-
-        if (!initContent) {
-          // No unified content available or processing failed, create basic package info
-          // Use the same format as MarkdownGenerator to ensure consistency
-          console.error(`[READ] Creating basic info for ${packageName}`);
-
-          // Check if this is a TypeScript package or has type definitions
-          let hasTypeAnnotations = false;
-          if (isNodePackage) {
-            try {
-              const packageJsonPath = join(packageLocation, 'package.json');
-              const packageJsonContent = await fs.readFile(packageJsonPath, 'utf-8');
-              const packageJson = JSON.parse(packageJsonContent) as Record<string, unknown>;
-
-              // Check for TypeScript indicators
-              hasTypeAnnotations = !!(
-                packageJson.types ??
-                packageJson.typings ??
-                (packageName === 'typescript' || packageName.startsWith('@types/'))
-              );
-            } catch {
-              // Ignore errors reading package.json
-            }
-          }
-
-          const basicLines = [
-            `# ${packageName} Overview`,
-            '',
-            '## 📦 Package Information',
-            `name: ${packageName}`,
-            `version: ${packageVersion ?? 'unknown'}`,
-            `type: Package`,
-            `license: Not specified`,
-            `package_manager: npm`,
-          ];
-
-          // Add type annotations info if available
-          if (hasTypeAnnotations) {
-            basicLines.push(`type_annotations: available`);
-          }
-
-          basicLines.push(
-            '',
-            '## 🏗️ Core Components',
-            'Package components available but not extracted.',
-            '',
-            '## 🔌 Exports',
-            'Package information available.',
-            '',
-          );
+    try {
+      const unifiedContent = await loadPackageContent(located, packageName);
+      if (unifiedContent) {
+        initContent = MarkdownGenerator.generate(unifiedContent);
+      }
 
-          initContent = basicLines.join('\n');
-        }
-      } catch (error) {
-        console.error(`[READ] Failed to parse ${packageName}:`, error);
+      if (!initContent) {
+        // No unified content available or processing failed, create basic package info
+        // Use the same format as MarkdownGenerator to ensure consistency
+        console.error(`[READ] Creating basic info for ${packageName}`);
 
-        // Check for TypeScript even on error
+        // Check if this is a TypeScript package or has type definitions
         let hasTypeAnnotations = false;
         if (isNodePackage) {
           try {
             const packageJsonPath = join(packageLocation, 'package.json');
             const packageJsonContent = await fs.readFile(packageJsonPath, 'utf-8');
             const packageJson = JSON.parse(packageJsonContent) as Record<string, unknown>;
+
+            // Check for TypeScript indicators
             hasTypeAnnotations = !!(
               packageJson.types ??
               packageJson.typings ??
               (packageName === 'typescript' || packageName.startsWith('@types/'))
             );
           } catch {
-            // Ignore errors
+            // Ignore errors reading package.json
           }
         }
 
-        // Use consistent format even on error
         const basicLines = [
           `# ${packageName} Overview`,
           '',
           '## 📦 Package Information',
           `name: ${packageName}`,
           `version: ${packageVersion ?? 'unknown'}`,
-          `type: Package (extraction failed)`,
+          `type: Package`,
           `license: Not specified`,
           `package_manager: npm`,
         ];
 
+        // Add type annotations info if available
         if (hasTypeAnnotations) {
           basicLines.push(`type_annotations: available`);
         }
@@ -516,18 +707,65 @@ export async function readPackageTool(
         basicLines.push(
           '',
           '## 🏗️ Core Components',
-          'Package components available but extraction failed.',
+          'Package components available but not extracted.',
           '',
           '## 🔌 Exports',
-          'Package information available but detailed content extraction failed.',
+          'Package information available.',
           '',
         );
 
         initContent = basicLines.join('\n');
       }
+    } catch (error) {
+      console.error(`[READ] Failed to parse ${packageName}:`, error);
+
+      // Check for TypeScript even on error
+      let hasTypeAnnotations = false;
+      if (isNodePackage) {
+        try {
+          const packageJsonPath = join(packageLocation, 'package.json');
+          const packageJsonContent = await fs.readFile(packageJsonPath, 'utf-8');
+          const packageJson = JSON.parse(packageJsonContent) as Record<string, unknown>;
+          hasTypeAnnotations = !!(
+            packageJson.types ??
+            packageJson.typings ??
+            (packageName === 'typescript' || packageName.startsWith('@types/'))
+          );
+        } catch {
+          // Ignore errors
+        }
+      }
+
+      // Use consistent format even on error
+      const basicLines = [
+        `# ${packageName} Overview`,
+        '',
+        '## 📦 Package Information',
+        `name: ${packageName}`,
+        `version: ${packageVersion ?? 'unknown'}`,
+        `type: Package (extraction failed)`,
+        `license: Not specified`,
+        `package_manager: npm`,
+      ];
+
+      if (hasTypeAnnotations) {
+        basicLines.push(`type_annotations: available`);
+      }
+
+      basicLines.push(
+        '',
+        '## 🏗️ Core Components',
+        'Package components available but extraction failed.',
+        '',
+        '## 🔌 Exports',
+        'Package information available but detailed content extraction failed.',
+        '',
+      );
+
+      initContent = basicLines.join('\n');
     }
 
-    return {
+    const result: PackageTree = {
       type: 'tree',
       success: true,
       package: packageName,
@@ -538,10 +776,19 @@ export async function readPackageTool(
       fileCount: fileTree.length,
       mainFiles,
     };
+    if (validated.maxTokens === undefined && validated.cursor === undefined) {
+      return result;
+    }
+    return applyTokenBudget(result, validated.maxTokens ?? DEFAULT_MAX_TOKENS, validated.cursor);
   } catch (error) {
     console.error('[READ] Error:', error);
 
-    if (error instanceof PackageNotFoundError || error instanceof FileNotFoundError) {
+    if (
+      error instanceof PackageNotFoundError ||
+      error instanceof InstallationNotFoundError ||
+      error instanceof FileNotFoundError ||
+      (error instanceof McpError && error.code === 'INVALID_CURSOR')
+    ) {
       return {
         type: 'error',
         success: false,
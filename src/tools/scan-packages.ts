@@ -1,11 +1,16 @@
 import { UnifiedCache } from '#utils/cache.js';
-import { detectAndCreateScanner } from '#utils/scanner-factory.js';
+import { getProjectScanner, resetProjectScanner } from '#utils/scanner-factory.js';
 import type { ScanPackagesParams, LegacyScanPackagesParams } from '#types.js';
-import type { ScanResult, BasicPackageInfo } from '#scanners/types.js';
-import { ScanPackagesParamsSchema } from '#types.js';
+import type {
+  ScanResult,
+  BasicPackageInfo,
+  PackageListField,
+  PackageListItem,
+} from '#scanners/types.js';
+import { ScanPackagesParamsSchema, McpError } from '#types.js';
 // Removed unused imports: isInGroup, NodeJSAdapter, PythonAdapter
-import { promises as fs } from 'node:fs';
-import { join } from 'node:path';
+import { withProjectPath } from '#utils/project-context.js';
+import { getProjectDependencies, normalizePythonName } from '#utils/project-dependencies.js';
 
 /**
  * Convert legacy parameters to new simplified format
@@ -15,15 +20,10 @@ function migrateLegacyParams(params: Record<string, unknown>): ScanPackagesParam
 
   // Check for legacy parameters
   if ('filter' in params) {
-    warnings.push('[DEPRECATED] "filter" parameter is no longer supported. Use "scope" instead.');
-    delete params.filter;
-  }
-
-  if ('limit' in params) {
     warnings.push(
-      '[DEPRECATED] "limit" parameter is no longer supported. Use "scope: project" for focused results.',
+      '[DEPRECATED] "filter" parameter is no longer supported. Use "scope", or page through the packages with "limit" and "sort".',
     );
-    delete params.limit;
+    delete params.filter;
   }
 
   if ('summary' in params) {
@@ -60,68 +60,136 @@ function migrateLegacyParams(params: Record<string, unknown>): ScanPackagesParam
   return {
     scope: (params.scope as 'all' | 'project' | undefined) ?? 'all',
     forceRefresh: (params.forceRefresh as boolean | undefined) ?? false,
+    includeVirtualStore: (params.includeVirtualStore as boolean | undefined) ?? false,
+    lockfileOnly: (params.lockfileOnly as boolean | undefined) ?? false,
+    ...(params.limit !== undefined && { limit: params.limit as number }),
+    ...(params.cursor !== undefined && { cursor: params.cursor as string }),
+    ...(params.fields !== undefined && { fields: params.fields as PackageListField[] }),
+    ...(params.sort !== undefined && { sort: params.sort as ScanPackagesParams['sort'] }),
+    ...(typeof params.projectPath === 'string' && { projectPath: params.projectPath }),
   };
 }
 
+const VIRTUAL_STORE_PATTERN = /[\\/]\.pnpm[\\/]/;
+
 /**
- * Get project dependencies from package.json or pyproject.toml
+ * Drop packages that were indexed from the pnpm virtual store by an earlier scan
  */
-async function getProjectDependencies(): Promise<Set<string>> {
-  const deps = new Set<string>();
-
-  try {
-    // Check for Node.js project
-    const packageJsonPath = join(process.cwd(), 'package.json');
-    const packageJson = await fs.readFile(packageJsonPath, 'utf-8');
-    const pkg = JSON.parse(packageJson) as Record<string, unknown>;
-    const dependencies = pkg.dependencies as Record<string, string> | undefined;
-    const devDependencies = pkg.devDependencies as Record<string, string> | undefined;
-    const peerDependencies = pkg.peerDependencies as Record<string, string> | undefined;
-    Object.keys(dependencies ?? {}).forEach((dep) => deps.add(dep));
-    Object.keys(devDependencies ?? {}).forEach((dep) => deps.add(dep));
-    Object.keys(peerDependencies ?? {}).forEach((dep) => deps.add(dep));
-  } catch {
-    // Not a Node.js project or no package.json
-  }
+function excludeVirtualStorePackages(
+  packages: Record<string, BasicPackageInfo>,
+): Record<string, BasicPackageInfo> {
+  return Object.fromEntries(
+    Object.entries(packages).filter(([, info]) => !VIRTUAL_STORE_PATTERN.test(info.location)),
+  );
+}
 
-  try {
-    // Check for Python project
-    const pyprojectPath = join(process.cwd(), 'pyproject.toml');
-    const pyproject = await fs.readFile(pyprojectPath, 'utf-8');
-    // Simple extraction of dependencies from pyproject.toml
-    // This is a basic implementation - could be enhanced with proper TOML parsing
-    const regex = /\[tool\.poetry\.dependencies]([^[]*)/;
-    const depSection = regex.exec(pyproject);
-    if (depSection?.[1]) {
-      const lines = depSection[1].split('\n');
-      lines.forEach((line: string) => {
-        const lineRegex = /^([\w-]+)\s*=/;
-        const match = lineRegex.exec(line);
-        if (match?.[1]) deps.add(match[1]);
-      });
-    }
-  } catch {
-    // Not a Python poetry project
+const DEFAULT_PAGE_SIZE = 100;
+const LIST_FIELDS: PackageListField[] = ['name', 'version', 'hasTypes', 'location'];
+
+function isListRequest(params: ScanPackagesParams): boolean {
+  return (
+    params.limit !== undefined ||
+    params.cursor !== undefined ||
+    params.fields !== undefined ||
+    params.sort !== undefined
+  );
+}
+
+/**
+ * One page of packages, sorted and reduced to the requested fields; the cursor is the
+ * offset of the page
+ */
+function listPackages(
+  packages: Record<string, BasicPackageInfo>,
+  params: ScanPackagesParams,
+): Pick<ScanResult, 'items' | 'nextCursor' | 'totalPackages'> {
+  const offset = params.cursor ? Number.parseInt(params.cursor, 10) : 0;
+  if (!Number.isInteger(offset) || offset < 0) {
+    throw new McpError(
+      `Invalid cursor: ${params.cursor}`,
+      'INVALID_CURSOR',
+      'Pass the nextCursor of the previous scan-packages response',
+    );
   }
 
-  try {
-    // Check for requirements.txt
-    const requirementsPath = join(process.cwd(), 'requirements.txt');
-    const requirements = await fs.readFile(requirementsPath, 'utf-8');
-    requirements.split('\n').forEach((line: string) => {
-      const pkgName = line
-        .trim()
-        .split(/[<>=!]/)[0]
-        ?.trim();
-      if (pkgName && !pkgName.startsWith('#')) {
-        deps.add(pkgName);
+  const sort = params.sort ?? 'name';
+  const fields = params.fields ?? LIST_FIELDS;
+  const sorted = Object.values(packages).sort(
+    (a, b) =>
+      a[sort].localeCompare(b[sort], undefined, { numeric: true }) || a.name.localeCompare(b.name),
+  );
+
+  const next = offset + (params.limit ?? DEFAULT_PAGE_SIZE);
+  const items = sorted.slice(offset, next).map((info) => {
+    const item: PackageListItem = {};
+    for (const field of fields) {
+      if (field === 'hasTypes') {
+        item.hasTypes = info.hasTypes ?? false;
+      } else {
+        item[field] = info[field];
       }
-    });
-  } catch {
-    // No requirements.txt
+    }
+    return item;
+  });
+
+  return {
+    totalPackages: sorted.length,
+    items,
+    ...(next < sorted.length && { nextCursor: String(next) }),
+  };
+}
+
+export interface PackageIndexChanges {
+  added: string[];
+  removed: string[];
+  updated: string[]; // Version, location or installed copies changed
+}
+
+/**
+ * Re-scan the environment and update the cached index in place. Packages whose version,
+ * location and installed copies are unchanged keep their extracted content, so only
+ * what the install touched is parsed again
+ */
+export async function refreshPackageIndex(): Promise<PackageIndexChanges> {
+  resetProjectScanner();
+  const scanner = await getProjectScanner();
+  const environment = await scanner.getEnvironmentInfo();
+  const cache = UnifiedCache.forProject();
+
+  const previous = cache.load(environment)?.packages ?? {};
+  // Keep the shape of the index: store-only packages stay when they were indexed before
+  const includeVirtualStore = Object.values(previous).some((info) =>
+    VIRTUAL_STORE_PATTERN.test(info.location),
+  );
+  const result = await scanner.scan({ includeVirtualStore });
+  const packages = result.packages ?? {};
+
+  const changes: PackageIndexChanges = { added: [], removed: [], updated: [] };
+  for (const [name, info] of Object.entries(packages)) {
+    const before = previous[name];
+    if (!before) {
+      changes.added.push(name);
+    } else if (installationKey(before) !== installationKey(info)) {
+      changes.updated.push(name);
+    } else if (before.unifiedContent) {
+      info.unifiedContent = before.unifiedContent;
+    }
   }
+  changes.removed = Object.keys(previous).filter((name) => !packages[name]);
+
+  cache.save(result);
+  console.error(
+    `[SCAN] Re-indexed: ${changes.added.length} added, ${changes.updated.length} updated, ${changes.removed.length} removed`,
+  );
+  return changes;
+}
 
-  return deps;
+function installationKey(info: BasicPackageInfo): string {
+  return JSON.stringify([
+    info.version,
+    info.location,
+    info.installations?.map((installation) => [installation.version, installation.location]),
+  ]);
 }
 
 export async function scanPackagesTool(
@@ -133,18 +201,31 @@ export async function scanPackagesTool(
   // Validate parameters
   const validated = ScanPackagesParamsSchema.parse(migrated);
 
-  const cache = new UnifiedCache();
+  return withProjectPath(validated.projectPath, () => scanProject(validated));
+}
+
+async function scanProject(validated: ScanPackagesParams): Promise<ScanResult> {
+  const cache = UnifiedCache.forProject();
 
   // Get full package list (from cache or fresh scan)
   let fullResult: ScanResult;
 
-  // First get environment info
-  const scanner = await detectAndCreateScanner();
-  const environment = await scanner.getEnvironmentInfo();
+  // A forced rescan also re-detects the environment
+  if (validated.forceRefresh) {
+    resetProjectScanner();
+  }
+
+  const scanner = await getProjectScanner();
 
   // Handle cache vs fresh scan
-  if (!validated.forceRefresh) {
+  // The cached index may predate a virtual store scan, so those always rescan
+  if (validated.lockfileOnly) {
+    // Lockfiles are read as they are; the index of installed packages is left alone
+    console.error('[SCAN] Reading the resolved packages from the lockfile');
+    fullResult = await scanner.scan({ lockfileOnly: true });
+  } else if (!validated.forceRefresh && !validated.includeVirtualStore) {
     // Try to load from cache
+    const environment = await scanner.getEnvironmentInfo();
     const cached = cache.load(environment);
     if (cached && !cache.isStale(environment)) {
       console.error('[CACHE] Using cached package index');
@@ -159,15 +240,15 @@ export async function scanPackagesTool(
   } else {
     // Force refresh - always do fresh scan
     console.error('[SCAN] Force refresh: starting fresh package scan');
-    fullResult = await scanner.scan();
+    fullResult = await scanner.scan({ includeVirtualStore: validated.includeVirtualStore });
     cache.save(fullResult);
     console.error(`[SCAN] Indexed ${Object.keys(fullResult.packages ?? {}).length} packages`);
   }
 
-  // Clean up SQLite connection if used
-  cache.close();
-
   let packages = fullResult.packages ?? {};
+  if (!validated.includeVirtualStore) {
+    packages = excludeVirtualStorePackages(packages);
+  }
   const totalCount = Object.keys(packages).length;
 
   // Apply scope-based filtering
@@ -175,10 +256,15 @@ export async function scanPackagesTool(
     // Filter to only project dependencies
     const projectDeps = await getProjectDependencies();
 
-    if (projectDeps.size > 0) {
+    if (projectDeps.javascript.size + projectDeps.python.size > 0) {
       const filtered: Record<string, BasicPackageInfo> = {};
       for (const [name, info] of Object.entries(packages)) {
-        if (projectDeps.has(name)) {
+        // Keys of names installed for both languages are qualified; match on the name
+        const declared =
+          info.language === 'python'
+            ? projectDeps.python.has(normalizePythonName(info.name))
+            : projectDeps.javascript.has(info.name);
+        if (declared) {
           filtered[name] = info;
         }
       }
@@ -189,7 +275,19 @@ export async function scanPackagesTool(
     } else {
       console.error('[SCOPE] No project dependencies found, returning all packages');
     }
+  }
 
+  if (isListRequest(validated)) {
+    return {
+      type: 'list',
+      success: true,
+      environment: fullResult.environment,
+      scanTime: fullResult.scanTime,
+      ...listPackages(packages, validated),
+    };
+  }
+
+  if (validated.scope === 'project') {
     // For project scope, return full package details
     return {
       type: 'packages',
@@ -213,7 +311,7 @@ export async function scanPackagesTool(
     // Calculate categories for backward compatibility
     const categories: Record<string, number> = {};
     for (const pkg of Object.values(packages)) {
-      const category = pkg.metadata?.dev ? 'development' : 'production';
+      const category = (pkg.dev ?? pkg.metadata?.dev) ? 'development' : 'production';
       categories[category] = (categories[category] ?? 0) + 1;
     }
 
@@ -0,0 +1,56 @@
+import { UnifiedCache } from '#utils/cache.js';
+import { getProjectScanner } from '#utils/scanner-factory.js';
+import { withProjectPath } from '#utils/project-context.js';
+import { buildMatchQuery } from '#utils/search-index.js';
+import type { SearchContentParams, SearchContentResult } from '#types.js';
+import { SearchContentParamsSchema } from '#types.js';
+
+/**
+ * Full-text search across cached packages of the current environment.
+ *
+ * Matches package names, descriptions, component names, doc comments and
+ * README text through the SQLite FTS5 index, ranked by relevance.
+ */
+export async function searchContentTool(params: SearchContentParams): Promise<SearchContentResult> {
+  const validated = SearchContentParamsSchema.parse(params);
+
+  const match = buildMatchQuery(validated.query);
+  if (!match) {
+    return {
+      type: 'error',
+      success: false,
+      error: `Query "${validated.query}" contains no searchable words`,
+      suggestion: 'Use words such as "retry backoff" or identifiers such as "createServer"',
+    };
+  }
+
+  const { environment, cache } = await withProjectPath(validated.projectPath, async () => ({
+    environment: await (await getProjectScanner()).getEnvironmentInfo(),
+    cache: UnifiedCache.forProject(),
+  }));
+
+  try {
+    const matches = cache.searchContent(environment, match, validated.limit);
+    const indexedPackages = cache.countIndexedPackages(environment);
+
+    console.error(`[SEARCH] ${matches.length} content matches for "${validated.query}"`);
+
+    return {
+      type: 'content',
+      success: true,
+      query: validated.query,
+      matches,
+      ...(indexedPackages === 0 && {
+        suggestion:
+          'Only package names are indexed so far. Run "read-package" to index a package\'s code and documentation.',
+      }),
+    };
+  } catch (error) {
+    console.error('[SEARCH] Error:', error);
+    return {
+      type: 'error',
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+}
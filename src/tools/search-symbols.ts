@@ -0,0 +1,53 @@
+import { UnifiedCache } from '#utils/cache.js';
+import { getProjectScanner } from '#utils/scanner-factory.js';
+import { withProjectPath } from '#utils/project-context.js';
+import type { SearchSymbolsParams, SearchSymbolsResult } from '#types.js';
+import { SearchSymbolsParamsSchema } from '#types.js';
+
+/**
+ * Search classes, functions, interfaces, types and constants across every
+ * cached package of the current environment.
+ *
+ * Symbols are indexed in SQLite when a package's unified content is cached,
+ * so a query never reparses package sources.
+ */
+export async function searchSymbolsTool(params: SearchSymbolsParams): Promise<SearchSymbolsResult> {
+  const validated = SearchSymbolsParamsSchema.parse(params);
+
+  const { environment, cache } = await withProjectPath(validated.projectPath, async () => ({
+    environment: await (await getProjectScanner()).getEnvironmentInfo(),
+    cache: UnifiedCache.forProject(),
+  }));
+
+  try {
+    const matches = cache.searchSymbols(environment, validated.query, {
+      kind: validated.kind,
+      includeInternal: validated.includeInternal,
+      limit: validated.limit,
+    });
+    const indexedPackages = cache.countIndexedPackages(environment);
+
+    console.error(
+      `[SEARCH] ${matches.length} symbol matches for "${validated.query}" across ${indexedPackages} indexed packages`,
+    );
+
+    return {
+      type: 'symbols',
+      success: true,
+      query: validated.query,
+      matches,
+      indexedPackages,
+      ...(indexedPackages === 0 && {
+        suggestion:
+          'No package symbols are indexed yet. Run "read-package" on the packages you need to index them.',
+      }),
+    };
+  } catch (error) {
+    console.error('[SEARCH] Error:', error);
+    return {
+      type: 'error',
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+}
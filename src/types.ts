@@ -1,4 +1,6 @@
 import { z } from 'zod';
+import type { ScanResult } from '#scanners/types.js';
+import type { UnifiedPackageContent } from '#types/unified-schema.js';
 
 // Import shared types from scanners to avoid duplication
 export type { EnvironmentInfo, ScanResult } from '#scanners/types.js';
@@ -9,38 +11,307 @@ export type { EnvironmentInfo, ScanResult } from '#scanners/types.js';
 
 // ScanResult is now imported from scanners/types.ts to avoid duplication
 
-// Read package result
-export type ReadPackageResult =
-  | {
-      type: 'tree';
-      success: true;
-      package: string;
-      version: string;
-      initContent?: string;
-      fileTree: string[];
-      fileCount?: number;
-      mainFiles?: string[];
-      truncated?: boolean;
-    }
-  | {
-      type: 'file';
-      success: true;
-      package: string;
-      filePath: string;
-      content: string;
-      extractedSummary?: boolean;
-    }
-  | {
-      type: 'error';
-      success: false;
-      error: string;
-      suggestion?: string;
-    };
+// Tool results: the zod schemas describe the structured output of each tool (its
+// outputSchema), the types are inferred from them
+
+const ErrorResultSchema = z.object({
+  type: z.literal('error'),
+  success: z.literal(false),
+  error: z.string(),
+  suggestion: z.string().optional(),
+});
+
+const LanguageSchema = z.enum(['javascript', 'python']);
+
+const EnvironmentFields = {
+  type: z.enum(['npm', 'yarn', 'pnpm', 'conda', 'venv', '.venv', 'system']),
+  path: z.string(),
+  nodeVersion: z.string().optional(),
+  pythonVersion: z.string().optional(),
+  packageManager: z.string().optional(),
+};
+
+const EnvironmentInfoSchema = z.object({
+  ...EnvironmentFields,
+  environments: z
+    .partialRecord(LanguageSchema, z.object(EnvironmentFields))
+    .optional()
+    .describe("Polyglot projects: each language's environment"),
+});
+
+const BasicPackageInfoSchema = z.object({
+  name: z.string(),
+  version: z.string(),
+  location: z.string().describe('Relative to the project root'),
+  language: LanguageSchema,
+  packageManager: z.string(),
+  hasTypes: z.boolean().optional(),
+  metadata: z.record(z.string(), z.unknown()).optional(),
+  unifiedContent: z.custom<UnifiedPackageContent>().optional(),
+  entryPoints: z.array(z.string()).optional(),
+  realPath: z.string().optional(),
+  installations: z
+    .array(
+      z.object({
+        version: z.string(),
+        location: z.string(),
+        dependentPath: z.array(z.string()).optional(),
+      }),
+    )
+    .optional(),
+  integrity: z.string().optional().describe('Lockfile scans: registry hash of the package'),
+  dev: z.boolean().optional().describe('Lockfile scans: only needed for development'),
+  optional: z.boolean().optional().describe('Lockfile scans: only an optional dependency'),
+});
+
+const PACKAGE_LIST_FIELDS = { name: true, version: true, hasTypes: true, location: true } as const;
+
+export const ScanResultSchema: z.ZodType<ScanResult> = z.object({
+  type: z.enum(['list', 'summary', 'packages']).optional(),
+  success: z.boolean(),
+  environment: EnvironmentInfoSchema,
+  packages: z.record(z.string(), BasicPackageInfoSchema).optional(),
+  items: z
+    .array(BasicPackageInfoSchema.pick(PACKAGE_LIST_FIELDS).partial())
+    .optional()
+    .describe('List mode: one page of packages with the requested fields'),
+  nextCursor: z.string().optional().describe('Pass as cursor to list the next page'),
+  scanTime: z.string(),
+  totalPackages: z.number().optional(),
+  error: z.string().optional(),
+  summary: z
+    .object({
+      total: z.number(),
+      filtered: z.number(),
+      languages: z.record(z.string(), z.number()),
+      categories: z.record(z.string(), z.number()).optional(),
+    })
+    .optional(),
+  categories: z.record(z.string(), z.number()).optional(),
+});
+
+export const ReadPackageResultSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('tree'),
+    success: z.literal(true),
+    package: z.string(),
+    version: z.string(),
+    initContent: z.string().optional(),
+    fileTree: z.array(z.string()),
+    fileCount: z.number().optional(),
+    mainFiles: z.array(z.string()).optional(),
+    truncated: z.boolean().optional(),
+    omitted: z.array(z.string()).optional().describe('What did not fit in maxTokens'),
+    nextCursor: z.string().optional().describe('Pass as cursor to read the omitted part'),
+  }),
+  z.object({
+    type: z.literal('file'),
+    success: z.literal(true),
+    package: z.string(),
+    filePath: z.string(),
+    content: z.string(),
+    extractedSummary: z.boolean().optional(),
+  }),
+  ErrorResultSchema,
+]);
+
+export type ReadPackageResult = z.infer<typeof ReadPackageResultSchema>;
+
+const SymbolKindSchema = z.enum(['class', 'function', 'interface', 'type', 'constant', 'enum']);
+
+export type SymbolKind = z.infer<typeof SymbolKindSchema>;
+
+const SymbolMatchSchema = z.object({
+  name: z.string(),
+  kind: SymbolKindSchema,
+  package: z.string(),
+  version: z.string(),
+  signature: z.string().optional(),
+  sourceFile: z.string().optional(),
+});
+
+export type SymbolMatch = z.infer<typeof SymbolMatchSchema>;
+
+export const SearchSymbolsResultSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('symbols'),
+    success: z.literal(true),
+    query: z.string(),
+    matches: z.array(SymbolMatchSchema),
+    indexedPackages: z.number(),
+    suggestion: z.string().optional(),
+  }),
+  ErrorResultSchema,
+]);
+
+export type SearchSymbolsResult = z.infer<typeof SearchSymbolsResultSchema>;
+
+const ContentMatchSchema = z.object({
+  package: z.string(),
+  version: z.string(),
+  score: z.number(),
+  snippet: z.string(),
+});
+
+export type ContentMatch = z.infer<typeof ContentMatchSchema>;
+
+export const SearchContentResultSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('content'),
+    success: z.literal(true),
+    query: z.string(),
+    matches: z.array(ContentMatchSchema),
+    suggestion: z.string().optional(),
+  }),
+  ErrorResultSchema,
+]);
+
+export type SearchContentResult = z.infer<typeof SearchContentResultSchema>;
+
+const DependencyTreeLineSchema = z.object({
+  package: z.string(), // name@version, or the bare name of a missing dependency
+  depth: z.number(),
+  range: z.string().optional(), // As declared by the parent
+  kind: z.enum(['runtime', 'optional', 'peer']).optional(),
+  conflict: z.boolean().optional(),
+  missing: z.boolean().optional(),
+  circular: z.boolean().optional(),
+  deduped: z.boolean().optional(),
+});
+
+export type DependencyTreeLine = z.infer<typeof DependencyTreeLineSchema>;
+
+const DependencyConflictSchema = z.object({
+  dependent: z.string(),
+  dependency: z.string(),
+  range: z.string(),
+  installed: z.string().optional(), // Absent when the dependency is not installed
+});
+
+export type DependencyConflict = z.infer<typeof DependencyConflictSchema>;
+
+export const DependencyTreeResultSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('dependency-tree'),
+    success: z.literal(true),
+    direction: z.enum(['dependencies', 'dependents']),
+    package: z.string().optional(),
+    totalPackages: z.number(),
+    tree: z.array(DependencyTreeLineSchema).optional(),
+    transitiveCount: z.number().optional(),
+    paths: z.array(z.array(z.string())).optional(),
+    cycles: z.array(z.array(z.string())),
+    conflicts: z.array(DependencyConflictSchema),
+  }),
+  ErrorResultSchema,
+]);
+
+export type DependencyTreeResult = z.infer<typeof DependencyTreeResultSchema>;
+
+const DriftIssueSchema = z.object({
+  kind: z.enum(['missing', 'extraneous', 'out-of-range']),
+  package: z.string(),
+  language: LanguageSchema,
+  installed: z.string().optional(),
+  declared: z.string().optional(), // Range in the manifest
+  locked: z.string().optional(), // Version(s) pinned by the lockfile
+  dependencyType: z.enum(['dependencies', 'devDependencies', 'optionalDependencies']).optional(),
+  fix: z.string(), // Command that brings the environment back in line
+});
+
+export type DriftIssue = z.infer<typeof DriftIssueSchema>;
+
+const EnvironmentCheckSchema = z.object({
+  language: LanguageSchema,
+  packageManager: z.string(),
+  lockfile: z.string().optional(),
+  declared: z.number(),
+  locked: z.number().optional(),
+  installed: z.number(),
+  warnings: z.array(z.string()).optional(),
+  // validateTooling: the package manager's own installation checks
+  tooling: z
+    .object({ valid: z.boolean(), issues: z.array(z.string()), warnings: z.array(z.string()) })
+    .optional(),
+});
+
+export type EnvironmentCheck = z.infer<typeof EnvironmentCheckSchema>;
+
+export const CheckEnvironmentResultSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('check-environment'),
+    success: z.literal(true),
+    inSync: z.boolean(),
+    environments: z.array(EnvironmentCheckSchema),
+    issues: z.array(DriftIssueSchema),
+    fixes: z.array(z.string()), // Distinct fix commands, in order
+  }),
+  ErrorResultSchema,
+]);
+
+export type CheckEnvironmentResult = z.infer<typeof CheckEnvironmentResultSchema>;
+
+const ApiChangeSchema = z.object({
+  change: z.enum(['added', 'removed', 'changed']),
+  kind: z.enum([
+    'entry-point',
+    'export',
+    'class',
+    'interface',
+    'method',
+    'function',
+    'parameter',
+    'type',
+    'enum',
+  ]),
+  name: z.string(), // Qualified: "Client.connect", "connect(timeout)"
+  entryPoint: z.string().optional(), // Import specifier of an export
+  breaking: z.boolean(),
+  before: z.string().optional(),
+  after: z.string().optional(),
+  detail: z.string().optional(),
+});
+
+export type ApiChange = z.infer<typeof ApiChangeSchema>;
+
+const ApiSnapshotSchema = z.object({
+  version: z.string(),
+  source: z.enum(['installed', 'history']), // An installed copy, or content recorded earlier
+});
+
+export const DiffPackageApiResultSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('diff-package-api'),
+    success: z.literal(true),
+    package: z.string(),
+    language: LanguageSchema,
+    from: ApiSnapshotSchema,
+    to: ApiSnapshotSchema,
+    breaking: z.boolean(),
+    summary: z.object({
+      added: z.number(),
+      removed: z.number(),
+      changed: z.number(),
+      breaking: z.number(),
+    }),
+    changes: z.array(ApiChangeSchema),
+  }),
+  ErrorResultSchema,
+]);
+
+export type DiffPackageApiResult = z.infer<typeof DiffPackageApiResultSchema>;
 
 // IndexFileSchema removed - no longer used since we moved to SQLite cache
 
 // Tool parameters - Simplified API v2.0
 
+// Every tool can work on another project than the one the server runs in
+const ProjectPathSchema = z
+  .string()
+  .min(1)
+  .optional()
+  .describe('Project directory to work on, absolute or relative to the server project');
+
 // Minimal scan-packages parameters
 export const ScanPackagesParamsSchema = z.object({
   scope: z
@@ -49,6 +320,38 @@ export const ScanPackagesParamsSchema = z.object({
     .default('all')
     .describe('Scan all packages or only project dependencies'),
   forceRefresh: z.boolean().optional().default(false).describe('Force rescan even if cached'),
+  includeVirtualStore: z
+    .boolean()
+    .optional()
+    .default(false)
+    .describe('pnpm: also list transitive packages that only exist in node_modules/.pnpm'),
+  lockfileOnly: z
+    .boolean()
+    .optional()
+    .default(false)
+    .describe('Read the resolved packages from the lockfile, without installed packages'),
+  limit: z
+    .number()
+    .int()
+    .min(1)
+    .max(500)
+    .optional()
+    .describe('List mode: packages per page (default: 100)'),
+  cursor: z
+    .string()
+    .min(1)
+    .optional()
+    .describe('List mode: continue from the nextCursor of the previous page'),
+  fields: z
+    .array(z.enum(['name', 'version', 'hasTypes', 'location']))
+    .min(1)
+    .optional()
+    .describe('List mode: fields of each package (default: all four)'),
+  sort: z
+    .enum(['name', 'version', 'location'])
+    .optional()
+    .describe('List mode: sort order of the packages (default: name)'),
+  projectPath: ProjectPathSchema,
 });
 
 export type ScanPackagesParams = z.infer<typeof ScanPackagesParamsSchema>;
@@ -56,10 +359,116 @@ export type ScanPackagesParams = z.infer<typeof ScanPackagesParamsSchema>;
 // Minimal read-package parameters
 export const ReadPackageParamsSchema = z.object({
   packageName: z.string().min(1).describe('Name of the package to read'),
+  version: z
+    .string()
+    .min(1)
+    .optional()
+    .describe('Read a specific installed version when several copies exist'),
+  location: z
+    .string()
+    .min(1)
+    .optional()
+    .describe('Read the copy at this location, relative to the project'),
+  language: z
+    .enum(['javascript', 'python'])
+    .optional()
+    .describe('Read the package of this language when the name exists in both ecosystems'),
+  maxTokens: z
+    .number()
+    .int()
+    .min(200)
+    .optional()
+    .describe('Approximate token budget; sections that do not fit are listed with a cursor'),
+  cursor: z
+    .string()
+    .min(1)
+    .optional()
+    .describe('Continue a budgeted overview from the nextCursor of the previous response'),
+  projectPath: ProjectPathSchema,
 });
 
 export type ReadPackageParams = z.infer<typeof ReadPackageParamsSchema>;
 
+// search-symbols parameters
+export const SearchSymbolsParamsSchema = z.object({
+  query: z.string().min(1).describe('Symbol name or name fragment to search for'),
+  kind: z
+    .enum(['class', 'function', 'interface', 'type', 'constant', 'enum'])
+    .optional()
+    .describe('Restrict matches to one kind of symbol'),
+  includeInternal: z
+    .boolean()
+    .optional()
+    .default(false)
+    .describe('Include symbols that are not exported'),
+  limit: z.number().int().min(1).max(200).optional().default(25).describe('Maximum matches'),
+  projectPath: ProjectPathSchema,
+});
+
+export type SearchSymbolsParams = z.input<typeof SearchSymbolsParamsSchema>;
+
+// search-content parameters
+export const SearchContentParamsSchema = z.object({
+  query: z.string().min(1).describe('Free-text query, e.g. "retry with exponential backoff"'),
+  limit: z.number().int().min(1).max(50).optional().default(10).describe('Maximum matches'),
+  projectPath: ProjectPathSchema,
+});
+
+export type SearchContentParams = z.input<typeof SearchContentParamsSchema>;
+
+// dependency-tree parameters
+export const DependencyTreeParamsSchema = z.object({
+  packageName: z
+    .string()
+    .min(1)
+    .optional()
+    .describe('Package to inspect; omit for the tree of all project dependencies'),
+  direction: z
+    .enum(['dependencies', 'dependents'])
+    .optional()
+    .default('dependencies')
+    .describe('"dependencies": what the package pulls in; "dependents": why it is installed'),
+  depth: z
+    .number()
+    .int()
+    .min(1)
+    .max(10)
+    .optional()
+    .describe('Tree depth (default 3 for a package, 1 for the whole project)'),
+  language: LanguageSchema.optional().describe('Restrict to one ecosystem'),
+  forceRefresh: z.boolean().optional().default(false).describe('Rebuild the graph from disk'),
+  projectPath: ProjectPathSchema,
+});
+
+export type DependencyTreeParams = z.input<typeof DependencyTreeParamsSchema>;
+
+// check-environment parameters
+export const CheckEnvironmentParamsSchema = z.object({
+  language: LanguageSchema.optional().describe('Check one ecosystem only'),
+  validateTooling: z
+    .boolean()
+    .optional()
+    .default(false)
+    .describe('Python: also run the uv or pip installation checks, which execute the tools'),
+  projectPath: ProjectPathSchema,
+});
+
+export type CheckEnvironmentParams = z.input<typeof CheckEnvironmentParamsSchema>;
+
+// diff-package-api parameters
+export const DiffPackageApiParamsSchema = z.object({
+  packageName: z.string().min(1).describe('Package to compare'),
+  from: z
+    .string()
+    .optional()
+    .describe('Older version (default: the most recently read other version)'),
+  to: z.string().optional().describe('Newer version (default: the installed version)'),
+  language: LanguageSchema.optional().describe('Disambiguate a name installed for both languages'),
+  projectPath: ProjectPathSchema,
+});
+
+export type DiffPackageApiParams = z.input<typeof DiffPackageApiParamsSchema>;
+
 // Legacy parameter schemas for backward compatibility (deprecated)
 export const LegacyScanPackagesParamsSchema = z.object({
   forceRefresh: z.boolean().optional(),
@@ -120,6 +529,26 @@ export class PackageNotFoundError extends McpError {
   }
 }
 
+export class InstallationNotFoundError extends McpError {
+  constructor(packageName: string, requested: string, installed: string[]) {
+    super(
+      `No installed copy of "${packageName}" matches ${requested}`,
+      'INSTALLATION_NOT_FOUND',
+      installed.length > 0 ? `Installed copies: ${installed.join(', ')}` : undefined,
+    );
+  }
+}
+
+export class ProjectNotFoundError extends McpError {
+  constructor(projectPath: string) {
+    super(
+      `Project directory "${projectPath}" not found`,
+      'PROJECT_NOT_FOUND',
+      'Pass an existing directory, absolute or relative to the server project',
+    );
+  }
+}
+
 export class FileNotFoundError extends McpError {
   constructor(filePath: string) {
     super(`File "${filePath}" not found`, 'FILE_NOT_FOUND');
@@ -163,3 +592,56 @@ export interface PackageRow {
   created_at: string;
   updated_at: string;
 }
+
+export interface SymbolRow {
+  id: number;
+  package_id: number;
+  name: string;
+  kind: SymbolKind;
+  signature: string | null;
+  source_file: string | null;
+  is_exported: number;
+  package_name: string;
+  package_version: string;
+}
+
+export interface InstallationRow {
+  package_name: string;
+  version: string;
+  location: string;
+  is_real_path: number;
+  dependent_path: string | null;
+}
+
+export interface ContentSearchRow {
+  package_name: string;
+  package_version: string;
+  rank: number;
+  snippet: string;
+}
+
+export interface DependencyNodeRow {
+  id: number;
+  environment_id: number;
+  name: string;
+  version: string;
+  location: string;
+  language: 'javascript' | 'python';
+  is_direct: number;
+}
+
+export interface DependencyEdgeRow {
+  node_id: number;
+  name: string;
+  range: string;
+  kind: 'runtime' | 'optional' | 'peer';
+  resolved_node_id: number | null;
+  satisfies: number;
+}
+
+export interface PackageVersionRow {
+  version: string;
+  language: 'javascript' | 'python';
+  unified_content: Buffer;
+  extracted_at: string;
+}
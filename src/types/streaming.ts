@@ -17,3 +17,8 @@ export interface StreamEvent {
 }
 
 export type StreamCallback = (event: StreamEvent) => void | Promise<void>;
+
+export interface ScanReporter {
+  onEvent?: StreamCallback;
+  signal?: AbortSignal; // Aborts in-flight scans when the request is cancelled
+}
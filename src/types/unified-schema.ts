@@ -38,6 +38,7 @@ export interface UnifiedPackageContent {
       isStronglyTyped: boolean; // true for Java, Rust, Go, C++
       hasTypeAnnotations?: boolean; // true for TypeScript, Python with hints
       typeDefinitionFile?: string; // .d.ts, .pyi, etc.
+      typesPackage?: { name: string; version: string }; // Separately installed types, e.g. types-requests
     };
   };
 
@@ -59,6 +60,7 @@ export interface UnifiedPackageContent {
     named: string[];
     namespace?: string; // Java packages, Go modules
     public?: string[]; // Java, Rust pub exports
+    entryPoints?: EntryPointExports[]; // JS/TS package.json "exports" subpaths
   };
 
   // Dependencies (flexible structure)
@@ -78,6 +80,11 @@ export interface UnifiedPackageContent {
     entryPoints?: string[]; // Multiple mains for some langs
   };
 
+  // Long-form documentation (indexed for full-text search, not rendered)
+  documentation?: {
+    readme?: string;
+  };
+
   // Usage patterns
   patterns?: {
     examples: CodeExample[];
@@ -100,6 +107,8 @@ export interface ComponentClass {
   isFinal?: boolean; // Java
   isStatic?: boolean;
   generics?: GenericInfo[]; // <T>, etc.
+  decorators?: string[]; // Python decorators, e.g. "dataclass(frozen=True)"
+  sourceFile?: string; // Declaring file, relative to the package root
 }
 
 export interface ComponentFunction {
@@ -113,6 +122,8 @@ export interface ComponentFunction {
   visibility?: 'public' | 'private' | 'protected';
   generics?: GenericInfo[];
   throws?: string[]; // Java checked exceptions
+  decorators?: string[]; // Python decorators
+  sourceFile?: string; // Declaring file, relative to the package root
 }
 
 export interface ComponentConstant {
@@ -120,12 +131,14 @@ export interface ComponentConstant {
   type?: string;
   value?: string;
   isExported: boolean;
+  sourceFile?: string; // Declaring file, relative to the package root
 }
 
 export interface ComponentType {
   name: string;
   definition: string;
   isExported: boolean;
+  sourceFile?: string; // Declaring file, relative to the package root
 }
 
 export interface ComponentInterface {
@@ -135,12 +148,29 @@ export interface ComponentInterface {
   properties?: PropertyInfo[];
   extends?: string[]; // Interface inheritance
   generics?: GenericInfo[];
+  isExported?: boolean; // Unset when the language cannot tell
+  sourceFile?: string; // Declaring file, relative to the package root
 }
 
 export interface ComponentEnum {
   name: string;
   values: string[];
   isExported: boolean;
+  sourceFile?: string; // Declaring file, relative to the package root
+}
+
+export interface EntryPointExports {
+  name: string; // Import specifier, e.g. "pkg" or "pkg/server"
+  file: string; // Resolved file, relative to the package root
+  named: string[];
+  default?: string;
+  symbols?: ExportedSymbol[]; // Where each export is declared, through re-exports
+}
+
+export interface ExportedSymbol {
+  name: string; // Name as imported by consumers
+  originalName: string; // Name at the declaration site (differs for `export { x as y }`)
+  sourceFile: string; // Declaring file, relative to the package root
 }
 
 export interface ComponentTrait {
@@ -158,6 +188,7 @@ export interface ComponentStruct {
 
 export interface MethodInfo {
   name: string;
+  purpose?: string;
   parameters: ParameterInfo[];
   returns?: TypeInfo;
   visibility: 'public' | 'private' | 'protected';
@@ -165,6 +196,7 @@ export interface MethodInfo {
   isStatic?: boolean;
   isAbstract?: boolean;
   generics?: GenericInfo[];
+  decorators?: string[]; // Python decorators
 }
 
 export interface ParameterInfo {
@@ -172,7 +204,7 @@ export interface ParameterInfo {
   type?: string;
   required: boolean;
   default?: string;
-  isVariadic?: boolean; // ...args
+  isVariadic?: boolean; // ...args, Python *args / **kwargs
 }
 
 export interface PropertyInfo {
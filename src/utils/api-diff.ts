@@ -0,0 +1,348 @@
+/**
+ * API differences between two extracted versions of a package
+ *
+ * Compares the public surface of two UnifiedPackageContent snapshots: entry points and
+ * their exports, classes and interfaces with their methods, exported functions, types and
+ * enums. A change is breaking when code written against the older version can stop
+ * compiling or working: something removed, a parameter added or made required, a type
+ * changed. Additions and relaxations are not
+ */
+
+import type {
+  ComponentClass,
+  ComponentInterface,
+  EntryPointExports,
+  MethodInfo,
+  ParameterInfo,
+  TypeInfo,
+  UnifiedPackageContent,
+} from '#types/unified-schema.js';
+import type { ApiChange } from '#types.js';
+import { formatParameter } from '#utils/symbol-index.js';
+
+interface Callable {
+  parameters: ParameterInfo[];
+  returns?: TypeInfo;
+  isAsync?: boolean;
+  isStatic?: boolean;
+}
+
+type Language = 'javascript' | 'python';
+
+/**
+ * Changes from one version of a package to the next, in the order entry points, classes,
+ * interfaces, functions, types, enums
+ */
+export function diffPackageApi(
+  before: UnifiedPackageContent,
+  after: UnifiedPackageContent,
+  language: Language,
+): ApiChange[] {
+  const changes: ApiChange[] = [];
+  diffEntryPoints(entryPointsOf(before), entryPointsOf(after), changes);
+
+  diffNamed(
+    publicClasses(before),
+    publicClasses(after),
+    (name, removed) => changes.push(membership('class', name, removed)),
+    (name, older, newer) => diffClass(name, older, newer, language, changes),
+  );
+  diffNamed(
+    exportedInterfaces(before),
+    exportedInterfaces(after),
+    (name, removed) => changes.push(membership('interface', name, removed)),
+    (name, older, newer) => diffMethods(name, older.methods, newer.methods, language, changes),
+  );
+  diffNamed(
+    byName(before.components.functions.filter((func) => func.isExported)),
+    byName(after.components.functions.filter((func) => func.isExported)),
+    (name, removed) => changes.push(membership('function', name, removed)),
+    (name, older, newer) => diffCallable('function', name, older, newer, language, changes),
+  );
+  diffNamed(
+    byName((before.components.types ?? []).filter((type) => type.isExported)),
+    byName((after.components.types ?? []).filter((type) => type.isExported)),
+    (name, removed) => changes.push(membership('type', name, removed)),
+    (name, older, newer) => {
+      // Whether a new definition still accepts the old values cannot be told from the text
+      if (normalize(older.definition) !== normalize(newer.definition)) {
+        changes.push({
+          change: 'changed',
+          kind: 'type',
+          name,
+          breaking: true,
+          before: older.definition,
+          after: newer.definition,
+        });
+      }
+    },
+  );
+  diffNamed(
+    byName((before.components.enums ?? []).filter((enumDef) => enumDef.isExported)),
+    byName((after.components.enums ?? []).filter((enumDef) => enumDef.isExported)),
+    (name, removed) => changes.push(membership('enum', name, removed)),
+    (name, older, newer) => {
+      const removed = older.values.filter((value) => !newer.values.includes(value));
+      const added = newer.values.filter((value) => !older.values.includes(value));
+      if (removed.length + added.length > 0) {
+        changes.push({
+          change: 'changed',
+          kind: 'enum',
+          name,
+          breaking: removed.length > 0,
+          before: older.values.join(', '),
+          after: newer.values.join(', '),
+          detail: [
+            removed.length > 0 && `removed ${removed.join(', ')}`,
+            added.length > 0 && `added ${added.join(', ')}`,
+          ]
+            .filter(Boolean)
+            .join('; '),
+        });
+      }
+    },
+  );
+
+  return changes;
+}
+
+/**
+ * The entry points of a package; packages without an exports map have a single one
+ */
+function entryPointsOf(content: UnifiedPackageContent): EntryPointExports[] {
+  if (content.exports.entryPoints && content.exports.entryPoints.length > 0) {
+    return content.exports.entryPoints;
+  }
+  return [
+    {
+      name: content.metadata.name,
+      file: content.metadata.mainEntry ?? '',
+      named: content.exports.named,
+      ...(content.exports.default !== undefined && { default: content.exports.default }),
+    },
+  ];
+}
+
+function diffEntryPoints(
+  before: EntryPointExports[],
+  after: EntryPointExports[],
+  changes: ApiChange[],
+): void {
+  diffNamed(
+    byName(before),
+    byName(after),
+    (name, removed) => changes.push(membership('entry-point', name, removed)),
+    (entryPoint, older, newer) => {
+      const exported = (entry: EntryPointExports): Set<string> =>
+        new Set([...entry.named, ...(entry.default !== undefined ? ['default'] : [])]);
+      const olderNames = exported(older);
+      const newerNames = exported(newer);
+      for (const name of olderNames) {
+        if (!newerNames.has(name)) {
+          changes.push({ ...membership('export', name, true), entryPoint });
+        }
+      }
+      for (const name of newerNames) {
+        if (!olderNames.has(name)) {
+          changes.push({ ...membership('export', name, false), entryPoint });
+        }
+      }
+    },
+  );
+}
+
+function diffClass(
+  name: string,
+  older: ComponentClass,
+  newer: ComponentClass,
+  language: Language,
+  changes: ApiChange[],
+): void {
+  if ((older.extends ?? '') !== (newer.extends ?? '')) {
+    changes.push({
+      change: 'changed',
+      kind: 'class',
+      name,
+      breaking: true,
+      ...(older.extends !== undefined && { before: `extends ${older.extends}` }),
+      ...(newer.extends !== undefined && { after: `extends ${newer.extends}` }),
+      detail: 'base class changed',
+    });
+  }
+  diffMethods(name, older.methods, newer.methods, language, changes);
+}
+
+function diffMethods(
+  owner: string,
+  before: MethodInfo[],
+  after: MethodInfo[],
+  language: Language,
+  changes: ApiChange[],
+): void {
+  const visible = (methods: MethodInfo[]): Map<string, MethodInfo> =>
+    byName(methods.filter((method) => method.visibility !== 'private'));
+  diffNamed(
+    visible(before),
+    visible(after),
+    (name, removed) => changes.push(membership('method', `${owner}.${name}`, removed)),
+    (name, older, newer) =>
+      diffCallable('method', `${owner}.${name}`, older, newer, language, changes),
+  );
+}
+
+/**
+ * Parameters are matched by position. Renaming one breaks keyword arguments, which only
+ * Python callers use
+ */
+function diffCallable(
+  kind: 'method' | 'function',
+  name: string,
+  older: Callable,
+  newer: Callable,
+  language: Language,
+  changes: ApiChange[],
+): void {
+  const count = Math.max(older.parameters.length, newer.parameters.length);
+  for (let index = 0; index < count; index++) {
+    const previous = older.parameters[index];
+    const next = newer.parameters[index];
+    if (!next) {
+      if (previous) changes.push(parameterChange(name, previous, 'removed', true));
+      continue;
+    }
+    if (!previous) {
+      const breaking = next.required && !next.isVariadic;
+      changes.push(parameterChange(name, next, 'added', breaking));
+      continue;
+    }
+
+    const details: string[] = [];
+    let breaking = false;
+    if (previous.name !== next.name) {
+      details.push(`renamed from ${previous.name}`);
+      breaking ||= language === 'python';
+    }
+    if (!previous.required && next.required) {
+      details.push('now required');
+      breaking = true;
+    } else if (previous.required && !next.required) {
+      details.push('now optional');
+    }
+    if (previous.type && next.type && normalize(previous.type) !== normalize(next.type)) {
+      details.push('type changed');
+      breaking = true;
+    }
+    if (Boolean(previous.isVariadic) !== Boolean(next.isVariadic)) {
+      details.push(next.isVariadic ? 'now variadic' : 'no longer variadic');
+      breaking ||= !next.isVariadic;
+    }
+    if (details.length > 0) {
+      changes.push({
+        ...parameterChange(name, next, 'changed', breaking),
+        before: formatParameter(previous),
+        detail: details.join('; '),
+      });
+    }
+  }
+
+  const olderReturns = older.returns?.name;
+  const newerReturns = newer.returns?.name;
+  if (olderReturns && newerReturns && normalize(olderReturns) !== normalize(newerReturns)) {
+    changes.push({
+      change: 'changed',
+      kind,
+      name,
+      breaking: true,
+      before: olderReturns,
+      after: newerReturns,
+      detail: 'return type changed',
+    });
+  }
+  if (Boolean(older.isAsync) !== Boolean(newer.isAsync)) {
+    changes.push({
+      change: 'changed',
+      kind,
+      name,
+      breaking: true,
+      detail: newer.isAsync ? 'now async' : 'no longer async',
+    });
+  }
+  if (Boolean(older.isStatic) !== Boolean(newer.isStatic)) {
+    changes.push({
+      change: 'changed',
+      kind,
+      name,
+      breaking: true,
+      detail: newer.isStatic ? 'now static' : 'no longer static',
+    });
+  }
+}
+
+function parameterChange(
+  owner: string,
+  parameter: ParameterInfo,
+  change: ApiChange['change'],
+  breaking: boolean,
+): ApiChange {
+  const rendered = formatParameter(parameter);
+  return {
+    change,
+    kind: 'parameter',
+    name: `${owner}(${parameter.name})`,
+    breaking,
+    ...(change === 'removed' ? { before: rendered } : { after: rendered }),
+  };
+}
+
+/**
+ * A whole component that one side lacks: removing it breaks its users, adding it does not
+ */
+function membership(kind: ApiChange['kind'], name: string, removed: boolean): ApiChange {
+  return removed
+    ? { change: 'removed', kind, name, breaking: true }
+    : { change: 'added', kind, name, breaking: false };
+}
+
+function diffNamed<T>(
+  before: Map<string, T>,
+  after: Map<string, T>,
+  onMissing: (name: string, removed: boolean) => void,
+  onBoth: (name: string, older: T, newer: T) => void,
+): void {
+  for (const [name, older] of before) {
+    const newer = after.get(name);
+    if (newer === undefined) {
+      onMissing(name, true);
+    } else {
+      onBoth(name, older, newer);
+    }
+  }
+  for (const name of after.keys()) {
+    if (!before.has(name)) onMissing(name, false);
+  }
+}
+
+/**
+ * Components by name; overloads and components declared in several files keep the first
+ */
+function byName<T extends { name: string }>(components: T[]): Map<string, T> {
+  const named = new Map<string, T>();
+  for (const component of components) {
+    if (!named.has(component.name)) named.set(component.name, component);
+  }
+  return named;
+}
+
+function publicClasses(content: UnifiedPackageContent): Map<string, ComponentClass> {
+  return byName(content.components.classes.filter((cls) => cls.visibility !== 'private'));
+}
+
+function exportedInterfaces(content: UnifiedPackageContent): Map<string, ComponentInterface> {
+  return byName(
+    (content.components.interfaces ?? []).filter((iface) => iface.isExported !== false),
+  );
+}
+
+function normalize(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
@@ -3,6 +3,7 @@
  * Centralizes the logic for BOTTLE_CACHE_ROOT environment variable handling
  */
 import { join, resolve, isAbsolute } from 'node:path';
+import { getProjectRoot } from '#utils/project-context.js';
 
 const DEFAULT_CACHE_DIR_NAME = '.pkg-local-cache';
 
@@ -10,7 +11,7 @@ const DEFAULT_CACHE_DIR_NAME = '.pkg-local-cache';
  * Get the cache directory path using BOTTLE_CACHE_ROOT environment variable if set,
  * otherwise falls back to .pkg-local-cache in the provided base path
  */
-export function getCacheDir(basePath: string = process.cwd()): string {
+export function getCacheDir(basePath: string = getProjectRoot()): string {
   const bottleCacheRoot = process.env.BOTTLE_CACHE_ROOT;
 
   if (bottleCacheRoot) {
@@ -25,7 +26,7 @@ export function getCacheDir(basePath: string = process.cwd()): string {
 /**
  * Get the SQLite database path using BOTTLE_CACHE_ROOT environment variable if set
  */
-export function getSQLiteDbPath(basePath: string = process.cwd()): string {
+export function getSQLiteDbPath(basePath: string = getProjectRoot()): string {
   const bottleCacheRoot = process.env.BOTTLE_CACHE_ROOT;
 
   if (bottleCacheRoot) {
@@ -39,11 +40,18 @@ export function getSQLiteDbPath(basePath: string = process.cwd()): string {
   return join(basePath, '.pkg-local-cache.db');
 }
 
+/**
+ * Directory holding package files unpacked from archives (Yarn's .yarn/cache/*.zip)
+ */
+export function getUnpackedArchivesDir(basePath: string = getProjectRoot()): string {
+  return join(getCacheDir(basePath), 'archives');
+}
+
 /**
  * Get the bottles directory path using BOTTLE_CACHE_ROOT environment variable if set,
  * otherwise falls back to .pkg-local-cache/bottles in the provided base path
  */
-export function getBottlesDirPath(basePath: string = process.cwd()): string {
+export function getBottlesDirPath(basePath: string = getProjectRoot()): string {
   const bottleCacheRoot = process.env.BOTTLE_CACHE_ROOT;
 
   if (bottleCacheRoot) {
@@ -61,7 +69,7 @@ export function getBottlesDirPath(basePath: string = process.cwd()): string {
 /**
  * Get cache paths for testing and utilities
  */
-export function getCachePaths(basePath: string = process.cwd()): {
+export function getCachePaths(basePath: string = getProjectRoot()): {
   cacheDir: string;
   sqliteDb: string;
   bottlesDir: string;
@@ -1,16 +1,46 @@
 import { existsSync, mkdirSync } from 'node:fs';
 import { join } from 'node:path';
 import type { ScanResult, EnvironmentInfo } from '#scanners/types.js';
+import type { SymbolKind, SymbolMatch, ContentMatch } from '#types.js';
+import type { UnifiedPackageContent } from '#types/unified-schema.js';
 import { SQLiteCache } from '#utils/sqlite-cache.js';
 import { getCacheDir } from '#utils/cache-paths.js';
+import { getProjectRoot } from '#utils/project-context.js';
+import type { DependencyGraph } from '#utils/dependency-graph.js';
 
 /**
  * Unified cache using SQLite for high performance
  */
 export class UnifiedCache {
+  private static readonly shared = new Map<string, UnifiedCache>();
+
   private readonly cache: SQLiteCache;
+  private readonly dbPath: string;
+
+  /**
+   * The long-lived cache of a project, shared by tool calls so the connection stays warm
+   * across requests; closed by closeAll() on shutdown
+   */
+  static forProject(basePath: string = getProjectRoot()): UnifiedCache {
+    const existing = UnifiedCache.shared.get(basePath);
+    if (existing && existsSync(existing.dbPath)) {
+      return existing;
+    }
+
+    // Reopen when the cache directory was deleted under us
+    existing?.close();
+    const cache = new UnifiedCache(basePath);
+    UnifiedCache.shared.set(basePath, cache);
+    return cache;
+  }
+
+  static closeAll(): void {
+    for (const cache of [...UnifiedCache.shared.values()]) {
+      cache.close();
+    }
+  }
 
-  constructor(basePath: string = process.cwd()) {
+  constructor(private readonly basePath: string = getProjectRoot()) {
     // Ensure cache directory exists
     const cacheDir = getCacheDir(basePath);
     if (!existsSync(cacheDir)) {
@@ -23,8 +53,9 @@ export class UnifiedCache {
       ? `cache-${Buffer.from(basePath).toString('hex').slice(-16)}.db`
       : 'cache.db';
 
+    this.dbPath = join(cacheDir, dbName);
     this.cache = new SQLiteCache({
-      dbPath: join(cacheDir, dbName),
+      dbPath: this.dbPath,
       maxAge: 3600, // 1 hour in seconds
       enableWAL: true,
       enableFileCache: false,
@@ -47,12 +78,112 @@ export class UnifiedCache {
     return !this.cache.isValid(partitionKey);
   }
 
+  saveDependencyGraph(environment: EnvironmentInfo, graph: DependencyGraph): void {
+    this.cache.saveDependencyGraph(this.getPartitionKey(environment), graph);
+  }
+
+  /**
+   * The dependency graph built from the current scan; a rescan drops it
+   */
+  loadDependencyGraph(environment: EnvironmentInfo): DependencyGraph | null {
+    if (this.isStale(environment)) {
+      return null;
+    }
+    return this.cache.getDependencyGraph(this.getPartitionKey(environment));
+  }
+
+  /**
+   * Record the extracted content of one version of a package in the version history
+   */
+  savePackageVersion(
+    environment: EnvironmentInfo,
+    name: string,
+    version: string,
+    language: 'javascript' | 'python',
+    content: UnifiedPackageContent,
+  ): void {
+    this.cache.savePackageVersion(
+      this.getPartitionKey(environment),
+      name,
+      version,
+      language,
+      content,
+    );
+  }
+
+  /**
+   * Content of one version of a package, kept across rescans and upgrades
+   */
+  loadPackageVersion(
+    environment: EnvironmentInfo,
+    name: string,
+    version: string,
+  ): UnifiedPackageContent | null {
+    return this.cache.getPackageVersion(this.getPartitionKey(environment), name, version);
+  }
+
+  /**
+   * Versions of a package with recorded content, most recently extracted first
+   */
+  listPackageVersions(environment: EnvironmentInfo, name: string): string[] {
+    return this.cache
+      .listPackageVersions(this.getPartitionKey(environment), name)
+      .map((row) => row.version);
+  }
+
+  /**
+   * Search symbols extracted from cached packages of an environment
+   */
+  searchSymbols(
+    environment: EnvironmentInfo,
+    query: string,
+    options: { kind?: SymbolKind; includeInternal?: boolean; limit?: number } = {},
+  ): SymbolMatch[] {
+    const partitionKey = this.getPartitionKey(environment);
+    return this.cache.searchSymbols(partitionKey, query, options).map((row) => ({
+      name: row.name,
+      kind: row.kind,
+      package: row.package_name,
+      version: row.package_version,
+      ...(row.signature !== null && { signature: row.signature }),
+      ...(row.source_file !== null && { sourceFile: row.source_file }),
+    }));
+  }
+
+  /**
+   * Full-text search over cached package content of an environment
+   * @param match An FTS5 MATCH expression (see buildMatchQuery)
+   */
+  searchContent(environment: EnvironmentInfo, match: string, limit?: number): ContentMatch[] {
+    const partitionKey = this.getPartitionKey(environment);
+    return this.cache.searchContent(partitionKey, match, limit).map((row) => ({
+      package: row.package_name,
+      version: row.package_version,
+      // bm25 scores are negative; flip them so higher means more relevant
+      score: Math.round(-row.rank * 1000) / 1000,
+      snippet: row.snippet,
+    }));
+  }
+
+  /**
+   * Number of cached packages whose symbols have been indexed
+   */
+  countIndexedPackages(environment: EnvironmentInfo): number {
+    return this.cache.countIndexedPackages(this.getPartitionKey(environment));
+  }
+
   private getPartitionKey(environment: EnvironmentInfo): string {
-    return `${environment.type}-${environment.path.replace(/[^a-zA-Z0-9]/g, '_')}`;
+    const key = `${environment.type}-${environment.path.replace(/[^a-zA-Z0-9]/g, '_')}`;
+    // A polyglot index is kept apart from the single-language one it grew out of
+    const languages = Object.keys(environment.environments ?? {});
+    return languages.length > 1 ? `${key}-${languages.join('-')}` : key;
   }
 
   // Clean up resources when done
   close(): void {
+    if (UnifiedCache.shared.get(this.basePath) === this) {
+      UnifiedCache.shared.delete(this.basePath);
+    }
     this.cache.close();
   }
 }
@@ -0,0 +1,480 @@
+/**
+ * Resolved dependency graph of an environment
+ *
+ * npm dependencies resolve the way Node does, from the dependent's real directory up
+ * through every node_modules, so nested, hoisted and pnpm store copies each become their
+ * own node. Python environments are flat: Requires-Dist names resolve to the one
+ * installed distribution
+ */
+
+import { promises as fs } from 'node:fs';
+import { basename, dirname, join, relative } from 'node:path';
+import type { BasicPackageInfo } from '#scanners/types.js';
+import type { DependencyTreeLine, DependencyConflict } from '#types.js';
+import { normalizePythonName, type ProjectDependencies } from '#utils/project-dependencies.js';
+import { satisfiesNpmRange, satisfiesPythonSpecifier } from '#utils/version-ranges.js';
+
+export type DependencyKind = 'runtime' | 'optional' | 'peer';
+
+export interface DependencyNode {
+  name: string;
+  version: string;
+  location: string; // Relative to the project root
+  language: 'javascript' | 'python';
+  direct: boolean; // Declared by the project itself
+}
+
+export interface DependencyEdge {
+  from: number; // Index of the dependent in the graph's nodes
+  name: string;
+  range: string;
+  kind: DependencyKind;
+  to: number | null; // Index of the installed copy, null when it is not installed
+  satisfies: boolean;
+}
+
+export interface DependencyGraph {
+  nodes: DependencyNode[];
+  edges: DependencyEdge[];
+}
+
+interface PackageManifest {
+  name?: string;
+  version?: string;
+  dependencies?: Record<string, string>;
+  optionalDependencies?: Record<string, string>;
+  peerDependencies?: Record<string, string>;
+}
+
+export function formatNode(node: DependencyNode): string {
+  return `${node.name}@${node.version}`;
+}
+
+class GraphBuilder implements DependencyGraph {
+  readonly nodes: DependencyNode[] = [];
+  readonly edges: DependencyEdge[] = [];
+  private readonly indexes = new Map<string, number>();
+
+  find(key: string): number | undefined {
+    return this.indexes.get(key);
+  }
+
+  add(key: string, node: DependencyNode): number {
+    this.indexes.set(key, this.nodes.length);
+    return this.nodes.push(node) - 1;
+  }
+}
+
+async function readManifest(directory: string): Promise<PackageManifest | null> {
+  try {
+    return JSON.parse(
+      await fs.readFile(join(directory, 'package.json'), 'utf-8'),
+    ) as PackageManifest;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Where Node finds a dependency of the package in `directory`: its own node_modules, then
+ * each parent's
+ */
+async function resolveNodeModule(directory: string, name: string): Promise<string | null> {
+  for (let current = directory; ; current = dirname(current)) {
+    if (basename(current) !== 'node_modules') {
+      const candidate = join(current, 'node_modules', name);
+      if (await fs.stat(join(candidate, 'package.json')).catch(() => null)) {
+        return candidate;
+      }
+    }
+    if (dirname(current) === current) return null;
+  }
+}
+
+async function addJavaScriptGraph(
+  graph: GraphBuilder,
+  packages: BasicPackageInfo[],
+  projectRoot: string,
+  declared: Set<string>,
+): Promise<void> {
+  const pending: Array<{ index: number; directory: string; manifest: PackageManifest }> = [];
+
+  // Nodes are keyed by real path: a pnpm symlink and its store directory are one copy
+  const visit = async (path: string): Promise<number | null> => {
+    const directory = await fs.realpath(path).catch(() => null);
+    if (!directory) return null;
+    const known = graph.find(directory);
+    if (known !== undefined) return known;
+
+    const manifest = await readManifest(directory);
+    if (!manifest?.name) return null;
+    const index = graph.add(directory, {
+      name: manifest.name,
+      version: manifest.version ?? 'unknown',
+      location: relative(projectRoot, path),
+      language: 'javascript',
+      direct: false,
+    });
+    pending.push({ index, directory, manifest });
+    return index;
+  };
+
+  for (const info of packages) {
+    await visit(join(projectRoot, info.location));
+    for (const installation of info.installations ?? []) {
+      await visit(join(projectRoot, installation.location));
+    }
+  }
+  for (const name of declared) {
+    const index = await visit(join(projectRoot, 'node_modules', name));
+    const node = index === null ? undefined : graph.nodes[index];
+    if (node) node.direct = true;
+  }
+
+  // Resolving a dependency may discover copies the scan did not list (store-only packages)
+  for (let next = pending.shift(); next; next = pending.shift()) {
+    const { index, directory, manifest } = next;
+    const declarations: Array<[string, string, DependencyKind]> = [
+      ...Object.entries(manifest.dependencies ?? {})
+        .filter(([name]) => !manifest.optionalDependencies?.[name])
+        .map(([name, range]): [string, string, DependencyKind] => [name, range, 'runtime']),
+      ...Object.entries(manifest.optionalDependencies ?? {}).map(
+        ([name, range]): [string, string, DependencyKind] => [name, range, 'optional'],
+      ),
+      ...Object.entries(manifest.peerDependencies ?? {}).map(
+        ([name, range]): [string, string, DependencyKind] => [name, range, 'peer'],
+      ),
+    ];
+
+    for (const [name, range, kind] of declarations) {
+      const resolved = await resolveNodeModule(directory, name);
+      const to = resolved ? await visit(resolved) : null;
+      const installed = to === null ? undefined : graph.nodes[to];
+      graph.edges.push({
+        from: index,
+        name,
+        range,
+        kind,
+        to,
+        satisfies: !installed || satisfiesNpmRange(installed.version, range),
+      });
+    }
+  }
+}
+
+/**
+ * "urllib3 (<3,>=1.21.1)" or "PySocks!=1.5.7,>=1.5.6; extra == 'socks'"
+ */
+function parseRequiresDist(
+  requirement: string,
+): { name: string; specifier: string; marker?: string } | null {
+  const match =
+    /^\s*([A-Za-z0-9][A-Za-z0-9._-]*)\s*(?:\[[^\]]*\])?\s*([^;]*?)\s*(?:;\s*(.+))?$/.exec(
+      requirement,
+    );
+  if (!match?.[1]) return null;
+  // Older metadata wraps the specifier in parentheses
+  const specifier = (match[2] ?? '').replace(/^\((.*)\)$/, '$1');
+  return { name: match[1], specifier, ...(match[3] && { marker: match[3] }) };
+}
+
+async function readRequiresDist(
+  projectRoot: string,
+  info: BasicPackageInfo,
+  listings: Map<string, Promise<string[]>>,
+): Promise<string[]> {
+  // Packages and their .dist-info directories sit side by side in site-packages
+  const sitePackages = dirname(join(projectRoot, info.location));
+  let listing = listings.get(sitePackages);
+  if (!listing) {
+    listing = fs.readdir(sitePackages).catch(() => []);
+    listings.set(sitePackages, listing);
+  }
+
+  const name = normalizePythonName(info.name);
+  const distInfo = (await listing).find(
+    (entry) =>
+      entry.endsWith('.dist-info') &&
+      normalizePythonName(entry.replace(/\.dist-info$/, '').replace(/-[^-]*$/, '')) === name,
+  );
+  if (!distInfo) return [];
+
+  const metadata = await fs
+    .readFile(join(sitePackages, distInfo, 'METADATA'), 'utf-8')
+    .catch(() => '');
+  return [...metadata.matchAll(/^Requires-Dist:\s*(.+)$/gm)].map((match) => match[1] ?? '');
+}
+
+async function addPythonGraph(
+  graph: GraphBuilder,
+  packages: BasicPackageInfo[],
+  projectRoot: string,
+  declared: Set<string>,
+): Promise<void> {
+  const key = (name: string): string => `python:${normalizePythonName(name)}`;
+  for (const info of packages) {
+    graph.add(key(info.name), {
+      name: info.name,
+      version: info.version,
+      location: info.location,
+      language: 'python',
+      direct: declared.has(normalizePythonName(info.name)),
+    });
+  }
+
+  const listings = new Map<string, Promise<string[]>>();
+  for (const info of packages) {
+    const from = graph.find(key(info.name));
+    if (from === undefined) continue;
+
+    for (const line of await readRequiresDist(projectRoot, info, listings)) {
+      const requirement = parseRequiresDist(line);
+      // Extras are only installed on request
+      if (!requirement || requirement.marker?.includes('extra')) continue;
+
+      const to = graph.find(key(requirement.name)) ?? null;
+      const installed = to === null ? undefined : graph.nodes[to];
+      graph.edges.push({
+        from,
+        name: requirement.name,
+        range: requirement.specifier,
+        // Environment markers (python_version, sys_platform) make a requirement conditional
+        kind: requirement.marker ? 'optional' : 'runtime',
+        to,
+        satisfies: !installed || satisfiesPythonSpecifier(installed.version, requirement.specifier),
+      });
+    }
+  }
+}
+
+/**
+ * Build the graph of every installed package from the scan index
+ */
+export async function buildDependencyGraph(
+  packages: Record<string, BasicPackageInfo>,
+  projectRoot: string,
+  declared: ProjectDependencies,
+): Promise<DependencyGraph> {
+  const graph = new GraphBuilder();
+  const all = Object.values(packages);
+
+  await addJavaScriptGraph(
+    graph,
+    all.filter((info) => info.language === 'javascript'),
+    projectRoot,
+    declared.javascript,
+  );
+  await addPythonGraph(
+    graph,
+    all.filter((info) => info.language === 'python'),
+    projectRoot,
+    declared.python,
+  );
+
+  return { nodes: graph.nodes, edges: graph.edges };
+}
+
+function groupEdges(graph: DependencyGraph, by: 'from' | 'to'): Map<number, DependencyEdge[]> {
+  const groups = new Map<number, DependencyEdge[]>();
+  for (const edge of graph.edges) {
+    const key = edge[by];
+    if (key === null) continue;
+    const group = groups.get(key);
+    if (group) group.push(edge);
+    else groups.set(key, [edge]);
+  }
+  return groups;
+}
+
+/**
+ * The project's own dependencies; without declared dependencies, the packages nothing
+ * else depends on
+ */
+export function findRoots(graph: DependencyGraph): number[] {
+  const direct = graph.nodes.flatMap((node, index) => (node.direct ? [index] : []));
+  if (direct.length > 0) return direct;
+
+  const dependedOn = new Set(graph.edges.map((edge) => edge.to));
+  return graph.nodes.flatMap((_, index) => (dependedOn.has(index) ? [] : [index]));
+}
+
+/**
+ * Every node the given nodes pull in, transitively, including themselves
+ */
+export function collectDependencies(graph: DependencyGraph, from: number[]): Set<number> {
+  const outgoing = groupEdges(graph, 'from');
+  const reached = new Set(from);
+  const queue = [...from];
+  for (let index = queue.shift(); index !== undefined; index = queue.shift()) {
+    for (const edge of outgoing.get(index) ?? []) {
+      if (edge.to !== null && !reached.has(edge.to)) {
+        reached.add(edge.to);
+        queue.push(edge.to);
+      }
+    }
+  }
+  return reached;
+}
+
+/**
+ * The dependency tree below the roots in depth-first order, like `npm ls`: a package that
+ * was already expanded is marked deduped, one that depends on its own ancestor circular
+ */
+export function listDependencyTree(
+  graph: DependencyGraph,
+  roots: number[],
+  maxDepth: number,
+): DependencyTreeLine[] {
+  const outgoing = groupEdges(graph, 'from');
+  const expanded = new Set<number>();
+  const lines: DependencyTreeLine[] = [];
+
+  const walk = (index: number, depth: number, ancestors: number[], edge?: DependencyEdge): void => {
+    const node = graph.nodes[index];
+    if (!node) return;
+    const line: DependencyTreeLine = {
+      package: formatNode(node),
+      depth,
+      ...(edge && { range: edge.range, kind: edge.kind }),
+      ...(edge && !edge.satisfies && { conflict: true }),
+    };
+    lines.push(line);
+
+    const children = (outgoing.get(index) ?? []).sort((a, b) => a.name.localeCompare(b.name));
+    if (ancestors.includes(index)) {
+      line.circular = true;
+      return;
+    }
+    if (depth >= maxDepth || children.length === 0) return;
+    if (expanded.has(index)) {
+      line.deduped = true;
+      return;
+    }
+    expanded.add(index);
+
+    for (const child of children) {
+      if (child.to !== null) {
+        walk(child.to, depth + 1, [...ancestors, index], child);
+      } else if (child.kind === 'runtime') {
+        lines.push({
+          package: child.name,
+          depth: depth + 1,
+          range: child.range,
+          kind: child.kind,
+          missing: true,
+        });
+      }
+    }
+  };
+
+  for (const root of roots) walk(root, 0, []);
+  return lines;
+}
+
+/**
+ * Why the targets are installed: the shortest chain from each project dependency (or
+ * root) that pulls them in, root first
+ */
+export function findDependentPaths(
+  graph: DependencyGraph,
+  targets: number[],
+  limit: number,
+): number[][] {
+  const incoming = groupEdges(graph, 'to');
+  const roots = new Set(findRoots(graph));
+  const paths: number[][] = [];
+
+  for (const target of targets) {
+    // Breadth-first towards the dependents; each node keeps the path it was reached by
+    const reached = new Map<number, number[]>([[target, [target]]]);
+    const queue = [target];
+    for (let index = queue.shift(); index !== undefined; index = queue.shift()) {
+      const path = reached.get(index) ?? [];
+      if (roots.has(index)) paths.push(path);
+      if (paths.length >= limit) return paths;
+
+      for (const edge of incoming.get(index) ?? []) {
+        if (!reached.has(edge.from)) {
+          reached.set(edge.from, [edge.from, ...path]);
+          queue.push(edge.from);
+        }
+      }
+    }
+  }
+  return paths;
+}
+
+/**
+ * Groups of packages that depend on each other in a cycle (strongly connected
+ * components of more than one package, or a package depending on itself)
+ */
+export function findCycles(graph: DependencyGraph): number[][] {
+  const outgoing = groupEdges(graph, 'from');
+  const order = new Map<number, number>();
+  const lowLink = new Map<number, number>();
+  const stack: number[] = [];
+  const onStack = new Set<number>();
+  const cycles: number[][] = [];
+
+  // Tarjan's algorithm
+  const connect = (index: number): void => {
+    order.set(index, order.size);
+    lowLink.set(index, order.get(index) ?? 0);
+    stack.push(index);
+    onStack.add(index);
+
+    for (const edge of outgoing.get(index) ?? []) {
+      if (edge.to === null) continue;
+      if (!order.has(edge.to)) {
+        connect(edge.to);
+        lowLink.set(index, Math.min(lowLink.get(index) ?? 0, lowLink.get(edge.to) ?? 0));
+      } else if (onStack.has(edge.to)) {
+        lowLink.set(index, Math.min(lowLink.get(index) ?? 0, order.get(edge.to) ?? 0));
+      }
+    }
+
+    if (lowLink.get(index) !== order.get(index)) return;
+    const component: number[] = [];
+    for (let member = stack.pop(); member !== undefined; member = stack.pop()) {
+      onStack.delete(member);
+      component.push(member);
+      if (member === index) break;
+    }
+    const selfLoop = (outgoing.get(index) ?? []).some((edge) => edge.to === index);
+    if (component.length > 1 || selfLoop) cycles.push(component);
+  };
+
+  graph.nodes.forEach((_, index) => {
+    if (!order.has(index)) connect(index);
+  });
+  return cycles;
+}
+
+/**
+ * Installed versions outside the declared range, and required dependencies that are not
+ * installed; optional and peer dependencies may be absent
+ */
+export function findConflicts(
+  graph: DependencyGraph,
+  edges: DependencyEdge[] = graph.edges,
+): DependencyConflict[] {
+  const conflicts: DependencyConflict[] = [];
+  for (const edge of edges) {
+    const dependent = graph.nodes[edge.from];
+    const installed = edge.to === null ? undefined : graph.nodes[edge.to];
+    if (
+      !dependent ||
+      edge.satisfies === Boolean(installed) ||
+      (!installed && edge.kind !== 'runtime')
+    ) {
+      continue;
+    }
+    conflicts.push({
+      dependent: formatNode(dependent),
+      dependency: edge.name,
+      range: edge.range,
+      ...(installed && { installed: installed.version }),
+    });
+  }
+  return conflicts;
+}
@@ -0,0 +1,265 @@
+/**
+ * Drift between what a project declares, what its lockfile pins and what is installed
+ *
+ * Declared ranges come from the manifests (package.json, or the pip and uv adapters for
+ * Python), pins from the lockfile readers and installed versions from a scan. Packages
+ * outside the lockfile can only be called extraneous when there is a lockfile: without
+ * one, transitive dependencies are not told apart from leftovers
+ */
+
+import { promises as fs } from 'node:fs';
+import { join } from 'node:path';
+import type { Manifest } from '#bottles/package-managers/base';
+import type { BasicPackageInfo } from '#scanners/types.js';
+import type { LockedPackage, LockfileContents } from '#scanners/lockfiles.js';
+import type { DriftIssue } from '#types.js';
+import { normalizePythonName } from '#utils/project-dependencies.js';
+import { satisfiesNpmRange, satisfiesPythonSpecifier } from '#utils/version-ranges.js';
+
+export type DependencyType = 'dependencies' | 'devDependencies' | 'optionalDependencies';
+
+export interface DeclaredDependency {
+  name: string;
+  range: string; // "*" when the manifest does not constrain the version
+  type: DependencyType;
+}
+
+export interface DriftInput {
+  language: 'javascript' | 'python';
+  packageManager: string; // npm, pnpm, yarn, uv or pip; picks the fix commands
+  declared: DeclaredDependency[];
+  projectPackages: string[]; // The project's own packages, installed from source
+  lockfile: LockfileContents | null;
+  installed: Record<string, BasicPackageInfo>;
+}
+
+const DEPENDENCY_TYPES: DependencyType[] = [
+  'dependencies',
+  'devDependencies',
+  'optionalDependencies',
+];
+
+/**
+ * package.json in the shape the package manager adapters parse Python manifests into
+ */
+export async function readNodeManifest(projectRoot: string): Promise<Manifest | undefined> {
+  let pkg: Record<string, unknown>;
+  try {
+    pkg = JSON.parse(await fs.readFile(join(projectRoot, 'package.json'), 'utf-8')) as Record<
+      string,
+      unknown
+    >;
+  } catch {
+    return undefined;
+  }
+
+  const field = (name: string): Record<string, string> =>
+    (pkg[name] as Record<string, string> | undefined) ?? {};
+  return {
+    ...(typeof pkg.name === 'string' && { name: pkg.name }),
+    ...(typeof pkg.version === 'string' && { version: pkg.version }),
+    dependencies: field('dependencies'),
+    devDependencies: field('devDependencies'),
+    optionalDependencies: field('optionalDependencies'),
+  };
+}
+
+/**
+ * The dependencies of a manifest. The adapters keep Python requirements as parsed by
+ * parseVersionSpec ("requests[socks]" -> ">=2; python_version < '3.8'"), so extras and
+ * environment markers are dropped here. A requirement with a marker may not apply to this
+ * platform, so it is declared optional
+ */
+export function listDeclaredDependencies(
+  manifest: Manifest,
+  language: DriftInput['language'],
+): DeclaredDependency[] {
+  const declared = new Map<string, DeclaredDependency>();
+  for (const type of DEPENDENCY_TYPES) {
+    for (const [spec, range] of Object.entries(manifest[type])) {
+      let name = spec.trim();
+      let cleaned = range.trim();
+      let dependencyType = type;
+      if (language === 'python') {
+        name = normalizePythonName(/^[A-Za-z0-9][A-Za-z0-9._-]*/.exec(name)?.[0] ?? name);
+        const [specifier, marker] = cleaned.split(';');
+        cleaned = specifier?.trim() ?? '';
+        if (marker?.trim()) {
+          dependencyType = 'optionalDependencies';
+        }
+      }
+      // A package listed twice counts as its most required declaration
+      const previous = declared.get(name);
+      if (!previous || rank(dependencyType) < rank(previous.type)) {
+        declared.set(name, { name, range: cleaned || '*', type: dependencyType });
+      }
+    }
+  }
+  return [...declared.values()];
+}
+
+function rank(type: DependencyType): number {
+  return DEPENDENCY_TYPES.indexOf(type);
+}
+
+function satisfies(language: DriftInput['language'], version: string, range: string): boolean {
+  if (range === '*') return true;
+  return language === 'python'
+    ? satisfiesPythonSpecifier(version, range)
+    : satisfiesNpmRange(version, range);
+}
+
+/**
+ * Install exactly what the lockfile pins
+ */
+function syncCommand(packageManager: string): string {
+  switch (packageManager) {
+    case 'pnpm':
+      return 'pnpm install --frozen-lockfile';
+    case 'yarn':
+      return 'yarn install --frozen-lockfile';
+    case 'uv':
+      return 'uv sync';
+    case 'pip':
+      return 'pip install -r requirements.txt';
+    default:
+      return 'npm ci';
+  }
+}
+
+/**
+ * Install a package within its declared range, updating the lockfile
+ */
+function addCommand(packageManager: string, dependency: DeclaredDependency): string {
+  const python = packageManager === 'uv' || packageManager === 'pip';
+  const version = dependency.range === '*' ? '' : dependency.range;
+  const spec = python
+    ? `${dependency.name}${version}`
+    : `${dependency.name}@${version || 'latest'}`;
+  const quoted = /[\s<>=!~^*|]/.test(spec) ? `"${spec}"` : spec;
+  const dev = dependency.type === 'devDependencies';
+
+  switch (packageManager) {
+    case 'pnpm':
+      return `pnpm add ${quoted}${dev ? ' -D' : ''}`;
+    case 'yarn':
+      return `yarn add ${quoted}${dev ? ' --dev' : ''}`;
+    case 'uv':
+      return `uv add ${quoted}${dev ? ' --dev' : ''}`;
+    case 'pip':
+      return `pip install ${quoted}`;
+    default:
+      return `npm install ${quoted}${dev ? ' --save-dev' : ''}`;
+  }
+}
+
+/**
+ * Remove installed packages the lockfile does not pin
+ */
+function pruneCommand(packageManager: string, name: string): string {
+  switch (packageManager) {
+    case 'pnpm':
+      return 'pnpm prune';
+    case 'yarn':
+      return 'yarn install --frozen-lockfile';
+    case 'uv':
+      return 'uv sync';
+    case 'pip':
+      return `pip uninstall -y ${name}`;
+    default:
+      return 'npm prune';
+  }
+}
+
+/**
+ * Declared dependencies that are missing or installed outside their range, locked
+ * packages that are missing or installed at another version, and installed packages the
+ * lockfile does not know. Optional packages may legitimately be absent (another
+ * platform), so they are never reported missing
+ */
+export function findDrift(input: DriftInput): DriftIssue[] {
+  const { language, packageManager, lockfile } = input;
+  const key = (name: string): string => (language === 'python' ? normalizePythonName(name) : name);
+
+  const installed = new Map<string, BasicPackageInfo>();
+  for (const pkg of Object.values(input.installed)) {
+    installed.set(key(pkg.name), pkg);
+  }
+  const locked = new Map<string, LockedPackage[]>();
+  for (const pkg of lockfile?.packages ?? []) {
+    locked.set(key(pkg.name), [...(locked.get(key(pkg.name)) ?? []), pkg]);
+  }
+  const versions = (pins: LockedPackage[]): string => pins.map((pin) => pin.version).join(', ');
+
+  const issues: DriftIssue[] = [];
+  const reported = new Set<string>();
+  const declaredNames = new Set<string>();
+
+  for (const dependency of input.declared) {
+    const name = key(dependency.name);
+    declaredNames.add(name);
+    const pkg = installed.get(name);
+    const pins = locked.get(name);
+    const details = {
+      package: dependency.name,
+      language,
+      declared: dependency.range,
+      ...(pins && { locked: versions(pins) }),
+      dependencyType: dependency.type,
+    };
+    // The lockfile fixes the drift when it pins a version in range, else the range wins
+    const fix = pins?.some((pin) => satisfies(language, pin.version, dependency.range))
+      ? syncCommand(packageManager)
+      : addCommand(packageManager, dependency);
+
+    if (!pkg) {
+      if (dependency.type === 'optionalDependencies') continue;
+      issues.push({ kind: 'missing', ...details, fix });
+      reported.add(name);
+    } else if (!satisfies(language, pkg.version, dependency.range)) {
+      issues.push({ kind: 'out-of-range', ...details, installed: pkg.version, fix });
+      reported.add(name);
+    }
+  }
+
+  if (!lockfile) {
+    return issues;
+  }
+
+  for (const [name, pins] of locked) {
+    if (reported.has(name)) continue;
+    const pkg = installed.get(name);
+    const details = {
+      package: pins[0]?.name ?? name,
+      language,
+      locked: versions(pins),
+      fix: syncCommand(packageManager),
+    };
+
+    if (!pkg) {
+      if (pins.every((pin) => pin.optional)) continue;
+      issues.push({ kind: 'missing', ...details });
+      continue;
+    }
+    const copies = pkg.installations?.map((copy) => copy.version) ?? [pkg.version];
+    const unpinned = copies.find((version) => !pins.some((pin) => pin.version === version));
+    if (unpinned !== undefined) {
+      issues.push({ kind: 'out-of-range', ...details, installed: unpinned });
+    }
+  }
+
+  const own = new Set(input.projectPackages.map(key));
+  for (const [name, pkg] of installed) {
+    if (locked.has(name) || declaredNames.has(name) || own.has(name)) continue;
+    // Workspace packages are linked from the project's own directories
+    if (pkg.realPath && !pkg.realPath.includes('node_modules')) continue;
+    issues.push({
+      kind: 'extraneous',
+      package: pkg.name,
+      language,
+      installed: pkg.version,
+      fix: pruneCommand(packageManager, pkg.name),
+    });
+  }
+  return issues;
+}
@@ -0,0 +1,103 @@
+import { watch, type FSWatcher } from 'node:fs';
+import { stat } from 'node:fs/promises';
+import { setTimeout, clearTimeout } from 'node:timers';
+import { basename, dirname } from 'node:path';
+
+const DEFAULT_DEBOUNCE_MS = 1000;
+
+/**
+ * Watches package directories and lock files, calling back once per burst of changes
+ * (an install touches hundreds of entries). Directories are watched non-recursively:
+ * installs add, remove or replace their top-level entries, and lock files catch the rest
+ */
+export class EnvironmentWatcher {
+  private watchers: FSWatcher[] = [];
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+  private pending = false;
+  private closed = false;
+
+  constructor(
+    private readonly paths: string[],
+    private readonly onChange: () => Promise<void>,
+    private readonly debounceMs: number = DEFAULT_DEBOUNCE_MS,
+  ) {}
+
+  async start(): Promise<void> {
+    // Files are watched through their directory, so lock files that are replaced on
+    // write or created by the first install are still seen
+    const targets = new Map<string, Set<string> | null>(); // null: any entry
+    for (const path of this.paths) {
+      const stats = await stat(path).catch(() => null);
+      if (stats?.isDirectory()) {
+        targets.set(path, null);
+        continue;
+      }
+
+      const directory = dirname(path);
+      const names = targets.get(directory);
+      if (names !== null) {
+        targets.set(directory, new Set([...(names ?? []), basename(path)]));
+      }
+    }
+
+    for (const [directory, names] of targets) {
+      try {
+        const watcher = watch(directory, { persistent: false }, (_event, filename) => {
+          if (names && (!filename || !names.has(filename.toString()))) return;
+          this.schedule();
+        });
+        watcher.on('error', (error) => console.error(`[WATCH] ${directory}:`, error));
+        this.watchers.push(watcher);
+      } catch {
+        // Directory does not exist (yet); picked up after the next change
+      }
+    }
+
+    console.error(`[WATCH] Watching ${this.watchers.length} directories for package changes`);
+  }
+
+  close(): void {
+    this.closed = true;
+    if (this.timer) clearTimeout(this.timer);
+    this.closeWatchers();
+  }
+
+  private schedule(): void {
+    if (this.closed) return;
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = setTimeout(() => void this.flush(), this.debounceMs);
+  }
+
+  private async flush(): Promise<void> {
+    this.timer = null;
+    if (this.running) {
+      this.pending = true;
+      return;
+    }
+
+    this.running = true;
+    try {
+      await this.onChange();
+    } catch (error) {
+      console.error('[WATCH] Refresh after change failed:', error);
+    } finally {
+      this.running = false;
+    }
+    if (this.closed) return;
+
+    // Re-attach so directories created by the install (a first node_modules) are watched
+    this.closeWatchers();
+    await this.start();
+
+    if (this.pending) {
+      this.pending = false;
+      this.schedule();
+    }
+  }
+
+  private closeWatchers(): void {
+    for (const watcher of this.watchers) watcher.close();
+    this.watchers = [];
+  }
+}
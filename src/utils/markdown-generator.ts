@@ -16,6 +16,9 @@ import type {
   ComponentTrait,
 } from '#types/unified-schema.js';
 
+const MAX_NAMED_EXPORTS = 50;
+const MAX_ENTRY_POINT_EXPORTS = 20;
+
 export class MarkdownGenerator {
   /**
    * Generate standardized markdown from unified content
@@ -83,6 +86,11 @@ export class MarkdownGenerator {
       if (metadata.typeSystem.typeDefinitionFile) {
         lines.push(`type_definitions: ${metadata.typeSystem.typeDefinitionFile}`);
       }
+
+      if (metadata.typeSystem.typesPackage) {
+        const { name, version } = metadata.typeSystem.typesPackage;
+        lines.push(`types_package: ${name}@${version}`);
+      }
     }
 
     if (metadata.homepage) {
@@ -137,9 +145,9 @@ export class MarkdownGenerator {
     const lines: string[] = ['## 🏗️ Core Components\n'];
     let componentNum = 1;
 
-    // Classes (all languages)
+    // Classes (all languages, internal ones skipped)
     if (components.classes && components.classes.length > 0) {
-      for (const cls of components.classes) {
+      for (const cls of components.classes.filter((c) => c.visibility !== 'private')) {
         lines.push(...this.generateClassSection(cls, componentNum++));
       }
     }
@@ -154,14 +162,14 @@ export class MarkdownGenerator {
 
     // Interfaces (Java, TypeScript, Go)
     if (components.interfaces && components.interfaces.length > 0) {
-      for (const iface of components.interfaces) {
+      for (const iface of components.interfaces.filter((i) => i.isExported !== false)) {
         lines.push(...this.generateInterfaceSection(iface, componentNum++));
       }
     }
 
-    // Enums
+    // Enums (exported only)
     if (components.enums && components.enums.length > 0) {
-      for (const enumDef of components.enums) {
+      for (const enumDef of components.enums.filter((e) => e.isExported)) {
         lines.push(...this.generateEnumSection(enumDef, componentNum++));
       }
     }
@@ -201,6 +209,9 @@ export class MarkdownGenerator {
     const lines: string[] = [];
     lines.push(`### ${num}. ${cls.name}`);
     lines.push(`purpose: ${cls.purpose ?? 'Class implementation'}`);
+    if (cls.decorators && cls.decorators.length > 0) {
+      lines.push(`decorators: ${cls.decorators.map((d) => `@${d}`).join(', ')}`);
+    }
 
     if (cls.extends) lines.push(`extends: ${cls.extends}`);
     if (cls.implements && cls.implements.length > 0) {
@@ -248,14 +259,19 @@ export class MarkdownGenerator {
     const lines: string[] = [];
     lines.push(`### ${num}. ${func.name}()`);
     lines.push(`purpose: ${func.purpose ?? 'Function implementation'}`);
+    if (func.decorators && func.decorators.length > 0) {
+      lines.push(`decorators: ${func.decorators.map((d) => `@${d}`).join(', ')}`);
+    }
 
     if (func.parameters && func.parameters.length > 0) {
       const params = func.parameters
         .map((p) => {
           let param = p.name;
-          if (!p.required) param += '?';
+          if (!p.required && p.default === undefined && !p.isVariadic) param += '?';
           if (p.type) param += `: ${p.type}`;
-          if (p.isVariadic) param = `...${param}`;
+          if (p.default !== undefined) param += ` = ${p.default}`;
+          // Python names already carry their * / ** prefix
+          if (p.isVariadic && !p.name.startsWith('*')) param = `...${param}`;
           return param;
         })
         .join(', ');
@@ -410,7 +426,10 @@ export class MarkdownGenerator {
 
     if (exports.named && exports.named.length > 0) {
       lines.push('named_exports:');
-      exports.named.forEach((e: string) => lines.push(`  - ${e}`));
+      exports.named.slice(0, MAX_NAMED_EXPORTS).forEach((e: string) => lines.push(`  - ${e}`));
+      if (exports.named.length > MAX_NAMED_EXPORTS) {
+        lines.push(`  - ... (+${exports.named.length - MAX_NAMED_EXPORTS} more)`);
+      }
     }
 
     if (exports.public && exports.public.length > 0) {
@@ -418,6 +437,28 @@ export class MarkdownGenerator {
       exports.public.forEach((e: string) => lines.push(`  - ${e}`));
     }
 
+    if (exports.entryPoints && exports.entryPoints.length > 0) {
+      lines.push('entry_points:');
+      for (const entry of exports.entryPoints) {
+        lines.push(`  - ${entry.name} (${entry.file})`);
+        if (entry.default) lines.push(`    default: ${entry.default}`);
+        if (entry.named.length > 0) {
+          // Renamed re-exports read like the statement that created them
+          const originals = new Map(
+            (entry.symbols ?? [])
+              .filter((symbol) => symbol.originalName !== symbol.name)
+              .map((symbol) => [symbol.name, symbol.originalName]),
+          );
+          const shown = entry.named
+            .slice(0, MAX_ENTRY_POINT_EXPORTS)
+            .map((name) => (originals.has(name) ? `${originals.get(name)} as ${name}` : name))
+            .join(', ');
+          const hidden = entry.named.length - MAX_ENTRY_POINT_EXPORTS;
+          lines.push(`    exports: ${shown}${hidden > 0 ? ` (+${hidden} more)` : ''}`);
+        }
+      }
+    }
+
     lines.push('');
     return lines.join('\n');
   }
@@ -0,0 +1,45 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { stat } from 'node:fs/promises';
+import { resolve } from 'node:path';
+import { ProjectNotFoundError } from '#types.js';
+
+/**
+ * The project a request works on. One server process can serve several projects (an
+ * HTTP session per editor window), so the root travels with the request instead of
+ * being read from process.cwd() by every scanner and cache
+ */
+const projectRoot = new AsyncLocalStorage<string>();
+
+/**
+ * Root of the project the current request targets, or the working directory
+ */
+export function getProjectRoot(): string {
+  return projectRoot.getStore() ?? process.cwd();
+}
+
+/**
+ * Run fn, and everything it awaits, against the given project root
+ */
+export function runInProject<T>(root: string, fn: () => T): T {
+  return projectRoot.run(root, fn);
+}
+
+/**
+ * Run fn against a tool's projectPath argument, resolved against the current project;
+ * without one, fn runs against the current project
+ */
+export async function withProjectPath<T>(
+  projectPath: string | undefined,
+  fn: () => Promise<T>,
+): Promise<T> {
+  if (projectPath === undefined) {
+    return fn();
+  }
+
+  const root = resolve(getProjectRoot(), projectPath);
+  const stats = await stat(root).catch(() => null);
+  if (!stats?.isDirectory()) {
+    throw new ProjectNotFoundError(projectPath);
+  }
+  return runInProject(root, fn);
+}
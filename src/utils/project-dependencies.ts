@@ -0,0 +1,150 @@
+/**
+ * Dependencies the project declares in its manifests
+ * package.json for JavaScript; pyproject.toml (PEP 621, PEP 735 and Poetry tables) and
+ * requirements.txt for Python, parsed by the uv and pip adapters
+ */
+
+import { promises as fs } from 'node:fs';
+import { join } from 'node:path';
+import * as TOML from 'smol-toml';
+import { UVAdapter } from '#bottles/package-managers/uv';
+import { PipAdapter } from '#bottles/package-managers/pip';
+import { ShellRPC } from '#bottles/shell-rpc';
+import { VolumeController } from '#bottles/volume-controller';
+import type { EnvironmentInfo as BottleEnvironment } from '#bottles/environment-detector';
+import { getProjectRoot } from '#utils/project-context.js';
+
+export interface ProjectDependencies {
+  javascript: Set<string>;
+  python: Set<string>; // Normalized per PEP 503
+}
+
+/**
+ * PEP 503 name: case-insensitive, with runs of "-", "_" and "." equivalent
+ */
+export function normalizePythonName(name: string): string {
+  return name.toLowerCase().replace(/[-_.]+/g, '-');
+}
+
+/**
+ * Name of a PEP 508 requirement: "Flask[async]>=3.0; python_version >= '3.9'" -> "flask"
+ */
+function requirementName(requirement: string): string | null {
+  const match = /^\s*([A-Za-z0-9][A-Za-z0-9._-]*)/.exec(requirement);
+  return match?.[1] ? normalizePythonName(match[1]) : null;
+}
+
+/**
+ * Both adapters parse manifests without running their package manager, so they get a
+ * shell that is never started and no detected environment
+ */
+export function createManifestParsers(projectRoot: string): { uv: UVAdapter; pip: PipAdapter } {
+  const shellRPC = new ShellRPC({ cwd: projectRoot });
+  const volumeController = new VolumeController('project-dependencies', {
+    projectDir: projectRoot,
+    skipAutoDetection: true,
+  });
+  const environment: BottleEnvironment = {
+    pip: { available: false },
+    uv: { available: false },
+    detected: false,
+    timestamp: Date.now(),
+  };
+  return {
+    uv: new UVAdapter(shellRPC, volumeController, environment, projectRoot),
+    pip: new PipAdapter(shellRPC, volumeController, environment, projectRoot),
+  };
+}
+
+async function readJavaScriptDependencies(projectRoot: string, deps: Set<string>): Promise<void> {
+  try {
+    const packageJson = await fs.readFile(join(projectRoot, 'package.json'), 'utf-8');
+    const pkg = JSON.parse(packageJson) as Record<string, unknown>;
+    for (const field of ['dependencies', 'devDependencies', 'peerDependencies']) {
+      Object.keys((pkg[field] as Record<string, string> | undefined) ?? {}).forEach((dep) =>
+        deps.add(dep),
+      );
+    }
+  } catch {
+    // Not a Node.js project or no package.json
+  }
+}
+
+interface PoetryConfig {
+  dependencies?: Record<string, unknown>;
+  'dev-dependencies'?: Record<string, unknown>;
+  group?: Record<string, { dependencies?: Record<string, unknown> }>;
+}
+
+/**
+ * [project] dependencies and optional-dependencies, [dependency-groups] and
+ * [tool.uv] dev-dependencies; Poetry keeps its dependencies in [tool.poetry] tables
+ */
+async function readPyprojectDependencies(
+  projectRoot: string,
+  uv: UVAdapter,
+  deps: Set<string>,
+): Promise<void> {
+  let content: string;
+  try {
+    content = await fs.readFile(join(projectRoot, 'pyproject.toml'), 'utf-8');
+  } catch {
+    return; // Not a pyproject.toml project
+  }
+
+  const requirements: unknown[] = [];
+  const config = uv.parsePyprojectToml(content);
+  if (config) {
+    requirements.push(
+      ...config.dependencies,
+      ...config.devDependencies,
+      ...Object.values(config.optionalDependencies).flat(),
+      // { include-group = "test" } entries are skipped; the included group is listed itself
+      ...Object.values(config.dependencyGroups ?? {}).flat(),
+    );
+  }
+  for (const requirement of requirements) {
+    const name = typeof requirement === 'string' ? requirementName(requirement) : null;
+    if (name) deps.add(name);
+  }
+
+  try {
+    const poetry = (TOML.parse(content) as { tool?: { poetry?: PoetryConfig } }).tool?.poetry;
+    const tables = [
+      poetry?.dependencies,
+      poetry?.['dev-dependencies'],
+      ...Object.values(poetry?.group ?? {}).map((group) => group.dependencies),
+    ];
+    for (const table of tables) {
+      for (const name of Object.keys(table ?? {})) {
+        if (name !== 'python') deps.add(normalizePythonName(name));
+      }
+    }
+  } catch {
+    // Invalid TOML; the uv adapter already reported it
+  }
+}
+
+/**
+ * Dependencies declared in package.json, pyproject.toml and requirements.txt (with the
+ * files it includes through -r)
+ */
+export async function getProjectDependencies(): Promise<ProjectDependencies> {
+  const projectRoot = getProjectRoot();
+  const deps: ProjectDependencies = { javascript: new Set(), python: new Set() };
+  const { uv, pip } = createManifestParsers(projectRoot);
+
+  await readJavaScriptDependencies(projectRoot, deps.javascript);
+  await readPyprojectDependencies(projectRoot, uv, deps.python);
+
+  try {
+    const requirements = await pip.parseRequirementsFile(join(projectRoot, 'requirements.txt'));
+    for (const requirement of requirements) {
+      deps.python.add(normalizePythonName(requirement.name));
+    }
+  } catch {
+    // No requirements.txt
+  }
+
+  return deps;
+}
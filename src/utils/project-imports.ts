@@ -0,0 +1,134 @@
+/**
+ * Where the project's own code imports a package
+ * JavaScript and TypeScript sources go through the AST parser; Python imports are
+ * single statements, so a line scan is enough
+ */
+
+import { promises as fs } from 'node:fs';
+import { extname, join, relative } from 'node:path';
+import { ASTParser, type ImportSite } from '#parsers/ast-parser.js';
+
+const MAX_SOURCE_FILES = 500;
+const MAX_FILE_SIZE = 200_000; // Bundles and generated code are not the project's usage
+
+const SOURCE_EXTENSIONS: Record<'javascript' | 'python', string[]> = {
+  javascript: ['.js', '.jsx', '.mjs', '.cjs', '.ts', '.tsx', '.mts', '.cts'],
+  python: ['.py'],
+};
+
+// Hidden directories (.git, .venv, the cache) are skipped as well
+const SKIPPED_DIRECTORIES = new Set([
+  'node_modules',
+  'dist',
+  'build',
+  'coverage',
+  'out',
+  'venv',
+  'env',
+  '__pycache__',
+  'site-packages',
+]);
+
+/**
+ * Source files of the project, skipping installed packages and build output
+ */
+async function listSourceFiles(projectRoot: string, extensions: string[]): Promise<string[]> {
+  const files: string[] = [];
+
+  async function walk(directory: string): Promise<void> {
+    const entries = await fs.readdir(directory, { withFileTypes: true }).catch(() => []);
+    for (const entry of entries) {
+      if (files.length >= MAX_SOURCE_FILES) return;
+      if (entry.name.startsWith('.')) continue;
+
+      const path = join(directory, entry.name);
+      if (entry.isDirectory()) {
+        if (!SKIPPED_DIRECTORIES.has(entry.name)) await walk(path);
+      } else if (
+        entry.isFile() &&
+        extensions.includes(extname(entry.name)) &&
+        !/\.d\.[mc]?ts$/.test(entry.name)
+      ) {
+        const stats = await fs.stat(path);
+        if (stats.size <= MAX_FILE_SIZE) files.push(path);
+      }
+    }
+  }
+
+  await walk(projectRoot);
+  return files;
+}
+
+/**
+ * Python imports use the module name, which for most distributions is the
+ * normalized package name (PyYAML -> yaml is the exception, not the rule)
+ */
+function findPythonImports(file: string, source: string, packageName: string): ImportSite[] {
+  const moduleName = packageName.toLowerCase().replace(/[-.]/g, '_');
+  const importsPackage = (module: string): boolean =>
+    module === moduleName || module.startsWith(`${moduleName}.`);
+  const stripAlias = (name: string): string => name.split(/\s+as\s+/)[0]?.trim() ?? '';
+
+  const sites: ImportSite[] = [];
+  const lines = source.split('\n');
+  for (let index = 0; index < lines.length; index++) {
+    const line = (lines[index] ?? '').replace(/#.*$/, '');
+
+    const fromImport = /^\s*from\s+([\w.]+)\s+import\s+(.+)$/.exec(line);
+    if (fromImport?.[1] && fromImport[2] && importsPackage(fromImport[1])) {
+      // Parenthesized imports may span several lines
+      let imported = fromImport[2];
+      let end = index;
+      if (imported.includes('(')) {
+        while (!imported.includes(')') && end + 1 < lines.length) {
+          imported += ` ${(lines[++end] ?? '').replace(/#.*$/, '')}`;
+        }
+      }
+      const names = imported
+        .replace(/[()\\]/g, ' ')
+        .split(',')
+        .map(stripAlias)
+        .filter((name) => name.length > 0);
+      sites.push({ file, line: index + 1, specifier: fromImport[1], names });
+      index = end;
+      continue;
+    }
+
+    const plainImport = /^\s*import\s+(.+)$/.exec(line);
+    if (plainImport?.[1]) {
+      for (const module of plainImport[1].split(',').map(stripAlias)) {
+        if (importsPackage(module)) {
+          sites.push({ file, line: index + 1, specifier: module, names: ['*'] });
+        }
+      }
+    }
+  }
+  return sites;
+}
+
+/**
+ * Every place in the project's sources that imports the package, ordered by file and line
+ */
+export async function findProjectImports(
+  projectRoot: string,
+  packageName: string,
+  language: 'javascript' | 'python',
+): Promise<ImportSite[]> {
+  const files = await listSourceFiles(projectRoot, SOURCE_EXTENSIONS[language]);
+
+  if (language === 'javascript') {
+    const parser = new ASTParser();
+    try {
+      return parser.findImports(projectRoot, files, packageName);
+    } finally {
+      parser.clear();
+    }
+  }
+
+  const sites: ImportSite[] = [];
+  for (const path of files) {
+    const source = await fs.readFile(path, 'utf-8');
+    sites.push(...findPythonImports(relative(projectRoot, path), source, packageName));
+  }
+  return sites;
+}
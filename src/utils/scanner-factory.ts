@@ -1,6 +1,8 @@
 import { PythonScanner } from '#scanners/python.js';
 import { NodeJSScanner } from '#scanners/nodejs.js';
+import { CompositeScanner } from '#scanners/composite.js';
 import type { IPackageScanner } from '#scanners/types.js';
+import { getProjectRoot } from '#utils/project-context.js';
 
 /**
  * Registry of available scanners
@@ -9,24 +11,57 @@ const SCANNERS = [NodeJSScanner, PythonScanner] as const;
 
 /**
  * Detects the project type and creates the appropriate scanner
- * @param basePath The base path to scan from (defaults to cwd)
- * @returns The appropriate scanner for the detected environment
+ * @param basePath The base path to scan from (defaults to the current project root)
+ * @returns The scanner for the detected environment, or a composite scanner when the
+ * project has several (e.g. package.json and a .venv side by side)
  */
 export async function detectAndCreateScanner(
-  basePath: string = process.cwd(),
+  basePath: string = getProjectRoot(),
 ): Promise<IPackageScanner> {
-  // Try each scanner in order
+  const detected: IPackageScanner[] = [];
   for (const ScannerClass of SCANNERS) {
     const scanner = new ScannerClass(basePath);
     if (await scanner.canHandle(basePath)) {
       console.error(
         `[SCAN] Detected ${scanner.language} project (${scanner.supportedPackageManagers.join('/')} support)`,
       );
-      return scanner as IPackageScanner;
+      detected.push(scanner);
     }
   }
 
+  if (detected.length > 1) {
+    return new CompositeScanner(detected);
+  }
+  if (detected[0]) {
+    return detected[0];
+  }
+
   // Default to Python scanner for backward compatibility
   console.error('[SCAN] No specific environment detected, defaulting to Python scanner');
   return new PythonScanner(basePath) as IPackageScanner;
 }
+
+const projectScanners = new Map<string, Promise<IPackageScanner>>();
+
+/**
+ * The scanner of a project, detected once and kept for later calls so each project root
+ * has one scanner with its resolved environment paths
+ */
+export function getProjectScanner(
+  projectRoot: string = getProjectRoot(),
+): Promise<IPackageScanner> {
+  let scanner = projectScanners.get(projectRoot);
+  if (!scanner) {
+    scanner = detectAndCreateScanner(projectRoot);
+    projectScanners.set(projectRoot, scanner);
+    scanner.catch(() => projectScanners.delete(projectRoot));
+  }
+  return scanner;
+}
+
+/**
+ * Forget a project's scanner, e.g. after an install may have changed what it detected
+ */
+export function resetProjectScanner(projectRoot: string = getProjectRoot()): void {
+  projectScanners.delete(projectRoot);
+}
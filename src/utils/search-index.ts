@@ -0,0 +1,69 @@
+/**
+ * Full-text search documents for the FTS5 package index
+ *
+ * Each cached package becomes one document made of its name, description,
+ * component names, doc comment text and README
+ */
+
+import type { UnifiedPackageContent } from '#types/unified-schema.js';
+import { collectSymbols } from '#utils/symbol-index.js';
+
+export interface SearchDocument {
+  name: string;
+  description: string;
+  symbols: string;
+  purposes: string;
+  readme: string;
+}
+
+/**
+ * Build the searchable document for a package
+ */
+export function buildSearchDocument(name: string, content?: UnifiedPackageContent): SearchDocument {
+  if (!content) {
+    return { name: splitIdentifier(name), description: '', symbols: '', purposes: '', readme: '' };
+  }
+
+  const symbolNames = new Set(collectSymbols(content).map((symbol) => symbol.name));
+  const { components } = content;
+  const purposes = [
+    ...components.classes.map((cls) => cls.purpose),
+    ...components.functions.map((func) => func.purpose),
+    ...(components.interfaces ?? []).map((iface) => iface.purpose),
+  ].filter((purpose): purpose is string => Boolean(purpose));
+
+  return {
+    name: splitIdentifier(name),
+    description: content.metadata.description ?? '',
+    symbols: [...symbolNames].map(splitIdentifier).join('\n'),
+    purposes: purposes.join('\n'),
+    readme: content.documentation?.readme ?? '',
+  };
+}
+
+/**
+ * Turn a free-text query into an FTS5 MATCH expression
+ * Terms are quoted so punctuation cannot break the query syntax, and OR-ed so
+ * documents matching more terms rank higher instead of requiring every word
+ */
+export function buildMatchQuery(query: string): string | null {
+  const terms = query.match(/[\p{L}\p{N}_]+/gu);
+  if (!terms || terms.length === 0) {
+    return null;
+  }
+  return [...new Set(terms.map((term) => term.toLowerCase()))]
+    .map((term) => `"${term}"`)
+    .join(' OR ');
+}
+
+/**
+ * Keep the original identifier and add its words, so "retryWithBackoff"
+ * also matches "retry with backoff"
+ */
+function splitIdentifier(identifier: string): string {
+  const words = identifier
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .replace(/[_\-./@]+/g, ' ')
+    .trim();
+  return words === identifier ? identifier : `${identifier} ${words}`;
+}
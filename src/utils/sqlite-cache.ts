@@ -3,10 +3,24 @@ import { pack, unpack } from 'msgpackr';
 import { join, dirname } from 'node:path';
 import { fileURLToPath } from 'node:url';
 import { existsSync, mkdirSync, readFileSync } from 'node:fs';
-import type { SQLiteCacheConfig, EnvironmentRow, PackageRow } from '#types.js';
+import type {
+  SQLiteCacheConfig,
+  EnvironmentRow,
+  PackageRow,
+  SymbolRow,
+  SymbolKind,
+  ContentSearchRow,
+  InstallationRow,
+  DependencyNodeRow,
+  DependencyEdgeRow,
+  PackageVersionRow,
+} from '#types.js';
 import type { ScanResult, BasicPackageInfo, EnvironmentInfo } from '#scanners/types.js';
 import type { UnifiedPackageContent } from '#types/unified-schema.js';
 import { getSQLiteDbPath } from '#utils/cache-paths.js';
+import { collectSymbols } from '#utils/symbol-index.js';
+import { buildSearchDocument } from '#utils/search-index.js';
+import type { DependencyGraph } from '#utils/dependency-graph.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
@@ -36,6 +50,31 @@ export class SQLiteCache {
     getTopPackages: Database.Statement;
     searchPackages: Database.Statement;
 
+    // Installation operations
+    insertInstallation: Database.Statement;
+    getInstallationsByEnv: Database.Statement;
+
+    // Symbol operations
+    insertSymbol: Database.Statement;
+    searchSymbols: Database.Statement;
+    countIndexedPackages: Database.Statement;
+
+    // Full-text search operations
+    insertSearchDocument: Database.Statement;
+    searchContent: Database.Statement;
+
+    // Dependency graph operations
+    deleteDependencyGraph: Database.Statement;
+    insertDependencyNode: Database.Statement;
+    insertDependencyEdge: Database.Statement;
+    getDependencyNodes: Database.Statement;
+    getDependencyEdges: Database.Statement;
+
+    // Version history operations
+    upsertPackageVersion: Database.Statement;
+    getPackageVersion: Database.Statement;
+    listPackageVersions: Database.Statement;
+
     // Stats operations
     getStats: Database.Statement;
     updateLastAccess: Database.Statement;
@@ -152,6 +191,136 @@ export class SQLiteCache {
         ORDER BY name ASC
       `),
 
+      // Installation operations
+      insertInstallation: this.db.prepare(`
+        INSERT INTO package_installations (
+          package_id, version, location, is_real_path, dependent_path
+        ) VALUES (?, ?, ?, ?, ?)
+      `),
+
+      getInstallationsByEnv: this.db.prepare(`
+        SELECT p.name AS package_name, i.version, i.location, i.is_real_path, i.dependent_path
+        FROM package_installations i
+        JOIN packages p ON i.package_id = p.id
+        WHERE p.environment_id = ?
+        ORDER BY i.id ASC
+      `),
+
+      // Symbol operations
+      insertSymbol: this.db.prepare(`
+        INSERT INTO package_symbols (
+          package_id, name, kind, signature, source_file, is_exported
+        ) VALUES (?, ?, ?, ?, ?, ?)
+      `),
+
+      searchSymbols: this.db.prepare(`
+        SELECT s.*, p.name AS package_name, p.version AS package_version
+        FROM package_symbols s
+        JOIN packages p ON s.package_id = p.id
+        JOIN environments e ON p.environment_id = e.id
+        WHERE e.partition_key = @partitionKey
+          AND s.name LIKE @pattern ESCAPE '\\'
+          AND (@kind IS NULL OR s.kind = @kind)
+          AND (@includeInternal = 1 OR s.is_exported = 1)
+        ORDER BY
+          CASE
+            WHEN s.name = @query COLLATE NOCASE THEN 0
+            WHEN s.name LIKE @prefix ESCAPE '\\' THEN 1
+            ELSE 2
+          END,
+          length(s.name) ASC,
+          p.name ASC
+        LIMIT @limit
+      `),
+
+      countIndexedPackages: this.db.prepare(`
+        SELECT COUNT(DISTINCT s.package_id) AS count
+        FROM package_symbols s
+        JOIN packages p ON s.package_id = p.id
+        JOIN environments e ON p.environment_id = e.id
+        WHERE e.partition_key = ?
+      `),
+
+      // Full-text search operations
+      insertSearchDocument: this.db.prepare(`
+        INSERT OR REPLACE INTO package_search (
+          rowid, name, description, symbols, purposes, readme
+        ) VALUES (?, ?, ?, ?, ?, ?)
+      `),
+
+      searchContent: this.db.prepare(`
+        SELECT
+          p.name AS package_name,
+          p.version AS package_version,
+          bm25(package_search, 10.0, 4.0, 6.0, 3.0, 1.0) AS rank,
+          snippet(package_search, -1, '**', '**', '…', 12) AS snippet
+        FROM package_search
+        JOIN packages p ON p.id = package_search.rowid
+        JOIN environments e ON p.environment_id = e.id
+        WHERE package_search MATCH @match AND e.partition_key = @partitionKey
+        ORDER BY rank
+        LIMIT @limit
+      `),
+
+      // Dependency graph operations
+      deleteDependencyGraph: this.db.prepare(`
+        DELETE FROM dependency_nodes WHERE environment_id = ?
+      `),
+
+      insertDependencyNode: this.db.prepare(`
+        INSERT INTO dependency_nodes (
+          environment_id, name, version, location, language, is_direct
+        ) VALUES (?, ?, ?, ?, ?, ?)
+      `),
+
+      insertDependencyEdge: this.db.prepare(`
+        INSERT INTO dependency_edges (
+          node_id, name, range, kind, resolved_node_id, satisfies
+        ) VALUES (?, ?, ?, ?, ?, ?)
+      `),
+
+      getDependencyNodes: this.db.prepare(`
+        SELECT n.*
+        FROM dependency_nodes n
+        JOIN environments e ON n.environment_id = e.id
+        WHERE e.partition_key = ?
+        ORDER BY n.id ASC
+      `),
+
+      getDependencyEdges: this.db.prepare(`
+        SELECT d.node_id, d.name, d.range, d.kind, d.resolved_node_id, d.satisfies
+        FROM dependency_edges d
+        JOIN dependency_nodes n ON d.node_id = n.id
+        JOIN environments e ON n.environment_id = e.id
+        WHERE e.partition_key = ?
+        ORDER BY d.id ASC
+      `),
+
+      // Version history operations
+      upsertPackageVersion: this.db.prepare(`
+        INSERT INTO package_versions (environment_id, name, version, language, unified_content)
+        VALUES (?, ?, ?, ?, ?)
+        ON CONFLICT(environment_id, name, version) DO UPDATE SET
+          language = excluded.language,
+          unified_content = excluded.unified_content,
+          extracted_at = CURRENT_TIMESTAMP
+      `),
+
+      getPackageVersion: this.db.prepare(`
+        SELECT v.version, v.language, v.unified_content, v.extracted_at
+        FROM package_versions v
+        JOIN environments e ON v.environment_id = e.id
+        WHERE e.partition_key = ? AND v.name = ? AND v.version = ?
+      `),
+
+      listPackageVersions: this.db.prepare(`
+        SELECT v.version, v.language, v.extracted_at
+        FROM package_versions v
+        JOIN environments e ON v.environment_id = e.id
+        WHERE e.partition_key = ? AND v.name = ?
+        ORDER BY v.extracted_at DESC, v.id DESC
+      `),
+
       // Stats operations
       getStats: this.db.prepare(`
         SELECT
@@ -198,6 +367,7 @@ export class SQLiteCache {
 
         // Clear old packages
         this.statements.deletePackagesByEnv.run(environmentId);
+        this.statements.deleteDependencyGraph.run(environmentId);
       } else {
         // Insert new environment
         // Determine language from packages or default to javascript
@@ -223,7 +393,7 @@ export class SQLiteCache {
         // Pack unified content separately
         const unifiedContentBlob = pkg.unifiedContent ? pack(pkg.unifiedContent) : null;
 
-        this.statements.insertPackage.run(
+        const packageResult = this.statements.insertPackage.run(
           environmentId,
           name,
           pkg.version,
@@ -232,6 +402,57 @@ export class SQLiteCache {
           pkg.hasTypes ? 1 : 0, // has_type_definitions
           unifiedContentBlob, // Store unified content
         );
+
+        // Record where symlinks point and which other copies are installed
+        const packageId = packageResult.lastInsertRowid;
+        if (pkg.realPath) {
+          this.statements.insertInstallation.run(packageId, pkg.version, pkg.realPath, 1, null);
+        }
+        for (const installation of pkg.installations ?? []) {
+          this.statements.insertInstallation.run(
+            packageId,
+            installation.version,
+            installation.location,
+            0,
+            installation.dependentPath ? JSON.stringify(installation.dependentPath) : null,
+          );
+        }
+
+        // Index the package for full-text search
+        const document = buildSearchDocument(name, pkg.unifiedContent);
+        this.statements.insertSearchDocument.run(
+          packageResult.lastInsertRowid,
+          document.name,
+          document.description,
+          document.symbols,
+          document.purposes,
+          document.readme,
+        );
+
+        // Keep the content of this version once the package is upgraded
+        if (unifiedContentBlob && (pkg.language === 'javascript' || pkg.language === 'python')) {
+          this.statements.upsertPackageVersion.run(
+            environmentId,
+            pkg.name,
+            pkg.version,
+            pkg.language,
+            unifiedContentBlob,
+          );
+        }
+
+        // Index symbols so they can be searched without unpacking content
+        if (pkg.unifiedContent) {
+          for (const symbol of collectSymbols(pkg.unifiedContent)) {
+            this.statements.insertSymbol.run(
+              packageResult.lastInsertRowid,
+              symbol.name,
+              symbol.kind,
+              symbol.signature,
+              symbol.sourceFile ?? null,
+              symbol.isExported ? 1 : 0,
+            );
+          }
+        }
       }
     });
 
@@ -285,6 +506,25 @@ export class SQLiteCache {
       packageMap[pkg.name] = result;
     }
 
+    // Attach symlink targets and additional installed copies
+    const installations = this.statements.getInstallationsByEnv.all(env.id) as InstallationRow[];
+    for (const row of installations) {
+      const pkg = packageMap[row.package_name];
+      if (!pkg) continue;
+
+      if (row.is_real_path) {
+        pkg.realPath = row.location;
+      } else {
+        (pkg.installations ??= []).push({
+          version: row.version,
+          location: row.location,
+          ...(row.dependent_path && {
+            dependentPath: JSON.parse(row.dependent_path) as string[],
+          }),
+        });
+      }
+    }
+
     const environment = unpack(env.metadata) as EnvironmentInfo;
 
     // Set packageManager from environment for all packages
@@ -308,6 +548,163 @@ export class SQLiteCache {
     return result;
   }
 
+  /**
+   * Replace the dependency graph of a scanned partition
+   */
+  saveDependencyGraph(partitionKey: string, graph: DependencyGraph): void {
+    const env = this.statements.getEnvironment.get(partitionKey) as EnvironmentRow | undefined;
+    if (!env) {
+      return;
+    }
+
+    const transaction = this.db.transaction(() => {
+      this.statements.deleteDependencyGraph.run(env.id);
+
+      // Edges refer to nodes by their index in the graph, rows by id
+      const nodeIds = graph.nodes.map(
+        (node) =>
+          this.statements.insertDependencyNode.run(
+            env.id,
+            node.name,
+            node.version,
+            node.location,
+            node.language,
+            node.direct ? 1 : 0,
+          ).lastInsertRowid,
+      );
+      for (const edge of graph.edges) {
+        this.statements.insertDependencyEdge.run(
+          nodeIds[edge.from],
+          edge.name,
+          edge.range,
+          edge.kind,
+          edge.to === null ? null : nodeIds[edge.to],
+          edge.satisfies ? 1 : 0,
+        );
+      }
+    });
+
+    transaction();
+  }
+
+  /**
+   * Get the dependency graph of a partition, null when none was saved since its last scan
+   */
+  getDependencyGraph(partitionKey: string): DependencyGraph | null {
+    const nodes = this.statements.getDependencyNodes.all(partitionKey) as DependencyNodeRow[];
+    if (nodes.length === 0) {
+      return null;
+    }
+
+    const indexes = new Map(nodes.map((node, index) => [node.id, index]));
+    const edges = this.statements.getDependencyEdges.all(partitionKey) as DependencyEdgeRow[];
+
+    return {
+      nodes: nodes.map((node) => ({
+        name: node.name,
+        version: node.version,
+        location: node.location,
+        language: node.language,
+        direct: Boolean(node.is_direct),
+      })),
+      edges: edges.map((edge) => ({
+        from: indexes.get(edge.node_id) ?? -1,
+        name: edge.name,
+        range: edge.range,
+        kind: edge.kind,
+        to: edge.resolved_node_id === null ? null : (indexes.get(edge.resolved_node_id) ?? null),
+        satisfies: Boolean(edge.satisfies),
+      })),
+    };
+  }
+
+  /**
+   * Record the extracted content of one version of a package, e.g. of an installed copy
+   * other than the primary one. The history is kept when packages are rescanned
+   */
+  savePackageVersion(
+    partitionKey: string,
+    name: string,
+    version: string,
+    language: 'javascript' | 'python',
+    content: UnifiedPackageContent,
+  ): void {
+    const env = this.statements.getEnvironment.get(partitionKey) as EnvironmentRow | undefined;
+    if (!env) {
+      return;
+    }
+    this.statements.upsertPackageVersion.run(env.id, name, version, language, pack(content));
+  }
+
+  /**
+   * Get the content recorded for one version of a package
+   */
+  getPackageVersion(
+    partitionKey: string,
+    name: string,
+    version: string,
+  ): UnifiedPackageContent | null {
+    const row = this.statements.getPackageVersion.get(partitionKey, name, version) as
+      PackageVersionRow | undefined;
+    return row ? (unpack(row.unified_content) as UnifiedPackageContent) : null;
+  }
+
+  /**
+   * List the versions of a package with recorded content, most recently extracted first
+   */
+  listPackageVersions(
+    partitionKey: string,
+    name: string,
+  ): { version: string; language: 'javascript' | 'python'; extractedAt: string }[] {
+    const rows = this.statements.listPackageVersions.all(partitionKey, name) as Omit<
+      PackageVersionRow,
+      'unified_content'
+    >[];
+    return rows.map((row) => ({
+      version: row.version,
+      language: row.language,
+      extractedAt: row.extracted_at,
+    }));
+  }
+
+  /**
+   * Search indexed symbols across all packages of a partition
+   * Exact matches rank first, then prefix matches, then substring matches
+   */
+  searchSymbols(
+    partitionKey: string,
+    query: string,
+    options: { kind?: SymbolKind; includeInternal?: boolean; limit?: number } = {},
+  ): SymbolRow[] {
+    const escaped = query.replace(/[\\%_]/g, (char) => `\\${char}`);
+
+    return this.statements.searchSymbols.all({
+      partitionKey,
+      query,
+      pattern: `%${escaped}%`,
+      prefix: `${escaped}%`,
+      kind: options.kind ?? null,
+      includeInternal: options.includeInternal ? 1 : 0,
+      limit: options.limit ?? 25,
+    }) as SymbolRow[];
+  }
+
+  /**
+   * Full-text search over package names, descriptions, symbols, docs and READMEs
+   * @param match An FTS5 MATCH expression
+   */
+  searchContent(partitionKey: string, match: string, limit = 10): ContentSearchRow[] {
+    return this.statements.searchContent.all({ partitionKey, match, limit }) as ContentSearchRow[];
+  }
+
+  /**
+   * Count packages in a partition that have indexed symbols
+   */
+  countIndexedPackages(partitionKey: string): number {
+    const row = this.statements.countIndexedPackages.get(partitionKey) as { count: number };
+    return row.count;
+  }
+
   /**
    * Check if cache is valid for a partition
    */
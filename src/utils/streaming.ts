@@ -2,19 +2,62 @@
  * Streaming utility for real-time progress feedback
  */
 
-import type { StreamEvent, StreamCallback } from '#types/streaming.js';
+import { AsyncLocalStorage } from 'node:async_hooks';
+import type { StreamEvent, StreamCallback, ScanReporter } from '#types/streaming.js';
+
+// Where the scans of the current request report to, e.g. an MCP client's progress token
+const requestReporter = new AsyncLocalStorage<ScanReporter>();
+
+/**
+ * Run fn, and every scan it starts, with the request's progress callback and abort signal
+ */
+export function runWithScanReporter<T>(reporter: ScanReporter, fn: () => T): T {
+  return requestReporter.run(reporter, fn);
+}
+
+/**
+ * Stream for a scan: logs to the console when VERBOSE or DEBUG is set and forwards to the
+ * current request's reporter, whose signal cancels the scan
+ */
+export function createScanStream(): StreamManager {
+  const reporter = requestReporter.getStore();
+  const verbose =
+    process.env.VERBOSE === '1' || (process.env.DEBUG?.includes('mcp-pkg-local') ?? false);
+
+  const callbacks = [verbose && createConsoleStream(), reporter?.onEvent].filter(
+    (callback): callback is StreamCallback => typeof callback === 'function',
+  );
+  const callback: StreamCallback | undefined =
+    callbacks.length > 1
+      ? async (event) => {
+          for (const forward of callbacks) await forward(event);
+        }
+      : callbacks[0];
+
+  return new StreamManager(callback, 50, reporter?.signal);
+}
 
 export class StreamManager {
   private readonly callback?: StreamCallback;
   private lastEmitTime = 0;
   private readonly throttleMs: number;
+  private readonly signal?: AbortSignal;
 
-  constructor(callback?: StreamCallback, throttleMs = 50) {
+  constructor(callback?: StreamCallback, throttleMs = 50, signal?: AbortSignal) {
     this.callback = callback;
     this.throttleMs = throttleMs;
+    this.signal = signal;
+  }
+
+  /**
+   * Abort the scan when its request was cancelled; every event is a cancellation point
+   */
+  throwIfCancelled(): void {
+    this.signal?.throwIfAborted();
   }
 
   async emit(event: Omit<StreamEvent, 'timestamp'>): Promise<void> {
+    this.throwIfCancelled();
     if (!this.callback) {
       return;
     }
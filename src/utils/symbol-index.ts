@@ -0,0 +1,123 @@
+/**
+ * Symbol extraction for the cross-package symbol index
+ *
+ * Flattens the components of a UnifiedPackageContent into searchable records
+ * that are stored alongside the package in the SQLite cache
+ */
+
+import type {
+  UnifiedPackageContent,
+  ParameterInfo,
+  ComponentFunction,
+} from '#types/unified-schema.js';
+import type { SymbolKind } from '#types.js';
+
+export interface PackageSymbol {
+  name: string;
+  kind: SymbolKind;
+  signature: string;
+  sourceFile?: string;
+  isExported: boolean;
+}
+
+const MAX_SIGNATURE_LENGTH = 200;
+
+/**
+ * Collect every named component of a package as a flat symbol list
+ */
+export function collectSymbols(content: UnifiedPackageContent): PackageSymbol[] {
+  const symbols: PackageSymbol[] = [];
+  const { components } = content;
+
+  for (const cls of components.classes) {
+    const heritage = cls.extends ? ` extends ${cls.extends}` : '';
+    symbols.push({
+      name: cls.name,
+      kind: 'class',
+      signature: truncate(`${cls.isAbstract ? 'abstract ' : ''}class ${cls.name}${heritage}`),
+      sourceFile: cls.sourceFile,
+      isExported: cls.visibility !== 'private',
+    });
+  }
+
+  for (const func of components.functions) {
+    symbols.push({
+      name: func.name,
+      kind: 'function',
+      signature: truncate(formatFunctionSignature(func)),
+      sourceFile: func.sourceFile,
+      isExported: func.isExported,
+    });
+  }
+
+  for (const iface of components.interfaces ?? []) {
+    const heritage = iface.extends?.length ? ` extends ${iface.extends.join(', ')}` : '';
+    symbols.push({
+      name: iface.name,
+      kind: 'interface',
+      signature: truncate(`interface ${iface.name}${heritage}`),
+      sourceFile: iface.sourceFile,
+      isExported: iface.isExported !== false,
+    });
+  }
+
+  for (const type of components.types ?? []) {
+    symbols.push({
+      name: type.name,
+      kind: 'type',
+      signature: truncate(`type ${type.name} = ${type.definition}`),
+      sourceFile: type.sourceFile,
+      isExported: type.isExported,
+    });
+  }
+
+  for (const enumDef of components.enums ?? []) {
+    symbols.push({
+      name: enumDef.name,
+      kind: 'enum',
+      signature: truncate(`enum ${enumDef.name} { ${enumDef.values.join(', ')} }`),
+      sourceFile: enumDef.sourceFile,
+      isExported: enumDef.isExported,
+    });
+  }
+
+  for (const constant of components.constants) {
+    symbols.push({
+      name: constant.name,
+      kind: 'constant',
+      signature: truncate(`const ${constant.name}${constant.type ? `: ${constant.type}` : ''}`),
+      sourceFile: constant.sourceFile,
+      isExported: constant.isExported,
+    });
+  }
+
+  return symbols;
+}
+
+/**
+ * Render a function signature in TypeScript-like notation
+ */
+export function formatFunctionSignature(func: ComponentFunction): string {
+  const params = func.parameters.map(formatParameter).join(', ');
+  const returns = func.returns ? `: ${func.returns.name}` : '';
+  return `${func.isAsync ? 'async ' : ''}function ${func.name}(${params})${returns}`;
+}
+
+/**
+ * Render one parameter: `name?: type`, `name: type = default` or `...rest`
+ */
+export function formatParameter(param: ParameterInfo): string {
+  let rendered = param.name;
+  if (!param.required && param.default === undefined && !param.isVariadic) rendered += '?';
+  if (param.type) rendered += `: ${param.type}`;
+  if (param.default !== undefined) rendered += ` = ${param.default}`;
+  // Python *args / **kwargs keep their own prefix
+  return param.isVariadic && !param.name.startsWith('*') ? `...${rendered}` : rendered;
+}
+
+function truncate(text: string): string {
+  const singleLine = text.replace(/\s+/g, ' ');
+  return singleLine.length > MAX_SIGNATURE_LENGTH
+    ? `${singleLine.slice(0, MAX_SIGNATURE_LENGTH - 3)}...`
+    : singleLine;
+}
@@ -0,0 +1,157 @@
+/**
+ * Token budgeting for package overviews
+ *
+ * An overview is split into sections and components, ranked by how much an agent needs
+ * them (package information and exports before the components, dependencies and
+ * configuration last), and returned in pages that fit the budget. Each page says what it
+ * left out and which cursor continues it
+ */
+
+import { McpError } from '#types.js';
+
+// Rough average for English and code; the budget is a ceiling, not an exact count
+const CHARS_PER_TOKEN = 4;
+const MAX_OMITTED_NAMES = 10;
+
+// Sections in the order they are worth spending tokens on; unknown sections go last
+const SECTION_RANKS: Array<[RegExp, number]> = [
+  [/Package Information/, 1],
+  [/Exports/, 2],
+  [/Core Components/, 3],
+  [/Dependencies/, 4],
+  [/Configuration/, 5],
+  [/Usage Patterns/, 6],
+];
+
+interface OverviewPart {
+  section: string;
+  component?: string; // One class, function or interface of the Core Components
+  rank: number;
+  lines: string[];
+}
+
+export interface BudgetedOverview {
+  content: string;
+  omitted: string[]; // Sections, or components, that did not fit in this page
+  nextCursor?: string;
+}
+
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+function sectionRank(heading: string): number {
+  return SECTION_RANKS.find(([pattern]) => pattern.test(heading))?.[1] ?? SECTION_RANKS.length + 1;
+}
+
+function sectionTitle(heading: string): string {
+  // Drop the markdown marker and the emoji: "## 🔌 Exports" -> "Exports"
+  return heading.replace(/^#+\s*/, '').replace(/^[^\p{L}\p{N}]+/u, '');
+}
+
+/**
+ * Split an overview into its parts, highest ranked first; Core Components are split into
+ * one part per component so a page can end between two of them
+ */
+function splitOverview(markdown: string): OverviewPart[] {
+  const parts: OverviewPart[] = [];
+  let current: OverviewPart = { section: 'Overview', rank: 0, lines: [] };
+  parts.push(current);
+
+  for (const line of markdown.split('\n')) {
+    if (line.startsWith('## ')) {
+      current = { section: sectionTitle(line), rank: sectionRank(line), lines: [line] };
+      parts.push(current);
+    } else if (line.startsWith('### ') && current.section === 'Core Components') {
+      current = {
+        section: current.section,
+        // "### 2. createClient()" -> "createClient"
+        component: sectionTitle(line)
+          .replace(/^\d+\.\s*/, '')
+          .replace(/\(\)$/, ''),
+        rank: current.rank,
+        lines: [line],
+      };
+      parts.push(current);
+    } else {
+      current.lines.push(line);
+    }
+  }
+
+  // Stable: parts of the same rank keep their order
+  return parts.filter((part) => part.lines.length > 0).sort((a, b) => a.rank - b.rank);
+}
+
+/**
+ * "Core Components: Program, TypeChecker (+118 more)", "Dependencies"
+ */
+function describeOmitted(parts: OverviewPart[]): string[] {
+  const omitted: string[] = [];
+  const components = new Map<string, string[]>();
+
+  for (const part of parts) {
+    if (!omitted.includes(part.section)) {
+      omitted.push(part.section);
+    }
+    if (part.component) {
+      components.set(part.section, [...(components.get(part.section) ?? []), part.component]);
+    }
+  }
+
+  return omitted.map((section) => {
+    const names = components.get(section);
+    if (!names) return section;
+    const hidden = names.length - MAX_OMITTED_NAMES;
+    return `${section}: ${names.slice(0, MAX_OMITTED_NAMES).join(', ')}${hidden > 0 ? ` (+${hidden} more)` : ''}`;
+  });
+}
+
+/**
+ * The page of an overview that starts at the cursor (a line offset into the ranked
+ * overview) and fits in maxTokens, with a footer naming what was left out
+ */
+export function budgetOverview(
+  markdown: string,
+  maxTokens: number,
+  cursor?: string,
+): BudgetedOverview {
+  const parts = splitOverview(markdown);
+  const lines = parts.flatMap((part, index) => part.lines.map((line) => ({ line, index })));
+
+  const start = cursor === undefined ? 0 : Number.parseInt(cursor, 10);
+  if (!Number.isInteger(start) || start < 0 || start >= Math.max(lines.length, 1)) {
+    throw new McpError(
+      `Invalid cursor: ${cursor}`,
+      'INVALID_CURSOR',
+      'Pass the nextCursor of the previous read-package response',
+    );
+  }
+
+  // Leave room for the footer that lists what did not fit
+  const available = maxTokens - Math.min(100, Math.floor(maxTokens / 5));
+  let end = start;
+  let used = 0;
+  while (end < lines.length) {
+    const cost = estimateTokens(`${lines[end]?.line ?? ''}\n`);
+    // Every page makes progress, even when a single line is over budget
+    if (used + cost > available && end > start) break;
+    used += cost;
+    end++;
+  }
+
+  const page = lines.slice(start, end).map(({ line }) => line);
+  if (end >= lines.length) {
+    return { content: page.join('\n'), omitted: [] };
+  }
+
+  const remaining = [...new Set(lines.slice(end).map(({ index }) => index))];
+  const omitted = describeOmitted(remaining.flatMap((index) => parts[index] ?? []));
+  const nextCursor = String(end);
+  page.push(
+    '',
+    '---',
+    `Omitted to fit ${maxTokens} tokens: ${omitted.join('; ')}`,
+    `Call read-package again with cursor "${nextCursor}" to continue`,
+  );
+  return { content: page.join('\n'), omitted, nextCursor };
+}
@@ -0,0 +1,238 @@
+/**
+ * Text renderings of tool results
+ *
+ * Tools return their result as structuredContent; the text content next to it is a
+ * compact rendering for clients and readers that do not consume structured output
+ */
+
+import type {
+  ScanResult,
+  ReadPackageResult,
+  SearchSymbolsResult,
+  SearchContentResult,
+  DependencyTreeResult,
+  CheckEnvironmentResult,
+  DiffPackageApiResult,
+} from '#types.js';
+
+type ErrorResult = Extract<ReadPackageResult, { type: 'error' }>;
+
+function formatError(result: ErrorResult): string {
+  return result.suggestion
+    ? `Error: ${result.error}\n${result.suggestion}`
+    : `Error: ${result.error}`;
+}
+
+function plural(count: number, noun: string): string {
+  return `${count} ${noun}${count === 1 ? '' : 's'}`;
+}
+
+function formatCounts(counts: Record<string, number>): string {
+  return Object.entries(counts)
+    .map(([name, count]) => `${name} ${count}`)
+    .join(', ');
+}
+
+export function formatScanResult(result: ScanResult): string {
+  const { environment } = result;
+  const environments = Object.entries(environment.environments ?? {}).map(
+    ([language, info]) => `${language}: ${info.type} at ${info.path}`,
+  );
+  const lines = [
+    environments.length > 0
+      ? `Environments: ${environments.join('; ')}`
+      : `Environment: ${environment.type} at ${environment.path}`,
+  ];
+
+  if (result.summary) {
+    lines.push(
+      `${plural(result.summary.total, 'package')} (${formatCounts(result.summary.languages)})`,
+      ...(result.categories ? [`Categories: ${formatCounts(result.categories)}`] : []),
+      'Use scope "project" to list the project dependencies',
+    );
+    return lines.join('\n');
+  }
+
+  if (result.items) {
+    const total = result.totalPackages ?? result.items.length;
+    lines.push(`${plural(result.items.length, 'package')} of ${total}:`);
+    for (const item of result.items) {
+      const name = [item.name, item.version].filter(Boolean).join('@');
+      const types = item.hasTypes === undefined ? [] : [item.hasTypes ? 'typed' : 'untyped'];
+      lines.push(`- ${[name, item.location, ...types].filter(Boolean).join(' ')}`);
+    }
+    if (result.nextCursor) {
+      lines.push(`Call scan-packages again with cursor "${result.nextCursor}" for the next page`);
+    }
+    return lines.join('\n');
+  }
+
+  const packages = Object.entries(result.packages ?? {});
+  lines.push(`${plural(packages.length, 'package')}:`);
+  for (const [key, info] of packages) {
+    const copies = info.installations ? ` (${info.installations.length} installed copies)` : '';
+    const flags = [info.dev && 'dev', info.optional && 'optional'].filter(Boolean);
+    const suffix = flags.length > 0 ? ` [${flags.join(', ')}]` : '';
+    lines.push(`- ${key}@${info.version} ${info.location}${copies}${suffix}`);
+  }
+  return lines.join('\n');
+}
+
+export function formatReadPackageResult(result: ReadPackageResult): string {
+  switch (result.type) {
+    case 'error':
+      return formatError(result);
+    case 'file':
+      return result.content;
+    case 'tree': {
+      const lines = [result.initContent ?? `# ${result.package} ${result.version}`, ''];
+      if (result.mainFiles?.length) {
+        lines.push(`Main files: ${result.mainFiles.join(', ')}`);
+      }
+      const fileCount = result.fileCount ?? result.fileTree.length;
+      const shown =
+        result.fileTree.length < fileCount
+          ? `${result.fileTree.length} of ${fileCount}`
+          : fileCount;
+      lines.push(`Files (${shown}):`, ...result.fileTree);
+      return lines.join('\n');
+    }
+  }
+}
+
+export function formatSearchSymbolsResult(result: SearchSymbolsResult): string {
+  if (result.type === 'error') {
+    return formatError(result);
+  }
+
+  const lines = [
+    `${plural(result.matches.length, 'symbol')} matching "${result.query}" in ${plural(result.indexedPackages, 'indexed package')}`,
+  ];
+  for (const match of result.matches) {
+    const source = match.sourceFile ? ` (${match.sourceFile})` : '';
+    lines.push(`- ${match.kind} ${match.name} in ${match.package}@${match.version}${source}`);
+    if (match.signature) lines.push(`  ${match.signature}`);
+  }
+  if (result.suggestion) lines.push(result.suggestion);
+  return lines.join('\n');
+}
+
+export function formatSearchContentResult(result: SearchContentResult): string {
+  if (result.type === 'error') {
+    return formatError(result);
+  }
+
+  const lines = [`${plural(result.matches.length, 'package')} matching "${result.query}"`];
+  for (const match of result.matches) {
+    lines.push(`- ${match.package}@${match.version} (score ${match.score}): ${match.snippet}`);
+  }
+  if (result.suggestion) lines.push(result.suggestion);
+  return lines.join('\n');
+}
+
+export function formatDependencyTreeResult(result: DependencyTreeResult): string {
+  if (result.type === 'error') {
+    return formatError(result);
+  }
+
+  const lines: string[] = [];
+  if (result.tree) {
+    lines.push(
+      result.package
+        ? `${result.package} pulls in ${plural(result.transitiveCount ?? 0, 'package')}:`
+        : `Project dependencies (${plural(result.totalPackages, 'installed package')}):`,
+    );
+    for (const line of result.tree) {
+      const range = line.range
+        ? ` (${line.range}${line.kind === 'runtime' ? '' : `, ${line.kind}`})`
+        : '';
+      const flags = [
+        line.conflict && 'conflict',
+        line.missing && 'missing',
+        line.circular && 'circular',
+        line.deduped && 'deduped',
+      ].filter(Boolean);
+      const suffix = flags.length > 0 ? ` [${flags.join(', ')}]` : '';
+      lines.push(`${'  '.repeat(line.depth)}- ${line.package}${range}${suffix}`);
+    }
+  }
+  if (result.paths) {
+    lines.push(`${result.package} is installed through ${plural(result.paths.length, 'path')}:`);
+    lines.push(...result.paths.map((path) => `- ${path.join(' > ')}`));
+  }
+
+  if (result.cycles.length > 0) {
+    lines.push('Cycles:', ...result.cycles.map((cycle) => `- ${cycle.join(' <> ')}`));
+  }
+  if (result.conflicts.length > 0) {
+    lines.push('Conflicts:');
+    for (const conflict of result.conflicts) {
+      const installed = conflict.installed ? `${conflict.installed} is installed` : 'not installed';
+      lines.push(
+        `- ${conflict.dependent} wants ${conflict.dependency} ${conflict.range}, ${installed}`,
+      );
+    }
+  }
+  return lines.join('\n');
+}
+
+export function formatCheckEnvironmentResult(result: CheckEnvironmentResult): string {
+  if (result.type === 'error') {
+    return formatError(result);
+  }
+
+  const lines: string[] = [];
+  for (const environment of result.environments) {
+    const lockfile = environment.lockfile
+      ? `, ${plural(environment.locked ?? 0, 'package')} locked in ${environment.lockfile}`
+      : ', no lockfile';
+    lines.push(
+      `${environment.language} (${environment.packageManager}): ${plural(environment.declared, 'declared dependency')}${lockfile}, ${environment.installed} installed`,
+    );
+    lines.push(...(environment.warnings ?? []).map((warning) => `- ${warning}`));
+    if (environment.tooling) {
+      lines.push(
+        ...environment.tooling.issues.map((issue) => `- ${issue}`),
+        ...environment.tooling.warnings.map((warning) => `- ${warning}`),
+      );
+    }
+  }
+
+  if (result.inSync) {
+    lines.push('Installed packages match the manifests and lockfiles');
+    return lines.join('\n');
+  }
+
+  lines.push(`${plural(result.issues.length, 'issue')}:`);
+  for (const issue of result.issues) {
+    const expected = [
+      issue.declared && `declared ${issue.declared}`,
+      issue.locked && `locked ${issue.locked}`,
+    ].filter(Boolean);
+    const installed = issue.installed ? `${issue.installed} installed` : 'not installed';
+    const details = [installed, ...expected].join(', ');
+    lines.push(`- ${issue.kind} ${issue.package} (${details})`);
+  }
+  lines.push('Fix:', ...result.fixes.map((fix) => `  ${fix}`));
+  return lines.join('\n');
+}
+
+export function formatDiffPackageApiResult(result: DiffPackageApiResult): string {
+  if (result.type === 'error') {
+    return formatError(result);
+  }
+
+  const { summary } = result;
+  const lines = [
+    `${result.package} ${result.from.version} (${result.from.source}) -> ${result.to.version} (${result.to.source}): ${summary.added} added, ${summary.removed} removed, ${summary.changed} changed, ${summary.breaking} breaking`,
+  ];
+  for (const change of result.changes) {
+    const where = change.entryPoint ? ` from ${change.entryPoint}` : '';
+    const values = [change.before, change.after].filter((value) => value !== undefined);
+    const details = [change.detail, values.join(' -> ')].filter(Boolean).join(': ');
+    lines.push(
+      `- ${change.breaking ? '[breaking] ' : ''}${change.change} ${change.kind} ${change.name}${where}${details ? ` (${details})` : ''}`,
+    );
+  }
+  return lines.join('\n');
+}
@@ -0,0 +1,207 @@
+/**
+ * Version range checks for the dependency graph
+ * npm semver ranges (^, ~, x-ranges, hyphen ranges, ||) and PEP 440 specifiers (==, !=,
+ * ~=, >=, wildcards). Ranges that are not versions at all (git URLs, file: and
+ * workspace: protocols, dist-tags) cannot conflict and are reported as satisfied
+ */
+
+interface ParsedVersion {
+  release: number[];
+  prerelease: string; // Empty for releases; any prerelease sorts before its release
+}
+
+type Comparator = (version: ParsedVersion) => boolean;
+
+// Partial versions ("1", "1.2", "1.x") leave the missing parts undefined
+type PartialVersion = [number?, number?, number?];
+
+function parseVersion(version: string): ParsedVersion | null {
+  // npm writes prereleases as 1.0.0-rc.1, PEP 440 as 1.0rc1 or 1.0.dev2
+  const match =
+    /^\s*v?=?\s*(\d+(?:\.\d+)*)(?:[._]?((?:a|b|c|rc|alpha|beta|pre|preview|dev)[\w.]*)|-([\w.]+))?/i.exec(
+      version,
+    );
+  if (!match?.[1]) return null;
+  return { release: match[1].split('.').map(Number), prerelease: match[2] ?? match[3] ?? '' };
+}
+
+function compareVersions(a: ParsedVersion, b: ParsedVersion): number {
+  const length = Math.max(a.release.length, b.release.length);
+  for (let index = 0; index < length; index++) {
+    const diff = (a.release[index] ?? 0) - (b.release[index] ?? 0);
+    if (diff !== 0) return diff;
+  }
+  if (a.prerelease === b.prerelease) return 0;
+  if (!a.prerelease) return 1;
+  if (!b.prerelease) return -1;
+  return a.prerelease.localeCompare(b.prerelease, undefined, { numeric: true });
+}
+
+function at(release: number[]): ParsedVersion {
+  return { release, prerelease: '' };
+}
+
+// The lowest version above every release matching a prefix: <2.0.0 also excludes 2.0.0-rc.1
+function below(release: number[]): ParsedVersion {
+  return { release, prerelease: '0' };
+}
+
+function atLeast(bound: ParsedVersion): Comparator {
+  return (version) => compareVersions(version, bound) >= 0;
+}
+
+function lessThan(bound: ParsedVersion): Comparator {
+  return (version) => compareVersions(version, bound) < 0;
+}
+
+function parsePartial(text: string): PartialVersion | null {
+  const match = /^v?(\d+|[xX*])?(?:\.(\d+|[xX*]))?(?:\.(\d+|[xX*]))?(?:[-+][\w.+-]*)?$/.exec(text);
+  if (!match) return null;
+  const parts = match
+    .slice(1, 4)
+    .map((part) => (part && /^\d+$/.test(part) ? Number(part) : undefined));
+  // "1.x.3" is as wide as "1.x"
+  const wildcard = parts.indexOf(undefined);
+  return (
+    wildcard === -1 ? parts : parts.map((part, index) => (index < wildcard ? part : undefined))
+  ) as PartialVersion;
+}
+
+/**
+ * The comparators of one npm range without "||" or hyphens: "^1.2.3", ">=1 <2", "1.x"
+ */
+function npmComparators(range: string): Comparator[] | null {
+  const comparators: Comparator[] = [];
+  // ">= 1.2" is written with a space in the wild
+  const tokens = range
+    .replace(/([<>=~^]+)\s+/g, '$1')
+    .split(/\s+/)
+    .filter(Boolean);
+
+  for (const token of tokens) {
+    const match = /^(<=|>=|<|>|=|~|\^)?(.*)$/.exec(token);
+    const operator = match?.[1] ?? '';
+    const partial = parsePartial(match?.[2] ?? '');
+    if (!partial) return null;
+
+    const [major, minor, patch] = partial;
+    const full = parseVersion(match?.[2] ?? '');
+    const lower = at([major ?? 0, minor ?? 0, patch ?? 0]);
+    if (full && patch !== undefined) lower.prerelease = full.prerelease;
+
+    // The first version past the range a partial version stands for
+    const next =
+      major === undefined
+        ? null
+        : minor === undefined
+          ? below([major + 1, 0, 0])
+          : patch === undefined
+            ? below([major, minor + 1, 0])
+            : null;
+
+    switch (operator) {
+      case '^': {
+        if (major === undefined) break;
+        const upper =
+          major > 0 || minor === undefined
+            ? [major + 1, 0, 0]
+            : minor > 0 || patch === undefined
+              ? [0, minor + 1, 0]
+              : [0, 0, patch + 1];
+        comparators.push(atLeast(lower), lessThan(below(upper)));
+        break;
+      }
+      case '~':
+        if (major === undefined) break;
+        comparators.push(
+          atLeast(lower),
+          lessThan(below(minor === undefined ? [major + 1, 0, 0] : [major, minor + 1, 0])),
+        );
+        break;
+      case '>=':
+        comparators.push(atLeast(lower));
+        break;
+      case '>':
+        comparators.push(next ? atLeast(next) : (version) => compareVersions(version, lower) > 0);
+        break;
+      case '<':
+        comparators.push(lessThan(major === undefined ? below([0, 0, 0]) : lower));
+        break;
+      case '<=':
+        comparators.push(next ? lessThan(next) : (version) => compareVersions(version, lower) <= 0);
+        break;
+      default:
+        if (major === undefined) break; // "*" and "x" match everything
+        comparators.push(
+          next
+            ? (version) => atLeast(lower)(version) && lessThan(next)(version)
+            : (version) => compareVersions(version, lower) === 0,
+        );
+    }
+  }
+  return comparators;
+}
+
+/**
+ * Whether an installed npm version satisfies a declared range
+ */
+export function satisfiesNpmRange(version: string, range: string): boolean {
+  const installed = parseVersion(version);
+  if (!installed || range.trim() === '' || range.trim() === 'latest') return true;
+
+  for (const alternative of range.split('||')) {
+    const hyphen = /^\s*(\S+)\s+-\s+(\S+)\s*$/.exec(alternative);
+    const comparators = hyphen
+      ? npmComparators(`>=${hyphen[1]} <=${hyphen[2]}`)
+      : npmComparators(alternative.trim());
+    // Not a semver range (git URL, tag, workspace: protocol): nothing to check
+    if (!comparators) return true;
+    if (comparators.every((comparator) => comparator(installed))) return true;
+  }
+  return false;
+}
+
+/**
+ * Whether an installed Python version satisfies a PEP 440 specifier set (">=1.21.1,<3")
+ */
+export function satisfiesPythonSpecifier(version: string, specifier: string): boolean {
+  const installed = parseVersion(version);
+  if (!installed) return true;
+
+  for (const clause of specifier
+    .replace(/[()\s]/g, '')
+    .split(',')
+    .filter(Boolean)) {
+    const match = /^(===|==|!=|~=|>=|<=|>|<)(.+)$/.exec(clause);
+    if (!match?.[1] || !match[2]) return true;
+    const [, operator, target] = match;
+
+    if (target.endsWith('.*')) {
+      const prefix = target.slice(0, -2).split('.').map(Number);
+      const matches = prefix.every((part, index) => installed.release[index] === part);
+      if (operator === '==' ? !matches : operator === '!=' && matches) return false;
+      continue;
+    }
+
+    const bound = parseVersion(target);
+    if (!bound) return true;
+    const comparison = compareVersions(installed, bound);
+    const satisfied = {
+      '===': version.trim() === target,
+      '==': comparison === 0,
+      '!=': comparison !== 0,
+      // ~=1.4.2 means >=1.4.2 and ==1.4.*
+      '~=':
+        comparison >= 0 &&
+        bound.release
+          .slice(0, Math.max(bound.release.length - 1, 1))
+          .every((part, index) => installed.release[index] === part),
+      '>=': comparison >= 0,
+      '<=': comparison <= 0,
+      '>': comparison > 0,
+      '<': comparison < 0,
+    }[operator];
+    if (!satisfied) return false;
+  }
+  return true;
+}
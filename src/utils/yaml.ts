@@ -0,0 +1,189 @@
+/**
+ * The YAML subset package managers write their lockfiles in (pnpm-lock.yaml, Yarn 2+
+ * yarn.lock): block mappings and sequences, quoted or plain scalars, and one-line flow
+ * mappings and sequences. Anchors, tags and multi-line strings are not supported
+ */
+
+export type YamlValue = string | boolean | null | YamlValue[] | { [key: string]: YamlValue };
+
+interface Line {
+  indent: number;
+  text: string;
+}
+
+function unquote(text: string): string {
+  if (text.length >= 2 && text.startsWith("'") && text.endsWith("'")) {
+    return text.slice(1, -1).replace(/''/g, "'");
+  }
+  if (text.length >= 2 && text.startsWith('"') && text.endsWith('"')) {
+    return JSON.parse(text) as string;
+  }
+  return text;
+}
+
+/**
+ * Index of the ":" separating a mapping key from its value, -1 when the text is not a
+ * key-value pair
+ */
+function findKeySeparator(text: string): number {
+  let index = 0;
+  if (text.startsWith('"') || text.startsWith("'")) {
+    const quote = text[0] ?? '';
+    index = 1;
+    while (index < text.length) {
+      if (text[index] === '\\' && quote === '"') {
+        index += 2;
+        continue;
+      }
+      if (text[index] === quote) {
+        // '' escapes a quote in single-quoted strings
+        if (quote === "'" && text[index + 1] === "'") {
+          index += 2;
+          continue;
+        }
+        break;
+      }
+      index++;
+    }
+    index++;
+  }
+
+  for (; index < text.length; index++) {
+    if (text[index] === ':' && (index === text.length - 1 || text[index + 1] === ' ')) {
+      return index;
+    }
+  }
+  return -1;
+}
+
+/**
+ * Split a flow collection's content on the commas between its items
+ */
+function splitFlowItems(content: string): string[] {
+  const items: string[] = [];
+  let depth = 0;
+  let quote: string | null = null;
+  let start = 0;
+  for (let index = 0; index < content.length; index++) {
+    const char = content[index];
+    if (quote) {
+      if (char === quote) quote = null;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === '{' || char === '[') {
+      depth++;
+    } else if (char === '}' || char === ']') {
+      depth--;
+    } else if (char === ',' && depth === 0) {
+      items.push(content.slice(start, index));
+      start = index + 1;
+    }
+  }
+  items.push(content.slice(start));
+  return items.map((item) => item.trim()).filter(Boolean);
+}
+
+function parseScalar(text: string): YamlValue {
+  const value = text.trim();
+  if (value.startsWith('{') && value.endsWith('}')) {
+    const mapping: Record<string, YamlValue> = {};
+    for (const item of splitFlowItems(value.slice(1, -1))) {
+      const separator = findKeySeparator(item);
+      if (separator === -1) {
+        mapping[unquote(item)] = null;
+      } else {
+        mapping[unquote(item.slice(0, separator).trim())] = parseScalar(item.slice(separator + 1));
+      }
+    }
+    return mapping;
+  }
+  if (value.startsWith('[') && value.endsWith(']')) {
+    return splitFlowItems(value.slice(1, -1)).map(parseScalar);
+  }
+  if (value === 'true' || value === 'false') return value === 'true';
+  if (value === '' || value === '~' || value === 'null') return null;
+  return unquote(value);
+}
+
+function stripComment(text: string): string {
+  // A comment starts at " #" outside quotes
+  let quote: string | null = null;
+  for (let index = 0; index < text.length; index++) {
+    const char = text[index];
+    if (quote) {
+      if (char === quote) quote = null;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === '#' && (index === 0 || text[index - 1] === ' ')) {
+      return text.slice(0, index).trimEnd();
+    }
+  }
+  return text.trimEnd();
+}
+
+function parseBlock(lines: Line[], start: number, indent: number): [YamlValue, number] {
+  const first = lines[start];
+  if (!first || first.indent < indent) {
+    return [null, start];
+  }
+
+  if (first.text === '-' || first.text.startsWith('- ')) {
+    const sequence: YamlValue[] = [];
+    let index = start;
+    for (let line = lines[index]; line?.indent === first.indent; line = lines[index]) {
+      if (line.text !== '-' && !line.text.startsWith('- ')) break;
+      const item = line.text.slice(1).trim();
+      index++;
+      if (item) {
+        sequence.push(parseScalar(item));
+      } else {
+        const [value, next] = parseBlock(lines, index, first.indent + 1);
+        sequence.push(value);
+        index = next;
+      }
+    }
+    return [sequence, index];
+  }
+
+  const mapping: Record<string, YamlValue> = {};
+  let index = start;
+  for (let line = lines[index]; line?.indent === first.indent; line = lines[index]) {
+    const separator = findKeySeparator(line.text);
+    if (separator === -1) break;
+    const key = unquote(line.text.slice(0, separator).trim());
+    const rest = line.text.slice(separator + 1).trim();
+    index++;
+    if (rest) {
+      mapping[key] = parseScalar(rest);
+    } else {
+      // Sequences may sit at the same indentation as their key
+      const nested = lines[index];
+      const childIndent =
+        nested && nested.indent === first.indent && nested.text.startsWith('- ')
+          ? first.indent
+          : first.indent + 1;
+      const [value, next] = parseBlock(lines, index, childIndent);
+      mapping[key] = value;
+      index = next;
+    }
+  }
+  return [mapping, index];
+}
+
+/**
+ * Parse a YAML document of the lockfile subset; throws on text it cannot read
+ */
+export function parseYaml(text: string): YamlValue {
+  const lines: Line[] = [];
+  for (const raw of text.split(/\r?\n/)) {
+    const content = stripComment(raw);
+    if (!content.trim() || content === '---') continue;
+    lines.push({ indent: content.length - content.trimStart().length, text: content.trim() });
+  }
+
+  const [value, next] = parseBlock(lines, 0, 0);
+  if (next < lines.length) {
+    throw new Error(`Unsupported YAML at: ${lines[next]?.text}`);
+  }
+  return value;
+}
@@ -0,0 +1,257 @@
+/**
+ * Minimal in-process ZIP reader
+ * Reads the central directory and inflates single entries on demand, which is all
+ * Yarn's `.yarn/cache/*.zip` archives need; ZIP64 and encryption are not supported
+ */
+
+import { open, mkdir, writeFile, rename, rm, stat } from 'node:fs/promises';
+import type { FileHandle } from 'node:fs/promises';
+import { inflateRawSync } from 'node:zlib';
+import { basename, dirname, join, resolve, sep } from 'node:path';
+import { randomUUID } from 'node:crypto';
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_ENTRY = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+const END_RECORD_SIZE = 22;
+const MAX_COMMENT_SIZE = 0xffff;
+
+const METHOD_STORED = 0;
+const METHOD_DEFLATE = 8;
+
+const MAX_UNPACK_FILE_SIZE = 10 * 1024 * 1024; // 10MB, the read-package file limit
+const MAX_UNPACK_TOTAL_SIZE = 100 * 1024 * 1024; // 100MB
+
+// Unpacks in flight by target directory, shared by concurrent reads of one package
+const pendingUnpacks = new Map<string, Promise<string>>();
+
+export interface ZipEntry {
+  name: string;
+  method: number;
+  compressedSize: number;
+  size: number;
+  localHeaderOffset: number;
+}
+
+export class ZipArchive {
+  private constructor(
+    private readonly handle: FileHandle,
+    private readonly entries: Map<string, ZipEntry>,
+  ) {}
+
+  /**
+   * Open an archive and read its central directory
+   */
+  static async open(path: string): Promise<ZipArchive> {
+    const handle = await open(path, 'r');
+    try {
+      return new ZipArchive(handle, await readCentralDirectory(handle));
+    } catch (error) {
+      await handle.close();
+      throw error;
+    }
+  }
+
+  /**
+   * File entry names (directories are left out)
+   */
+  list(prefix = ''): string[] {
+    return [...this.entries.keys()].filter((name) => name.startsWith(prefix));
+  }
+
+  has(name: string): boolean {
+    return this.entries.has(name);
+  }
+
+  async read(name: string): Promise<Buffer | null> {
+    const entry = this.entries.get(name);
+    if (!entry) {
+      return null;
+    }
+
+    const header = await readAt(this.handle, entry.localHeaderOffset, 30);
+    if (header.readUInt32LE(0) !== LOCAL_FILE_HEADER) {
+      throw new Error(`Invalid local file header for ${name}`);
+    }
+    const dataOffset =
+      entry.localHeaderOffset + 30 + header.readUInt16LE(26) + header.readUInt16LE(28);
+    const data = await readAt(this.handle, dataOffset, entry.compressedSize);
+
+    switch (entry.method) {
+      case METHOD_STORED:
+        return data;
+      case METHOD_DEFLATE:
+        try {
+          // A crafted entry can inflate far beyond its declared size
+          return inflateRawSync(data, { maxOutputLength: Math.max(entry.size, 1) });
+        } catch (error) {
+          if (error instanceof RangeError) {
+            throw new Error(`${name} inflates beyond its declared size of ${entry.size} bytes`);
+          }
+          throw error;
+        }
+      default:
+        throw new Error(`Unsupported compression method ${entry.method} for ${name}`);
+    }
+  }
+
+  async readText(name: string): Promise<string | null> {
+    const data = await this.read(name);
+    return data ? data.toString('utf-8') : null;
+  }
+
+  /**
+   * Write every file below `prefix` into `targetDir`, keeping the relative layout
+   * Oversized files are skipped; returns the number of files written
+   */
+  async unpack(prefix: string, targetDir: string): Promise<number> {
+    const root = resolve(targetDir);
+    let written = 0;
+    let totalSize = 0;
+
+    for (const name of this.list(prefix)) {
+      const entry = this.entries.get(name);
+      if (!entry || entry.size > MAX_UNPACK_FILE_SIZE) continue;
+      if (totalSize + entry.size > MAX_UNPACK_TOTAL_SIZE) break;
+
+      const target = resolve(root, name.slice(prefix.length));
+      if (!target.startsWith(root + sep)) {
+        continue; // Never write outside the target directory
+      }
+
+      const data = await this.read(name);
+      if (!data) continue;
+
+      await mkdir(join(target, '..'), { recursive: true });
+      await writeFile(target, data);
+      totalSize += entry.size;
+      written++;
+    }
+
+    return written;
+  }
+
+  async close(): Promise<void> {
+    await this.handle.close();
+  }
+}
+
+/**
+ * Split "/project/.yarn/cache/pkg.zip/node_modules/pkg" into the archive path and the
+ * path inside it, or null when the path does not go through an archive
+ */
+export function splitArchivePath(path: string): { archive: string; inner: string } | null {
+  const match = /^(.*?\.zip)(?:[\\/](.*))?$/.exec(path);
+  if (!match?.[1]) {
+    return null;
+  }
+  return { archive: match[1], inner: (match[2] ?? '').replace(/\\/g, '/').replace(/\/$/, '') };
+}
+
+/**
+ * Return a directory holding the files of an archived package, unpacking it into
+ * `unpackDir` on first use; paths outside archives are returned unchanged
+ * Archive names carry a checksum, so an unpacked copy never goes stale
+ */
+export async function unpackArchivedPath(path: string, unpackDir: string): Promise<string> {
+  const split = splitArchivePath(path);
+  if (!split) {
+    return path;
+  }
+
+  const target = join(unpackDir, basename(split.archive, '.zip'), split.inner);
+  try {
+    if ((await stat(target)).isDirectory()) return target;
+  } catch {
+    // Not unpacked yet
+  }
+
+  let pending = pendingUnpacks.get(target);
+  if (!pending) {
+    pending = unpackTo(split.archive, split.inner, target).finally(() =>
+      pendingUnpacks.delete(target),
+    );
+    pendingUnpacks.set(target, pending);
+  }
+  return pending;
+}
+
+/**
+ * Unpack beside the target and rename, so an interrupted unpack is never reused. When
+ * another process renamed its copy first, that copy is used
+ */
+async function unpackTo(archivePath: string, inner: string, target: string): Promise<string> {
+  const partial = `${target}.partial-${randomUUID()}`;
+  const archive = await ZipArchive.open(archivePath);
+  try {
+    await archive.unpack(inner ? `${inner}/` : '', partial);
+    await mkdir(dirname(target), { recursive: true });
+    await rename(partial, target);
+  } catch (error) {
+    await rm(partial, { recursive: true, force: true });
+    const code = (error as NodeJS.ErrnoException).code;
+    if (code !== 'EEXIST' && code !== 'ENOTEMPTY') throw error;
+  } finally {
+    await archive.close();
+  }
+  return target;
+}
+
+async function readCentralDirectory(handle: FileHandle): Promise<Map<string, ZipEntry>> {
+  const { size } = await handle.stat();
+  const tailSize = Math.min(size, END_RECORD_SIZE + MAX_COMMENT_SIZE);
+  const tail = await readAt(handle, size - tailSize, tailSize);
+
+  let endOffset = -1;
+  for (let i = tail.length - END_RECORD_SIZE; i >= 0; i--) {
+    if (tail.readUInt32LE(i) === END_OF_CENTRAL_DIRECTORY) {
+      endOffset = i;
+      break;
+    }
+  }
+  if (endOffset < 0) {
+    throw new Error('Not a ZIP archive: end of central directory not found');
+  }
+
+  const entryCount = tail.readUInt16LE(endOffset + 10);
+  const directorySize = tail.readUInt32LE(endOffset + 12);
+  const directoryOffset = tail.readUInt32LE(endOffset + 16);
+  if (entryCount === 0xffff || directoryOffset === 0xffffffff) {
+    throw new Error('ZIP64 archives are not supported');
+  }
+
+  const directory = await readAt(handle, directoryOffset, directorySize);
+  const entries = new Map<string, ZipEntry>();
+  let offset = 0;
+
+  for (let i = 0; i < entryCount; i++) {
+    if (directory.readUInt32LE(offset) !== CENTRAL_DIRECTORY_ENTRY) {
+      throw new Error('Corrupt ZIP central directory');
+    }
+
+    const nameLength = directory.readUInt16LE(offset + 28);
+    const extraLength = directory.readUInt16LE(offset + 30);
+    const commentLength = directory.readUInt16LE(offset + 32);
+    const name = directory.toString('utf-8', offset + 46, offset + 46 + nameLength);
+
+    if (!name.endsWith('/')) {
+      entries.set(name, {
+        name,
+        method: directory.readUInt16LE(offset + 10),
+        compressedSize: directory.readUInt32LE(offset + 20),
+        size: directory.readUInt32LE(offset + 24),
+        localHeaderOffset: directory.readUInt32LE(offset + 42),
+      });
+    }
+
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return entries;
+}
+
+async function readAt(handle: FileHandle, position: number, length: number): Promise<Buffer> {
+  const buffer = Buffer.alloc(length);
+  const { bytesRead } = await handle.read(buffer, 0, length, position);
+  return bytesRead === length ? buffer : buffer.subarray(0, bytesRead);
+}
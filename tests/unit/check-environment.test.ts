@@ -0,0 +1,243 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { checkEnvironmentTool } from '#tools/check-environment.js';
+import { promises as fs } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { randomBytes } from 'node:crypto';
+
+describe('check-environment tool', () => {
+  let testDir: string;
+
+  async function createProject(name: string, files: Record<string, string>): Promise<string> {
+    const projectDir = join(testDir, name);
+    for (const [file, content] of Object.entries(files)) {
+      await fs.mkdir(join(projectDir, file, '..'), { recursive: true });
+      await fs.writeFile(join(projectDir, file), content);
+    }
+    return projectDir;
+  }
+
+  function installed(name: string, version: string): Record<string, string> {
+    return { [`node_modules/${name}/package.json`]: JSON.stringify({ name, version }) };
+  }
+
+  function distribution(name: string, version: string): Record<string, string> {
+    const sitePackages = join('.venv', 'lib', 'python3.12', 'site-packages');
+    return {
+      [join(sitePackages, `${name}-${version}.dist-info`, 'METADATA')]:
+        `Metadata-Version: 2.1\nName: ${name}\nVersion: ${version}\n`,
+    };
+  }
+
+  beforeAll(() => {
+    testDir = join(tmpdir(), `pkg-local-drift-${randomBytes(8).toString('hex')}`);
+  });
+
+  afterAll(async () => {
+    await fs.rm(testDir, { recursive: true, force: true }).catch(() => {});
+  });
+
+  it('should report npm packages that drifted from package.json and the lockfile', async () => {
+    const projectDir = await createProject('npm', {
+      'package.json': JSON.stringify({
+        name: 'drifting-app',
+        dependencies: { express: '^4.18.0', debug: '^3.0.0', 'left-pad': '^1.3.0' },
+        devDependencies: { typescript: '^5.0.0' },
+        optionalDependencies: { fsevents: '^2.3.0' },
+      }),
+      'package-lock.json': JSON.stringify({
+        name: 'drifting-app',
+        lockfileVersion: 3,
+        packages: {
+          '': { name: 'drifting-app' },
+          'node_modules/express': { version: '4.18.2' },
+          'node_modules/debug': { version: '3.2.7' },
+          'node_modules/ms': { version: '2.1.3' },
+          'node_modules/typescript': { version: '5.4.5', dev: true },
+          'node_modules/fsevents': { version: '2.3.3', optional: true },
+        },
+      }),
+      ...installed('express', '4.18.2'),
+      ...installed('debug', '2.6.9'),
+      ...installed('ms', '2.1.2'),
+      ...installed('typescript', '5.4.5'),
+      ...installed('leftover', '1.0.0'),
+    });
+
+    const result = await checkEnvironmentTool({ projectPath: projectDir });
+
+    expect(result).toMatchObject({
+      type: 'check-environment',
+      inSync: false,
+      environments: [
+        { language: 'javascript', packageManager: 'npm', lockfile: 'package-lock.json' },
+      ],
+    });
+    if (result.type !== 'check-environment') return;
+    expect(result.issues.map((issue) => [issue.kind, issue.package, issue.fix])).toEqual([
+      ['out-of-range', 'debug', 'npm ci'],
+      ['missing', 'left-pad', 'npm install "left-pad@^1.3.0"'],
+      ['out-of-range', 'ms', 'npm ci'],
+      ['extraneous', 'leftover', 'npm prune'],
+    ]);
+    expect(result.issues[0]).toMatchObject({
+      installed: '2.6.9',
+      declared: '^3.0.0',
+      locked: '3.2.7',
+      dependencyType: 'dependencies',
+    });
+    expect(result.issues[2]).toMatchObject({ installed: '2.1.2', locked: '2.1.3' });
+    expect(result.fixes).toEqual(['npm ci', 'npm install "left-pad@^1.3.0"', 'npm prune']);
+  });
+
+  it('should confirm an environment that matches its manifest', async () => {
+    const projectDir = await createProject('in-sync', {
+      'package.json': JSON.stringify({ name: 'tidy-app', dependencies: { express: '^4.18.0' } }),
+      ...installed('express', '4.18.2'),
+    });
+
+    const result = await checkEnvironmentTool({ projectPath: projectDir, language: 'javascript' });
+
+    expect(result).toMatchObject({
+      type: 'check-environment',
+      inSync: true,
+      issues: [],
+      fixes: [],
+    });
+
+    const empty = await createProject('empty', { 'README.md': '# nothing to check' });
+    expect(await checkEnvironmentTool({ projectPath: empty })).toMatchObject({
+      type: 'error',
+      error: 'No package.json, pyproject.toml or requirements file found',
+    });
+  });
+
+  it('should compare a uv virtual environment with pyproject.toml and uv.lock', async () => {
+    const projectDir = await createProject('uv', {
+      'pyproject.toml': [
+        '[project]',
+        'name = "drifting-service"',
+        'version = "0.1.0"',
+        'dependencies = ["requests>=2.31"]',
+        '',
+        '[dependency-groups]',
+        'dev = ["pytest>=8"]',
+        '',
+      ].join('\n'),
+      'uv.lock': [
+        'version = 1',
+        '',
+        '[[package]]',
+        'name = "drifting-service"',
+        'version = "0.1.0"',
+        'source = { editable = "." }',
+        'dependencies = [{ name = "requests" }]',
+        '',
+        '[package.dev-dependencies]',
+        'dev = [{ name = "pytest" }]',
+        '',
+        '[[package]]',
+        'name = "pytest"',
+        'version = "8.0.0"',
+        'source = { registry = "https://pypi.org/simple" }',
+        '',
+        '[[package]]',
+        'name = "requests"',
+        'version = "2.31.0"',
+        'source = { registry = "https://pypi.org/simple" }',
+        '',
+      ].join('\n'),
+      '.venv/bin/python': '#!/usr/bin/env python3',
+      ...distribution('requests', '2.30.0'),
+      ...distribution('drifting_service', '0.1.0'),
+    });
+
+    const result = await checkEnvironmentTool({ projectPath: projectDir, language: 'python' });
+
+    expect(result).toMatchObject({
+      type: 'check-environment',
+      environments: [
+        { language: 'python', packageManager: 'uv', lockfile: 'uv.lock', declared: 2, locked: 2 },
+      ],
+      issues: [
+        {
+          kind: 'out-of-range',
+          package: 'requests',
+          installed: '2.30.0',
+          declared: '>=2.31',
+          locked: '2.31.0',
+        },
+        { kind: 'missing', package: 'pytest', dependencyType: 'devDependencies' },
+      ],
+      fixes: ['uv sync'],
+    });
+  });
+
+  it('should not require packages gated by an environment marker', async () => {
+    const projectDir = await createProject('markers', {
+      'pyproject.toml': [
+        '[project]',
+        'name = "cli-tool"',
+        'version = "0.1.0"',
+        'dependencies = ["click>=8", "pywin32>=306; sys_platform == \'win32\'"]',
+        '',
+      ].join('\n'),
+      'uv.lock': [
+        'version = 1',
+        '',
+        '[[package]]',
+        'name = "cli-tool"',
+        'version = "0.1.0"',
+        'source = { editable = "." }',
+        'dependencies = [',
+        '    { name = "click" },',
+        '    { name = "pywin32", marker = "sys_platform == \'win32\'" },',
+        ']',
+        '',
+        '[[package]]',
+        'name = "click"',
+        'version = "8.1.7"',
+        'source = { registry = "https://pypi.org/simple" }',
+        'dependencies = [{ name = "colorama", marker = "sys_platform == \'win32\'" }]',
+        '',
+        '[[package]]',
+        'name = "colorama"',
+        'version = "0.4.6"',
+        'source = { registry = "https://pypi.org/simple" }',
+        '',
+        '[[package]]',
+        'name = "pywin32"',
+        'version = "306"',
+        'source = { registry = "https://pypi.org/simple" }',
+        '',
+      ].join('\n'),
+      '.venv/bin/python': '#!/usr/bin/env python3',
+      ...distribution('click', '8.1.7'),
+    });
+
+    const result = await checkEnvironmentTool({ projectPath: projectDir, language: 'python' });
+
+    expect(result).toMatchObject({
+      type: 'check-environment',
+      inSync: true,
+      environments: [{ packageManager: 'uv', declared: 2, locked: 3 }],
+      issues: [],
+    });
+  });
+
+  it('should suggest pip installs when requirements are not locked or installed', async () => {
+    const projectDir = await createProject('pip', {
+      'requirements.txt': 'flask>=3.0\nrich\n',
+    });
+
+    const result = await checkEnvironmentTool({ projectPath: projectDir });
+
+    expect(result).toMatchObject({
+      type: 'check-environment',
+      environments: [{ language: 'python', packageManager: 'pip', installed: 0 }],
+      fixes: ['pip install "flask>=3.0"', 'pip install rich'],
+    });
+    if (result.type !== 'check-environment') return;
+    expect(result.environments[0]?.warnings).toEqual(['No virtual environment found']);
+  });
+});
@@ -0,0 +1,121 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { NodeJSAdapter } from '#adapters/nodejs-adapter.js';
+import { NodeJSScanner } from '#scanners/nodejs.js';
+import { MarkdownGenerator } from '#utils/markdown-generator.js';
+import { getTypesPackageName } from '#parsers/entry-points.js';
+import type { UnifiedPackageContent } from '#types/unified-schema.js';
+import { promises as fs } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { writeFiles } from '../utils/test-helpers.js';
+
+const TYPES_INDEX = `export declare function parse(text: string, reviver?: Reviver): unknown;
+export declare function stringify(value: unknown, space?: number): string;
+export type Reviver = (key: string, value: unknown) => unknown;
+`;
+
+describe('DefinitelyTyped fallback', () => {
+  let projectDir: string;
+  const adapter = new NodeJSAdapter();
+
+  async function extract(name: string): Promise<UnifiedPackageContent> {
+    const packagePath = join(projectDir, 'node_modules', name);
+    const metadata = JSON.parse(
+      await fs.readFile(join(packagePath, 'package.json'), 'utf-8'),
+    ) as Record<string, unknown>;
+    return adapter.extractContent(packagePath, {
+      name,
+      version: String(metadata.version),
+      location: packagePath,
+      language: 'javascript',
+      packageManager: 'npm',
+      metadata,
+    });
+  }
+
+  beforeAll(async () => {
+    projectDir = await fs.mkdtemp(join(tmpdir(), 'definitely-typed-test-'));
+
+    await writeFiles(projectDir, {
+      'package.json': JSON.stringify({ name: 'app', dependencies: { jsonish: '^1.0.0' } }),
+
+      'node_modules/jsonish/package.json': JSON.stringify({
+        name: 'jsonish',
+        version: '1.4.0',
+        main: 'index.js',
+      }),
+      'node_modules/jsonish/index.js':
+        'exports.parse = function parse(text, reviver) {};\nexports.stringify = function stringify(value, space) {};\n',
+      'node_modules/@types/jsonish/package.json': JSON.stringify({
+        name: '@types/jsonish',
+        version: '1.4.2',
+        types: 'index.d.ts',
+      }),
+      'node_modules/@types/jsonish/index.d.ts': TYPES_INDEX,
+
+      // Ships its own declarations, so the @types package must not replace them
+      'node_modules/typed-lib/package.json': JSON.stringify({
+        name: 'typed-lib',
+        version: '2.0.0',
+        main: 'index.js',
+        types: 'index.d.ts',
+      }),
+      'node_modules/typed-lib/index.js': 'exports.run = function run() {};\n',
+      'node_modules/typed-lib/index.d.ts': 'export declare function run(): void;\n',
+      'node_modules/@types/typed-lib/package.json': JSON.stringify({
+        name: '@types/typed-lib',
+        version: '1.0.0',
+        types: 'index.d.ts',
+      }),
+      'node_modules/@types/typed-lib/index.d.ts': 'export declare function legacy(): void;\n',
+    });
+  });
+
+  afterAll(async () => {
+    adapter.cleanup();
+    await fs.rm(projectDir, { recursive: true, force: true }).catch(() => {});
+  });
+
+  it('should map package names to their DefinitelyTyped names', () => {
+    expect(getTypesPackageName('express')).toBe('@types/express');
+    expect(getTypesPackageName('@babel/core')).toBe('@types/babel__core');
+  });
+
+  it('should take signatures from the @types package for plain JavaScript', async () => {
+    const content = await extract('jsonish');
+
+    const parse = content.components.functions.find((f) => f.name === 'parse');
+    expect(parse?.parameters).toEqual([
+      expect.objectContaining({ name: 'text', type: 'string', required: true }),
+      expect.objectContaining({ name: 'reviver', type: 'Reviver', required: false }),
+    ]);
+    expect(parse?.sourceFile).toBe(join('..', '@types', 'jsonish', 'index.d.ts'));
+    expect([...content.exports.named].sort()).toEqual(['Reviver', 'parse', 'stringify']);
+
+    expect(content.metadata).toMatchObject({ name: 'jsonish', version: '1.4.0' });
+    expect(content.metadata.typeSystem).toMatchObject({
+      hasTypeAnnotations: true,
+      typeDefinitionFile: join('..', '@types', 'jsonish', 'index.d.ts'),
+      typesPackage: { name: '@types/jsonish', version: '1.4.2' },
+    });
+
+    const markdown = MarkdownGenerator.generate(content);
+    expect(markdown).toContain('types_package: @types/jsonish@1.4.2');
+    expect(markdown).toContain('parameters: text: string, reviver?: Reviver');
+  });
+
+  it('should keep bundled declarations over an installed @types package', async () => {
+    const content = await extract('typed-lib');
+
+    expect(content.components.functions.map((f) => f.name)).toEqual(['run']);
+    expect(content.metadata.typeSystem?.typesPackage).toBeUndefined();
+  });
+
+  it('should report JavaScript packages with @types installed as typed when scanning', async () => {
+    const scanner = new NodeJSScanner(projectDir);
+    const result = await scanner.scan();
+
+    expect(result.packages?.jsonish?.hasTypes).toBe(true);
+    expect(result.packages?.['@types/jsonish']?.hasTypes).toBe(true);
+  });
+});
@@ -0,0 +1,135 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { dependencyTreeTool } from '#tools/dependency-tree.js';
+import { promises as fs } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { randomBytes } from 'node:crypto';
+import { writeFiles } from '../utils/test-helpers.js';
+
+describe('dependency-tree tool', () => {
+  let testDir: string;
+  let originalCwd: string;
+
+  function manifest(name: string, version: string, dependencies?: Record<string, string>): string {
+    return JSON.stringify({ name, version, ...(dependencies && { dependencies }) });
+  }
+
+  beforeAll(async () => {
+    originalCwd = process.cwd();
+    testDir = join(tmpdir(), `pkg-local-deps-${randomBytes(8).toString('hex')}`);
+
+    await writeFiles(testDir, {
+      'package.json': JSON.stringify({
+        name: 'deps-project',
+        dependencies: { 'app-server': '^1.0.0', logger: '^2.0.0' },
+      }),
+      'node_modules/app-server/package.json': manifest('app-server', '1.2.0', {
+        router: '^3.0.0',
+        logger: '^1.0.0',
+        'color-support': '^1.0.0',
+      }),
+      // app-server needs logger 1 while the project hoists logger 2
+      'node_modules/app-server/node_modules/logger/package.json': manifest('logger', '1.5.0'),
+      'node_modules/logger/package.json': manifest('logger', '2.1.0', { formatter: '^1.0.0' }),
+      'node_modules/formatter/package.json': manifest('formatter', '1.1.0'),
+      'node_modules/router/package.json': manifest('router', '2.0.0', { 'path-utils': '^1.0.0' }),
+      'node_modules/path-utils/package.json': manifest('path-utils', '1.0.0', { router: '*' }),
+    });
+
+    process.chdir(testDir);
+  });
+
+  afterAll(async () => {
+    process.chdir(originalCwd);
+    await fs.rm(testDir, { recursive: true, force: true }).catch(() => {});
+  });
+
+  it('should show what a package pulls in, resolving nested copies', async () => {
+    const result = await dependencyTreeTool({ packageName: 'app-server', forceRefresh: true });
+
+    expect(result).toMatchObject({ type: 'dependency-tree', package: 'app-server' });
+    if (result.type !== 'dependency-tree') return;
+    expect(result.transitiveCount).toBe(3);
+    expect(result.tree?.map((line) => [line.depth, line.package])).toEqual([
+      [0, 'app-server@1.2.0'],
+      [1, 'color-support'],
+      [1, 'logger@1.5.0'],
+      [1, 'router@2.0.0'],
+      [2, 'path-utils@1.0.0'],
+      [3, 'router@2.0.0'],
+    ]);
+    expect(result.tree?.[1]).toMatchObject({ missing: true, range: '^1.0.0' });
+    expect(result.tree?.[3]).toMatchObject({ conflict: true, range: '^3.0.0' });
+    expect(result.tree?.[5]).toMatchObject({ circular: true });
+    expect(result.conflicts).toEqual([
+      { dependent: 'app-server@1.2.0', dependency: 'router', range: '^3.0.0', installed: '2.0.0' },
+      { dependent: 'app-server@1.2.0', dependency: 'color-support', range: '^1.0.0' },
+    ]);
+    expect(result.cycles).toHaveLength(1);
+    expect([...(result.cycles[0] ?? [])].sort()).toEqual(['path-utils@1.0.0', 'router@2.0.0']);
+  });
+
+  it('should explain why a package is installed', async () => {
+    const result = await dependencyTreeTool({ packageName: 'formatter', direction: 'dependents' });
+
+    expect(result).toMatchObject({
+      type: 'dependency-tree',
+      direction: 'dependents',
+      paths: [['logger@2.1.0', 'formatter@1.1.0']],
+    });
+  });
+
+  it('should reuse the cached graph until it is refreshed', async () => {
+    await writeFiles(testDir, {
+      'node_modules/formatter/package.json': manifest('formatter', '1.1.0', { ansi: '^5.0.0' }),
+      'node_modules/ansi/package.json': manifest('ansi', '5.0.0'),
+    });
+
+    const cached = await dependencyTreeTool({ packageName: 'formatter' });
+    expect(cached.type === 'dependency-tree' && cached.transitiveCount).toBe(0);
+
+    const refreshed = await dependencyTreeTool({ packageName: 'formatter', forceRefresh: true });
+    expect(
+      refreshed.type === 'dependency-tree' && refreshed.tree?.map((line) => line.package),
+    ).toEqual(['formatter@1.1.0', 'ansi@5.0.0']);
+  });
+
+  it('should flag Python requirements outside their specifier', async () => {
+    const pythonDir = join(testDir, 'python-project');
+    const sitePackages = join('.venv', 'lib', 'python3.12', 'site-packages');
+    const distribution = (name: string, version: string, requires: string[] = []): string =>
+      [
+        'Metadata-Version: 2.1',
+        `Name: ${name}`,
+        `Version: ${version}`,
+        ...requires.map((requirement) => `Requires-Dist: ${requirement}`),
+        '',
+      ].join('\n');
+
+    await writeFiles(pythonDir, {
+      '.venv/bin/python': '#!/usr/bin/env python3',
+      [join(sitePackages, 'requests-2.31.0.dist-info', 'METADATA')]: distribution(
+        'requests',
+        '2.31.0',
+        ['urllib3 (<3,>=1.21.1)', "PySocks!=1.5.7,>=1.5.6; extra == 'socks'"],
+      ),
+      [join(sitePackages, 'urllib3-3.0.1.dist-info', 'METADATA')]: distribution('urllib3', '3.0.1'),
+      'requirements.txt': 'requests\n',
+    });
+
+    const result = await dependencyTreeTool({ projectPath: pythonDir, forceRefresh: true });
+
+    expect(result).toMatchObject({
+      type: 'dependency-tree',
+      tree: [{ package: 'requests@2.31.0', depth: 0 }],
+      conflicts: [
+        {
+          dependent: 'requests@2.31.0',
+          dependency: 'urllib3',
+          range: '<3,>=1.21.1',
+          installed: '3.0.1',
+        },
+      ],
+    });
+  });
+});
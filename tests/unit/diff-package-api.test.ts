@@ -0,0 +1,282 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { diffPackageApiTool } from '#tools/diff-package-api.js';
+import { readPackageTool } from '#tools/read-package.js';
+import { scanPackagesTool } from '#tools/scan-packages.js';
+import { diffPackageApi } from '#utils/api-diff.js';
+import type { UnifiedPackageContent } from '#types/unified-schema.js';
+import { promises as fs } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { randomBytes } from 'node:crypto';
+
+describe('diff-package-api tool', () => {
+  let testDir: string;
+
+  async function installPackage(
+    projectDir: string,
+    path: string,
+    version: string,
+    declarations: string,
+  ): Promise<void> {
+    const packageDir = join(projectDir, path);
+    const name = path.split('node_modules/').pop() ?? path;
+    await fs.rm(packageDir, { recursive: true, force: true });
+    await fs.mkdir(packageDir, { recursive: true });
+    await fs.writeFile(
+      join(packageDir, 'package.json'),
+      JSON.stringify({ name, version, types: 'index.d.ts' }),
+    );
+    await fs.writeFile(join(packageDir, 'index.d.ts'), declarations);
+  }
+
+  async function createProject(
+    name: string,
+    dependencies: Record<string, string>,
+  ): Promise<string> {
+    const projectDir = join(testDir, name);
+    await fs.mkdir(projectDir, { recursive: true });
+    await fs.writeFile(
+      join(projectDir, 'package.json'),
+      JSON.stringify({ name, version: '1.0.0', dependencies }),
+    );
+    await fs.writeFile(join(projectDir, 'package-lock.json'), '{}');
+    return projectDir;
+  }
+
+  function content(
+    components: Partial<UnifiedPackageContent['components']>,
+    named: string[],
+  ): UnifiedPackageContent {
+    return {
+      metadata: {
+        name: 'client',
+        version: '1.0.0',
+        description: '',
+        license: 'MIT',
+        packageManager: 'pip',
+      },
+      components: { classes: [], functions: [], constants: [], ...components },
+      exports: { named },
+      dependencies: { runtime: {} },
+    };
+  }
+
+  beforeAll(() => {
+    testDir = join(tmpdir(), `pkg-local-api-diff-${randomBytes(8).toString('hex')}`);
+  });
+
+  afterAll(async () => {
+    await fs.rm(testDir, { recursive: true, force: true }).catch(() => {});
+  });
+
+  it('should flag removed members and tightened parameters as breaking', () => {
+    const before = content(
+      {
+        classes: [
+          {
+            name: 'Client',
+            methods: [
+              {
+                name: 'connect',
+                visibility: 'public',
+                parameters: [
+                  { name: 'url', type: 'str', required: true },
+                  { name: 'timeout', type: 'float', required: false, default: '10' },
+                ],
+              },
+              { name: 'close', visibility: 'public', parameters: [] },
+              { name: '_reset', visibility: 'private', parameters: [] },
+            ],
+          },
+        ],
+        functions: [
+          {
+            name: 'fetch',
+            isExported: true,
+            parameters: [{ name: 'url', type: 'str', required: true }],
+          },
+        ],
+        enums: [{ name: 'Mode', values: ['SYNC', 'ASYNC'], isExported: true }],
+      },
+      ['Client', 'fetch', 'Mode'],
+    );
+    const after = content(
+      {
+        classes: [
+          {
+            name: 'Client',
+            methods: [
+              {
+                name: 'connect',
+                visibility: 'public',
+                parameters: [
+                  { name: 'address', type: 'str', required: true },
+                  { name: 'timeout', type: 'int', required: true },
+                  { name: 'retries', type: 'int', required: false, default: '3' },
+                ],
+              },
+              { name: 'open', visibility: 'public', parameters: [] },
+            ],
+          },
+        ],
+        functions: [
+          {
+            name: 'fetch',
+            isExported: true,
+            isAsync: true,
+            parameters: [{ name: 'url', type: 'str', required: true }],
+          },
+        ],
+        enums: [{ name: 'Mode', values: ['SYNC', 'STREAM'], isExported: true }],
+      },
+      ['Client', 'fetch', 'Mode', 'stream'],
+    );
+
+    const changes = diffPackageApi(before, after, 'python');
+
+    expect(
+      changes.map((change) => [change.change, change.kind, change.name, change.breaking]),
+    ).toEqual([
+      ['added', 'export', 'stream', false],
+      ['changed', 'parameter', 'Client.connect(address)', true],
+      ['changed', 'parameter', 'Client.connect(timeout)', true],
+      ['added', 'parameter', 'Client.connect(retries)', false],
+      ['removed', 'method', 'Client.close', true],
+      ['added', 'method', 'Client.open', false],
+      ['changed', 'function', 'fetch', true],
+      ['changed', 'enum', 'Mode', true],
+    ]);
+    expect(changes[1]).toMatchObject({ detail: 'renamed from url', before: 'url: str' });
+    expect(changes[2]).toMatchObject({
+      detail: 'now required; type changed',
+      before: 'timeout: float = 10',
+      after: 'timeout: int',
+    });
+    expect(changes[7]?.detail).toBe('removed ASYNC; added STREAM');
+
+    // Positional JavaScript callers are not affected by a rename
+    expect(diffPackageApi(before, after, 'javascript')[1]?.breaking).toBe(false);
+  });
+
+  it('should compare two installed copies of a package', async () => {
+    const projectDir = await createProject('nested', { 'http-kit': '^2.0.0', legacy: '^1.0.0' });
+    await installPackage(
+      projectDir,
+      'node_modules/http-kit',
+      '2.0.0',
+      'export declare function request(url: string, options: object): Promise<string>;\n' +
+        'export declare function stream(url: string): void;\n',
+    );
+    await installPackage(
+      projectDir,
+      'node_modules/legacy',
+      '1.0.0',
+      'export declare function run(): void;\n',
+    );
+    await installPackage(
+      projectDir,
+      'node_modules/legacy/node_modules/http-kit',
+      '1.0.0',
+      'export declare function request(url: string): Promise<string>;\n' +
+        'export declare function get(url: string): Promise<string>;\n',
+    );
+
+    const result = await diffPackageApiTool({ packageName: 'http-kit', projectPath: projectDir });
+
+    expect(result).toMatchObject({
+      type: 'diff-package-api',
+      package: 'http-kit',
+      language: 'javascript',
+      from: { version: '1.0.0', source: 'installed' },
+      to: { version: '2.0.0', source: 'installed' },
+      breaking: true,
+    });
+    if (result.type !== 'diff-package-api') return;
+    expect(result.changes).toEqual(
+      expect.arrayContaining([
+        expect.objectContaining({
+          change: 'removed',
+          kind: 'function',
+          name: 'get',
+          breaking: true,
+        }),
+        expect.objectContaining({ change: 'added', kind: 'function', name: 'stream' }),
+        expect.objectContaining({
+          change: 'added',
+          kind: 'parameter',
+          name: 'request(options)',
+          breaking: true,
+        }),
+      ]),
+    );
+    expect(result.summary.breaking).toBe(result.changes.filter((change) => change.breaking).length);
+  });
+
+  it('should keep the content of a version read before an upgrade', async () => {
+    const projectDir = await createProject('upgrade', { 'date-kit': '^1.0.0' });
+    await installPackage(
+      projectDir,
+      'node_modules/date-kit',
+      '1.0.0',
+      'export declare function format(date: Date, pattern?: string): string;\n',
+    );
+    await scanPackagesTool({ projectPath: projectDir });
+    const read = await readPackageTool({ packageName: 'date-kit', projectPath: projectDir });
+    expect(read.type).toBe('tree');
+
+    await installPackage(
+      projectDir,
+      'node_modules/date-kit',
+      '2.0.0',
+      'export declare function format(date: Date, pattern: string): string;\n',
+    );
+    await scanPackagesTool({ projectPath: projectDir, forceRefresh: true });
+
+    const result = await diffPackageApiTool({ packageName: 'date-kit', projectPath: projectDir });
+
+    expect(result).toMatchObject({
+      type: 'diff-package-api',
+      from: { version: '1.0.0', source: 'history' },
+      to: { version: '2.0.0', source: 'installed' },
+      breaking: true,
+      changes: [
+        {
+          change: 'changed',
+          kind: 'parameter',
+          name: 'format(pattern)',
+          detail: 'now required',
+          before: 'pattern?: string',
+          after: 'pattern: string',
+        },
+      ],
+    });
+  });
+
+  it('should explain when there is no other version to compare with', async () => {
+    const projectDir = await createProject('single', { 'only-once': '^1.0.0' });
+    await installPackage(
+      projectDir,
+      'node_modules/only-once',
+      '1.0.0',
+      'export declare const answer: number;\n',
+    );
+
+    expect(
+      await diffPackageApiTool({ packageName: 'only-once', projectPath: projectDir }),
+    ).toMatchObject({
+      type: 'error',
+      error: 'Only version 1.0.0 of only-once is known',
+    });
+    expect(
+      await diffPackageApiTool({
+        packageName: 'only-once',
+        from: '0.9.0',
+        projectPath: projectDir,
+      }),
+    ).toMatchObject({
+      type: 'error',
+      error: 'No API content of only-once 0.9.0 is installed or recorded',
+      suggestion: 'Known versions: 1.0.0',
+    });
+  });
+});
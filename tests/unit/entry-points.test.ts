@@ -0,0 +1,240 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { resolveEntryPoints } from '#parsers/entry-points.js';
+import { NodeJSAdapter } from '#adapters/nodejs-adapter.js';
+import { MarkdownGenerator } from '#utils/markdown-generator.js';
+import { promises as fs } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+
+const SDK_PACKAGE_JSON = {
+  name: 'sdk-kit',
+  version: '1.0.0',
+  main: './dist/cjs/index.cjs',
+  exports: {
+    '.': {
+      types: './dist/index.d.ts',
+      import: './dist/index.js',
+      require: './dist/cjs/index.cjs',
+    },
+    './server': {
+      import: { types: './dist/server/index.d.ts', default: './dist/server/index.js' },
+    },
+    './utils/*': './dist/utils/*.js',
+    './internal': null,
+    './package.json': './package.json',
+  },
+};
+
+describe('Package entry points', () => {
+  let testDir: string;
+
+  async function createPackage(
+    name: string,
+    packageJson: Record<string, unknown>,
+    files: Record<string, string>,
+  ): Promise<string> {
+    const packagePath = join(testDir, name);
+    await fs.mkdir(packagePath, { recursive: true });
+    await fs.writeFile(join(packagePath, 'package.json'), JSON.stringify(packageJson));
+    for (const [file, content] of Object.entries(files)) {
+      await fs.mkdir(join(packagePath, file, '..'), { recursive: true });
+      await fs.writeFile(join(packagePath, file), content);
+    }
+    return packagePath;
+  }
+
+  beforeAll(async () => {
+    testDir = await fs.mkdtemp(join(tmpdir(), 'entry-points-test-'));
+
+    await createPackage('sdk-kit', SDK_PACKAGE_JSON, {
+      'dist/index.d.ts': "export { Client } from './client.js';\nexport * from './types.js';\n",
+      'dist/index.js': '',
+      'dist/client.d.ts':
+        'export declare class Client {\n  connect(url: string): Promise<void>;\n}\n',
+      'dist/types.d.ts': 'export interface ClientOptions {\n  timeout: number;\n}\n',
+      'dist/server/index.d.ts': 'export declare function createServer(port: number): void;\n',
+      'dist/server/index.js': '',
+      'dist/utils/strings.js': '',
+      'dist/utils/strings.d.ts': 'export declare function slugify(text: string): string;\n',
+      'dist/utils/numbers.js': 'export function clamp(n, min, max) { return n; }\n',
+      'dist/cjs/index.cjs': '',
+      // Glob discovery would pick this up first; the exports map never reaches it
+      'src/legacy.ts': 'export function legacyOnly(): void {}\n',
+    });
+
+    await createPackage(
+      'versions-kit',
+      {
+        name: 'versions-kit',
+        main: 'lib/index.js',
+        types: 'lib/index.d.ts',
+        typesVersions: {
+          '<4.0': { '*': ['ts3/*'] },
+          '*': { server: ['lib/server.d.ts'] },
+        },
+      },
+      {
+        'lib/index.js': '',
+        'lib/index.d.ts': 'export declare const version: string;\n',
+        'lib/server.d.ts': 'export declare function listen(): void;\n',
+      },
+    );
+
+    await createPackage(
+      'barrel-kit',
+      { name: 'barrel-kit', exports: { '.': './src/index.ts' } },
+      {
+        'src/index.ts': [
+          "export * from './api/index.js';",
+          "export { retry as withRetry } from './internal/retry.js';",
+          "export { default as Parser } from './parser.js';",
+        ].join('\n'),
+        'src/api/index.ts':
+          "export { Client } from './client.js';\nexport type { Options } from './options.js';\n",
+        'src/api/client.ts': [
+          'export class Client {\n  connect(): void {}\n}',
+          'export function makeHeaders(): Record<string, string> {\n  return {};\n}',
+        ].join('\n'),
+        'src/api/options.ts': 'export interface Options {\n  timeout: number;\n}\n',
+        'src/internal/retry.ts': [
+          'export function retry(fn: () => void, attempts = 3): void {}',
+          'export function backoffDelay(attempt: number): number {\n  return attempt;\n}',
+          'class RetryState {}',
+        ].join('\n'),
+        'src/parser.ts': 'export default class Parser {\n  parse(text: string): void {}\n}\n',
+      },
+    );
+
+    await createPackage(
+      'conditions-kit',
+      { name: 'conditions-kit', exports: { types: './index.d.ts', default: './index.js' } },
+      { 'index.d.ts': 'export declare function run(): void;\n', 'index.js': '' },
+    );
+  });
+
+  afterAll(async () => {
+    await fs.rm(testDir, { recursive: true, force: true }).catch(() => {});
+  });
+
+  it('should resolve subpath exports, conditions and patterns', async () => {
+    const entryPoints = await resolveEntryPoints(join(testDir, 'sdk-kit'), SDK_PACKAGE_JSON);
+
+    expect(entryPoints).toEqual([
+      { subpath: '.', name: 'sdk-kit', file: join('dist', 'index.d.ts') },
+      { subpath: './server', name: 'sdk-kit/server', file: join('dist', 'server', 'index.d.ts') },
+      {
+        subpath: './utils/numbers',
+        name: 'sdk-kit/utils/numbers',
+        file: join('dist', 'utils', 'numbers.js'),
+      },
+      {
+        subpath: './utils/strings',
+        name: 'sdk-kit/utils/strings',
+        file: join('dist', 'utils', 'strings.d.ts'),
+      },
+    ]);
+  });
+
+  it('should treat a conditions-only exports object as the root entry', async () => {
+    const packagePath = join(testDir, 'conditions-kit');
+    const packageJson = JSON.parse(
+      await fs.readFile(join(packagePath, 'package.json'), 'utf-8'),
+    ) as Record<string, unknown>;
+
+    expect(await resolveEntryPoints(packagePath, packageJson)).toEqual([
+      { subpath: '.', name: 'conditions-kit', file: 'index.d.ts' },
+    ]);
+  });
+
+  it('should fall back to types and typesVersions without an exports map', async () => {
+    const packagePath = join(testDir, 'versions-kit');
+    const packageJson = JSON.parse(
+      await fs.readFile(join(packagePath, 'package.json'), 'utf-8'),
+    ) as Record<string, unknown>;
+
+    expect(await resolveEntryPoints(packagePath, packageJson)).toEqual([
+      { subpath: '.', name: 'versions-kit', file: join('lib', 'index.d.ts') },
+      { subpath: './server', name: 'versions-kit/server', file: join('lib', 'server.d.ts') },
+    ]);
+  });
+
+  it('should extract the API per entry point instead of globbing sources', async () => {
+    const adapter = new NodeJSAdapter();
+    const packagePath = join(testDir, 'sdk-kit');
+    try {
+      const content = await adapter.extractContent(packagePath, {
+        name: 'sdk-kit',
+        version: '1.0.0',
+        location: packagePath,
+        language: 'javascript',
+        packageManager: 'npm',
+        metadata: SDK_PACKAGE_JSON,
+      });
+
+      const functions = content.components.functions.map((f) => f.name);
+      expect(functions).toEqual(expect.arrayContaining(['createServer', 'slugify', 'clamp']));
+      expect(functions).not.toContain('legacyOnly');
+      expect(content.components.classes.map((c) => c.name)).toContain('Client');
+
+      const byName = Object.fromEntries(
+        (content.exports.entryPoints ?? []).map((entry) => [entry.name, entry]),
+      );
+      expect(byName['sdk-kit']?.named.sort()).toEqual(['Client', 'ClientOptions']);
+      expect(byName['sdk-kit/server']?.named).toEqual(['createServer']);
+      expect(content.metadata.typeSystem?.typeDefinitionFile).toBe(join('dist', 'index.d.ts'));
+
+      const markdown = MarkdownGenerator.generate(content);
+      expect(markdown).toContain(`  - sdk-kit/server (${join('dist', 'server', 'index.d.ts')})`);
+      expect(markdown).toContain('    exports: createServer');
+    } finally {
+      adapter.cleanup();
+    }
+  });
+
+  it('should follow re-exports to the declaring file and original name', async () => {
+    const adapter = new NodeJSAdapter();
+    const packagePath = join(testDir, 'barrel-kit');
+    try {
+      const content = await adapter.extractContent(packagePath, {
+        name: 'barrel-kit',
+        version: '1.0.0',
+        location: packagePath,
+        language: 'javascript',
+        packageManager: 'npm',
+        metadata: { name: 'barrel-kit', exports: { '.': './src/index.ts' } },
+      });
+
+      expect([...content.exports.named].sort()).toEqual([
+        'Client',
+        'Options',
+        'Parser',
+        'withRetry',
+      ]);
+
+      const symbols = Object.fromEntries(
+        (content.exports.entryPoints?.[0]?.symbols ?? []).map((symbol) => [symbol.name, symbol]),
+      );
+      expect(symbols.withRetry).toEqual({
+        name: 'withRetry',
+        originalName: 'retry',
+        sourceFile: join('src', 'internal', 'retry.ts'),
+      });
+      expect(symbols.Client?.sourceFile).toBe(join('src', 'api', 'client.ts'));
+      expect(symbols.Parser?.originalName).toBe('Parser');
+
+      const functions = Object.fromEntries(content.components.functions.map((f) => [f.name, f]));
+      expect(functions.retry?.isExported).toBe(true);
+      expect(functions.backoffDelay?.isExported).toBe(false);
+      expect(functions.makeHeaders?.isExported).toBe(false);
+
+      const markdown = MarkdownGenerator.generate(content);
+      expect(markdown).toContain('retry as withRetry');
+      expect(markdown).toContain('Client');
+      expect(markdown).not.toContain('backoffDelay');
+      expect(markdown).not.toContain('makeHeaders');
+      expect(markdown).not.toContain('RetryState');
+    } finally {
+      adapter.cleanup();
+    }
+  });
+});
@@ -0,0 +1,152 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import {
+  ResourceListChangedNotificationSchema,
+  ResourceUpdatedNotificationSchema,
+} from '@modelcontextprotocol/sdk/types.js';
+import { createServer } from '#server.js';
+import { scanPackagesTool, refreshPackageIndex } from '#tools/scan-packages.js';
+import { readPackageTool } from '#tools/read-package.js';
+import { UnifiedCache } from '#utils/cache.js';
+import { NodeJSScanner } from '#scanners/nodejs.js';
+import { promises as fs } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { randomBytes } from 'node:crypto';
+import { setTimeout as delay } from 'node:timers/promises';
+
+describe('environment watching', () => {
+  let testDir: string;
+  let originalCwd: string;
+
+  async function installPackage(name: string, version: string): Promise<void> {
+    const packageDir = join(testDir, 'node_modules', name);
+    await fs.mkdir(packageDir, { recursive: true });
+    await fs.writeFile(
+      join(packageDir, 'package.json'),
+      JSON.stringify({ name, version, types: 'index.d.ts' }),
+    );
+    await fs.writeFile(join(packageDir, 'index.d.ts'), `export declare const version: string;\n`);
+  }
+
+  async function waitFor(condition: () => boolean, timeoutMs = 10000): Promise<void> {
+    const deadline = Date.now() + timeoutMs;
+    while (!condition()) {
+      if (Date.now() > deadline) throw new Error('Timed out waiting for condition');
+      await delay(50);
+    }
+  }
+
+  beforeEach(async () => {
+    originalCwd = process.cwd();
+    testDir = join(tmpdir(), `pkg-local-watch-${randomBytes(8).toString('hex')}`);
+    await fs.mkdir(testDir, { recursive: true });
+    await fs.writeFile(
+      join(testDir, 'package.json'),
+      JSON.stringify({ name: 'watch-project', version: '1.0.0' }),
+    );
+    await fs.writeFile(join(testDir, 'package-lock.json'), '{}');
+
+    await installPackage('kept-kit', '1.0.0');
+    await installPackage('bumped-kit', '1.0.0');
+    await installPackage('removed-kit', '1.0.0');
+
+    process.chdir(testDir);
+    await scanPackagesTool({ forceRefresh: true });
+  });
+
+  afterEach(async () => {
+    process.chdir(originalCwd);
+    await fs.rm(testDir, { recursive: true, force: true }).catch(() => {});
+  });
+
+  it('should watch node_modules and the lock files', async () => {
+    const paths = await new NodeJSScanner(testDir).getWatchPaths();
+
+    expect(paths).toContain(join(testDir, 'node_modules'));
+    expect(paths).toContain(join(testDir, 'package-lock.json'));
+    expect(paths).toContain(join(testDir, 'pnpm-lock.yaml'));
+  });
+
+  it('should re-index only what changed and keep extracted content of the rest', async () => {
+    await readPackageTool({ packageName: 'kept-kit' });
+
+    await installPackage('bumped-kit', '2.0.0');
+    await installPackage('added-kit', '1.0.0');
+    await fs.rm(join(testDir, 'node_modules', 'removed-kit'), { recursive: true });
+
+    const changes = await refreshPackageIndex();
+    expect(changes).toEqual({
+      added: ['added-kit'],
+      removed: ['removed-kit'],
+      updated: ['bumped-kit'],
+    });
+
+    const cache = new UnifiedCache();
+    const cached = cache.load(await new NodeJSScanner(testDir).getEnvironmentInfo());
+    cache.close();
+    expect(cached?.packages?.['bumped-kit']?.version).toBe('2.0.0');
+    expect(cached?.packages?.['kept-kit']?.unifiedContent).toBeDefined();
+  });
+
+  it('should notify clients when an install changes the environment', async () => {
+    const server = createServer({ watch: true });
+    const client = new Client({ name: 'watch-test', version: '1.0.0' });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+
+    let listChanged = 0;
+    const updated: string[] = [];
+    client.setNotificationHandler(ResourceListChangedNotificationSchema, () => {
+      listChanged++;
+    });
+    client.setNotificationHandler(ResourceUpdatedNotificationSchema, (notification) => {
+      updated.push(notification.params.uri);
+    });
+
+    await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+    try {
+      await client.subscribeResource({ uri: 'pkg://bumped-kit/1.0.0' });
+      await client.subscribeResource({ uri: 'pkg://kept-kit/1.0.0' });
+      await delay(500); // Watchers attach once the client has initialized
+
+      await installPackage('bumped-kit', '2.0.0');
+      await fs.writeFile(join(testDir, 'package-lock.json'), '{"lockfileVersion": 3}');
+
+      await waitFor(() => listChanged > 0 && updated.length > 0);
+      expect(updated).toEqual(['pkg://bumped-kit/1.0.0']);
+    } finally {
+      await client.close();
+    }
+  });
+
+  it('should re-index once for all sessions on the same project', async () => {
+    const clients: Client[] = [];
+    let listChanged = 0;
+    for (let i = 0; i < 2; i++) {
+      const server = createServer({ watch: true });
+      const client = new Client({ name: `watch-test-${i}`, version: '1.0.0' });
+      const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+      client.setNotificationHandler(ResourceListChangedNotificationSchema, () => {
+        listChanged++;
+      });
+      await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+      clients.push(client);
+    }
+
+    const log = vi.spyOn(console, 'error');
+    try {
+      await delay(500);
+      await installPackage('added-kit', '1.0.0');
+
+      await waitFor(() => listChanged === 2);
+      const reindexed = log.mock.calls.filter((args) =>
+        args.includes('Installed packages changed, re-indexing'),
+      );
+      expect(reindexed).toHaveLength(1);
+    } finally {
+      log.mockRestore();
+      for (const client of clients) await client.close();
+    }
+  });
+});
@@ -0,0 +1,195 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { SSEClientTransport } from '@modelcontextprotocol/sdk/client/sse.js';
+import { listenHttp, type HttpServerHandle } from '#server.js';
+import { promises as fs } from 'node:fs';
+import { request } from 'node:http';
+import { join } from 'node:path';
+import { URL } from 'node:url';
+import { tmpdir } from 'node:os';
+import { randomBytes } from 'node:crypto';
+import { setTimeout as delay } from 'node:timers/promises';
+
+describe('HTTP transport', () => {
+  const projects: Record<string, string> = {};
+  let handle: HttpServerHandle;
+
+  async function createProject(packageName: string): Promise<string> {
+    const projectDir = join(tmpdir(), `pkg-local-http-${randomBytes(8).toString('hex')}`);
+    const packageDir = join(projectDir, 'node_modules', packageName);
+    await fs.mkdir(packageDir, { recursive: true });
+    await fs.writeFile(
+      join(projectDir, 'package.json'),
+      JSON.stringify({ name: `${packageName}-project`, dependencies: { [packageName]: '^1.0.0' } }),
+    );
+    await fs.writeFile(
+      join(packageDir, 'package.json'),
+      JSON.stringify({ name: packageName, version: '1.0.0' }),
+    );
+    return projectDir;
+  }
+
+  async function connect(
+    transport: StreamableHTTPClientTransport | SSEClientTransport,
+  ): Promise<Client> {
+    const client = new Client({ name: 'http-test', version: '1.0.0' });
+    await client.connect(transport);
+    return client;
+  }
+
+  async function scannedPackages(client: Client): Promise<string[]> {
+    const result = await client.callTool({
+      name: 'scan-packages',
+      arguments: { scope: 'project', forceRefresh: true },
+    });
+    const scan = result.structuredContent as { packages?: Record<string, unknown> };
+    return Object.keys(scan.packages ?? {});
+  }
+
+  async function postStatus(
+    headers: Record<string, string>,
+    body: unknown = {},
+    url = handle.url,
+  ): Promise<number> {
+    return (await post(headers, body, url)).status;
+  }
+
+  function post(
+    headers: Record<string, string>,
+    body: unknown,
+    url: string,
+  ): Promise<{ status: number; sessionId?: string }> {
+    const { port } = new URL(url);
+    return new Promise((done, fail) => {
+      const req = request(
+        {
+          host: '127.0.0.1',
+          port,
+          path: '/mcp',
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            Accept: 'application/json, text/event-stream',
+            ...headers,
+          },
+        },
+        (res) => {
+          res.resume();
+          const sessionId = res.headers['mcp-session-id'];
+          done({
+            status: res.statusCode ?? 0,
+            ...(typeof sessionId === 'string' && { sessionId }),
+          });
+        },
+      );
+      req.on('error', fail);
+      req.end(JSON.stringify(body));
+    });
+  }
+
+  beforeAll(async () => {
+    projects.alpha = await createProject('alpha-kit');
+    projects.beta = await createProject('beta-kit');
+    handle = await listenHttp({ port: 0, sse: true });
+  });
+
+  afterAll(async () => {
+    await handle.close();
+    for (const projectDir of Object.values(projects)) {
+      await fs.rm(projectDir, { recursive: true, force: true }).catch(() => {});
+    }
+  });
+
+  it('should bind to localhost by default', () => {
+    expect(handle.url).toMatch(/^http:\/\/127\.0\.0\.1:\d+\/mcp$/);
+  });
+
+  it('should serve each session against its own project root', async () => {
+    const alpha = await connect(
+      new StreamableHTTPClientTransport(new URL(handle.url), {
+        requestInit: { headers: { 'X-Project-Root': projects.alpha ?? '' } },
+      }),
+    );
+    const beta = await connect(
+      new StreamableHTTPClientTransport(
+        new URL(`${handle.url}?project=${encodeURIComponent(projects.beta ?? '')}`),
+      ),
+    );
+
+    try {
+      const { tools } = await alpha.listTools();
+      expect(tools.map((tool) => tool.name)).toContain('read-package');
+
+      expect(await scannedPackages(alpha)).toEqual(['alpha-kit']);
+      expect(await scannedPackages(beta)).toEqual(['beta-kit']);
+    } finally {
+      await alpha.close();
+      await beta.close();
+    }
+  });
+
+  it('should serve the HTTP+SSE transport when enabled', async () => {
+    const sseUrl = new URL(handle.url.replace(/\/mcp$/, '/sse'));
+    sseUrl.searchParams.set('project', projects.alpha ?? '');
+    const client = await connect(new SSEClientTransport(sseUrl));
+
+    try {
+      expect(await scannedPackages(client)).toEqual(['alpha-kit']);
+    } finally {
+      await client.close();
+    }
+  });
+
+  it('should reject foreign hosts and unknown sessions', async () => {
+    expect(await postStatus({ Host: 'attacker.example' })).toBe(403);
+    expect(await postStatus({ Host: 'localhost' })).toBe(400); // Not an initialize request
+
+    const listTools = { jsonrpc: '2.0', id: 1, method: 'tools/list' };
+    expect(await postStatus({ 'Mcp-Session-Id': 'no-such-session' }, listTools)).toBe(404);
+  });
+
+  it('should refuse sessions for a project root that does not exist', async () => {
+    const client = new Client({ name: 'http-test', version: '1.0.0' });
+    const transport = new StreamableHTTPClientTransport(new URL(handle.url), {
+      requestInit: { headers: { 'X-Project-Root': join(tmpdir(), 'pkg-local-missing-project') } },
+    });
+
+    await expect(client.connect(transport)).rejects.toThrow();
+  });
+
+  it('should close sessions that stay idle', async () => {
+    const idle = await listenHttp({ port: 0, sessionIdleTimeoutMs: 200 });
+    const initialize = {
+      jsonrpc: '2.0',
+      id: 1,
+      method: 'initialize',
+      params: {
+        protocolVersion: '2025-03-26',
+        capabilities: {},
+        clientInfo: { name: 'http-test', version: '1.0.0' },
+      },
+    };
+    const listTools = { jsonrpc: '2.0', id: 2, method: 'tools/list' };
+
+    try {
+      // The client goes away without ending its session
+      const { sessionId } = await post(
+        { 'X-Project-Root': projects.alpha ?? '' },
+        initialize,
+        idle.url,
+      );
+      expect(sessionId).toBeDefined();
+      expect(await postStatus({ 'Mcp-Session-Id': sessionId ?? '' }, listTools, idle.url)).toBe(
+        200,
+      );
+
+      await delay(600);
+      expect(await postStatus({ 'Mcp-Session-Id': sessionId ?? '' }, listTools, idle.url)).toBe(
+        404,
+      );
+    } finally {
+      await idle.close();
+    }
+  });
+});
@@ -0,0 +1,375 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { NodeJSScanner } from '#scanners/nodejs.js';
+import { scanPackagesTool } from '#tools/scan-packages.js';
+import { indexLockedPackages } from '#scanners/lockfiles.js';
+import { promises as fs } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { randomBytes } from 'node:crypto';
+
+describe('lockfile-only scanning', () => {
+  let testDir: string;
+
+  // Fresh clones: manifests and lockfiles, nothing installed
+  async function createProject(name: string, files: Record<string, string>): Promise<string> {
+    const projectDir = join(testDir, name);
+    for (const [file, content] of Object.entries(files)) {
+      await fs.mkdir(join(projectDir, file, '..'), { recursive: true });
+      await fs.writeFile(join(projectDir, file), content);
+    }
+    return projectDir;
+  }
+
+  const manifest = JSON.stringify({
+    name: 'locked-app',
+    dependencies: { express: '^4.18.0' },
+    devDependencies: { vitest: '^1.0.0' },
+    optionalDependencies: { fsevents: '^2.3.0' },
+  });
+
+  beforeAll(() => {
+    testDir = join(tmpdir(), `pkg-local-lockfiles-${randomBytes(8).toString('hex')}`);
+  });
+
+  afterAll(async () => {
+    await fs.rm(testDir, { recursive: true, force: true }).catch(() => {});
+  });
+
+  it('should read package-lock.json flags, hashes and nested versions', async () => {
+    const projectDir = await createProject('npm', {
+      'package.json': manifest,
+      'package-lock.json': JSON.stringify({
+        name: 'locked-app',
+        lockfileVersion: 3,
+        packages: {
+          '': { name: 'locked-app' },
+          'node_modules/express': { version: '4.18.2', integrity: 'sha512-express' },
+          'node_modules/debug': { version: '2.6.9', integrity: 'sha512-debug2' },
+          'node_modules/vitest': { version: '1.2.0', integrity: 'sha512-vitest', dev: true },
+          'node_modules/vitest/node_modules/debug': {
+            version: '4.3.4',
+            integrity: 'sha512-debug4',
+            dev: true,
+          },
+          'node_modules/fsevents': { version: '2.3.3', optional: true },
+          'packages/shared': { version: '0.0.1' },
+          'node_modules/shared': { resolved: 'packages/shared', link: true },
+        },
+      }),
+    });
+
+    const result = await new NodeJSScanner(projectDir).scan({ lockfileOnly: true });
+
+    expect(Object.keys(result.packages ?? {}).sort()).toEqual([
+      'debug',
+      'express',
+      'fsevents',
+      'vitest',
+    ]);
+    expect(result.packages?.express).toMatchObject({
+      version: '4.18.2',
+      location: 'package-lock.json',
+      packageManager: 'npm',
+      integrity: 'sha512-express',
+      dev: false,
+      optional: false,
+    });
+    expect(result.packages?.vitest).toMatchObject({ dev: true, optional: false });
+    expect(result.packages?.fsevents).toMatchObject({ dev: false, optional: true });
+    expect(result.packages?.debug).toMatchObject({
+      version: '2.6.9',
+      dev: false,
+      installations: [
+        { version: '2.6.9', location: 'package-lock.json' },
+        { version: '4.3.4', location: 'package-lock.json' },
+      ],
+    });
+  });
+
+  it('should classify pnpm lockfile v9 packages from the importers', async () => {
+    const projectDir = await createProject('pnpm', {
+      'package.json': manifest,
+      'pnpm-lock.yaml': [
+        "lockfileVersion: '9.0'",
+        '',
+        'settings:',
+        '  autoInstallPeers: true',
+        '',
+        'importers:',
+        '',
+        '  .:',
+        '    dependencies:',
+        '      express:',
+        '        specifier: ^4.18.0',
+        '        version: 4.18.2',
+        '    devDependencies:',
+        '      vitest:',
+        '        specifier: ^1.0.0',
+        '        version: 1.2.0(@types/node@20.11.0)',
+        '    optionalDependencies:',
+        '      fsevents:',
+        '        specifier: ^2.3.0',
+        '        version: 2.3.3',
+        '',
+        'packages:',
+        '',
+        "  '@types/node@20.11.0':",
+        '    resolution: {integrity: sha512-types}',
+        '',
+        '  debug@2.6.9:',
+        '    resolution: {integrity: sha512-debug}',
+        '',
+        '  express@4.18.2:',
+        '    resolution: {integrity: sha512-express}',
+        "    engines: {node: '>= 0.10.0'}",
+        '',
+        '  fsevents@2.3.3:',
+        '    resolution: {integrity: sha512-fsevents}',
+        '    os: [darwin]',
+        '',
+        '  vitest@1.2.0:',
+        '    resolution: {integrity: sha512-vitest}',
+        '    peerDependencies:',
+        "      '@types/node': ^18.0.0 || >=20.0.0",
+        '',
+        'snapshots:',
+        '',
+        "  '@types/node@20.11.0': {}",
+        '',
+        '  debug@2.6.9: {}',
+        '',
+        '  express@4.18.2:',
+        '    dependencies:',
+        '      debug: 2.6.9',
+        '',
+        '  fsevents@2.3.3:',
+        '    optional: true',
+        '',
+        '  vitest@1.2.0(@types/node@20.11.0):',
+        '    dependencies:',
+        "      '@types/node': 20.11.0",
+        '      debug: 2.6.9',
+        '',
+      ].join('\n'),
+    });
+
+    const result = await new NodeJSScanner(projectDir).scan({ lockfileOnly: true });
+    const flags = Object.fromEntries(
+      Object.values(result.packages ?? {}).map((info) => [
+        info.name,
+        [info.version, info.integrity, info.dev, info.optional],
+      ]),
+    );
+
+    expect(result.environment.packageManager).toBe('pnpm');
+    expect(flags).toEqual({
+      '@types/node': ['20.11.0', 'sha512-types', true, false],
+      debug: ['2.6.9', 'sha512-debug', false, false],
+      express: ['4.18.2', 'sha512-express', false, false],
+      fsevents: ['2.3.3', 'sha512-fsevents', false, true],
+      vitest: ['1.2.0', 'sha512-vitest', true, false],
+    });
+    expect(result.packages?.vitest?.hasTypes).toBe(false);
+
+    // Peer-dependency variants lock one version several times
+    const variant = { name: 'vitest', version: '1.2.0', dev: true, optional: false };
+    const indexed = indexLockedPackages(
+      {
+        lockfile: 'pnpm-lock.yaml',
+        packageManager: 'pnpm',
+        packages: [variant, variant, { ...variant, version: '1.3.0' }, variant],
+      },
+      'javascript',
+    );
+    expect(indexed.vitest?.installations?.map((copy) => copy.version)).toEqual(['1.2.0', '1.3.0']);
+  });
+
+  it('should read Yarn 1 and Yarn 2+ lockfiles', async () => {
+    const classicDir = await createProject('yarn-classic', {
+      'package.json': manifest,
+      'yarn.lock': [
+        '# THIS IS AN AUTOGENERATED FILE. DO NOT EDIT THIS FILE DIRECTLY.',
+        '# yarn lockfile v1',
+        '',
+        '',
+        'debug@2.6.9, debug@^2.6.0:',
+        '  version "2.6.9"',
+        '  resolved "https://registry.yarnpkg.com/debug/-/debug-2.6.9.tgz#5d128515df134ff327e90a4c93f4e077a536341f"',
+        '  integrity sha512-debug',
+        '',
+        'express@^4.18.0:',
+        '  version "4.18.2"',
+        '  integrity sha512-express',
+        '  dependencies:',
+        '    debug "2.6.9"',
+        '',
+        'fsevents@^2.3.0:',
+        '  version "2.3.3"',
+        '  integrity sha512-fsevents',
+        '',
+        'vitest@^1.0.0:',
+        '  version "1.2.0"',
+        '  integrity sha512-vitest',
+        '  dependencies:',
+        '    debug "^2.6.0"',
+        '',
+      ].join('\n'),
+    });
+    const berryDir = await createProject('yarn-berry', {
+      'package.json': manifest,
+      'yarn.lock': [
+        '# This file is generated by running "yarn install" inside your project.',
+        '',
+        '__metadata:',
+        '  version: 8',
+        '  cacheKey: 10c0',
+        '',
+        '"debug@npm:2.6.9":',
+        '  version: 2.6.9',
+        '  resolution: "debug@npm:2.6.9"',
+        '  checksum: 10c0/debug',
+        '  languageName: node',
+        '  linkType: hard',
+        '',
+        '"express@npm:^4.18.0":',
+        '  version: 4.18.2',
+        '  resolution: "express@npm:4.18.2"',
+        '  dependencies:',
+        '    debug: "npm:2.6.9"',
+        '  checksum: 10c0/express',
+        '  languageName: node',
+        '  linkType: hard',
+        '',
+        '"fsevents@npm:^2.3.0":',
+        '  version: 2.3.3',
+        '  resolution: "fsevents@npm:2.3.3"',
+        '  conditions: os=darwin',
+        '  languageName: node',
+        '  linkType: hard',
+        '',
+        '"locked-app@workspace:.":',
+        '  version: 0.0.0-use.local',
+        '  resolution: "locked-app@workspace:."',
+        '  dependencies:',
+        '    express: "npm:^4.18.0"',
+        '  languageName: unknown',
+        '  linkType: soft',
+        '',
+        '"vitest@npm:^1.0.0":',
+        '  version: 1.2.0',
+        '  resolution: "vitest@npm:1.2.0"',
+        '  checksum: 10c0/vitest',
+        '  languageName: node',
+        '  linkType: hard',
+        '',
+      ].join('\n'),
+    });
+
+    const classic = await new NodeJSScanner(classicDir).scan({ lockfileOnly: true });
+    const berry = await new NodeJSScanner(berryDir).scan({ lockfileOnly: true });
+
+    for (const result of [classic, berry]) {
+      expect(result.environment.packageManager).toBe('yarn');
+      expect(Object.keys(result.packages ?? {}).sort()).toEqual([
+        'debug',
+        'express',
+        'fsevents',
+        'vitest',
+      ]);
+      expect(result.packages?.express).toMatchObject({ version: '4.18.2', dev: false });
+      expect(result.packages?.debug).toMatchObject({ version: '2.6.9', dev: false });
+      expect(result.packages?.vitest).toMatchObject({ dev: true, optional: false });
+      expect(result.packages?.fsevents).toMatchObject({ dev: false, optional: true });
+    }
+    expect(classic.packages?.express?.integrity).toBe('sha512-express');
+    expect(berry.packages?.express?.integrity).toBe('10c0/express');
+  });
+
+  it('should scan uv.lock before the virtual environment exists', async () => {
+    const projectDir = await createProject('uv', {
+      'pyproject.toml': [
+        '[project]',
+        'name = "locked-service"',
+        'version = "0.1.0"',
+        'dependencies = ["requests>=2.31"]',
+        '',
+        '[project.optional-dependencies]',
+        'socks = ["pysocks"]',
+        '',
+        '[dependency-groups]',
+        'dev = ["pytest>=8"]',
+        '',
+      ].join('\n'),
+      'uv.lock': [
+        'version = 1',
+        'requires-python = ">=3.11"',
+        '',
+        '[[package]]',
+        'name = "locked-service"',
+        'version = "0.1.0"',
+        'source = { editable = "." }',
+        'dependencies = [{ name = "requests" }]',
+        '',
+        '[package.optional-dependencies]',
+        'socks = [{ name = "pysocks" }]',
+        '',
+        '[package.dev-dependencies]',
+        'dev = [{ name = "pytest" }]',
+        '',
+        '[[package]]',
+        'name = "pysocks"',
+        'version = "1.7.1"',
+        'source = { registry = "https://pypi.org/simple" }',
+        'sdist = { url = "https://files.example/PySocks-1.7.1.tar.gz", hash = "sha256:pysocks", size = 284351 }',
+        '',
+        '[[package]]',
+        'name = "pytest"',
+        'version = "8.0.0"',
+        'source = { registry = "https://pypi.org/simple" }',
+        'dependencies = [{ name = "pluggy" }]',
+        'wheels = [{ url = "https://files.example/pytest-8.0.0-py3-none-any.whl", hash = "sha256:pytest" }]',
+        '',
+        '[[package]]',
+        'name = "pluggy"',
+        'version = "1.4.0"',
+        'source = { registry = "https://pypi.org/simple" }',
+        '',
+        '[[package]]',
+        'name = "requests"',
+        'version = "2.31.0"',
+        'source = { registry = "https://pypi.org/simple" }',
+        'sdist = { url = "https://files.example/requests-2.31.0.tar.gz", hash = "sha256:requests", size = 110794 }',
+        '',
+      ].join('\n'),
+    });
+
+    const result = await scanPackagesTool({
+      projectPath: projectDir,
+      lockfileOnly: true,
+      limit: 10,
+      fields: ['name', 'version', 'location'],
+    });
+
+    expect(result.environment).toMatchObject({ type: 'system', packageManager: 'uv' });
+    expect(result.items).toEqual([
+      { name: 'pluggy', version: '1.4.0', location: 'uv.lock' },
+      { name: 'pysocks', version: '1.7.1', location: 'uv.lock' },
+      { name: 'pytest', version: '8.0.0', location: 'uv.lock' },
+      { name: 'requests', version: '2.31.0', location: 'uv.lock' },
+    ]);
+
+    const details = await scanPackagesTool({
+      projectPath: projectDir,
+      lockfileOnly: true,
+      scope: 'project',
+    });
+    expect(details.packages?.requests).toMatchObject({
+      integrity: 'sha256:requests',
+      dev: false,
+      optional: false,
+    });
+    expect(details.packages?.pytest).toMatchObject({ integrity: 'sha256:pytest', dev: true });
+    expect(details.packages?.pysocks).toMatchObject({ dev: false, optional: true });
+    expect(details.packages?.pluggy).toBeUndefined();
+  });
+});
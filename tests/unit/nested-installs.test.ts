@@ -0,0 +1,141 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { NodeJSScanner } from '#scanners/nodejs.js';
+import { scanPackagesTool } from '#tools/scan-packages.js';
+import { readPackageTool } from '#tools/read-package.js';
+import { promises as fs } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { randomBytes } from 'node:crypto';
+
+describe('nested package installs', () => {
+  let testDir: string;
+  let originalCwd: string;
+
+  async function installPackage(
+    path: string,
+    version: string,
+    declarations: string,
+  ): Promise<void> {
+    const packageDir = join(testDir, path);
+    const name = path.split('node_modules/').pop() ?? path;
+    await fs.mkdir(packageDir, { recursive: true });
+    await fs.writeFile(
+      join(packageDir, 'package.json'),
+      JSON.stringify({ name, version, types: 'index.d.ts' }),
+    );
+    await fs.writeFile(join(packageDir, 'index.d.ts'), declarations);
+  }
+
+  beforeAll(async () => {
+    originalCwd = process.cwd();
+    testDir = join(tmpdir(), `pkg-local-nested-${randomBytes(8).toString('hex')}`);
+    await fs.mkdir(testDir, { recursive: true });
+
+    await fs.writeFile(
+      join(testDir, 'package.json'),
+      JSON.stringify({
+        name: 'nested-project',
+        version: '1.0.0',
+        dependencies: { 'app-kit': '^1.0.0', 'shared-lib': '^2.0.0' },
+      }),
+    );
+    await fs.writeFile(join(testDir, 'package-lock.json'), '{}');
+
+    await installPackage(
+      'node_modules/shared-lib',
+      '2.0.0',
+      'export declare function modernCall(): void;\n',
+    );
+    await installPackage('node_modules/app-kit', '1.0.0', 'export declare function run(): void;\n');
+    // app-kit needs shared-lib@1, which in turn pulls in a package nothing else uses
+    await installPackage(
+      'node_modules/app-kit/node_modules/shared-lib',
+      '1.0.0',
+      'export declare function legacyCall(): void;\n',
+    );
+    await installPackage(
+      'node_modules/app-kit/node_modules/shared-lib/node_modules/tiny-dep',
+      '0.1.0',
+      'export declare const tiny: number;\n',
+    );
+
+    process.chdir(testDir);
+  });
+
+  afterAll(async () => {
+    process.chdir(originalCwd);
+    await fs.rm(testDir, { recursive: true, force: true }).catch(() => {});
+  });
+
+  it('should record nested copies with the dependents that pulled them in', async () => {
+    const result = await new NodeJSScanner(testDir).scan();
+
+    expect(result.packages?.['shared-lib']?.version).toBe('2.0.0');
+    expect(result.packages?.['shared-lib']?.installations).toEqual([
+      { version: '2.0.0', location: join('node_modules', 'shared-lib') },
+      {
+        version: '1.0.0',
+        location: join('node_modules', 'app-kit', 'node_modules', 'shared-lib'),
+        dependentPath: ['app-kit'],
+      },
+    ]);
+  });
+
+  it('should add packages that are only installed nested', async () => {
+    const result = await new NodeJSScanner(testDir).scan();
+
+    expect(result.packages?.['tiny-dep']).toMatchObject({
+      version: '0.1.0',
+      location: join(
+        'node_modules',
+        'app-kit',
+        'node_modules',
+        'shared-lib',
+        'node_modules',
+        'tiny-dep',
+      ),
+    });
+    expect(result.packages?.['tiny-dep']?.installations).toBeUndefined();
+  });
+
+  it('should keep dependent paths through the cache', async () => {
+    await scanPackagesTool({ scope: 'project', forceRefresh: true });
+    const cached = await scanPackagesTool({ scope: 'project' });
+
+    expect(cached.packages?.['shared-lib']?.installations?.[1]?.dependentPath).toEqual(['app-kit']);
+  });
+
+  it('should read the copy selected by version or location', async () => {
+    const hoisted = await readPackageTool({ packageName: 'shared-lib' });
+    expect(hoisted.type === 'tree' && hoisted.initContent).toContain('modernCall');
+
+    const byVersion = await readPackageTool({ packageName: 'shared-lib', version: '1.0.0' });
+    expect(byVersion.type).toBe('tree');
+    if (byVersion.type === 'tree') {
+      expect(byVersion.version).toBe('1.0.0');
+      expect(byVersion.initContent).toContain('legacyCall');
+      expect(byVersion.initContent).not.toContain('modernCall');
+    }
+
+    const byLocation = await readPackageTool({
+      packageName: 'shared-lib',
+      location: 'node_modules/app-kit/node_modules/shared-lib',
+    });
+    expect(byLocation.type === 'tree' && byLocation.initContent).toContain('legacyCall');
+
+    // Reading a nested copy must not replace the cached content of the hoisted one
+    const again = await readPackageTool({ packageName: 'shared-lib' });
+    expect(again.type === 'tree' && again.initContent).toContain('modernCall');
+  });
+
+  it('should list the installed copies when the requested one does not exist', async () => {
+    const result = await readPackageTool({ packageName: 'shared-lib', version: '3.0.0' });
+
+    expect(result.success).toBe(false);
+    if (result.type === 'error') {
+      expect(result.error).toContain('3.0.0');
+      expect(result.suggestion).toContain('1.0.0');
+      expect(result.suggestion).toContain('2.0.0');
+    }
+  });
+});
@@ -0,0 +1,98 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { scanPackagesTool } from '#tools/scan-packages.js';
+import { promises as fs } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { randomBytes } from 'node:crypto';
+
+describe('paginated package listing', () => {
+  let testDir: string;
+  let originalCwd: string;
+
+  const installed: Array<{ name: string; version: string; types?: string }> = [
+    { name: 'zod', version: '3.22.4', types: 'index.d.ts' },
+    { name: 'axios', version: '1.6.0', types: 'index.d.ts' },
+    { name: 'lodash', version: '4.17.21' },
+    { name: 'chalk', version: '5.3.0', types: 'source/index.d.ts' },
+    { name: 'debug', version: '4.3.4' },
+    { name: 'ms', version: '2.1.3' },
+    { name: 'kleur', version: '10.0.0' },
+  ];
+
+  beforeAll(async () => {
+    originalCwd = process.cwd();
+    testDir = join(tmpdir(), `pkg-local-listing-${randomBytes(8).toString('hex')}`);
+
+    for (const pkg of installed) {
+      const packageDir = join(testDir, 'node_modules', pkg.name);
+      await fs.mkdir(packageDir, { recursive: true });
+      await fs.writeFile(join(packageDir, 'package.json'), JSON.stringify(pkg));
+    }
+    await fs.writeFile(
+      join(testDir, 'package.json'),
+      JSON.stringify({
+        name: 'listing-project',
+        dependencies: { zod: '^3.22.0', axios: '^1.6.0', lodash: '^4.17.0' },
+      }),
+    );
+
+    process.chdir(testDir);
+  });
+
+  afterAll(async () => {
+    process.chdir(originalCwd);
+    await fs.rm(testDir, { recursive: true, force: true }).catch(() => {});
+  });
+
+  it('should page through every package in name order', async () => {
+    const names: string[] = [];
+    let cursor: string | undefined;
+    let pages = 0;
+    do {
+      const page = await scanPackagesTool({ limit: 3, cursor, forceRefresh: pages === 0 });
+      expect(page).toMatchObject({ type: 'list', success: true, totalPackages: 7 });
+      expect(page.packages).toBeUndefined();
+      expect(page.items?.length).toBeLessThanOrEqual(3);
+
+      names.push(...(page.items ?? []).map((item) => item.name ?? ''));
+      cursor = page.nextCursor;
+      pages++;
+    } while (cursor !== undefined && pages < 10);
+
+    expect(pages).toBe(3);
+    expect(names).toEqual(installed.map((pkg) => pkg.name).sort());
+  });
+
+  it('should return only the requested fields, sorted by version', async () => {
+    const result = await scanPackagesTool({ fields: ['name', 'hasTypes'], sort: 'version' });
+
+    expect(result.items).toEqual([
+      { name: 'axios', hasTypes: true },
+      { name: 'ms', hasTypes: false },
+      { name: 'zod', hasTypes: true },
+      { name: 'debug', hasTypes: false },
+      { name: 'lodash', hasTypes: false },
+      { name: 'chalk', hasTypes: true },
+      { name: 'kleur', hasTypes: false },
+    ]);
+    expect(result.nextCursor).toBeUndefined();
+  });
+
+  it('should list only project dependencies with scope "project"', async () => {
+    const result = await scanPackagesTool({ scope: 'project', fields: ['name', 'version'] });
+
+    expect(result).toMatchObject({ type: 'list', totalPackages: 3 });
+    expect(result.items).toEqual([
+      { name: 'axios', version: '1.6.0' },
+      { name: 'lodash', version: '4.17.21' },
+      { name: 'zod', version: '3.22.4' },
+    ]);
+  });
+
+  it('should reject a cursor that is not an offset', async () => {
+    await expect(scanPackagesTool({ cursor: 'page-2' })).rejects.toMatchObject({
+      code: 'INVALID_CURSOR',
+      message: 'Invalid cursor: page-2',
+    });
+  });
+});
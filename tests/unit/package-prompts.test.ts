@@ -0,0 +1,186 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { createServer } from '#server.js';
+import { findProjectImports } from '#utils/project-imports.js';
+import { promises as fs } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { randomBytes } from 'node:crypto';
+import { writeFiles } from '../utils/test-helpers.js';
+
+describe('guided workflow prompts', () => {
+  let testDir: string;
+  let originalCwd: string;
+  let client: Client;
+
+  function promptText(result: Awaited<ReturnType<Client['getPrompt']>>): string {
+    const last = result.messages[result.messages.length - 1];
+    return last?.content.type === 'text' ? last.content.text : '';
+  }
+
+  beforeAll(async () => {
+    originalCwd = process.cwd();
+    testDir = join(tmpdir(), `pkg-local-prompts-${randomBytes(8).toString('hex')}`);
+    await fs.mkdir(testDir, { recursive: true });
+
+    await writeFiles(testDir, {
+      'package.json': JSON.stringify({
+        name: 'prompts-project',
+        version: '1.0.0',
+        dependencies: { 'text-kit': '^2.0.0', 'legacy-app': '^1.0.0' },
+      }),
+      'node_modules/text-kit/package.json': JSON.stringify({
+        name: 'text-kit',
+        version: '2.0.0',
+        types: 'index.d.ts',
+      }),
+      'node_modules/text-kit/index.d.ts':
+        'export declare function wrap(text: string, width: number): string;\n' +
+        'export declare function pad(text: string, width: number): string;\n',
+      'node_modules/legacy-app/package.json': JSON.stringify({
+        name: 'legacy-app',
+        version: '1.0.0',
+      }),
+      'node_modules/legacy-app/node_modules/text-kit/package.json': JSON.stringify({
+        name: 'text-kit',
+        version: '1.0.0',
+        types: 'index.d.ts',
+      }),
+      'node_modules/legacy-app/node_modules/text-kit/index.d.ts':
+        'export declare function wrap(text: string, width: number): string;\n' +
+        'export declare function legacyWrap(text: string): string;\n',
+      'src/format.ts': "import { wrap, secretHelper } from 'text-kit';\nexport const f = wrap;\n",
+      'src/pad.js': "const { pad } = require('text-kit');\nmodule.exports = pad;\n",
+      'src/internal.ts': "import 'text-kit/lib/internal.js';\n",
+      'dist/bundle.js': "const { wrap } = require('text-kit');\n",
+    });
+
+    process.chdir(testDir);
+
+    const server = createServer();
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    client = new Client({ name: 'prompts-test', version: '1.0.0' });
+    await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+  });
+
+  afterAll(async () => {
+    await client.close();
+    process.chdir(originalCwd);
+    await fs.rm(testDir, { recursive: true, force: true }).catch(() => {});
+  });
+
+  it('should advertise the guided workflow prompts', async () => {
+    expect(client.getServerCapabilities()?.prompts).toBeDefined();
+
+    const { prompts } = await client.listPrompts();
+    expect(prompts.map((prompt) => prompt.name)).toEqual([
+      'use-package',
+      'migrate-package',
+      'audit-package-usage',
+    ]);
+  });
+
+  it('should find the project imports of a package, skipping build output', async () => {
+    const imports = await findProjectImports(testDir, 'text-kit', 'javascript');
+
+    expect(imports).toEqual([
+      {
+        file: join('src', 'format.ts'),
+        line: 1,
+        specifier: 'text-kit',
+        names: ['wrap', 'secretHelper'],
+      },
+      {
+        file: join('src', 'internal.ts'),
+        line: 1,
+        specifier: 'text-kit/lib/internal.js',
+        names: [],
+      },
+      { file: join('src', 'pad.js'), line: 1, specifier: 'text-kit', names: ['pad'] },
+    ]);
+  });
+
+  it('should find Python imports by module name', async () => {
+    await writeFiles(testDir, {
+      'app/main.py':
+        'import os\nfrom text_kit import (\n    wrap,\n    pad as padded,  # aligned\n)\nimport text_kit.sub as sub\n',
+    });
+
+    const imports = await findProjectImports(testDir, 'text-kit', 'python');
+
+    expect(imports).toEqual([
+      { file: join('app', 'main.py'), line: 2, specifier: 'text_kit', names: ['wrap', 'pad'] },
+      { file: join('app', 'main.py'), line: 6, specifier: 'text_kit.sub', names: ['*'] },
+    ]);
+  });
+
+  it('should embed the package overview, API surface and imports', async () => {
+    const result = await client.getPrompt({
+      name: 'use-package',
+      arguments: { package: 'text-kit', task: 'wrap long log lines' },
+    });
+
+    expect(result.messages[0]?.content).toMatchObject({
+      type: 'resource',
+      resource: { uri: 'pkg://text-kit/2.0.0', mimeType: 'text/markdown' },
+    });
+    const text = promptText(result);
+    expect(text).toContain('text-kit 2.0.0 to wrap long log lines');
+    expect(text).toContain('- `text-kit`: wrap, pad');
+    expect(text).toContain(`${join('src', 'format.ts')}:1 \`text-kit\`: wrap, secretHelper`);
+  });
+
+  it('should list export changes when migrating between installed versions', async () => {
+    const result = await client.getPrompt({
+      name: 'migrate-package',
+      arguments: { package: 'text-kit', from: '1.0.0', to: '2.0.0' },
+    });
+
+    expect(result.messages.map((message) => message.content.type)).toEqual([
+      'resource',
+      'resource',
+      'text',
+    ]);
+    const text = promptText(result);
+    expect(text).toContain(
+      `- 1.0.0: installed at ${join('node_modules', 'legacy-app', 'node_modules', 'text-kit')}`,
+    );
+    expect(text).toContain('- `text-kit` removed: legacyWrap');
+    expect(text).toContain('- `text-kit` added: pad');
+
+    // Migrating to a version that is not installed still works from the installed side
+    const upgrade = await client.getPrompt({
+      name: 'migrate-package',
+      arguments: { package: 'text-kit', from: '2.0.0', to: '3.0.0' },
+    });
+    expect(promptText(upgrade)).toContain('- 3.0.0: not installed locally');
+  });
+
+  it('should flag imports outside the public API when auditing', async () => {
+    const result = await client.getPrompt({
+      name: 'audit-package-usage',
+      arguments: { package: 'text-kit' },
+    });
+
+    const text = promptText(result);
+    expect(text).toContain(
+      `${join('src', 'format.ts')}:1 imports \`secretHelper\` from \`text-kit\``,
+    );
+    expect(text).toContain(
+      `${join('src', 'internal.ts')}:1 imports the module from \`text-kit/lib/internal.js\``,
+    );
+  });
+
+  it('should reject unknown prompts, missing arguments and packages', async () => {
+    await expect(client.getPrompt({ name: 'missing-prompt' })).rejects.toThrow(
+      'Unknown prompt: missing-prompt',
+    );
+    await expect(
+      client.getPrompt({ name: 'use-package', arguments: { package: 'text-kit' } }),
+    ).rejects.toThrow('requires the "task" argument');
+    await expect(
+      client.getPrompt({ name: 'audit-package-usage', arguments: { package: 'no-such-kit' } }),
+    ).rejects.toThrow('no-such-kit');
+  });
+});
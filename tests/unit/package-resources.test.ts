@@ -0,0 +1,124 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { createServer } from '#server.js';
+import { parsePackageUri, readPackageResource } from '#resources/packages.js';
+import { promises as fs } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { randomBytes } from 'node:crypto';
+
+describe('pkg:// resources', () => {
+  let testDir: string;
+  let originalCwd: string;
+  let client: Client;
+
+  async function createPackage(
+    path: string,
+    files: Record<string, string | Buffer>,
+  ): Promise<void> {
+    for (const [file, content] of Object.entries(files)) {
+      await fs.mkdir(join(testDir, path, file, '..'), { recursive: true });
+      await fs.writeFile(join(testDir, path, file), content);
+    }
+  }
+
+  beforeAll(async () => {
+    originalCwd = process.cwd();
+    testDir = join(tmpdir(), `pkg-local-resources-${randomBytes(8).toString('hex')}`);
+    await fs.mkdir(testDir, { recursive: true });
+
+    await fs.writeFile(
+      join(testDir, 'package.json'),
+      JSON.stringify({
+        name: 'resources-project',
+        version: '1.0.0',
+        dependencies: { 'text-kit': '^2.0.0', '@scope/ui': '^1.0.0' },
+      }),
+    );
+
+    await createPackage('node_modules/text-kit', {
+      'package.json': JSON.stringify({ name: 'text-kit', version: '2.0.0', types: 'index.d.ts' }),
+      'index.d.ts': 'export declare function wrap(text: string, width: number): string;\n',
+      'lib/wrap.js': 'exports.wrap = (text, width) => text;\n',
+      'logo.png': Buffer.from([0x89, 0x50, 0x4e, 0x47]),
+    });
+    await createPackage('node_modules/@scope/ui', {
+      'package.json': JSON.stringify({ name: '@scope/ui', version: '1.0.0' }),
+      'README.md': '# UI\n',
+      'node_modules/text-kit/package.json': JSON.stringify({ name: 'text-kit', version: '1.0.0' }),
+      'node_modules/text-kit/lib/wrap.js': 'module.exports = function legacyWrap() {};\n',
+    });
+
+    process.chdir(testDir);
+
+    const server = createServer();
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    client = new Client({ name: 'resources-test', version: '1.0.0' });
+    await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+  });
+
+  afterAll(async () => {
+    await client.close();
+    process.chdir(originalCwd);
+    await fs.rm(testDir, { recursive: true, force: true }).catch(() => {});
+  });
+
+  it('should parse package URIs, including scoped names', () => {
+    expect(parsePackageUri('pkg://text-kit/2.0.0')).toEqual({ name: 'text-kit', version: '2.0.0' });
+    expect(parsePackageUri('pkg://@scope/ui/1.0.0/dist/index.js')).toEqual({
+      name: '@scope/ui',
+      version: '1.0.0',
+      path: 'dist/index.js',
+    });
+    expect(parsePackageUri('pkg://text-kit')).toBeNull();
+    expect(parsePackageUri('file:///etc/passwd')).toBeNull();
+  });
+
+  it('should advertise resources and list every installed version', async () => {
+    expect(client.getServerCapabilities()?.resources).toBeDefined();
+
+    const { resources } = await client.listResources();
+    expect(resources.map((r) => r.uri)).toEqual([
+      'pkg://@scope/ui/1.0.0',
+      'pkg://text-kit/2.0.0',
+      'pkg://text-kit/1.0.0',
+    ]);
+
+    const { resourceTemplates } = await client.listResourceTemplates();
+    expect(resourceTemplates.map((t) => t.uriTemplate)).toContain('pkg://{name}/{version}/{+path}');
+  });
+
+  it('should read a package overview and files of a specific version', async () => {
+    const overview = await client.readResource({ uri: 'pkg://text-kit/2.0.0' });
+    expect(overview.contents[0]).toMatchObject({ mimeType: 'text/markdown' });
+    expect(overview.contents[0]?.text).toContain('wrap');
+
+    const file = await client.readResource({ uri: 'pkg://text-kit/1.0.0/lib/wrap.js' });
+    expect(file.contents[0]).toMatchObject({
+      uri: 'pkg://text-kit/1.0.0/lib/wrap.js',
+      mimeType: 'text/javascript',
+      text: 'module.exports = function legacyWrap() {};\n',
+    });
+
+    const readme = await client.readResource({ uri: 'pkg://@scope/ui/1.0.0/README.md' });
+    expect(readme.contents[0]?.text).toBe('# UI\n');
+  });
+
+  it('should apply the read-package guards to resource reads', async () => {
+    await expect(readPackageResource('pkg://text-kit/2.0.0/logo.png')).rejects.toThrow(
+      'Cannot read binary file: logo.png',
+    );
+    await expect(readPackageResource('pkg://text-kit/2.0.0/../../package.json')).rejects.toThrow(
+      'not found',
+    );
+    await expect(readPackageResource('pkg://text-kit/9.9.9/index.d.ts')).rejects.toThrow(
+      'No installed copy',
+    );
+
+    // Errors reach clients as JSON-RPC errors
+    await expect(client.readResource({ uri: 'pkg://text-kit/2.0.0/missing.js' })).rejects.toThrow(
+      'File "missing.js" not found',
+    );
+  });
+});
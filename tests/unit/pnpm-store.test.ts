@@ -0,0 +1,124 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { NodeJSScanner } from '#scanners/nodejs.js';
+import { scanPackagesTool } from '#tools/scan-packages.js';
+import { promises as fs } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { randomBytes } from 'node:crypto';
+
+describe('pnpm virtual store', () => {
+  let testDir: string;
+  let originalCwd: string;
+
+  async function storePackage(storeEntry: string, name: string, version: string): Promise<void> {
+    const packageDir = join(testDir, 'node_modules', '.pnpm', storeEntry, 'node_modules', name);
+    await fs.mkdir(packageDir, { recursive: true });
+    await fs.writeFile(join(packageDir, 'package.json'), JSON.stringify({ name, version }));
+  }
+
+  async function link(target: string, path: string): Promise<void> {
+    await fs.mkdir(join(testDir, path, '..'), { recursive: true });
+    await fs.symlink(target, join(testDir, path), 'dir');
+  }
+
+  beforeAll(async () => {
+    originalCwd = process.cwd();
+    testDir = join(tmpdir(), `pkg-local-pnpm-${randomBytes(8).toString('hex')}`);
+    await fs.mkdir(testDir, { recursive: true });
+
+    await fs.writeFile(
+      join(testDir, 'package.json'),
+      JSON.stringify({
+        name: 'pnpm-project',
+        version: '1.0.0',
+        dependencies: { 'app-kit': '^1.0.0', '@scope/ui': '^3.0.0', 'is-odd': '^0.1.0' },
+      }),
+    );
+    await fs.writeFile(join(testDir, 'pnpm-lock.yaml'), "lockfileVersion: '9.0'\n");
+
+    await storePackage('app-kit@1.0.0', 'app-kit', '1.0.0');
+    await storePackage('@scope+ui@3.0.0', '@scope/ui', '3.0.0');
+    await storePackage('left-pad@1.0.0', 'left-pad', '1.0.0');
+    await storePackage('left-pad@2.1.0', 'left-pad', '2.1.0');
+    await storePackage('is-odd@0.1.0', 'is-odd', '0.1.0');
+    await storePackage('is-odd@0.10.0', 'is-odd', '0.10.0');
+
+    // Dependencies are linked next to the package inside its store entry
+    await link(
+      '../../left-pad@2.1.0/node_modules/left-pad',
+      'node_modules/.pnpm/app-kit@1.0.0/node_modules/left-pad',
+    );
+    await link('.pnpm/app-kit@1.0.0/node_modules/app-kit', 'node_modules/app-kit');
+    await link('../.pnpm/@scope+ui@3.0.0/node_modules/@scope/ui', 'node_modules/@scope/ui');
+    // A direct dependency on an old version of something also installed transitively
+    await link('.pnpm/is-odd@0.1.0/node_modules/is-odd', 'node_modules/is-odd');
+
+    process.chdir(testDir);
+  });
+
+  afterAll(async () => {
+    process.chdir(originalCwd);
+    await fs.rm(testDir, { recursive: true, force: true }).catch(() => {});
+  });
+
+  it('should follow top-level symlinks and record their real path', async () => {
+    const result = await new NodeJSScanner(testDir).scan();
+
+    expect(Object.keys(result.packages ?? {}).sort()).toEqual(['@scope/ui', 'app-kit', 'is-odd']);
+    expect(result.packages?.['app-kit']).toMatchObject({
+      version: '1.0.0',
+      location: join('node_modules', 'app-kit'),
+      realPath: join('node_modules', '.pnpm', 'app-kit@1.0.0', 'node_modules', 'app-kit'),
+    });
+    expect(result.packages?.['@scope/ui']?.realPath).toBe(
+      join('node_modules', '.pnpm', '@scope+ui@3.0.0', 'node_modules', '@scope', 'ui'),
+    );
+  });
+
+  it('should record every installed version of a package', async () => {
+    const result = await new NodeJSScanner(testDir).scan();
+
+    expect(result.packages?.['is-odd']?.version).toBe('0.1.0');
+    expect(result.packages?.['is-odd']?.installations?.map((i) => i.version)).toEqual([
+      '0.1.0',
+      '0.10.0',
+    ]);
+  });
+
+  it('should index transitive packages from the store when asked', async () => {
+    const result = await new NodeJSScanner(testDir).scan({ includeVirtualStore: true });
+
+    expect(result.packages?.['left-pad']).toMatchObject({
+      version: '2.1.0',
+      location: join('node_modules', '.pnpm', 'left-pad@2.1.0', 'node_modules', 'left-pad'),
+      installations: [
+        { version: '1.0.0', location: expect.stringContaining('left-pad@1.0.0') as string },
+        { version: '2.1.0', location: expect.stringContaining('left-pad@2.1.0') as string },
+      ],
+    });
+
+    const scanner = new NodeJSScanner(testDir);
+    expect(await scanner.getPackageLocation('left-pad')).toBe(
+      join(testDir, 'node_modules', '.pnpm', 'left-pad@2.1.0', 'node_modules', 'left-pad'),
+    );
+  });
+
+  it('should keep real paths and installations through the cache', async () => {
+    const withStore = await scanPackagesTool({
+      scope: 'project',
+      forceRefresh: true,
+      includeVirtualStore: true,
+    });
+    expect(withStore.packages?.['app-kit']?.realPath).toContain('.pnpm');
+
+    // Served from the cache written above; store-only packages stay hidden by default
+    const cached = await scanPackagesTool({ scope: 'all' });
+    expect(cached.totalPackages).toBe(3);
+
+    const project = await scanPackagesTool({ scope: 'project' });
+    expect(project.packages?.['app-kit']?.realPath).toBe(
+      join('node_modules', '.pnpm', 'app-kit@1.0.0', 'node_modules', 'app-kit'),
+    );
+    expect(project.packages?.['is-odd']?.installations).toHaveLength(2);
+  });
+});
@@ -0,0 +1,115 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { CompositeScanner } from '#scanners/composite.js';
+import { detectAndCreateScanner } from '#utils/scanner-factory.js';
+import { scanPackagesTool } from '#tools/scan-packages.js';
+import { readPackageTool } from '#tools/read-package.js';
+import { promises as fs } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { randomBytes } from 'node:crypto';
+import { writeFiles } from '../utils/test-helpers.js';
+
+describe('polyglot projects', () => {
+  let testDir: string;
+  let originalCwd: string;
+
+  beforeAll(async () => {
+    originalCwd = process.cwd();
+    testDir = join(tmpdir(), `pkg-local-polyglot-${randomBytes(8).toString('hex')}`);
+
+    // A Python service with a TypeScript frontend; both ecosystems install a "toolkit"
+    const sitePackages = join('.venv', 'lib', 'python3.11', 'site-packages');
+    await writeFiles(testDir, {
+      'package.json': JSON.stringify({
+        name: 'polyglot-app',
+        dependencies: { toolkit: '^1.0.0', 'ui-kit': '^2.0.0' },
+      }),
+      'node_modules/toolkit/package.json': JSON.stringify({
+        name: 'toolkit',
+        version: '1.0.0',
+        types: 'index.d.ts',
+      }),
+      'node_modules/toolkit/index.d.ts': 'export declare function renderToolbar(): void;\n',
+      'node_modules/ui-kit/package.json': JSON.stringify({ name: 'ui-kit', version: '2.0.0' }),
+      'requirements.txt': 'toolkit\nservekit\n',
+      '.venv/bin/python': '#!/usr/bin/env python3',
+      [join(sitePackages, 'toolkit-0.3.0.dist-info', 'METADATA')]:
+        'Metadata-Version: 2.1\nName: toolkit\nVersion: 0.3.0\n',
+      [join(sitePackages, 'toolkit', '__init__.py')]:
+        'def parse_config(path: str) -> dict:\n    """Load the service configuration"""\n    return {}\n',
+      [join(sitePackages, 'servekit', '__init__.py')]: 'class Server:\n    pass\n',
+    });
+
+    process.chdir(testDir);
+  });
+
+  afterAll(async () => {
+    process.chdir(originalCwd);
+    await fs.rm(testDir, { recursive: true, force: true }).catch(() => {});
+  });
+
+  it('should run every detected scanner and merge their packages', async () => {
+    const scanner = await detectAndCreateScanner(testDir);
+    expect(scanner).toBeInstanceOf(CompositeScanner);
+
+    const result = await scanner.scan();
+    expect(Object.keys(result.packages ?? {}).sort()).toEqual([
+      'python:toolkit',
+      'servekit',
+      'toolkit',
+      'ui-kit',
+    ]);
+    expect(result.packages?.toolkit?.language).toBe('javascript');
+    expect(result.packages?.['python:toolkit']).toMatchObject({
+      name: 'toolkit',
+      language: 'python',
+    });
+  });
+
+  it('should report the environment of each language', async () => {
+    const result = await scanPackagesTool({ scope: 'project', forceRefresh: true });
+
+    expect(result.environment.type).toBe('npm');
+    expect(result.environment.environments?.javascript?.path).toBe(testDir);
+    expect(result.environment.environments?.python).toMatchObject({
+      type: '.venv',
+      path: join(testDir, '.venv'),
+    });
+    expect(Object.keys(result.packages ?? {}).sort()).toEqual([
+      'python:toolkit',
+      'servekit',
+      'toolkit',
+      'ui-kit',
+    ]);
+  });
+
+  it('should read a name found in both ecosystems by language', async () => {
+    const primary = await readPackageTool({ packageName: 'toolkit' });
+    expect(primary.type === 'tree' && primary.initContent).toContain('renderToolbar');
+
+    const python = await readPackageTool({ packageName: 'toolkit', language: 'python' });
+    expect(python).toMatchObject({ version: '0.3.0', mainFiles: ['__init__.py'] });
+    expect(python.type === 'tree' && python.initContent).toContain('parse_config');
+
+    const servekit = await readPackageTool({ packageName: 'servekit' });
+    expect(servekit.type === 'tree' && servekit.mainFiles).toEqual(['__init__.py']);
+
+    const missing = await readPackageTool({ packageName: 'ui-kit', language: 'python' });
+    expect(missing).toMatchObject({ type: 'error', success: false });
+  });
+
+  it('should skip a language whose environment does not exist yet', async () => {
+    const projectDir = join(testDir, 'frontend');
+    await writeFiles(projectDir, {
+      'package.json': JSON.stringify({ name: 'frontend', dependencies: { 'ui-kit': '^2.0.0' } }),
+      'node_modules/ui-kit/package.json': JSON.stringify({ name: 'ui-kit', version: '2.0.0' }),
+      'pyproject.toml': '[project]\nname = "frontend-tools"\n',
+    });
+
+    const scanner = await detectAndCreateScanner(projectDir);
+    const result = await scanner.scan();
+
+    expect(Object.keys(result.packages ?? {})).toEqual(['ui-kit']);
+    expect(result.environment.environments).toBeUndefined();
+  });
+});
@@ -0,0 +1,117 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { scanPackagesTool } from '#tools/scan-packages.js';
+import { getProjectDependencies } from '#utils/project-dependencies.js';
+import { runInProject } from '#utils/project-context.js';
+import { promises as fs } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { randomBytes } from 'node:crypto';
+import { writeFiles } from '../utils/test-helpers.js';
+
+describe('project dependencies of Python projects', () => {
+  let testDir: string;
+  let originalCwd: string;
+
+  // Installed distributions, by the name their METADATA declares
+  const installed = [
+    'Flask',
+    'typing_extensions',
+    'Sphinx',
+    'ruff',
+    'pytest',
+    'requests',
+    'zope.interface',
+    'numpy',
+  ];
+
+  beforeAll(async () => {
+    originalCwd = process.cwd();
+    testDir = join(tmpdir(), `pkg-local-project-deps-${randomBytes(8).toString('hex')}`);
+
+    const sitePackages = join('.venv', 'lib', 'python3.12', 'site-packages');
+    const distributions = Object.fromEntries(
+      installed.map((name) => [
+        join(sitePackages, `${name.replace(/[-.]/g, '_')}-1.0.0.dist-info`, 'METADATA'),
+        `Metadata-Version: 2.1\nName: ${name}\nVersion: 1.0.0\n`,
+      ]),
+    );
+
+    await writeFiles(testDir, {
+      '.venv/bin/python': '#!/usr/bin/env python3',
+      ...distributions,
+      'pyproject.toml': [
+        '[project]',
+        'name = "modern-service"',
+        'version = "0.1.0"',
+        'dependencies = [',
+        '  "Flask[async]>=3.0; python_version >= \'3.9\'",',
+        '  "typing-extensions",',
+        ']',
+        '',
+        '[project.optional-dependencies]',
+        'docs = ["sphinx>=7"]',
+        '',
+        '[dependency-groups]',
+        'lint = ["ruff"]',
+        'test = ["pytest>=8", { include-group = "lint" }]',
+        '',
+      ].join('\n'),
+      'requirements.txt': '-r requirements/base.txt\nrequests[socks]==2.31.0  # HTTP client\n',
+      'requirements/base.txt': 'zope-interface\n',
+    });
+
+    process.chdir(testDir);
+  });
+
+  afterAll(async () => {
+    process.chdir(originalCwd);
+    await fs.rm(testDir, { recursive: true, force: true }).catch(() => {});
+  });
+
+  it('should read PEP 621, PEP 735 and included requirements with normalized names', async () => {
+    const deps = await getProjectDependencies();
+
+    expect([...deps.python].sort()).toEqual([
+      'flask',
+      'pytest',
+      'requests',
+      'ruff',
+      'sphinx',
+      'typing-extensions',
+      'zope-interface',
+    ]);
+    expect(deps.javascript.size).toBe(0);
+  });
+
+  it('should read Poetry dependency tables', async () => {
+    const poetryDir = join(testDir, 'poetry-project');
+    await writeFiles(poetryDir, {
+      'pyproject.toml': [
+        '[tool.poetry]',
+        'name = "legacy-service"',
+        '',
+        '[tool.poetry.dependencies]',
+        'python = "^3.11"',
+        'Django = "^5.0"',
+        '',
+        '[tool.poetry.group.dev.dependencies]',
+        'black = "^24.0"',
+        '',
+      ].join('\n'),
+    });
+
+    const deps = await runInProject(poetryDir, () => getProjectDependencies());
+
+    expect([...deps.python].sort()).toEqual(['black', 'django']);
+  });
+
+  it('should limit scope "project" to the declared packages', async () => {
+    const result = await scanPackagesTool({ scope: 'project', forceRefresh: true });
+
+    expect(
+      Object.values(result.packages ?? {})
+        .map((info) => info.name)
+        .sort(),
+    ).toEqual(installed.filter((name) => name !== 'numpy').sort());
+  });
+});
@@ -0,0 +1,101 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { scanPackagesTool } from '#tools/scan-packages.js';
+import { readPackageTool } from '#tools/read-package.js';
+import { searchSymbolsTool } from '#tools/search-symbols.js';
+import { getProjectScanner } from '#utils/scanner-factory.js';
+import { promises as fs } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { randomBytes } from 'node:crypto';
+
+describe('projectPath argument', () => {
+  let testDir: string;
+  let originalCwd: string;
+
+  async function createProject(
+    path: string,
+    packageName: string,
+    declaration: string,
+  ): Promise<void> {
+    const packageDir = join(testDir, path, 'node_modules', packageName);
+    await fs.mkdir(packageDir, { recursive: true });
+    await fs.writeFile(
+      join(testDir, path, 'package.json'),
+      JSON.stringify({
+        name: `${packageName}-consumer`,
+        dependencies: { [packageName]: '^1.0.0' },
+      }),
+    );
+    await fs.writeFile(
+      join(packageDir, 'package.json'),
+      JSON.stringify({ name: packageName, version: '1.0.0', types: 'index.d.ts' }),
+    );
+    await fs.writeFile(join(packageDir, 'index.d.ts'), declaration);
+  }
+
+  beforeAll(async () => {
+    originalCwd = process.cwd();
+    testDir = join(tmpdir(), `pkg-local-project-path-${randomBytes(8).toString('hex')}`);
+
+    // A monorepo: the root and each workspace package have their own installs
+    await createProject('.', 'root-kit', 'export declare function rootTask(): void;\n');
+    await createProject('packages/api', 'api-kit', 'export declare function serveApi(): void;\n');
+    await createProject('packages/web', 'web-kit', 'export declare function renderPage(): void;\n');
+
+    process.chdir(testDir);
+  });
+
+  afterAll(async () => {
+    process.chdir(originalCwd);
+    await fs.rm(testDir, { recursive: true, force: true }).catch(() => {});
+  });
+
+  it('should scan the project the path points at, relative or absolute', async () => {
+    const api = await scanPackagesTool({ scope: 'project', projectPath: 'packages/api' });
+    const web = await scanPackagesTool({
+      scope: 'project',
+      projectPath: join(testDir, 'packages', 'web'),
+    });
+    const root = await scanPackagesTool({ scope: 'project' });
+
+    expect(Object.keys(api.packages ?? {})).toEqual(['api-kit']);
+    expect(Object.keys(web.packages ?? {})).toEqual(['web-kit']);
+    expect(Object.keys(root.packages ?? {})).toEqual(['root-kit']);
+    expect(web.environment.path).toBe(join(testDir, 'packages', 'web'));
+  });
+
+  it('should read and search packages of another project', async () => {
+    const fromRoot = await readPackageTool({ packageName: 'web-kit' });
+    expect(fromRoot.success).toBe(false);
+
+    const result = await readPackageTool({ packageName: 'web-kit', projectPath: 'packages/web' });
+    expect(result.type === 'tree' && result.initContent).toContain('renderPage');
+
+    const symbols = await searchSymbolsTool({ query: 'renderPage', projectPath: 'packages/web' });
+    expect(symbols.type === 'symbols' && symbols.matches.map((m) => m.package)).toEqual([
+      'web-kit',
+    ]);
+  });
+
+  it('should keep one scanner per project root', async () => {
+    const api = join(testDir, 'packages', 'api');
+
+    expect(await getProjectScanner(api)).toBe(await getProjectScanner(api));
+    expect(await getProjectScanner(api)).not.toBe(await getProjectScanner(testDir));
+  });
+
+  it('should report a project path that does not exist', async () => {
+    const result = await readPackageTool({
+      packageName: 'web-kit',
+      projectPath: 'packages/missing',
+    });
+    expect(result).toMatchObject({
+      type: 'error',
+      error: 'Project directory "packages/missing" not found',
+    });
+
+    await expect(scanPackagesTool({ projectPath: 'packages/missing' })).rejects.toThrow(
+      'Project directory "packages/missing" not found',
+    );
+  });
+});
@@ -0,0 +1,304 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { PythonAdapter } from '#adapters/python-adapter.js';
+import { MarkdownGenerator } from '#utils/markdown-generator.js';
+import type { UnifiedPackageContent } from '#types/unified-schema.js';
+import { promises as fs } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { writeFiles } from '../utils/test-helpers.js';
+
+const INIT_PY = `"""HTTP client toolkit."""
+from .client import Client, fetch
+from ._impl import retry as with_retry
+from . import _impl
+
+__all__ = ["Client", "fetch", "with_retry", "Method", "DEFAULT_TIMEOUT"]
+
+DEFAULT_TIMEOUT: float = 30.0
+`;
+
+const CLIENT_PY = `import abc
+from dataclasses import dataclass
+from enum import Enum
+from typing import Protocol, TypeVar
+
+T = TypeVar("T")
+
+
+class Method(str, Enum):
+    GET = "GET"
+    POST = "POST"
+
+
+class Transport(Protocol):
+    def send(self, request: bytes) -> bytes: ...
+
+
+@dataclass(frozen=True)
+class Client(abc.ABC):
+    """A reusable HTTP client.
+
+    Keeps a connection pool per host.
+    """
+
+    base_url: str
+    timeout: float = 30.0
+
+    def __init__(self, base_url: str, *, timeout: float = 30.0) -> None:
+        self.base_url = base_url
+        self._pool = None
+
+    async def get(self, path: str, /, params: dict[str, str] | None = None, **kwargs) -> "Response":
+        """Send a GET request."""
+
+    @staticmethod
+    def build_url(base: str, *parts: str) -> str:
+        return "/".join((base, *parts))
+
+    @classmethod
+    def from_env(cls) -> "Client":
+        ...
+
+    @property
+    def closed(self) -> bool:
+        return self._pool is None
+
+    @abc.abstractmethod
+    def close(self): ...
+
+    def _reset(self):
+        pass
+
+
+def fetch(url, retries=3, *args, timeout: float = 1.5, **options) -> bytes:
+    """Fetch a URL and return the body."""
+    return b""
+
+
+def stream(url: str):
+    yield url
+
+
+def _helper():
+    pass
+`;
+
+const IMPL_PY = `def retry(func, attempts: int = 3):
+    """Retry a callable."""
+    return func
+
+
+def internal_only():
+    pass
+`;
+
+describe('Python AST extraction', () => {
+  let testDir: string;
+  let packagePath: string;
+  let content: UnifiedPackageContent;
+  const adapter = new PythonAdapter();
+
+  beforeAll(async () => {
+    testDir = await fs.mkdtemp(join(tmpdir(), 'python-ast-test-'));
+    packagePath = join(testDir, 'site-packages', 'httpkit');
+
+    await fs.mkdir(join(packagePath, 'tests'), { recursive: true });
+    await fs.writeFile(join(packagePath, '__init__.py'), INIT_PY);
+    await fs.writeFile(join(packagePath, 'client.py'), CLIENT_PY);
+    await fs.writeFile(join(packagePath, '_impl.py'), IMPL_PY);
+    await fs.writeFile(join(packagePath, 'tests', 'test_client.py'), 'def test_get(): pass\n');
+
+    content = await adapter.extractContent(packagePath, {
+      name: 'httpkit',
+      version: '0.4.0',
+      location: packagePath,
+      language: 'python',
+      packageManager: 'pip',
+    });
+  });
+
+  afterAll(async () => {
+    adapter.cleanup();
+    await fs.rm(testDir, { recursive: true, force: true }).catch(() => {});
+  });
+
+  it('should walk submodules and skip tests', () => {
+    const functions = content.components.functions.map((f) => f.name);
+    expect(functions).toEqual(expect.arrayContaining(['fetch', 'stream', 'retry']));
+    expect(functions).not.toContain('test_get');
+
+    const fetch = content.components.functions.find((f) => f.name === 'fetch');
+    expect(fetch?.sourceFile).toBe('client.py');
+  });
+
+  it('should extract parameters with annotations, defaults and variadics', () => {
+    const fetch = content.components.functions.find((f) => f.name === 'fetch');
+
+    expect(fetch?.purpose).toBe('Fetch a URL and return the body.');
+    expect(fetch?.returns).toEqual({ name: 'bytes' });
+    expect(fetch?.parameters).toEqual([
+      { name: 'url', required: true },
+      { name: 'retries', type: undefined, required: false, default: '3' },
+      { name: '*args', required: false, isVariadic: true },
+      { name: 'timeout', type: 'float', required: false, default: '1.5' },
+      { name: '**options', required: false, isVariadic: true },
+    ]);
+    expect(content.components.functions.find((f) => f.name === 'stream')?.isGenerator).toBe(true);
+  });
+
+  it('should extract classes with decorators, docstrings, methods and properties', () => {
+    const client = content.components.classes.find((c) => c.name === 'Client');
+
+    expect(client).toMatchObject({
+      purpose: 'A reusable HTTP client.',
+      extends: 'abc.ABC',
+      decorators: ['dataclass(frozen=True)'],
+      visibility: 'public',
+      isAbstract: true,
+    });
+
+    const methods = Object.fromEntries((client?.methods ?? []).map((m) => [m.name, m]));
+    expect(methods.__init__?.parameters.map((p) => p.name)).toEqual(['base_url', 'timeout']);
+    expect(methods.get).toMatchObject({
+      purpose: 'Send a GET request.',
+      isAsync: true,
+      returns: { name: '"Response"' },
+    });
+    expect(methods.get?.parameters[1]).toMatchObject({
+      name: 'params',
+      type: 'dict[str, str] | None',
+      default: 'None',
+    });
+    expect(methods.build_url).toMatchObject({ isStatic: true, decorators: ['staticmethod'] });
+    expect(methods.build_url?.parameters.map((p) => p.name)).toEqual(['base', '*parts']);
+    expect(methods.from_env?.parameters).toEqual([]);
+    expect(methods.close?.isAbstract).toBe(true);
+    expect(methods._reset?.visibility).toBe('protected');
+    expect(methods.closed).toBeUndefined();
+
+    const properties = Object.fromEntries((client?.properties ?? []).map((p) => [p.name, p]));
+    expect(properties.timeout).toMatchObject({ type: 'float', default: '30.0' });
+    expect(properties.closed).toMatchObject({ type: 'bool', isReadonly: true });
+    expect(properties._pool?.visibility).toBe('protected');
+  });
+
+  it('should map Enum subclasses, Protocols, constants and skip type variables', () => {
+    expect(content.components.enums).toEqual([
+      expect.objectContaining({ name: 'Method', values: ['GET', 'POST'], isExported: true }),
+    ]);
+    expect(content.components.interfaces?.[0]).toMatchObject({ name: 'Transport' });
+    expect(content.components.interfaces?.[0]?.methods[0]?.parameters).toEqual([
+      { name: 'request', type: 'bytes', required: true },
+    ]);
+    expect(content.components.constants).toEqual([
+      expect.objectContaining({ name: 'DEFAULT_TIMEOUT', type: 'float', isExported: true }),
+    ]);
+    expect(content.metadata.typeSystem?.hasTypeAnnotations).toBe(true);
+  });
+
+  it('should decide exports from __all__ and re-exports from private modules', () => {
+    expect(content.exports.named).toEqual([
+      'Client',
+      'fetch',
+      'with_retry',
+      'Method',
+      'DEFAULT_TIMEOUT',
+    ]);
+
+    const byName = Object.fromEntries(content.components.functions.map((f) => [f.name, f]));
+    expect(byName.fetch?.isExported).toBe(true);
+    expect(byName.retry?.isExported).toBe(true);
+    expect(byName._helper?.isExported).toBe(false);
+    expect(byName.internal_only?.isExported).toBe(false);
+  });
+
+  it('should render signatures and decorators in markdown', () => {
+    const markdown = MarkdownGenerator.generate(content);
+
+    expect(markdown).toContain('### 1. Client');
+    expect(markdown).toContain('decorators: @dataclass(frozen=True)');
+    expect(markdown).toContain(
+      'parameters: url, retries = 3, *args, timeout: float = 1.5, **options',
+    );
+    expect(markdown).not.toContain('internal_only');
+  });
+});
+
+describe('Python type stubs', () => {
+  let sitePackages: string;
+  const adapter = new PythonAdapter();
+
+  async function extract(name: string): Promise<UnifiedPackageContent> {
+    return adapter.extractContent(join(sitePackages, name), {
+      name,
+      version: '1.0.0',
+      location: join(sitePackages, name),
+      language: 'python',
+      packageManager: 'pip',
+    });
+  }
+
+  beforeAll(async () => {
+    sitePackages = await fs.mkdtemp(join(tmpdir(), 'python-stubs-test-'));
+
+    await writeFiles(sitePackages, {
+      'reqlib/__init__.py': 'from .api import get\nfrom .models import Response\n',
+      'reqlib/api.py': 'def get(url, params=None):\n    pass\n',
+      'reqlib/models.py': 'class Response:\n    def json(self):\n        pass\n',
+      'reqlib/models.pyi':
+        'class Response:\n    status_code: int\n    def json(self) -> dict[str, object]: ...\n',
+      'reqlib-stubs/__init__.pyi': 'from .api import get as get\n',
+      'reqlib-stubs/api.pyi':
+        'from reqlib.models import Response\n\ndef get(url: str, params: dict[str, str] | None = ...) -> Response: ...\n',
+      'types_reqlib-2.31.0.1.dist-info/METADATA':
+        'Metadata-Version: 2.1\nName: types-reqlib\nVersion: 2.31.0.1\n',
+
+      'typedlib/__init__.py': 'def plain(value):\n    return value\n',
+      'typedlib/py.typed': '',
+
+      'untypedlib/__init__.py': 'def plain(value):\n    return value\n',
+    });
+  });
+
+  afterAll(async () => {
+    adapter.cleanup();
+    await fs.rm(sitePackages, { recursive: true, force: true }).catch(() => {});
+  });
+
+  it('should prefer a separately installed stub distribution over sources', async () => {
+    const content = await extract('reqlib');
+
+    const get = content.components.functions.find((f) => f.name === 'get');
+    expect(get?.sourceFile).toBe(join('..', 'reqlib-stubs', 'api.pyi'));
+    expect(get?.returns).toEqual({ name: 'Response' });
+    expect(get?.parameters.map((p) => p.type)).toEqual(['str', 'dict[str, str] | None']);
+
+    expect(content.metadata.typeSystem).toMatchObject({
+      hasTypeAnnotations: true,
+      typeDefinitionFile: join('..', 'reqlib-stubs', '__init__.pyi'),
+      typesPackage: { name: 'types-reqlib', version: '2.31.0.1' },
+    });
+    expect(MarkdownGenerator.generate(content)).toContain('types_package: types-reqlib@2.31.0.1');
+  });
+
+  it('should prefer inline .pyi stubs over the matching .py module', async () => {
+    const content = await extract('reqlib');
+
+    const response = content.components.classes.find((c) => c.name === 'Response');
+    expect(response?.sourceFile).toBe('models.pyi');
+    expect(response?.methods[0]?.returns).toEqual({ name: 'dict[str, object]' });
+    expect(response?.properties?.[0]).toMatchObject({ name: 'status_code', type: 'int' });
+  });
+
+  it('should honour the py.typed marker', async () => {
+    const typed = await extract('typedlib');
+    const untyped = await extract('untypedlib');
+
+    expect(typed.metadata.typeSystem).toMatchObject({
+      hasTypeAnnotations: true,
+      typeDefinitionFile: 'py.typed',
+    });
+    expect(untyped.metadata.typeSystem?.hasTypeAnnotations).toBe(false);
+    expect(untyped.metadata.typeSystem?.typeDefinitionFile).toBeUndefined();
+  });
+});
@@ -0,0 +1,96 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import type { Progress } from '@modelcontextprotocol/sdk/types.js';
+import { createServer } from '#server.js';
+import { NodeJSScanner } from '#scanners/nodejs.js';
+import { runWithScanReporter } from '#utils/streaming.js';
+import type { StreamEvent } from '#types/streaming.js';
+import { promises as fs } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { randomBytes } from 'node:crypto';
+
+describe('scan progress and cancellation', () => {
+  const PACKAGE_COUNT = 40;
+  let testDir: string;
+  let originalCwd: string;
+  let client: Client;
+
+  beforeAll(async () => {
+    originalCwd = process.cwd();
+    testDir = join(tmpdir(), `pkg-local-progress-${randomBytes(8).toString('hex')}`);
+
+    const dependencies: Record<string, string> = {};
+    for (let index = 0; index < PACKAGE_COUNT; index++) {
+      const name = `kit-${index}`;
+      dependencies[name] = '^1.0.0';
+      await fs.mkdir(join(testDir, 'node_modules', name), { recursive: true });
+      await fs.writeFile(
+        join(testDir, 'node_modules', name, 'package.json'),
+        JSON.stringify({ name, version: '1.0.0' }),
+      );
+    }
+    await fs.writeFile(
+      join(testDir, 'package.json'),
+      JSON.stringify({ name: 'progress-project', dependencies }),
+    );
+
+    process.chdir(testDir);
+
+    const server = createServer();
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    client = new Client({ name: 'progress-test', version: '1.0.0' });
+    await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+  });
+
+  afterAll(async () => {
+    await client.close();
+    process.chdir(originalCwd);
+    await fs.rm(testDir, { recursive: true, force: true }).catch(() => {});
+  });
+
+  it('should send progress notifications when the request has a progress token', async () => {
+    const updates: Progress[] = [];
+    await client.callTool({ name: 'scan-packages', arguments: { forceRefresh: true } }, undefined, {
+      onprogress: (progress) => updates.push(progress),
+    });
+
+    expect(updates[0]).toMatchObject({ progress: 0, message: 'Scanning npm packages (npm)' });
+    expect(updates[updates.length - 1]).toEqual({
+      progress: PACKAGE_COUNT,
+      total: PACKAGE_COUNT,
+      message: `Indexed ${PACKAGE_COUNT} packages`,
+    });
+    for (let index = 1; index < updates.length; index++) {
+      expect(updates[index]?.progress).toBeGreaterThan(updates[index - 1]?.progress ?? 0);
+    }
+  });
+
+  it('should abort the scan when the client cancels the request', async () => {
+    const controller = new AbortController();
+    const call = client.callTool(
+      { name: 'scan-packages', arguments: { forceRefresh: true } },
+      undefined,
+      { signal: controller.signal, onprogress: () => controller.abort('user cancelled') },
+    );
+
+    await expect(call).rejects.toThrow();
+  });
+
+  it('should stop scanning at the next event once the signal aborts', async () => {
+    const controller = new AbortController();
+    const events: StreamEvent[] = [];
+    const onEvent = (event: StreamEvent): void => {
+      events.push(event);
+      if (event.type === 'scan_started') controller.abort(new Error('cancelled'));
+    };
+
+    const scan = runWithScanReporter({ signal: controller.signal, onEvent }, () =>
+      new NodeJSScanner(testDir).scan(),
+    );
+
+    await expect(scan).rejects.toThrow('cancelled');
+    expect(events.map((event) => event.type)).toEqual(['scan_started']);
+  });
+});
@@ -0,0 +1,127 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { searchContentTool } from '#tools/search-content.js';
+import { readPackageTool } from '#tools/read-package.js';
+import { scanPackagesTool } from '#tools/scan-packages.js';
+import { promises as fs } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { randomBytes } from 'node:crypto';
+
+describe('search-content Tool', () => {
+  let testDir: string;
+  let originalCwd: string;
+
+  async function createPackage(
+    name: string,
+    description: string,
+    files: Record<string, string>,
+  ): Promise<void> {
+    const packageDir = join(testDir, 'node_modules', name);
+    await fs.mkdir(join(packageDir, 'src'), { recursive: true });
+    await fs.writeFile(
+      join(packageDir, 'package.json'),
+      JSON.stringify({ name, version: '1.2.3', description, main: 'src/index.ts' }),
+    );
+    for (const [file, content] of Object.entries(files)) {
+      await fs.writeFile(join(packageDir, file), content);
+    }
+  }
+
+  beforeAll(async () => {
+    originalCwd = process.cwd();
+    testDir = join(tmpdir(), `pkg-local-content-${randomBytes(8).toString('hex')}`);
+    await fs.mkdir(testDir, { recursive: true });
+
+    await fs.writeFile(
+      join(testDir, 'package.json'),
+      JSON.stringify({
+        name: 'content-project',
+        version: '1.0.0',
+        dependencies: { 'retry-kit': '1.2.3', 'color-kit': '1.2.3', 'unread-kit': '1.2.3' },
+      }),
+    );
+
+    await createPackage('retry-kit', 'Resilient promise helpers', {
+      'src/index.ts': [
+        '/** Retries a promise with exponential backoff between attempts */',
+        'export async function retryWithBackoff<T>(fn: () => Promise<T>): Promise<T> {',
+        '  return fn();',
+        '}',
+      ].join('\n'),
+      'README.md': '# retry-kit\n\nWraps flaky network calls and retries them with jitter.',
+    });
+
+    await createPackage('color-kit', 'Terminal colors', {
+      'src/index.ts':
+        '/** Paint text red */\nexport function red(text: string): string { return text; }',
+      'README.md': '# color-kit\n\nColors for terminal output. No retry logic here.',
+    });
+
+    await createPackage('unread-kit', 'Never read with read-package', {
+      'src/index.ts': 'export function exponentialThing(): void {}',
+    });
+
+    process.chdir(testDir);
+
+    await scanPackagesTool({ forceRefresh: true, scope: 'all' });
+    await readPackageTool({ packageName: 'retry-kit' });
+    await readPackageTool({ packageName: 'color-kit' });
+  });
+
+  afterAll(async () => {
+    process.chdir(originalCwd);
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  it('should rank the package whose docs match the query first', async () => {
+    const result = await searchContentTool({ query: 'retry with exponential backoff' });
+
+    expect(result.success).toBe(true);
+    if (result.type !== 'content') throw new Error('Expected content results');
+
+    expect(result.matches[0]).toMatchObject({ package: 'retry-kit', version: '1.2.3' });
+    expect(result.matches[0]?.score).toBeGreaterThan(0);
+    expect(result.matches.map((m) => m.package)).toContain('color-kit');
+    expect(result.matches.map((m) => m.package)).not.toContain('unread-kit');
+  });
+
+  it('should match README text and highlight it in the snippet', async () => {
+    const result = await searchContentTool({ query: 'jitter' });
+    if (result.type !== 'content') throw new Error('Expected content results');
+
+    expect(result.matches).toHaveLength(1);
+    expect(result.matches[0]?.snippet).toContain('**jitter**');
+  });
+
+  it('should match words inside camelCase identifiers', async () => {
+    const result = await searchContentTool({ query: 'backoff' });
+    if (result.type !== 'content') throw new Error('Expected content results');
+
+    expect(result.matches.map((m) => m.package)).toEqual(['retry-kit']);
+  });
+
+  it('should index names of packages that have not been read', async () => {
+    const result = await searchContentTool({ query: 'unread' });
+    if (result.type !== 'content') throw new Error('Expected content results');
+
+    expect(result.matches.map((m) => m.package)).toEqual(['unread-kit']);
+  });
+
+  it('should reject queries without searchable words', async () => {
+    const result = await searchContentTool({ query: '"*() -' });
+
+    expect(result.success).toBe(false);
+    if (result.type !== 'error') throw new Error('Expected an error');
+    expect(result.suggestion).toBeDefined();
+  });
+
+  it('should drop stale documents when the environment is rescanned', async () => {
+    await fs.rm(join(testDir, 'node_modules', 'color-kit'), { recursive: true, force: true });
+    await scanPackagesTool({ forceRefresh: true, scope: 'all' });
+
+    const result = await searchContentTool({ query: 'terminal colors' });
+    if (result.type !== 'content') throw new Error('Expected content results');
+
+    expect(result.matches.map((m) => m.package)).not.toContain('color-kit');
+  });
+});
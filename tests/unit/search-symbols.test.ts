@@ -0,0 +1,138 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { searchSymbolsTool } from '#tools/search-symbols.js';
+import { readPackageTool } from '#tools/read-package.js';
+import { scanPackagesTool } from '#tools/scan-packages.js';
+import { promises as fs } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { randomBytes } from 'node:crypto';
+
+describe('search-symbols Tool', () => {
+  let testDir: string;
+  let originalCwd: string;
+
+  async function createPackage(name: string, files: Record<string, string>): Promise<void> {
+    const packageDir = join(testDir, 'node_modules', name);
+    await fs.mkdir(join(packageDir, 'src'), { recursive: true });
+    await fs.writeFile(
+      join(packageDir, 'package.json'),
+      JSON.stringify({ name, version: '1.2.3', main: 'src/index.ts', types: 'src/index.ts' }),
+    );
+    for (const [file, content] of Object.entries(files)) {
+      await fs.writeFile(join(packageDir, file), content);
+    }
+  }
+
+  beforeAll(async () => {
+    originalCwd = process.cwd();
+    testDir = join(tmpdir(), `pkg-local-symbols-${randomBytes(8).toString('hex')}`);
+    await fs.mkdir(testDir, { recursive: true });
+
+    await fs.writeFile(
+      join(testDir, 'package.json'),
+      JSON.stringify({
+        name: 'symbols-project',
+        version: '1.0.0',
+        dependencies: { 'http-kit': '1.2.3', 'retry-kit': '1.2.3' },
+      }),
+    );
+
+    await createPackage('http-kit', {
+      'src/index.ts': [
+        '/** Create an HTTP server */',
+        'export function createServer(port: number, host = "localhost"): Server {',
+        '  return new Server(port, host);',
+        '}',
+        'export class Server {',
+        '  constructor(public port: number, public host: string) {}',
+        '}',
+        'export interface ServerOptions { port: number }',
+        'function internalHelper(): void {}',
+        'interface InternalOptions { debug: boolean }',
+      ].join('\n'),
+    });
+
+    await createPackage('retry-kit', {
+      'src/index.ts': [
+        'export type RetryPolicy = "linear" | "exponential";',
+        'export const DEFAULT_RETRIES: number = 3;',
+        'export async function createServerWithRetry(attempts?: number): Promise<void> {}',
+      ].join('\n'),
+    });
+
+    process.chdir(testDir);
+
+    await scanPackagesTool({ forceRefresh: true, scope: 'all' });
+    // Reading a package extracts its components and indexes them
+    await readPackageTool({ packageName: 'http-kit' });
+    await readPackageTool({ packageName: 'retry-kit' });
+  });
+
+  afterAll(async () => {
+    process.chdir(originalCwd);
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  it('should find a symbol with package, kind, signature and source file', async () => {
+    const result = await searchSymbolsTool({ query: 'createServer' });
+
+    expect(result.success).toBe(true);
+    if (result.type !== 'symbols') throw new Error('Expected symbol results');
+
+    expect(result.indexedPackages).toBe(2);
+    const [first] = result.matches;
+    expect(first).toMatchObject({
+      name: 'createServer',
+      kind: 'function',
+      package: 'http-kit',
+      version: '1.2.3',
+      sourceFile: join('src', 'index.ts'),
+    });
+    expect(first?.signature).toContain('createServer(port: number, host: string = "localhost")');
+  });
+
+  it('should rank exact matches before partial matches across packages', async () => {
+    const result = await searchSymbolsTool({ query: 'createserver' });
+    if (result.type !== 'symbols') throw new Error('Expected symbol results');
+
+    expect(result.matches.map((m) => m.name)).toEqual(['createServer', 'createServerWithRetry']);
+    expect(result.matches[1]?.package).toBe('retry-kit');
+  });
+
+  it('should filter by kind', async () => {
+    const result = await searchSymbolsTool({ query: 'Server', kind: 'interface' });
+    if (result.type !== 'symbols') throw new Error('Expected symbol results');
+
+    expect(result.matches).toHaveLength(1);
+    expect(result.matches[0]?.name).toBe('ServerOptions');
+  });
+
+  it('should hide internal symbols unless requested', async () => {
+    const hidden = await searchSymbolsTool({ query: 'internalHelper' });
+    const shown = await searchSymbolsTool({ query: 'internalHelper', includeInternal: true });
+
+    if (hidden.type !== 'symbols' || shown.type !== 'symbols') {
+      throw new Error('Expected symbol results');
+    }
+    expect(hidden.matches).toHaveLength(0);
+    expect(shown.matches).toHaveLength(1);
+
+    const hiddenInterface = await searchSymbolsTool({ query: 'InternalOptions' });
+    const shownInterface = await searchSymbolsTool({
+      query: 'InternalOptions',
+      includeInternal: true,
+    });
+    if (hiddenInterface.type !== 'symbols' || shownInterface.type !== 'symbols') {
+      throw new Error('Expected symbol results');
+    }
+    expect(hiddenInterface.matches).toHaveLength(0);
+    expect(shownInterface.matches).toHaveLength(1);
+  });
+
+  it('should treat LIKE wildcards in the query literally', async () => {
+    const result = await searchSymbolsTool({ query: '%' });
+    if (result.type !== 'symbols') throw new Error('Expected symbol results');
+
+    expect(result.matches).toHaveLength(0);
+  });
+});
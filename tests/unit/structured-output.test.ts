@@ -0,0 +1,108 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { createServer } from '#server.js';
+import { promises as fs } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { randomBytes } from 'node:crypto';
+
+describe('structured tool output', () => {
+  let testDir: string;
+  let originalCwd: string;
+  let client: Client;
+
+  function text(result: Awaited<ReturnType<Client['callTool']>>): string {
+    const [content] = result.content as Array<{ type: string; text: string }>;
+    return content?.text ?? '';
+  }
+
+  beforeAll(async () => {
+    originalCwd = process.cwd();
+    testDir = join(tmpdir(), `pkg-local-structured-${randomBytes(8).toString('hex')}`);
+    const packageDir = join(testDir, 'node_modules', 'format-kit');
+    await fs.mkdir(packageDir, { recursive: true });
+    await fs.writeFile(
+      join(testDir, 'package.json'),
+      JSON.stringify({ name: 'structured-project', dependencies: { 'format-kit': '^1.2.0' } }),
+    );
+    await fs.writeFile(
+      join(packageDir, 'package.json'),
+      JSON.stringify({ name: 'format-kit', version: '1.2.0', types: 'index.d.ts' }),
+    );
+    await fs.writeFile(
+      join(packageDir, 'index.d.ts'),
+      'export declare function formatBytes(bytes: number): string;\n',
+    );
+
+    process.chdir(testDir);
+
+    const server = createServer();
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    client = new Client({ name: 'structured-test', version: '1.0.0' });
+    await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+  });
+
+  afterAll(async () => {
+    await client.close();
+    process.chdir(originalCwd);
+    await fs.rm(testDir, { recursive: true, force: true }).catch(() => {});
+  });
+
+  it('should declare an output schema for every tool', async () => {
+    const { tools } = await client.listTools();
+
+    for (const tool of tools) {
+      expect(tool.outputSchema?.type).toBe('object');
+    }
+    const scan = tools.find((tool) => tool.name === 'scan-packages');
+    expect(scan?.outputSchema?.properties).toHaveProperty('packages');
+  });
+
+  // The client validates structuredContent against the declared schema on every call
+  it('should return scan results as structured content with a compact text', async () => {
+    const result = await client.callTool({
+      name: 'scan-packages',
+      arguments: { scope: 'project', forceRefresh: true },
+    });
+
+    expect(result.structuredContent).toMatchObject({
+      type: 'packages',
+      success: true,
+      packages: { 'format-kit': { version: '1.2.0', language: 'javascript' } },
+    });
+    expect(text(result)).toBe(
+      [
+        `Environment: npm at ${testDir}`,
+        '1 package:',
+        `- format-kit@1.2.0 ${join('node_modules', 'format-kit')}`,
+      ].join('\n'),
+    );
+  });
+
+  it('should render read and search results as text', async () => {
+    const read = await client.callTool({
+      name: 'read-package',
+      arguments: { packageName: 'format-kit' },
+    });
+    expect(read.structuredContent).toMatchObject({ type: 'tree', version: '1.2.0' });
+    expect(text(read)).toContain('formatBytes');
+    expect(text(read)).toContain('Main files: package.json');
+
+    const symbols = await client.callTool({
+      name: 'search-symbols',
+      arguments: { query: 'formatBytes' },
+    });
+    expect(text(symbols)).toContain('- function formatBytes in format-kit@1.2.0');
+  });
+
+  it('should return error results in the declared shape', async () => {
+    const result = await client.callTool({
+      name: 'read-package',
+      arguments: { packageName: 'missing-kit' },
+    });
+
+    expect(result.structuredContent).toMatchObject({ type: 'error', success: false });
+    expect(text(result)).toMatch(/^Error: Package "missing-kit" not found/);
+  });
+});
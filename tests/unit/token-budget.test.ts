@@ -0,0 +1,122 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { readPackageTool } from '#tools/read-package.js';
+import { budgetOverview, estimateTokens } from '#utils/token-budget.js';
+import { promises as fs } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { randomBytes } from 'node:crypto';
+
+describe('token-budgeted read-package', () => {
+  const FUNCTION_COUNT = 80;
+  let testDir: string;
+  let originalCwd: string;
+
+  beforeAll(async () => {
+    originalCwd = process.cwd();
+    testDir = join(tmpdir(), `pkg-local-budget-${randomBytes(8).toString('hex')}`);
+    const packageDir = join(testDir, 'node_modules', 'huge-sdk');
+    await fs.mkdir(packageDir, { recursive: true });
+
+    const declarations = Array.from(
+      { length: FUNCTION_COUNT },
+      (_, index) =>
+        `/** Send request number ${index} to the service and wait for its response */\n` +
+        `export declare function sendRequest${index}(endpoint: string, payload: Record<string, unknown>): Promise<string>;\n`,
+    );
+    await fs.writeFile(join(packageDir, 'index.d.ts'), declarations.join(''));
+    await fs.writeFile(
+      join(packageDir, 'package.json'),
+      JSON.stringify({
+        name: 'huge-sdk',
+        version: '3.0.0',
+        types: 'index.d.ts',
+        dependencies: { 'tiny-http': '^1.0.0' },
+      }),
+    );
+    await fs.writeFile(
+      join(testDir, 'package.json'),
+      JSON.stringify({ name: 'budget-project', dependencies: { 'huge-sdk': '^3.0.0' } }),
+    );
+
+    process.chdir(testDir);
+  });
+
+  afterAll(async () => {
+    process.chdir(originalCwd);
+    await fs.rm(testDir, { recursive: true, force: true }).catch(() => {});
+  });
+
+  it('should rank package information and exports ahead of components', () => {
+    const overview = [
+      '# kit Overview',
+      '',
+      '## 📦 Package Information',
+      'name: kit',
+      '## 🏗️ Core Components',
+      ...Array.from({ length: 30 }, (_, index) => [
+        `### ${index + 1}. helper${index}`,
+        `purpose: ${'does something useful '.repeat(4)}`,
+      ]).flat(),
+      '## 🔌 Exports',
+      'named_exports:',
+      '  - helper0',
+      '## 🔗 Dependencies',
+      '  - left-pad: ^1.0.0',
+    ].join('\n');
+
+    const page = budgetOverview(overview, 200);
+
+    expect(page.content).toMatch(/Package Information[\s\S]*Exports[\s\S]*Core Components/);
+    expect(page.content).not.toContain('left-pad');
+    expect(page.omitted[0]).toMatch(/^Core Components: helper\d+, .* \(\+\d+ more\)$/);
+    expect(page.omitted).toContain('Dependencies');
+    expect(page.content).toContain(`Call read-package again with cursor "${page.nextCursor}"`);
+  });
+
+  it('should keep the response within maxTokens and page through the rest', async () => {
+    const full = await readPackageTool({ packageName: 'huge-sdk' });
+    expect(full.type).toBe('tree');
+    const fullLines = full.type === 'tree' ? (full.initContent ?? '').split('\n') : [];
+    expect(estimateTokens(fullLines.join('\n'))).toBeGreaterThan(1000);
+
+    const pages: string[] = [];
+    let cursor: string | undefined;
+    do {
+      const page = await readPackageTool({ packageName: 'huge-sdk', maxTokens: 500, cursor });
+      if (page.type !== 'tree') throw new Error(`Unexpected result: ${JSON.stringify(page)}`);
+
+      expect(estimateTokens(JSON.stringify(page.initContent))).toBeLessThanOrEqual(550);
+      if (cursor === undefined) {
+        expect(page.initContent).toContain('## 🔌 Exports');
+        expect(page.omitted).toContainEqual(
+          expect.stringMatching(/^Core Components: sendRequest\d+, .* \(\+\d+ more\)$/),
+        );
+        expect(page.fileTree).toEqual(full.type === 'tree' ? full.fileTree : []);
+      } else {
+        expect(page.fileTree).toEqual([]);
+      }
+
+      pages.push((page.initContent ?? '').split('\n---\nOmitted to fit')[0] ?? '');
+      cursor = page.nextCursor;
+    } while (cursor !== undefined && pages.length < 20);
+
+    expect(pages.length).toBeGreaterThan(2);
+    expect(cursor).toBeUndefined();
+    // Every line of the overview shows up on exactly one page
+    const paged = pages
+      .join('\n')
+      .split('\n')
+      .filter((line) => line.length > 0);
+    expect(paged.sort()).toEqual(fullLines.filter((line) => line.length > 0).sort());
+  });
+
+  it('should reject a cursor that does not belong to the overview', async () => {
+    const result = await readPackageTool({ packageName: 'huge-sdk', cursor: '999999' });
+
+    expect(result).toMatchObject({
+      type: 'error',
+      error: 'Invalid cursor: 999999',
+      suggestion: 'Pass the nextCursor of the previous read-package response',
+    });
+  });
+});
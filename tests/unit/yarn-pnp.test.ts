@@ -0,0 +1,265 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { NodeJSScanner } from '#scanners/nodejs.js';
+import { readPackageTool } from '#tools/read-package.js';
+import { ZipArchive, unpackArchivedPath } from '#utils/zip-archive.js';
+import { promises as fs } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { randomBytes } from 'node:crypto';
+import { deflateRawSync } from 'node:zlib';
+
+/**
+ * Build a ZIP archive the way Yarn lays out its cache: every file deflated under
+ * node_modules/<name>/. `declaredSizes` overrides the uncompressed sizes on record
+ */
+function createZip(
+  files: Record<string, string>,
+  declaredSizes: Record<string, number> = {},
+): Buffer {
+  const locals: Buffer[] = [];
+  const centrals: Buffer[] = [];
+  let offset = 0;
+
+  for (const [name, content] of Object.entries(files)) {
+    const nameBuffer = Buffer.from(name);
+    const data = deflateRawSync(Buffer.from(content));
+    const size = declaredSizes[name] ?? Buffer.byteLength(content);
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(8, 8);
+    local.writeUInt32LE(data.length, 18);
+    local.writeUInt32LE(size, 22);
+    local.writeUInt16LE(nameBuffer.length, 26);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(8, 10);
+    central.writeUInt32LE(data.length, 20);
+    central.writeUInt32LE(size, 24);
+    central.writeUInt16LE(nameBuffer.length, 28);
+    central.writeUInt32LE(offset, 42);
+
+    locals.push(local, nameBuffer, data);
+    centrals.push(central, nameBuffer);
+    offset += local.length + nameBuffer.length + data.length;
+  }
+
+  const directory = Buffer.concat(centrals);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(centrals.length / 2, 8);
+  end.writeUInt16LE(centrals.length / 2, 10);
+  end.writeUInt32LE(directory.length, 12);
+  end.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...locals, directory, end]);
+}
+
+describe("Yarn Plug'n'Play", () => {
+  let testDir: string;
+  let originalCwd: string;
+  const checksum = randomBytes(4).toString('hex');
+  const zipKitArchive = `zip-kit-npm-1.2.0-${checksum}.zip`;
+
+  async function cachePackage(
+    archive: string,
+    name: string,
+    files: Record<string, string>,
+  ): Promise<void> {
+    const entries = Object.fromEntries(
+      Object.entries(files).map(([file, content]) => [`node_modules/${name}/${file}`, content]),
+    );
+    await fs.writeFile(join(testDir, '.yarn', 'cache', archive), createZip(entries));
+  }
+
+  function location(path: string): { packageLocation: string; linkType: 'HARD' } {
+    return { packageLocation: `./${path}/`, linkType: 'HARD' };
+  }
+
+  beforeAll(async () => {
+    originalCwd = process.cwd();
+    testDir = join(tmpdir(), `pkg-local-pnp-${randomBytes(8).toString('hex')}`);
+    await fs.mkdir(join(testDir, '.yarn', 'cache'), { recursive: true });
+
+    await fs.writeFile(
+      join(testDir, 'package.json'),
+      JSON.stringify({
+        name: 'pnp-project',
+        version: '1.0.0',
+        dependencies: { 'zip-kit': '^1.2.0', 'native-lib': '^1.0.0' },
+      }),
+    );
+    await fs.writeFile(join(testDir, 'yarn.lock'), '__metadata:\n  version: 8\n');
+
+    await cachePackage(zipKitArchive, 'zip-kit', {
+      'package.json': JSON.stringify({ name: 'zip-kit', version: '1.2.0', types: 'index.d.ts' }),
+      'index.js': 'exports.compress = function compress(input) {};\n',
+      'index.d.ts': 'export declare function compress(input: Uint8Array): Uint8Array;\n',
+    });
+    await cachePackage('left-pad-npm-1.0.0-aaaa.zip', 'left-pad', {
+      'package.json': JSON.stringify({ name: 'left-pad', version: '1.0.0' }),
+    });
+    await cachePackage('left-pad-npm-2.0.0-bbbb.zip', 'left-pad', {
+      'package.json': JSON.stringify({ name: 'left-pad', version: '2.0.0' }),
+    });
+
+    // Packages with install scripts are unplugged into plain directories
+    const unplugged = '.yarn/unplugged/native-lib-npm-1.0.0-cccc/node_modules/native-lib';
+    await fs.mkdir(join(testDir, unplugged), { recursive: true });
+    await fs.writeFile(
+      join(testDir, unplugged, 'package.json'),
+      JSON.stringify({ name: 'native-lib', version: '1.0.0' }),
+    );
+
+    const rootDependencies = [
+      ['zip-kit', 'npm:1.2.0'],
+      ['native-lib', 'npm:1.0.0'],
+    ];
+    const state = {
+      dependencyTreeRoots: [{ name: 'pnp-project', reference: 'workspace:.' }],
+      packageRegistryData: [
+        [null, [[null, { packageLocation: './', packageDependencies: rootDependencies }]]],
+        [
+          'pnp-project',
+          [['workspace:.', { packageLocation: './', linkType: 'SOFT', packageDependencies: [] }]],
+        ],
+        ['zip-kit', [['npm:1.2.0', location(`.yarn/cache/${zipKitArchive}/node_modules/zip-kit`)]]],
+        [
+          'left-pad',
+          [
+            [
+              'npm:1.0.0',
+              location('.yarn/cache/left-pad-npm-1.0.0-aaaa.zip/node_modules/left-pad'),
+            ],
+            [
+              'npm:2.0.0',
+              location('.yarn/cache/left-pad-npm-2.0.0-bbbb.zip/node_modules/left-pad'),
+            ],
+          ],
+        ],
+        ['native-lib', [['npm:1.0.0', location(unplugged)]]],
+      ],
+    };
+
+    // Yarn 4 inlines the state as a single-quoted string with line continuations
+    const inlined = JSON.stringify(state, null, 2)
+      .replace(/\\/g, '\\\\')
+      .replace(/'/g, "\\'")
+      .replace(/\n/g, '\\\n');
+    await fs.writeFile(
+      join(testDir, '.pnp.cjs'),
+      `#!/usr/bin/env node\n"use strict";\n\nconst RAW_RUNTIME_STATE =\n'${inlined}';\n`,
+    );
+
+    process.chdir(testDir);
+  });
+
+  afterAll(async () => {
+    process.chdir(originalCwd);
+    await fs.rm(testDir, { recursive: true, force: true }).catch(() => {});
+  });
+
+  it('should scan packages from the PnP manifest without node_modules', async () => {
+    const result = await new NodeJSScanner(testDir).scan();
+
+    expect(Object.keys(result.packages ?? {}).sort()).toEqual([
+      'left-pad',
+      'native-lib',
+      'zip-kit',
+    ]);
+    expect(result.packages?.['zip-kit']).toMatchObject({
+      version: '1.2.0',
+      hasTypes: true,
+      location: `.yarn/cache/${zipKitArchive}/node_modules/zip-kit`,
+    });
+    expect(result.packages?.['native-lib']?.version).toBe('1.0.0');
+    expect(result.environment.packageManager).toBe('yarn');
+  });
+
+  it('should prefer the newest copy of a transitive package and record the others', async () => {
+    const result = await new NodeJSScanner(testDir).scan();
+
+    expect(result.packages?.['left-pad']?.version).toBe('2.0.0');
+    expect(result.packages?.['left-pad']?.installations?.map((i) => i.version)).toEqual([
+      '1.0.0',
+      '2.0.0',
+    ]);
+  });
+
+  it('should unpack archived packages when they are located', async () => {
+    const scanner = new NodeJSScanner(testDir);
+    const packagePath = await scanner.getPackageLocation('zip-kit');
+
+    expect(packagePath).toContain(join('archives', zipKitArchive.replace(/\.zip$/, '')));
+    expect(await fs.readFile(join(packagePath ?? '', 'index.d.ts'), 'utf-8')).toContain('compress');
+    expect(await scanner.getPackageVersion('zip-kit')).toBe('1.2.0');
+    expect(await scanner.getPackageLocation('native-lib')).toBe(
+      join(testDir, '.yarn/unplugged/native-lib-npm-1.0.0-cccc/node_modules/native-lib'),
+    );
+  });
+
+  it('should read the API of a package stored in a zip archive', async () => {
+    const result = await readPackageTool({ packageName: 'zip-kit' });
+
+    expect(result.success).toBe(true);
+    if (result.type === 'tree') {
+      expect(result.version).toBe('1.2.0');
+      expect(result.initContent).toContain('compress');
+    }
+  });
+
+  it('should share one unpack between concurrent reads of a package', async () => {
+    const path = join(testDir, '.yarn/cache/left-pad-npm-1.0.0-aaaa.zip/node_modules/left-pad');
+    const unpackDir = join(testDir, 'concurrent');
+
+    const targets = await Promise.all([
+      unpackArchivedPath(path, unpackDir),
+      unpackArchivedPath(path, unpackDir),
+    ]);
+
+    const target = join(unpackDir, 'left-pad-npm-1.0.0-aaaa', 'node_modules/left-pad');
+    expect(targets).toEqual([target, target]);
+    expect(await fs.readFile(join(target, 'package.json'), 'utf-8')).toContain('1.0.0');
+    expect(await fs.readdir(join(unpackDir, 'left-pad-npm-1.0.0-aaaa', 'node_modules'))).toEqual([
+      'left-pad',
+    ]);
+  });
+
+  it('should never unpack entries outside the target directory', async () => {
+    const archivePath = join(testDir, 'evil.zip');
+    await fs.writeFile(archivePath, createZip({ 'pkg/../escaped.txt': 'x', 'pkg/ok.txt': 'ok' }));
+
+    const archive = await ZipArchive.open(archivePath);
+    try {
+      expect(await archive.readText('pkg/ok.txt')).toBe('ok');
+      expect(await archive.unpack('pkg/', join(testDir, 'unpacked'))).toBe(1);
+    } finally {
+      await archive.close();
+    }
+    await expect(fs.access(join(testDir, 'escaped.txt'))).rejects.toThrow();
+  });
+
+  it('should not inflate entries beyond their declared size', async () => {
+    const archivePath = join(testDir, 'bomb.zip');
+    await fs.writeFile(
+      archivePath,
+      createZip(
+        { 'pkg/bomb.txt': '0'.repeat(1024 * 1024), 'pkg/ok.txt': 'ok' },
+        {
+          'pkg/bomb.txt': 16,
+        },
+      ),
+    );
+
+    const archive = await ZipArchive.open(archivePath);
+    try {
+      expect(await archive.readText('pkg/ok.txt')).toBe('ok');
+      await expect(archive.read('pkg/bomb.txt')).rejects.toThrow(
+        'pkg/bomb.txt inflates beyond its declared size of 16 bytes',
+      );
+    } finally {
+      await archive.close();
+    }
+  });
+});
@@ -2,8 +2,8 @@
  * Test utility functions for consistent test environment setup
  */
 import { tmpdir } from 'node:os';
-import { join } from 'node:path';
-import { mkdir, rm, mkdtemp } from 'node:fs/promises';
+import { dirname, join } from 'node:path';
+import { mkdir, rm, mkdtemp, writeFile } from 'node:fs/promises';
 import { existsSync } from 'node:fs';
 
 /**
@@ -91,6 +91,19 @@ export async function cleanupTestDir(
   }
 }
 
+/**
+ * Write files below a directory, creating their parent directories
+ *
+ * @param root - Directory the paths are relative to
+ * @param files - File contents by relative path (e.g., 'node_modules/pkg/package.json')
+ */
+export async function writeFiles(root: string, files: Record<string, string>): Promise<void> {
+  for (const [file, content] of Object.entries(files)) {
+    await mkdir(dirname(join(root, file)), { recursive: true });
+    await writeFile(join(root, file), content);
+  }
+}
+
 /**
  * Create a test context that tracks test state for cleanup
  */
@@ -13,6 +13,8 @@ export default defineConfig({
       '#server': resolve('./src/server.ts'),
       '#scanners': resolve('./src/scanners'),
       '#tools': resolve('./src/tools'),
+      '#resources': resolve('./src/resources'),
+      '#prompts': resolve('./src/prompts'),
       '#utils': resolve('./src/utils'),
       '#adapters': resolve('./src/adapters'),
       '#parsers': resolve('./src/parsers'),